@@ -25,6 +25,9 @@ import Social from "./pages/Social";
 import Learning from "./pages/Learning";
 import Referrals from "./pages/Referrals";
 import Finances from "./pages/Finances";
+import UserProfile from "./pages/UserProfile";
+import Disputes from "./pages/Disputes";
+import Contracts from "./pages/Contracts";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -44,6 +47,9 @@ const App = () => (
           <Route path="/learning" element={<Layout><Learning /></Layout>} />
           <Route path="/referrals" element={<Layout><Referrals /></Layout>} />
           <Route path="/finances" element={<Layout><Finances /></Layout>} />
+          <Route path="/u/:id" element={<Layout><UserProfile /></Layout>} />
+          <Route path="/disputes" element={<Layout><Disputes /></Layout>} />
+          <Route path="/contracts" element={<Layout><Contracts /></Layout>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
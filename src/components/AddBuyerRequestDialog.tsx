@@ -0,0 +1,201 @@
+/**
+ * ADD BUYER REQUEST DIALOG
+ *
+ * Form for buyers to post a "wanted" request for produce they need.
+ * This is the demand-side counterpart to AddListingDialog.
+ *
+ * REQUEST CREATION FLOW:
+ * 1. Buyer clicks "Post a Request" on the Wanted tab in Marketplace
+ * 2. Dialog opens with form fields
+ * 3. Buyer fills: crop name, quantity needed (kg), region, optional max price
+ * 4. On submit → creates record in buyer_requests table with status "active"
+ * 5. Matcher scans active listings and notifies compatible sellers and the buyer
+ * 6. Request appears on the Wanted board for sellers to respond to
+ *
+ * DATABASE INTEGRATION:
+ * - Inserts into: buyer_requests table
+ * - Columns set: buyer_id (auth user), crop_name, quantity_needed, region, max_price
+ * - RLS Policy: Users can only create requests for themselves (buyer_id = auth.uid())
+ */
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { usePopularCrops } from "@/hooks/usePopularCrops";
+import { countMatchingListings } from "@/utils/marketplaceMatching";
+import { Loader2 } from "lucide-react";
+
+interface AddBuyerRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void; // Callback to refresh the Wanted board
+}
+
+const AddBuyerRequestDialog = ({ open, onOpenChange, onSuccess }: AddBuyerRequestDialogProps) => {
+  const { crops: cropOptions } = usePopularCrops();
+
+  // FORM STATE
+  const [loading, setLoading] = useState(false); // Submission in progress
+  const [cropName, setCropName] = useState(""); // Selected crop from dropdown
+  const [quantityNeeded, setQuantityNeeded] = useState(""); // Amount wanted in kg
+  const [region, setRegion] = useState(""); // Where the buyer wants to source from
+  const [maxPrice, setMaxPrice] = useState(""); // Optional price ceiling per kg
+
+  const { toast } = useToast();
+
+  /**
+   * HANDLE SUBMIT
+   * Creates the buyer request and runs the matcher against active listings
+   *
+   * VALIDATION:
+   * - Crop, quantity and region are required; max price is optional
+   * - User must be authenticated
+   *
+   * PROCESS:
+   * 1. Validate form completeness
+   * 2. Insert request into buyer_requests with status "active"
+   * 3. Count compatible listings (the database notifies their sellers)
+   * 4. Tell the buyer how many listings already match
+   * 5. Reset form, close dialog and refresh the board
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!cropName || !quantityNeeded || !region) {
+      toast({
+        title: "Missing fields",
+        description: "Please fill in crop, quantity and region",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // Step 1: Insert request and get the stored row back for matching
+      const { data: request, error } = await supabase
+        .from("buyer_requests")
+        .insert({
+          buyer_id: user.id, // RLS policy validates this matches auth.uid()
+          crop_name: cropName,
+          quantity_needed: parseFloat(quantityNeeded),
+          region: region.trim(),
+          max_price: maxPrice ? parseFloat(maxPrice) : null, // Blank = any price
+          status: "active",
+        })
+        .select("id, buyer_id, crop_name, region, quantity_needed, max_price")
+        .single();
+
+      if (error) throw error;
+
+      // Step 2: Count listings that already satisfy this request (sellers are notified by trigger)
+      const matchCount = await countMatchingListings(request);
+
+      toast({
+        title: "Request posted",
+        description: matchCount > 0
+          ? `${matchCount} listing${matchCount === 1 ? "" : "s"} already match your request`
+          : "We'll notify you when a matching listing appears",
+      });
+
+      // Step 3: Reset form for next use
+      setCropName("");
+      setQuantityNeeded("");
+      setRegion("");
+      setMaxPrice("");
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error("Error creating buyer request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post request",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Post a Wanted Request</DialogTitle>
+          <DialogDescription>Tell sellers what produce you need</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="requestCrop">Crop Name</Label>
+            <Select value={cropName} onValueChange={setCropName} required>
+              <SelectTrigger id="requestCrop">
+                <SelectValue placeholder="Select a crop" />
+              </SelectTrigger>
+              <SelectContent>
+                {cropOptions.map((crop) => (
+                  <SelectItem key={crop} value={crop}>
+                    {crop}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quantityNeeded">Quantity Needed (kg)</Label>
+            <Input
+              id="quantityNeeded"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={quantityNeeded}
+              onChange={(e) => setQuantityNeeded(e.target.value)}
+              placeholder="e.g., 2000"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="region">Region</Label>
+            <Input
+              id="region"
+              value={region}
+              onChange={(e) => setRegion(e.target.value)}
+              placeholder="e.g., Nakuru"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxPrice">Max Price per KG (KES, optional)</Label>
+            <Input
+              id="maxPrice"
+              type="number"
+              step="0.01"
+              min="0"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              placeholder="e.g., 60"
+            />
+          </div>
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading} className="flex-1">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Post Request"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddBuyerRequestDialog;
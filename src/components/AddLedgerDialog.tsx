@@ -4,6 +4,15 @@
  * Form for recording financial transactions (income and expenses) in the farm ledger.
  * Enables farmers to track their financial activities with detailed record-keeping.
  * 
+ * CATEGORY:
+ * Suggested from the item as it is typed (the user's category rules, then the
+ * built-in keywords, see utils/ledgerCategories). Picking a different category
+ * overrides the suggestion, and can be saved as a rule for similar items.
+ * 
+ * PLANTING:
+ * Optionally links the entry to one planting, or splits it across several by
+ * acreage (see PlantingPicker), for per-crop profitability.
+ * 
  * @component
  * @example
  * ```tsx
@@ -15,16 +24,25 @@
  * ```
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { PlantingPicker } from "./PlantingPicker";
+import type { Planting } from "@/utils/cropProfitability";
+import {
+  categoriesFor,
+  normalizeRuleText,
+  suggestCategory,
+  type LedgerCategoryRule,
+} from "@/utils/ledgerCategories";
 
 /**
  * Props for the AddLedgerDialog component
@@ -46,9 +64,68 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
   const [quantity, setQuantity] = useState("");
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [notes, setNotes] = useState("");
+  const [category, setCategory] = useState<string | null>(null); // null follows the suggestion
+  const [rules, setRules] = useState<LedgerCategoryRule[]>([]);
+  const [saveRule, setSaveRule] = useState(false);
+  const [ruleText, setRuleText] = useState("");
+  const [plantings, setPlantings] = useState<Planting[]>([]);
+  const [plantingIds, setPlantingIds] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
+  const suggestedCategory = suggestCategory(type, item, rules);
+  const selectedCategory = category ?? suggestedCategory;
+  const isOverride = category !== null && category !== suggestedCategory;
+
+  // Load the user's category rules and plantings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchRules = async () => {
+      const { data, error } = await supabase
+        .from("ledger_category_rules")
+        .select("id, type, match_text, category, created_at");
+
+      if (error) {
+        console.error("Error fetching category rules:", error);
+        return;
+      }
+      setRules(data || []);
+    };
+
+    const fetchPlantings = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("crops")
+        .select("id, crop_name, planting_date, acreage")
+        .eq("user_id", user.id)
+        .order("planting_date", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching plantings:", error);
+        return;
+      }
+      setPlantings(data || []);
+    };
+
+    fetchRules();
+    fetchPlantings();
+  }, [open]);
+
+  // Categories differ by type, so switching type goes back to the suggestion
+  const handleTypeChange = (value: "income" | "expense") => {
+    setType(value);
+    setCategory(null);
+    setSaveRule(false);
+  };
+
+  const handleCategoryChange = (value: string) => {
+    setCategory(value);
+    if (!ruleText) setRuleText(item.trim());
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -57,7 +134,7 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      const { error } = await supabase.from("ledger").insert({
+      const { data: entry, error } = await supabase.from("ledger").insert({
         user_id: user.id,
         type,
         item,
@@ -65,10 +142,53 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
         quantity: quantity ? parseFloat(quantity) : null,
         date,
         notes: notes || null,
-      });
+        category: selectedCategory,
+        crop_id: plantingIds.length === 1 ? plantingIds[0] : null,
+      }).select("id").single();
 
       if (error) throw error;
 
+      // Split across plantings by acreage
+      if (plantingIds.length > 1) {
+        const { error: splitError } = await supabase.rpc("set_ledger_crops", {
+          p_ledger_id: entry.id,
+          p_crop_ids: plantingIds,
+        });
+
+        if (splitError) {
+          console.error("Error splitting entry across plantings:", splitError);
+          toast({
+            title: "Entry not split",
+            description: splitError.message,
+            variant: "destructive",
+          });
+        }
+      }
+
+      // Remember the override for similar items. A failed rule doesn't
+      // undo the entry, so it only gets its own warning.
+      const matchText = normalizeRuleText(ruleText);
+      if (isOverride && saveRule && matchText.length >= 2) {
+        const { error: ruleError } = await supabase.from("ledger_category_rules").upsert(
+          {
+            user_id: user.id,
+            type,
+            match_text: matchText,
+            category: selectedCategory,
+          },
+          { onConflict: "user_id,type,match_text" }
+        );
+
+        if (ruleError) {
+          console.error("Error saving category rule:", ruleError);
+          toast({
+            title: "Rule not saved",
+            description: ruleError.message,
+            variant: "destructive",
+          });
+        }
+      }
+
       toast({
         title: "Success",
         description: `${type === "income" ? "Income" : "Expense"} added successfully!`,
@@ -78,6 +198,10 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
       setAmount("");
       setQuantity("");
       setNotes("");
+      setCategory(null);
+      setSaveRule(false);
+      setRuleText("");
+      setPlantingIds([]);
       setDate(new Date().toISOString().split('T')[0]);
       onOpenChange(false);
       onSuccess();
@@ -95,7 +219,7 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add Ledger Entry</DialogTitle>
           <DialogDescription>
@@ -105,7 +229,7 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="type">Type *</Label>
-            <Select value={type} onValueChange={(value: "income" | "expense") => setType(value)}>
+            <Select value={type} onValueChange={handleTypeChange}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -125,6 +249,40 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
               required
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="category">Category *</Label>
+            <Select value={selectedCategory} onValueChange={handleCategoryChange}>
+              <SelectTrigger id="category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categoriesFor(type).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                    {option === suggestedCategory && " (suggested)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isOverride && (
+              <div className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Switch id="save-rule" checked={saveRule} onCheckedChange={setSaveRule} />
+                  <Label htmlFor="save-rule" className="text-sm font-normal">
+                    Always use {selectedCategory} for {type === "income" ? "income" : "expenses"} containing
+                  </Label>
+                </div>
+                {saveRule && (
+                  <Input
+                    value={ruleText}
+                    onChange={(e) => setRuleText(e.target.value)}
+                    placeholder="e.g., gas cylinder"
+                    maxLength={60}
+                  />
+                )}
+              </div>
+            )}
+          </div>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="amount">Amount (KES) *</Label>
@@ -150,6 +308,15 @@ const AddLedgerDialog = ({ open, onOpenChange, onSuccess }: AddLedgerDialogProps
               />
             </div>
           </div>
+          <div className="space-y-2">
+            <Label>Planting</Label>
+            <PlantingPicker
+              plantings={plantings}
+              selectedIds={plantingIds}
+              onChange={setPlantingIds}
+              amount={parseFloat(amount) || undefined}
+            />
+          </div>
           <div className="space-y-2">
             <Label htmlFor="date">Date *</Label>
             <Input
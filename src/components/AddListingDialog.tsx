@@ -7,25 +7,43 @@
  * LISTING CREATION FLOW:
  * 1. Seller clicks "List Your Produce" button in Marketplace
  * 2. Dialog opens with form fields
- * 3. Seller fills: crop name, quantity (kg), price per kg, location
- * 4. On submit → creates record in marketplace_listings table
+ * 3. Seller fills: crop name, unit (kg, 90kg bag, crate...), quantity and price in that unit,
+ *    location, optional photos
+ * 4. On submit → photos are uploaded, then a record is created in marketplace_listings
  * 5. Listing appears in marketplace with status "active"
- * 6. Buyers can now see and purchase the listing
+ * 6. Matcher notifies buyers whose "wanted" requests this listing satisfies
+ * 7. Buyers can now see and purchase the listing (or bid on it, for auctions)
  * 
  * KEY FEATURES:
  * - Dynamic crop dropdown (populated from popular crops used by 5+ farmers)
- * - Form validation (all fields required)
+ * - Form validation (all fields required except photos)
+ * - Up to 6 photos, compressed client-side with compressImage() before upload
+ * - Units offered depend on the crop (crates for tomatoes, bunches for bananas)
+ * - Sale type: fixed price, or a sealed-bid auction for bulk lots with a reserve
+ *   price and a duration; the whole lot goes to the highest bid when it ends
+ * - Suggested price range for the crop and location (recent market prices, completed
+ *   orders and competing listings), with a warning when the price is far outside it
  * - Loading state during submission
  * - Success toast notification
  * - Auto-refresh marketplace after successful creation
  * 
  * DATABASE INTEGRATION:
  * - Inserts into: marketplace_listings table
- * - Columns set: seller_id (auth user), crop_name, quantity, price_per_kg, location, status
+ * - Columns set: seller_id (auth user), crop_name, quantity, available_quantity, price_per_kg, location, status,
+ *   unit, image_urls (gallery), image_url (cover photo, first of image_urls),
+ *   sale_type, auction_ends_at (auctions only; price_per_kg is then the reserve price)
+ * - Quantities and price are converted to kg before insert; the set_listing_unit_kg
+ *   trigger records unit_kg from the same conversion table
  * - RLS Policy: Users can only create listings for themselves (seller_id = auth.uid())
+ * - The on_listing_validate_auction trigger rejects auctions that would outlast the crop's shelf life
+ *
+ * STORAGE:
+ * - Uploads to: listing-photos bucket at {seller_id}/{timestamp}-{n}.jpg
+ * - Storage policy only allows writes inside the seller's own folder
+ * - Uploaded photos are removed again if the listing insert fails
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -34,7 +52,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { usePopularCrops } from "@/hooks/usePopularCrops";
-import { Loader2 } from "lucide-react";
+import { useUnits } from "@/hooks/useUnits";
+import { formatPrice, toKg, unitLabel } from "@/utils/units";
+import { countMatchingRequests } from "@/utils/marketplaceMatching";
+import { compressImage } from "@/utils/imageCompression";
+import { AUCTION_DURATIONS } from "@/utils/auctions";
+import { getPriceWarning, getSuggestedPriceRange, type PriceRange } from "@/utils/pricing";
+import { Loader2, ImagePlus, X, AlertTriangle, TrendingUp } from "lucide-react";
+
+// Matches the marketplace_listings_image_urls_check constraint
+const MAX_PHOTOS = 6;
 
 interface AddListingDialogProps {
   open: boolean;
@@ -46,16 +73,113 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
   // CROP OPTIONS - Dynamically populated from get_popular_crops() database function
   // Only shows crops that 5+ farmers have added to dashboard or marketplace
   const { crops: cropOptions } = usePopularCrops();
+  const { unitsForCrop, kgPerUnit } = useUnits();
   
   // FORM STATE
   const [loading, setLoading] = useState(false); // Submission in progress
   const [cropName, setCropName] = useState(""); // Selected crop from dropdown
-  const [quantity, setQuantity] = useState(""); // Amount available in kg
-  const [pricePerKg, setPricePerKg] = useState(""); // Price per kilogram in KES
+  const [unit, setUnit] = useState("kg"); // Unit the seller sells in
+  const [quantity, setQuantity] = useState(""); // Amount available, in unit
+  const [saleType, setSaleType] = useState<"fixed" | "auction">("fixed");
+  const [auctionDays, setAuctionDays] = useState("3"); // Auction length, from AUCTION_DURATIONS
+  const [price, setPrice] = useState(""); // Price per unit in KES (reserve price for auctions)
   const [location, setLocation] = useState(""); // Seller's location
+  const [photos, setPhotos] = useState<File[]>([]); // Compressed photos, in display order
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([]); // Object URLs for thumbnails
+  const [priceRange, setPriceRange] = useState<PriceRange | null>(null); // Suggested price, KES per kg
+  const [priceRangeLoading, setPriceRangeLoading] = useState(false);
   
   const { toast } = useToast();
 
+  /**
+   * PRICE GUIDANCE
+   * Refreshes the suggested range as the crop and location change,
+   * debounced so typing the location doesn't fire a request per keystroke
+   */
+  useEffect(() => {
+    if (!cropName) {
+      setPriceRange(null);
+      return;
+    }
+
+    let stale = false; // Crop or location changed while the request was in flight
+    setPriceRangeLoading(true);
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("get_price_suggestion", {
+        p_crop_name: cropName,
+        p_location: location || undefined,
+      });
+      if (stale) return;
+
+      if (error) {
+        console.error("Error fetching price suggestion:", error);
+        setPriceRange(null);
+      } else {
+        setPriceRange(data?.[0] ? getSuggestedPriceRange(data[0]) : null);
+      }
+      setPriceRangeLoading(false);
+    }, 400);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [cropName, location]);
+
+  // Guidance is per kg; the form works in the selected unit
+  const formUnitKg = kgPerUnit(cropName, unit) ?? 1;
+  const suggestedPrice = priceRange ? Math.round(priceRange.mid * formUnitKg * 100) / 100 : null; // Per unit
+  const priceWarning = priceRange && price ? getPriceWarning(parseFloat(price) / formUnitKg, priceRange) : null;
+
+  /**
+   * HANDLE PHOTO SELECT
+   * Compresses newly picked photos and appends them, up to MAX_PHOTOS
+   */
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter((file) => file.type.startsWith("image/"));
+    e.target.value = ""; // Allow picking the same file again after removing it
+
+    const room = MAX_PHOTOS - photos.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many photos",
+        description: `A listing can have up to ${MAX_PHOTOS} photos`,
+        variant: "destructive",
+      });
+    }
+
+    try {
+      // Listing photos are shown small, so 1280px is plenty
+      const compressed = await Promise.all(
+        files.slice(0, room).map((file) => compressImage(file, 1280, 1280))
+      );
+      setPhotos((prev) => [...prev, ...compressed]);
+      setPhotoPreviews((prev) => [...prev, ...compressed.map((file) => URL.createObjectURL(file))]);
+    } catch (error) {
+      console.error("Error compressing listing photo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to process photo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * HANDLE CROP CHANGE
+   * Falls back to kg if the new crop can't be sold in the selected unit
+   */
+  const handleCropChange = (crop: string) => {
+    setCropName(crop);
+    if (kgPerUnit(crop, unit) === null) setUnit("kg");
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photoPreviews[index]);
+    setPhotos((prev) => prev.filter((_, i) => i !== index));
+    setPhotoPreviews((prev) => prev.filter((_, i) => i !== index));
+  };
+
   /**
    * HANDLE SUBMIT
    * Creates new marketplace listing in database
@@ -67,20 +191,28 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
    * PROCESS:
    * 1. Validate form completeness
    * 2. Get authenticated user ID
-   * 3. Insert listing into marketplace_listings table with status "active"
-   * 4. Show success toast
-   * 5. Reset form fields
-   * 6. Close dialog
-   * 7. Trigger parent refresh to show new listing
+   * 3. Upload photos to listing-photos/{seller_id}/ and collect public URLs
+   * 4. Insert listing into marketplace_listings table with status "active"
+   * 5. Count compatible buyer requests (the database notifies those buyers)
+   * 6. Show success toast
+   * 7. Reset form fields
+   * 8. Close dialog
+   * 9. Trigger parent refresh to show new listing
    * 
    * DATABASE OPERATION:
    * INSERT INTO marketplace_listings (
    *   seller_id,      -- Current authenticated user
    *   crop_name,      -- Selected from popular crops
-   *   quantity,       -- Amount in kg
-   *   price_per_kg,   -- Price in KES
+   *   unit,           -- Unit the seller sells in (unit_kg is set by trigger)
+   *   quantity,       -- Amount in kg (quantity in unit × kg per unit)
+   *   available_quantity, -- Starts equal to quantity, reduced by place_order()
+   *   price_per_kg,   -- Price in KES (price per unit ÷ kg per unit)
    *   location,       -- Seller's location
-   *   status          -- Set to "active" for immediate visibility
+   *   status,         -- Set to "active" for immediate visibility
+   *   sale_type,      -- "fixed" or "auction"
+   *   auction_ends_at, -- Auctions only: when bidding closes
+   *   image_urls,     -- Uploaded photo URLs, in the order the seller picked them
+   *   image_url       -- Cover photo (first photo) for older readers of the column
    * )
    * 
    * RLS SECURITY:
@@ -91,7 +223,7 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
     e.preventDefault();
     
     // VALIDATION: Ensure all required fields are filled
-    if (!cropName || !quantity || !pricePerKg || !location) {
+    if (!cropName || !quantity || !price || !location) {
       toast({
         title: "Missing fields",
         description: "Please fill in all required fields",
@@ -101,40 +233,100 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
     }
 
     setLoading(true);
+    const uploadedPaths: string[] = []; // For cleanup if the insert fails
     try {
       // Step 1: Get authenticated user (required for seller_id)
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      // Step 2: Insert listing into database
-      const { error } = await supabase.from("marketplace_listings").insert({
+      // Step 2: Upload photos into the seller's own folder
+      const imageUrls: string[] = [];
+      for (const [index, photo] of photos.entries()) {
+        const fileName = `${user.id}/${Date.now()}-${index}.jpg`;
+        const { error: uploadError } = await supabase.storage
+          .from("listing-photos")
+          .upload(fileName, photo);
+
+        if (uploadError) throw uploadError;
+        uploadedPaths.push(fileName);
+
+        const { data: { publicUrl } } = supabase.storage
+          .from("listing-photos")
+          .getPublicUrl(fileName);
+
+        imageUrls.push(publicUrl);
+      }
+
+      // Step 3: Insert listing into database, normalized to kg
+      const unitKg = kgPerUnit(cropName, unit) ?? 1;
+      const quantityKg = toKg(parseFloat(quantity), unitKg);
+      const auctionEndsAt = saleType === "auction"
+        ? new Date(Date.now() + Number(auctionDays) * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+      const { data: listing, error } = await supabase.from("marketplace_listings").insert({
         seller_id: user.id, // RLS policy validates this matches auth.uid()
         crop_name: cropName,
-        quantity: parseFloat(quantity), // Convert string to number
-        price_per_kg: parseFloat(pricePerKg), // Convert string to number
+        unit,
+        quantity: quantityKg,
+        available_quantity: quantityKg, // Full stock until orders reserve it
+        price_per_kg: parseFloat(price) / unitKg,
         location,
         status: "active", // Immediately visible in marketplace
-      });
+        image_urls: imageUrls,
+        image_url: imageUrls[0] ?? null, // Cover photo
+        sale_type: saleType,
+        auction_ends_at: auctionEndsAt,
+      })
+        .select("id, seller_id, crop_name, location, price_per_kg")
+        .single();
+
+      // The auction trigger explains end times that don't fit the crop's shelf life
+      if (error) {
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from("listing-photos").remove(uploadedPaths);
+        }
+        toast({
+          title: "Listing Not Created",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
 
-      if (error) throw error;
+      // Step 4: Count buyers waiting for this crop in this region (notified by trigger)
+      const matchCount = await countMatchingRequests(listing);
 
-      // Step 3: Notify user of success
+      // Step 5: Notify user of success
       toast({
         title: "Success!",
-        description: "Your listing has been created",
+        description: matchCount > 0
+          ? `Your listing has been created and matches ${matchCount} buyer request${matchCount === 1 ? "" : "s"}`
+          : "Your listing has been created",
       });
 
-      // Step 4: Reset form for next use
+      // Step 6: Reset form for next use
       setCropName("");
+      setUnit("kg");
       setQuantity("");
-      setPricePerKg("");
+      setPrice("");
+      setSaleType("fixed");
+      setAuctionDays("3");
       setLocation("");
+      photoPreviews.forEach((url) => URL.revokeObjectURL(url));
+      setPhotos([]);
+      setPhotoPreviews([]);
       
-      // Step 5: Close dialog and refresh parent
+      // Step 7: Close dialog and refresh parent
       onOpenChange(false);
       onSuccess(); // Triggers fetchListings() in parent component
     } catch (error) {
       console.error("Error creating listing:", error);
+
+      // Don't leave orphaned photos behind
+      if (uploadedPaths.length > 0) {
+        await supabase.storage.from("listing-photos").remove(uploadedPaths);
+      }
+
       toast({
         title: "Error",
         description: "Failed to create listing",
@@ -147,7 +339,7 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>List Your Produce</DialogTitle>
           <DialogDescription>Add your produce to the marketplace</DialogDescription>
@@ -155,7 +347,7 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="cropName">Crop Name</Label>
-            <Select value={cropName} onValueChange={setCropName} required>
+            <Select value={cropName} onValueChange={handleCropChange} required>
               <SelectTrigger>
                 <SelectValue placeholder="Select a crop" />
               </SelectTrigger>
@@ -169,7 +361,24 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
             </Select>
           </div>
           <div className="space-y-2">
-            <Label htmlFor="quantity">Quantity (kg)</Label>
+            <Label htmlFor="unit">Sold By</Label>
+            <Select value={unit} onValueChange={setUnit}>
+              <SelectTrigger id="unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {unitsForCrop(cropName).map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.code === "kg"
+                      ? "Kilogram"
+                      : `${unitLabel(option.code)} (${option.kgPerUnit}kg)`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quantity">Quantity ({unitLabel(unit, 2)})</Label>
             <Input
               id="quantity"
               type="number"
@@ -181,16 +390,86 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
             />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="price">Price per KG (KES)</Label>
+            <Label htmlFor="saleType">Sale Type</Label>
+            <Select value={saleType} onValueChange={(value) => setSaleType(value as "fixed" | "auction")}>
+              <SelectTrigger id="saleType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Fixed price</SelectItem>
+                <SelectItem value="auction">Sealed-bid auction (whole lot)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {saleType === "auction" && (
+            <div className="space-y-2">
+              <Label htmlFor="auctionDays">Auction Length</Label>
+              <Select value={auctionDays} onValueChange={setAuctionDays}>
+                <SelectTrigger id="auctionDays">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUCTION_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.days} value={String(duration.days)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Buyers bid without seeing each other's bids. The highest bid at or above your reserve buys the whole lot.
+              </p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="price">
+              {saleType === "auction" ? "Reserve Price" : "Price"} per {unit === "kg" ? "KG" : unitLabel(unit)} (KES)
+            </Label>
             <Input
               id="price"
               type="number"
               step="0.01"
-              value={pricePerKg}
-              onChange={(e) => setPricePerKg(e.target.value)}
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
               placeholder="e.g., 85"
               required
             />
+            {priceRangeLoading ? (
+              <p className="text-xs text-muted-foreground">Checking prices...</p>
+            ) : priceRange ? (
+              <div className="p-3 bg-muted rounded-lg space-y-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1 font-medium">
+                    <TrendingUp className="w-4 h-4 text-primary" />
+                    Suggested: {formatPrice(priceRange.low, unit, formUnitKg)} - {formatPrice(priceRange.high, unit, formUnitKg)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPrice(String(suggestedPrice))}
+                  >
+                    Use KES {suggestedPrice?.toLocaleString()}
+                  </Button>
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {priceRange.sources.map((source) => (
+                    <li key={source.label}>
+                      {source.label}: {formatPrice(source.price, unit, formUnitKg)}
+                      {source.scope === "national" && " (national)"}
+                    </li>
+                  ))}
+                </ul>
+                {priceWarning && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                    {priceWarning}
+                  </p>
+                )}
+              </div>
+            ) : cropName ? (
+              <p className="text-xs text-muted-foreground">No recent prices for {cropName} yet</p>
+            ) : null}
           </div>
           <div className="space-y-2">
             <Label htmlFor="location">Location</Label>
@@ -202,6 +481,47 @@ const AddListingDialog = ({ open, onOpenChange, onSuccess }: AddListingDialogPro
               required
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="photos">Photos (optional, up to {MAX_PHOTOS})</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {photoPreviews.map((preview, index) => (
+                <div key={preview} className="relative">
+                  <img
+                    src={preview}
+                    alt={`Listing photo ${index + 1}`}
+                    className="aspect-square w-full rounded-md object-cover"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="secondary"
+                    onClick={() => removePhoto(index)}
+                    className="absolute right-1 top-1 h-6 w-6"
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove photo</span>
+                  </Button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label
+                  htmlFor="photos"
+                  className="flex aspect-square cursor-pointer flex-col items-center justify-center gap-1 rounded-md border border-dashed text-xs text-muted-foreground hover:bg-muted"
+                >
+                  <ImagePlus className="h-5 w-5" />
+                  Add
+                </label>
+              )}
+            </div>
+            <Input
+              id="photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handlePhotoSelect}
+              className="hidden"
+            />
+          </div>
           <div className="flex gap-3 pt-4">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
               Cancel
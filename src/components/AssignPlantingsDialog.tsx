@@ -0,0 +1,101 @@
+/**
+ * ASSIGN PLANTINGS DIALOG
+ *
+ * Links an existing ledger entry to a planting, or splits it across several
+ * plantings by acreage, from the Finances transaction table. Saved through
+ * set_ledger_crops(), which replaces any previous link or split.
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { PlantingPicker } from "./PlantingPicker";
+import type { Planting } from "@/utils/cropProfitability";
+import { Loader2 } from "lucide-react";
+
+interface AssignPlantingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: { id: string; item: string; amount: number };
+  currentIds: string[]; // Planting the entry is linked to, or the plantings it is split across
+  plantings: Planting[];
+  onSaved: () => void;
+}
+
+export const AssignPlantingsDialog = ({
+  open,
+  onOpenChange,
+  entry,
+  currentIds,
+  plantings,
+  onSaved,
+}: AssignPlantingsDialogProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(currentIds);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the entry's current assignment each time the dialog opens
+  useEffect(() => {
+    if (open) setSelectedIds(currentIds);
+  }, [open, currentIds]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await supabase.rpc("set_ledger_crops", {
+      p_ledger_id: entry.id,
+      p_crop_ids: selectedIds,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error assigning plantings:", error);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assign to Plantings</DialogTitle>
+          <DialogDescription>
+            {entry.item} · KES {Number(entry.amount).toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <PlantingPicker
+          plantings={plantings}
+          selectedIds={selectedIds}
+          onChange={setSelectedIds}
+          amount={Number(entry.amount)}
+        />
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
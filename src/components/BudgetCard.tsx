@@ -0,0 +1,193 @@
+/**
+ * BUDGET CARD
+ *
+ * Seasonal budgets on the Finances page, beside the expense comparison: what
+ * was planned per expense category for a season against what has actually
+ * been spent.
+ *
+ * FEATURES:
+ * - Season picker (the current season, the two before it and the next one)
+ * - Budget vs actual chart for the season
+ * - Per budget: % used, variance, and a warning from 80% / overspent from 100%
+ *   (the same thresholds notify the user, see check_budget_alerts())
+ * - Add, edit and delete budgets through BudgetDialog
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Plus, Target } from "lucide-react";
+import { BudgetDialog } from "./BudgetDialog";
+import { getSeason, shiftSeason } from "@/utils/seasons";
+import type { Planting } from "@/utils/cropProfitability";
+import {
+  formatBudgetScope,
+  getBudgetLevel,
+  getBudgetVariance,
+  type BudgetStatus,
+} from "@/utils/budgets";
+
+interface BudgetCardProps {
+  plantings: Planting[];
+  refreshKey?: unknown; // Refetch when this changes, e.g. after ledger entries change
+}
+
+export const BudgetCard = ({ plantings, refreshKey }: BudgetCardProps) => {
+  const currentSeason = getSeason(new Date());
+  const seasonOptions = [-2, -1, 0, 1].map((offset) => shiftSeason(currentSeason, offset));
+
+  const [season, setSeason] = useState(currentSeason.key);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [editing, setEditing] = useState<{ budget: BudgetStatus | null } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchBudgets = async () => {
+      const { data, error } = await supabase.rpc("get_budget_status", { p_season: season });
+
+      if (error) {
+        console.error("Error fetching budgets:", error);
+        return;
+      }
+      setBudgets(data || []);
+    };
+
+    fetchBudgets();
+  }, [season, refreshKey, reloadKey]);
+
+  const totalBudget = budgets.reduce((sum, budget) => sum + Number(budget.amount), 0);
+  const totalSpent = budgets.reduce((sum, budget) => sum + Number(budget.spent), 0);
+  const chartData = budgets.map((budget) => ({
+    name: formatBudgetScope(budget),
+    budget: Number(budget.amount),
+    actual: Number(budget.spent),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="w-5 h-5" />
+              Budget vs Actual
+            </CardTitle>
+            <CardDescription>
+              {budgets.length > 0
+                ? `KES ${totalSpent.toLocaleString()} of KES ${totalBudget.toLocaleString()} spent`
+                : "Plan the season's spend per category"}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={season} onValueChange={setSeason}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {seasonOptions.map((option) => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={() => setEditing({ budget: null })}>
+              <Plus className="w-4 h-4 mr-1" />
+              Budget
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {budgets.length > 0 ? (
+          <>
+            <ResponsiveContainer width="100%" height={Math.max(200, budgets.length * 50)}>
+              <BarChart data={chartData} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  type="number"
+                  stroke="hsl(var(--foreground))"
+                  style={{ fontSize: '12px' }}
+                  tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={120}
+                  stroke="hsl(var(--foreground))"
+                  style={{ fontSize: '12px' }}
+                />
+                <Tooltip
+                  formatter={(value: number) => `KES ${value.toLocaleString()}`}
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                />
+                <Legend />
+                <Bar dataKey="budget" name="Budget" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} />
+                <Bar dataKey="actual" name="Actual" fill="hsl(var(--destructive))" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="space-y-3">
+              {budgets.map((budget) => {
+                const level = getBudgetLevel(Number(budget.spent), Number(budget.amount));
+                const { variance, percentUsed } = getBudgetVariance(budget);
+
+                return (
+                  <button
+                    key={budget.id}
+                    type="button"
+                    className="w-full text-left space-y-1 rounded-md p-2 hover:bg-muted"
+                    onClick={() => setEditing({ budget })}
+                  >
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-medium flex items-center gap-2">
+                        {formatBudgetScope(budget)}
+                        {level === "over" && <Badge variant="destructive">Over budget</Badge>}
+                        {level === "warning" && <Badge variant="secondary">{percentUsed}% used</Badge>}
+                      </span>
+                      <span className="text-muted-foreground">
+                        KES {Number(budget.spent).toLocaleString()} / {Number(budget.amount).toLocaleString()}
+                      </span>
+                    </div>
+                    <Progress value={Math.min(percentUsed, 100)} className="h-2" />
+                    <p className={`text-xs ${variance < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                      {variance < 0
+                        ? `KES ${Math.abs(variance).toLocaleString()} over budget`
+                        : `KES ${variance.toLocaleString()} left`}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <Target className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No budgets for this season</p>
+            <p className="text-sm mt-2">Set a budget per category to track spending against it</p>
+          </div>
+        )}
+      </CardContent>
+
+      {editing && (
+        <BudgetDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          season={season}
+          plantings={plantings}
+          budget={editing.budget}
+          onSaved={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+    </Card>
+  );
+};
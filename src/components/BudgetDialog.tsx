@@ -0,0 +1,203 @@
+/**
+ * BUDGET DIALOG
+ *
+ * Sets or changes a seasonal budget from the Finances budget card: how much
+ * the user plans to spend on one expense category in a season, for the whole
+ * farm or for one planting. Existing budgets can also be removed here.
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { EXPENSE_CATEGORIES } from "@/utils/ledgerCategories";
+import { getSeason, getSeasonByKey } from "@/utils/seasons";
+import { formatPlanting, type Planting } from "@/utils/cropProfitability";
+import type { BudgetStatus } from "@/utils/budgets";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface BudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  season: string; // Season key the budget is for
+  plantings: Planting[];
+  budget: BudgetStatus | null; // Budget being edited, null to add one
+  onSaved: () => void;
+}
+
+export const BudgetDialog = ({ open, onOpenChange, season, plantings, budget, onSaved }: BudgetDialogProps) => {
+  const [category, setCategory] = useState<string>(EXPENSE_CATEGORIES[0]);
+  const [cropId, setCropId] = useState("farm");
+  const [amount, setAmount] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Plantings made in the season (plus the one being edited, if it was moved)
+  const seasonPlantings = plantings.filter(
+    (planting) => getSeason(planting.planting_date).key === season || planting.id === budget?.crop_id
+  );
+
+  // Start from the budget being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setCategory(budget?.category || EXPENSE_CATEGORIES[0]);
+    setCropId(budget?.crop_id || "farm");
+    setAmount(budget ? String(budget.amount) : "");
+  }, [open, budget]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const values = {
+        category,
+        crop_id: cropId === "farm" ? null : cropId,
+        amount: parseFloat(amount),
+      };
+
+      const { error } = budget
+        ? await supabase.from("budgets").update(values).eq("id", budget.id)
+        : await supabase.from("budgets").insert({ ...values, user_id: user.id, season });
+
+      if (error) {
+        // budgets_scope_key: one budget per category, season and planting
+        if (error.code === "23505") {
+          throw new Error(`There is already a ${category} budget for this ${cropId === "farm" ? "season" : "planting"}`);
+        }
+        throw error;
+      }
+
+      toast({ title: budget ? "Budget updated" : "Budget added" });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving budget:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save budget",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!budget) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("budgets").delete().eq("id", budget.id);
+    setSaving(false);
+
+    if (error) {
+      console.error("Error deleting budget:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete budget",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Budget removed" });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{budget ? "Edit Budget" : "Add Budget"}</DialogTitle>
+          <DialogDescription>{getSeasonByKey(season).label}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Category *</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPENSE_CATEGORIES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <Select value={cropId} onValueChange={setCropId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="farm">Whole farm</SelectItem>
+                {seasonPlantings.map((planting) => (
+                  <SelectItem key={planting.id} value={planting.id}>
+                    {formatPlanting(planting)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {cropId === "farm"
+                ? "Counts all expenses in this category dated in the season."
+                : "Counts expenses in this category linked to the planting, including its share of split costs."}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-amount">Budget (KES) *</Label>
+            <Input
+              id="budget-amount"
+              type="number"
+              min="1"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="flex gap-2 justify-between">
+            {budget ? (
+              <Button type="button" variant="ghost" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Budget
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
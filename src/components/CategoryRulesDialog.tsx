@@ -0,0 +1,253 @@
+/**
+ * CATEGORY RULES DIALOG
+ *
+ * Manages the user's ledger category rules ("item contains X -> category Y"),
+ * opened from the Finances page.
+ *
+ * FEATURES:
+ * - Add a rule for income or expenses; adding a rule for text that already has
+ *   one replaces its category
+ * - Optionally apply a new rule to past entries whose item contains the text
+ * - Delete rules no longer wanted (entries keep the category they already have)
+ *
+ * Rules are used when entries are added (AddLedgerDialog) and when marketplace
+ * orders are posted to the ledger (categorize_ledger_item in the database).
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  categoriesFor,
+  normalizeRuleText,
+  type LedgerCategoryRule,
+  type LedgerType,
+} from "@/utils/ledgerCategories";
+import { ArrowRight, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface CategoryRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onEntriesUpdated: () => void; // Called after past entries were recategorized
+}
+
+export const CategoryRulesDialog = ({ open, onOpenChange, onEntriesUpdated }: CategoryRulesDialogProps) => {
+  const [rules, setRules] = useState<LedgerCategoryRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [type, setType] = useState<LedgerType>("expense");
+  const [matchText, setMatchText] = useState("");
+  const [category, setCategory] = useState("");
+  const [applyToPast, setApplyToPast] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchRules = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("ledger_category_rules")
+        .select("id, type, match_text, category, created_at")
+        .order("type")
+        .order("match_text");
+
+      if (error) {
+        console.error("Error fetching category rules:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load category rules",
+          variant: "destructive",
+        });
+      } else {
+        setRules(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchRules();
+  }, [open, toast]);
+
+  const handleTypeChange = (value: LedgerType) => {
+    setType(value);
+    setCategory("");
+  };
+
+  const addRule = async () => {
+    const text = normalizeRuleText(matchText);
+    if (text.length < 2 || !category) return;
+
+    try {
+      setSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // Step 1: Save the rule (same text again just changes its category)
+      const { data: rule, error } = await supabase
+        .from("ledger_category_rules")
+        .upsert(
+          { user_id: user.id, type, match_text: text, category },
+          { onConflict: "user_id,type,match_text" }
+        )
+        .select("id, type, match_text, category, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setRules((prev) => [...prev.filter((existing) => existing.id !== rule.id), rule]);
+
+      // Step 2: Recategorize past entries of this type whose item contains the text
+      let updated = 0;
+      if (applyToPast) {
+        const pattern = `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+        const { data: entries, error: updateError } = await supabase
+          .from("ledger")
+          .update({ category })
+          .eq("user_id", user.id)
+          .eq("type", type)
+          .ilike("item", pattern)
+          .neq("category", category)
+          .select("id");
+
+        if (updateError) throw updateError;
+        updated = entries?.length || 0;
+        if (updated > 0) onEntriesUpdated();
+      }
+
+      toast({
+        title: "Rule saved",
+        description:
+          updated > 0
+            ? `${updated} past ${updated === 1 ? "entry was" : "entries were"} moved to ${category}`
+            : `Items containing "${text}" will be categorized as ${category}`,
+      });
+      setMatchText("");
+    } catch (error) {
+      console.error("Error saving category rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the rule. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    const { error } = await supabase.from("ledger_category_rules").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting category rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the rule",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRules((prev) => prev.filter((rule) => rule.id !== id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Category Rules</DialogTitle>
+          <DialogDescription>
+            Choose the category for items containing some text. Your rules win over the built-in suggestions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New rule */}
+        <div className="rounded-md border p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={type} onValueChange={handleTypeChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="expense">Expense</SelectItem>
+                <SelectItem value="income">Income</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoriesFor(type).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            value={matchText}
+            onChange={(e) => setMatchText(e.target.value)}
+            placeholder="Item contains, e.g. gas cylinder"
+            maxLength={60}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Switch id="apply-to-past" checked={applyToPast} onCheckedChange={setApplyToPast} />
+              <Label htmlFor="apply-to-past" className="text-sm font-normal">
+                Apply to past entries
+              </Label>
+            </div>
+            <Button
+              size="sm"
+              onClick={addRule}
+              disabled={saving || normalizeRuleText(matchText).length < 2 || !category}
+            >
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add Rule
+            </Button>
+          </div>
+        </div>
+
+        {/* Existing rules */}
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No rules yet</p>
+        ) : (
+          <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-2 rounded-md border p-2 pl-3">
+                <div className="flex items-center gap-2 text-sm min-w-0">
+                  <Badge variant="outline" className="capitalize shrink-0">
+                    {rule.type}
+                  </Badge>
+                  <span className="truncate">"{rule.match_text}"</span>
+                  <ArrowRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+                  <span className="font-medium shrink-0">{rule.category}</span>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteRule(rule.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
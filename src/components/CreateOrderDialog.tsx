@@ -6,9 +6,10 @@
  * 
  * ORDER CREATION FLOW:
  * 1. Buyer browses marketplace and clicks "Buy Now" on a listing
- * 2. Dialog opens pre-populated with listing details (crop, price, available quantity)
- * 3. Buyer specifies: quantity to purchase, delivery address, optional notes
- * 4. On submit → creates order record with status "requested"
+ * 2. Dialog opens pre-populated with listing details (crop, price, remaining stock)
+ * 3. Buyer specifies: quantity to purchase (in the listing's unit) and how to receive it
+ *    (farm pickup, market pickup point or delivery; see DeliveryOptions)
+ * 4. On submit → place_order() reserves stock and creates order with status "requested"
  * 5. Seller receives notification of new order request
  * 6. Buyer earns 10 points for creating order
  * 7. Order appears in buyer's "My Purchases" tab
@@ -23,11 +24,14 @@
  * - cancelled: Order cancelled (either party)
  * 
  * VALIDATION:
- * - Quantity must be between 1 and available quantity
- * - Delivery address required
+ * - Quantity must be above zero and within remaining stock (compared in kg)
+ * - Pickups need a future pickup window (and a pickup point for market pickup)
+ * - Delivery needs an address and a distance band
+ * - Stock is re-checked server-side while the listing row is locked
  * 
  * DATABASE INTEGRATION:
- * - Inserts into: orders table
+ * - Calls: place_order() RPC (locks listing, decrements available_quantity, inserts order,
+ *   adds the delivery fee to the amount)
  * - Creates notification for seller
  * - Awards points to buyer via award_points() function
  */
@@ -45,10 +49,19 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { ShoppingCart } from "lucide-react";
 import { createNotification, NotificationTemplates } from "@/utils/notificationHelpers";
+import { toKg, fromKg, unitLabel, formatQuantity, formatPrice } from "@/utils/units";
+import { DeliveryOptions } from "./DeliveryOptions";
+import { useDeliveryOptions } from "@/hooks/useDeliveryOptions";
+import {
+  EMPTY_DELIVERY_CHOICE,
+  calculateDeliveryFee,
+  toDeliveryDetails,
+  validateDeliveryChoice,
+  type DeliveryChoice,
+} from "@/utils/delivery";
 
 interface CreateOrderDialogProps {
   open: boolean;
@@ -57,7 +70,9 @@ interface CreateOrderDialogProps {
   sellerId: string; // Seller user ID for order linkage
   cropName: string; // Display crop name in dialog
   pricePerKg: number; // Price per kg for total calculation
-  availableQuantity: number; // Max quantity buyer can request
+  availableQuantity: number; // Remaining stock in kg, max quantity buyer can request
+  unit?: string; // Unit the listing is sold in (default kg)
+  unitKg?: number; // Weight of one unit in kg
   onOrderCreated?: () => void; // Callback to refresh orders list
 }
 
@@ -69,17 +84,24 @@ export const CreateOrderDialog = ({
   cropName,
   pricePerKg,
   availableQuantity,
+  unit = "kg",
+  unitKg = 1,
   onOrderCreated,
 }: CreateOrderDialogProps) => {
   // FORM STATE
-  const [quantity, setQuantity] = useState<number>(1); // Amount to purchase (kg)
-  const [deliveryAddress, setDeliveryAddress] = useState(""); // Where to ship
-  const [deliveryNotes, setDeliveryNotes] = useState(""); // Optional delivery instructions
+  const [quantity, setQuantity] = useState<number>(1); // Amount to purchase, in unit
+  const [delivery, setDelivery] = useState<DeliveryChoice>(EMPTY_DELIVERY_CHOICE); // Pickup or delivery details
   const [loading, setLoading] = useState(false); // Submission in progress
   const { toast } = useToast();
+  const { pickupPoints, tariffs } = useDeliveryOptions();
 
-  // CALCULATED TOTAL - Updates reactively as quantity changes
-  const totalAmount = quantity * pricePerKg;
+  // CALCULATED TOTAL - Updates reactively as quantity or delivery changes
+  const quantityKg = toKg(quantity, unitKg); // What place_order() reserves
+  const deliveryFee =
+    delivery.method === "delivery"
+      ? calculateDeliveryFee(tariffs.find((tariff) => tariff.id === delivery.tariffId), quantityKg)
+      : 0;
+  const totalAmount = quantityKg * pricePerKg + deliveryFee;
 
   /**
    * HANDLE SUBMIT
@@ -87,13 +109,13 @@ export const CreateOrderDialog = ({
    * 
    * VALIDATION:
    * - Quantity must be > 0 and <= available quantity
-   * - Delivery address required (notes optional)
+   * - Delivery choice complete (validateDeliveryChoice, notes optional)
    * - User must be authenticated
    * 
    * PROCESS:
-   * 1. Validate quantity and delivery address
+   * 1. Validate quantity and delivery choice
    * 2. Get authenticated user (buyer)
-   * 3. Insert order into orders table with status "requested"
+   * 3. Call place_order() to reserve stock and create the "requested" order
    * 4. Award 10 points to buyer for creating order
    * 5. Fetch buyer's name for notification
    * 6. Create notification for seller about new order request
@@ -103,14 +125,13 @@ export const CreateOrderDialog = ({
    * 
    * DATABASE OPERATIONS:
    * 
-   * 1. INSERT INTO orders:
-   *    - listing_id: Links to marketplace listing
-   *    - buyer_id: Current authenticated user
-   *    - seller_id: From listing (seller receiving order)
-   *    - quantity: Amount buyer wants to purchase
-   *    - amount: Total cost (quantity * price_per_kg)
-   *    - status: "requested" (initial state)
-   *    - delivery_details: JSONB with address and notes
+   * 1. CALL place_order():
+   *    - Locks the listing row (SELECT ... FOR UPDATE)
+   *    - Rejects the order if remaining stock is too low
+   *    - Decrements available_quantity, flips status to "sold_out" at zero
+   *    - Inserts the order with buyer_id = auth.uid() and amount priced server-side
+   *    - delivery_details: method, address/pickup point, tariff, pickup window and notes;
+   *      the delivery fee is priced server-side from the tariff and added to amount
    * 
    * 2. CALL award_points():
    *    - Awards 10 points to buyer for creating order
@@ -122,28 +143,29 @@ export const CreateOrderDialog = ({
    *    - Links to listing for context
    * 
    * RLS SECURITY:
-   * - Order RLS policy ensures buyer_id = auth.uid()
-   * - Prevents creating orders on behalf of others
+   * - Orders table has no INSERT policy, place_order() is the only way in
+   * - Buyer is always auth.uid(), preventing orders on behalf of others
    * - Both buyer and seller can view the order (bilateral access)
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // VALIDATION 1: Check quantity is within valid range
-    if (quantity <= 0 || quantity > availableQuantity) {
+    if (quantity <= 0 || quantityKg > availableQuantity) {
       toast({
         title: "Invalid Quantity",
-        description: `Please enter a quantity between 1 and ${availableQuantity}`,
+        description: `Please enter a quantity up to ${formatQuantity(availableQuantity, unit, unitKg)}`,
         variant: "destructive",
       });
       return;
     }
 
-    // VALIDATION 2: Delivery address required for shipping
-    if (!deliveryAddress.trim()) {
+    // VALIDATION 2: Pickup window or delivery address and distance
+    const deliveryError = validateDeliveryChoice(delivery);
+    if (deliveryError) {
       toast({
         title: "Missing Information",
-        description: "Please provide a delivery address",
+        description: deliveryError,
         variant: "destructive",
       });
       return;
@@ -156,21 +178,22 @@ export const CreateOrderDialog = ({
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      // Step 2: Create order record with "requested" status
-      const { error: orderError } = await supabase.from("orders").insert({
-        listing_id: listingId, // Link to marketplace listing
-        buyer_id: user.id, // Current user is buyer
-        seller_id: sellerId, // From listing, user receiving order request
-        quantity, // Amount buyer wants
-        amount: totalAmount, // Total cost calculated above
-        status: "requested", // Initial status, awaiting seller confirmation
-        delivery_details: {
-          address: deliveryAddress, // Where to ship
-          notes: deliveryNotes, // Optional instructions
-        },
+      // Step 2: Reserve stock and create "requested" order atomically
+      // Another buyer may have taken the stock since the listing was loaded
+      const { error: orderError } = await supabase.rpc("place_order", {
+        p_listing_id: listingId,
+        p_quantity: quantityKg,
+        p_delivery_details: toDeliveryDetails(delivery),
       });
 
-      if (orderError) throw orderError;
+      if (orderError) {
+        toast({
+          title: "Order Not Placed",
+          description: orderError.message,
+          variant: "destructive",
+        });
+        return;
+      }
 
       // Step 3: Award points to buyer for creating order
       // Encourages marketplace activity and engagement
@@ -212,8 +235,7 @@ export const CreateOrderDialog = ({
       
       // Step 8: Reset form for potential next order
       setQuantity(1);
-      setDeliveryAddress("");
-      setDeliveryNotes("");
+      setDelivery(EMPTY_DELIVERY_CHOICE);
     } catch (error) {
       console.error("Error creating order:", error);
       toast({
@@ -228,7 +250,7 @@ export const CreateOrderDialog = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ShoppingCart className="h-5 w-5" />
@@ -241,52 +263,46 @@ export const CreateOrderDialog = ({
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="quantity">Quantity (kg)</Label>
+            <Label htmlFor="quantity">Quantity ({unitLabel(unit, 2)})</Label>
             <Input
               id="quantity"
               type="number"
-              min={1}
-              max={availableQuantity}
+              min={unit === "kg" ? 1 : 0.5}
+              step={unit === "kg" ? 1 : 0.5}
+              max={fromKg(availableQuantity, unitKg)}
               value={quantity}
               onChange={(e) => setQuantity(Number(e.target.value))}
               placeholder="Enter quantity"
             />
             <p className="text-xs text-muted-foreground">
-              Available: {availableQuantity}kg
+              In stock: {formatQuantity(availableQuantity, unit, unitKg)}
             </p>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="address">Delivery Address</Label>
-            <Input
-              id="address"
-              value={deliveryAddress}
-              onChange={(e) => setDeliveryAddress(e.target.value)}
-              placeholder="Enter delivery address"
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="notes">Delivery Notes (Optional)</Label>
-            <Textarea
-              id="notes"
-              value={deliveryNotes}
-              onChange={(e) => setDeliveryNotes(e.target.value)}
-              placeholder="Any special instructions..."
-              rows={3}
-            />
-          </div>
+          <DeliveryOptions
+            value={delivery}
+            onChange={setDelivery}
+            pickupPoints={pickupPoints}
+            tariffs={tariffs}
+          />
 
           <div className="p-4 bg-muted rounded-lg space-y-2">
             <div className="flex justify-between text-sm">
-              <span>Price per kg:</span>
-              <span className="font-semibold">KES {pricePerKg}</span>
+              <span>Price:</span>
+              <span className="font-semibold">{formatPrice(pricePerKg, unit, unitKg)}</span>
             </div>
             <div className="flex justify-between text-sm">
               <span>Quantity:</span>
-              <span className="font-semibold">{quantity}kg</span>
+              <span className="font-semibold">{formatQuantity(quantityKg, unit, unitKg)}</span>
             </div>
+            {delivery.method === "delivery" && (
+              <div className="flex justify-between text-sm">
+                <span>Delivery:</span>
+                <span className="font-semibold">
+                  {delivery.tariffId ? `KES ${deliveryFee.toLocaleString()}` : "Choose a distance"}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between text-lg font-bold border-t pt-2">
               <span>Total:</span>
               <span className="text-primary">KES {totalAmount.toLocaleString()}</span>
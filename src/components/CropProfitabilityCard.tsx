@@ -0,0 +1,209 @@
+/**
+ * CROP PROFITABILITY CARD
+ *
+ * Per-planting profit and loss on the Finances page: did each planting make
+ * money, and how do seasons compare?
+ *
+ * FIGURES (per planting):
+ * - Costs: expenses linked to the planting plus its acreage share of split expenses
+ * - Revenue: income linked to it (contract sales are linked automatically)
+ * - Profit and ROI (profit as % of costs)
+ * - Cost per acre, and cost per kg harvested (estimated from the expected
+ *   yield, marked "~", until a harvest is recorded)
+ *
+ * SEASONS:
+ * Plantings are grouped by the season they were planted in (utils/seasons);
+ * the chart and season table compare costs and revenue across seasons.
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Sprout } from "lucide-react";
+import { getSeason } from "@/utils/seasons";
+import {
+  getCropPnl,
+  summarizeBySeason,
+  type CropPnl,
+  type CropProfitability,
+} from "@/utils/cropProfitability";
+
+interface CropProfitabilityCardProps {
+  refreshKey?: unknown; // Refetch when this changes, e.g. after ledger entries change
+}
+
+const formatKes = (value: number | null) => (value === null ? "—" : `KES ${value.toLocaleString()}`);
+
+const ProfitCells = ({ pnl }: { pnl: CropPnl }) => (
+  <>
+    <TableCell className="text-right">{formatKes(pnl.costs)}</TableCell>
+    <TableCell className="text-right">{formatKes(pnl.revenue)}</TableCell>
+    <TableCell className={`text-right font-bold ${pnl.profit >= 0 ? "text-success" : "text-destructive"}`}>
+      {formatKes(pnl.profit)}
+    </TableCell>
+    <TableCell className="text-right">{pnl.roi !== null ? `${pnl.roi}%` : "—"}</TableCell>
+    <TableCell className="text-right">{formatKes(pnl.costPerAcre)}</TableCell>
+    <TableCell className="text-right">
+      {pnl.costPerKg === null ? "—" : `${pnl.costPerKgEstimated ? "~" : ""}KES ${pnl.costPerKg.toLocaleString()}`}
+    </TableCell>
+  </>
+);
+
+export const CropProfitabilityCard = ({ refreshKey }: CropProfitabilityCardProps) => {
+  const [rows, setRows] = useState<CropProfitability[]>([]);
+  const [season, setSeason] = useState("all");
+
+  useEffect(() => {
+    const fetchProfitability = async () => {
+      const { data, error } = await supabase.rpc("get_crop_profitability");
+
+      if (error) {
+        console.error("Error fetching crop profitability:", error);
+        return;
+      }
+      setRows(data || []);
+    };
+
+    fetchProfitability();
+  }, [refreshKey]);
+
+  if (rows.length === 0) return null;
+
+  const seasons = summarizeBySeason(rows);
+  const plantings = season === "all" ? rows : rows.filter((row) => getSeason(row.planting_date).key === season);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Sprout className="w-5 h-5" />
+              Crop Profitability
+            </CardTitle>
+            <CardDescription>Profit and cost of production per planting, compared across seasons</CardDescription>
+          </div>
+          <Select value={season} onValueChange={setSeason}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All seasons</SelectItem>
+              {seasons.map((option) => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Season comparison */}
+        {seasons.length > 1 && (
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={seasons}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="label" stroke="hsl(var(--foreground))" style={{ fontSize: '12px' }} />
+              <YAxis
+                stroke="hsl(var(--foreground))"
+                style={{ fontSize: '12px' }}
+                tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`}
+              />
+              <Tooltip
+                formatter={(value: number) => `KES ${value.toLocaleString()}`}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--background))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px'
+                }}
+              />
+              <Legend />
+              <Bar dataKey="costs" name="Costs" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="revenue" name="Revenue" fill="hsl(142, 76%, 36%)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Season</TableHead>
+                <TableHead className="text-right">Plantings</TableHead>
+                <TableHead className="text-right">Acres</TableHead>
+                <TableHead className="text-right">Costs</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Profit</TableHead>
+                <TableHead className="text-right">ROI</TableHead>
+                <TableHead className="text-right">Cost / Acre</TableHead>
+                <TableHead className="text-right">Cost / Kg</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {seasons.map((row) => (
+                <TableRow key={row.key} className={season === row.key ? "bg-muted/50" : ""}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.plantings}</TableCell>
+                  <TableCell className="text-right">{row.acreage}</TableCell>
+                  <ProfitCells pnl={row} />
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Plantings */}
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Planting</TableHead>
+                <TableHead className="text-right">Acres</TableHead>
+                <TableHead className="text-right">Costs</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Profit</TableHead>
+                <TableHead className="text-right">ROI</TableHead>
+                <TableHead className="text-right">Cost / Acre</TableHead>
+                <TableHead className="text-right">Cost / Kg</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plantings.map((row) => (
+                <TableRow key={row.crop_id}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {row.crop_name}
+                      {row.status !== "active" && (
+                        <Badge variant="outline" className="capitalize">
+                          {row.status}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Planted {format(new Date(`${row.planting_date}T00:00:00`), "MMM d, yyyy")}
+                      {row.harvested_quantity !== null &&
+                        ` · ${Number(row.harvested_quantity).toLocaleString()} kg harvested`}
+                      {Number(row.shared_costs) > 0 && ` · KES ${Number(row.shared_costs).toLocaleString()} shared costs`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.acreage}</TableCell>
+                  <ProfitCells pnl={getCropPnl(row)} />
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Link transactions to plantings from the Planting column below. ~ marks cost per kg estimated from the
+          expected yield until a harvest is recorded.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,154 @@
+/**
+ * DELIVERY OPTIONS
+ *
+ * Delivery fields shared by CreateOrderDialog and MakeOfferDialog: how the buyer
+ * wants to receive the produce and the details each method needs.
+ *
+ * - Farm pickup: pickup day and time window
+ * - Market pickup point: pickup point plus day and time window
+ * - Delivery: address and distance band (sets the delivery fee)
+ * - Notes are optional for every method
+ *
+ * The parent owns the DeliveryChoice state and validates it with
+ * validateDeliveryChoice() before submitting.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <DeliveryOptions value={delivery} onChange={setDelivery} pickupPoints={pickupPoints} tariffs={tariffs} />
+ * ```
+ */
+
+import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DELIVERY_METHODS,
+  PICKUP_SLOTS,
+  type DeliveryChoice,
+  type DeliveryTariff,
+  type PickupPoint,
+} from "@/utils/delivery";
+
+interface DeliveryOptionsProps {
+  value: DeliveryChoice;
+  onChange: (value: DeliveryChoice) => void;
+  pickupPoints: PickupPoint[];
+  tariffs: DeliveryTariff[];
+}
+
+export const DeliveryOptions = ({ value, onChange, pickupPoints, tariffs }: DeliveryOptionsProps) => {
+  const update = (changes: Partial<DeliveryChoice>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="deliveryMethod">How do you want to receive it?</Label>
+        <Select value={value.method} onValueChange={(method) => update({ method })}>
+          <SelectTrigger id="deliveryMethod">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DELIVERY_METHODS).map(([method, label]) => (
+              <SelectItem key={method} value={method}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.method === "delivery" ? (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="address">Delivery Address</Label>
+            <Input
+              id="address"
+              value={value.address}
+              onChange={(e) => update({ address: e.target.value })}
+              placeholder="Enter delivery address"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deliveryTariff">Distance from the Farm</Label>
+            <Select value={value.tariffId} onValueChange={(tariffId) => update({ tariffId })}>
+              <SelectTrigger id="deliveryTariff">
+                <SelectValue placeholder="Choose a distance" />
+              </SelectTrigger>
+              <SelectContent>
+                {tariffs.map((tariff) => (
+                  <SelectItem key={tariff.id} value={tariff.id}>
+                    {tariff.label} · KES {Number(tariff.base_fee).toLocaleString()}
+                    {Number(tariff.fee_per_kg) > 0 && ` + ${tariff.fee_per_kg}/kg`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      ) : (
+        <>
+          {value.method === "market_pickup" && (
+            <div className="space-y-2">
+              <Label htmlFor="pickupPoint">Pickup Point</Label>
+              <Select value={value.pickupPointId} onValueChange={(pickupPointId) => update({ pickupPointId })}>
+                <SelectTrigger id="pickupPoint">
+                  <SelectValue placeholder="Choose a market" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pickupPoints.map((point) => (
+                    <SelectItem key={point.id} value={point.id}>
+                      {point.name}, {point.location}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pickupDate">Pickup Day</Label>
+              <Input
+                id="pickupDate"
+                type="date"
+                min={format(new Date(), "yyyy-MM-dd")}
+                value={value.pickupDate}
+                onChange={(e) => update({ pickupDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pickupSlot">Pickup Time</Label>
+              <Select value={value.pickupSlot} onValueChange={(pickupSlot) => update({ pickupSlot })}>
+                <SelectTrigger id="pickupSlot">
+                  <SelectValue placeholder="Choose a window" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PICKUP_SLOTS).map(([slot, { label }]) => (
+                    <SelectItem key={slot} value={slot}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="notes">Notes (Optional)</Label>
+        <Textarea
+          id="notes"
+          value={value.notes}
+          onChange={(e) => update({ notes: e.target.value })}
+          placeholder="Any special instructions..."
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+/**
+ * DISPUTE DIALOG
+ *
+ * Lets the buyer or seller report a problem with an order: a short delivery,
+ * spoiled produce, a delivery that never arrived, and so on.
+ *
+ * DISPUTE FLOW:
+ * 1. Party clicks "Report a Problem" on a confirmed, in-transit or delivered order
+ * 2. Picks a reason, describes what happened and attaches evidence photos
+ * 3. Chooses the remedy they want (refund, partial refund or redelivery)
+ * 4. On submit → photos are uploaded, then open_dispute() freezes the order
+ *    and any escrowed payment until a resolver rules on it
+ *
+ * STORAGE:
+ * - Evidence goes to the private dispute-evidence bucket under {order_id}/{user_id}/
+ * - Only the order parties and resolvers can read it (signed URLs)
+ */
+
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { compressImage } from "@/utils/imageCompression";
+import { DISPUTE_REASONS, DISPUTE_REMEDIES, MAX_EVIDENCE_PHOTOS } from "@/utils/disputes";
+import { AlertTriangle, ImagePlus, X } from "lucide-react";
+
+interface DisputeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderAmount: number; // Order total in KES, caps a partial refund request
+  onDisputeOpened?: () => void; // Callback to refresh the order
+}
+
+export const DisputeDialog = ({
+  open,
+  onOpenChange,
+  orderId,
+  orderAmount,
+  onDisputeOpened,
+}: DisputeDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [description, setDescription] = useState("");
+  const [remedy, setRemedy] = useState("");
+  const [requestedAmount, setRequestedAmount] = useState(""); // Partial refund only
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter((file) => file.type.startsWith("image/"));
+    e.target.value = "";
+
+    const room = MAX_EVIDENCE_PHOTOS - photos.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many photos",
+        description: `Attach up to ${MAX_EVIDENCE_PHOTOS} photos`,
+        variant: "destructive",
+      });
+    }
+
+    try {
+      // Evidence needs to show detail, so keep it larger than listing photos
+      const compressed = await Promise.all(
+        files.slice(0, room).map((file) => compressImage(file, 1920, 1920))
+      );
+      setPhotos((prev) => [...prev, ...compressed]);
+      setPhotoPreviews((prev) => [...prev, ...compressed.map((file) => URL.createObjectURL(file))]);
+    } catch (error) {
+      console.error("Error compressing evidence photo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to process photo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photoPreviews[index]);
+    setPhotos((prev) => prev.filter((_, i) => i !== index));
+    setPhotoPreviews((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const resetForm = () => {
+    setReason("");
+    setDescription("");
+    setRemedy("");
+    setRequestedAmount("");
+    photoPreviews.forEach((url) => URL.revokeObjectURL(url));
+    setPhotos([]);
+    setPhotoPreviews([]);
+  };
+
+  /**
+   * HANDLE SUBMIT
+   * Uploads evidence and opens the dispute
+   *
+   * PROCESS:
+   * 1. Validate reason, description (10+ characters), remedy and partial amount
+   * 2. Upload photos to dispute-evidence/{order_id}/{user_id}/
+   * 3. Call open_dispute() (freezes the order, notifies the other party and resolvers)
+   * 4. Remove uploaded photos again if the dispute could not be opened
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason || !remedy || description.trim().length < 10) {
+      toast({
+        title: "Missing details",
+        description: "Choose a reason and remedy, and describe the problem in at least 10 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amount = parseFloat(requestedAmount);
+    if (remedy === "partial_refund" && !(amount > 0 && amount < orderAmount)) {
+      toast({
+        title: "Invalid amount",
+        description: `Enter a refund between KES 1 and KES ${orderAmount.toLocaleString()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    const uploadedPaths: string[] = [];
+    try {
+      // Step 1: Get authenticated user for the upload folder
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // Step 2: Upload evidence photos
+      for (const [index, photo] of photos.entries()) {
+        const fileName = `${orderId}/${user.id}/${Date.now()}-${index}.jpg`;
+        const { error: uploadError } = await supabase.storage
+          .from("dispute-evidence")
+          .upload(fileName, photo);
+
+        if (uploadError) throw uploadError;
+        uploadedPaths.push(fileName);
+      }
+
+      // Step 3: Open the dispute, freezing the order
+      const { error } = await supabase.rpc("open_dispute", {
+        p_order_id: orderId,
+        p_reason: reason,
+        p_description: description.trim(),
+        p_requested_remedy: remedy,
+        p_requested_amount: remedy === "partial_refund" ? amount : undefined,
+        p_evidence_paths: uploadedPaths,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Dispute Opened",
+        description: "The order and any payment in escrow are on hold until a resolver rules on it",
+      });
+
+      resetForm();
+      onOpenChange(false);
+      onDisputeOpened?.();
+    } catch (error) {
+      console.error("Error opening dispute:", error);
+
+      if (uploadedPaths.length > 0) {
+        await supabase.storage.from("dispute-evidence").remove(uploadedPaths);
+      }
+
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open dispute",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Report a Problem
+          </DialogTitle>
+          <DialogDescription>
+            The order and any payment in escrow will be frozen until a resolver reviews your case
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="disputeReason">What went wrong?</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger id="disputeReason">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DISPUTE_REASONS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="disputeDescription">Details</Label>
+            <Textarea
+              id="disputeDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Only 6 of the 10 bags arrived"
+              maxLength={2000}
+              rows={4}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Evidence Photos (optional)</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {photoPreviews.map((preview, index) => (
+                <div key={preview} className="relative aspect-square">
+                  <img src={preview} alt={`Evidence ${index + 1}`} className="w-full h-full object-cover rounded-md" />
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(index)}
+                    className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_EVIDENCE_PHOTOS && (
+                <label className="aspect-square flex flex-col items-center justify-center gap-1 border-2 border-dashed rounded-md cursor-pointer text-muted-foreground hover:bg-muted">
+                  <ImagePlus className="h-5 w-5" />
+                  <span className="text-xs">Add</span>
+                  <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotoSelect} />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="disputeRemedy">What would resolve it?</Label>
+            <Select value={remedy} onValueChange={setRemedy}>
+              <SelectTrigger id="disputeRemedy">
+                <SelectValue placeholder="Choose a remedy" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DISPUTE_REMEDIES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {remedy === "partial_refund" && (
+            <div className="space-y-2">
+              <Label htmlFor="disputeAmount">Refund Amount (KES)</Label>
+              <Input
+                id="disputeAmount"
+                type="number"
+                min="1"
+                max={orderAmount - 1}
+                value={requestedAmount}
+                onChange={(e) => setRequestedAmount(e.target.value)}
+                placeholder={`Less than ${orderAmount.toLocaleString()}`}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={loading}>
+              {loading ? "Submitting..." : "Open Dispute"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * DISPUTE PANEL
+ *
+ * Shows the latest dispute on an order inside OrderCard: who opened it, the
+ * reason and requested remedy, evidence photos and, once ruled on, the
+ * resolver's decision. The party who opened an open dispute can withdraw it.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <DisputePanel dispute={dispute} isOpener={dispute.opened_by === userId} onChange={refresh} />
+ * ```
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { DISPUTE_REASONS, DISPUTE_REMEDIES, DISPUTE_RESOLUTIONS, getEvidenceUrls } from "@/utils/disputes";
+import { AlertTriangle, Scale } from "lucide-react";
+
+/**
+ * Dispute Interface
+ * Latest disputes row for the order
+ */
+export interface Dispute {
+  id: string;
+  opened_by: string;
+  reason: string;
+  description: string;
+  evidence_paths: string[];
+  requested_remedy: string;
+  requested_amount: number | null;
+  status: string; // open, resolved, withdrawn
+  resolution: string | null;
+  refund_amount: number | null;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+interface DisputePanelProps {
+  dispute: Dispute;
+  isOpener: boolean; // Viewer opened the dispute and may withdraw it
+  onChange?: () => void; // Callback after a withdrawal
+}
+
+export const DisputePanel = ({ dispute, isOpener, onChange }: DisputePanelProps) => {
+  const [evidenceUrls, setEvidenceUrls] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getEvidenceUrls(dispute.evidence_paths).then(setEvidenceUrls);
+  }, [dispute.id, dispute.evidence_paths]);
+
+  const withdraw = async () => {
+    try {
+      setLoading(true);
+      const { error } = await supabase.rpc("withdraw_dispute", { p_dispute_id: dispute.id });
+
+      if (error) {
+        toast({
+          title: "Could not withdraw dispute",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Dispute Withdrawn",
+        description: "The order has been returned to its previous status",
+      });
+      onChange?.();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-destructive/30 bg-destructive/5 space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+          {DISPUTE_REASONS[dispute.reason] || dispute.reason}
+        </p>
+        <Badge variant={dispute.status === "open" ? "destructive" : "outline"}>{dispute.status}</Badge>
+      </div>
+
+      <p className="text-muted-foreground">{dispute.description}</p>
+
+      <p className="text-xs text-muted-foreground">
+        {isOpener ? "You" : "The other party"} asked for: {DISPUTE_REMEDIES[dispute.requested_remedy]}
+        {dispute.requested_amount !== null && ` (KES ${dispute.requested_amount.toLocaleString()})`}
+        {" · "}
+        {new Date(dispute.created_at).toLocaleString()}
+      </p>
+
+      {evidenceUrls.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {evidenceUrls.map((url, index) => (
+            <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+              <img src={url} alt={`Evidence ${index + 1}`} className="h-16 w-16 object-cover rounded-md" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {dispute.status === "resolved" && dispute.resolution && (
+        <div className="flex gap-2 pt-2 border-t">
+          <Scale className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">
+              {DISPUTE_RESOLUTIONS[dispute.resolution]}
+              {dispute.resolution === "partial_refund" && dispute.refund_amount !== null &&
+                ` (KES ${dispute.refund_amount.toLocaleString()})`}
+            </p>
+            {dispute.resolution_note && (
+              <p className="text-muted-foreground italic">"{dispute.resolution_note}"</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {dispute.status === "open" && (
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <p className="text-xs text-muted-foreground">
+            The order and any escrowed payment are on hold until a resolver rules.
+          </p>
+          {isOpener && (
+            <Button size="sm" variant="outline" onClick={withdraw} disabled={loading}>
+              Withdraw
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,510 @@
+/**
+ * IMPORT LEDGER DIALOG
+ *
+ * Wizard on the Finances page for bringing many transactions into the ledger
+ * at once instead of entering them one by one.
+ *
+ * STEPS:
+ * 1. Source: upload a CSV/text file or paste text copied from an M-Pesa PDF
+ *    statement. M-Pesa statements are recognised automatically.
+ * 2. Columns (generic CSV only): map the file's columns to date, description
+ *    and amount (signed, or separate money in / money out columns).
+ * 3. Preview: every transaction with its suggested category (the user's rules,
+ *    then the built-in keywords) and duplicate checks against the ledger.
+ *    Duplicates start unticked; anything can be ticked, unticked or recategorized.
+ *
+ * Parsing and duplicate rules live in utils/ledgerImport.
+ */
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { categoriesFor, suggestCategory } from "@/utils/ledgerCategories";
+import {
+  findDuplicates,
+  guessColumnMapping,
+  isMpesaStatement,
+  mapCsvRows,
+  parseCsv,
+  parseMpesaStatement,
+  type ColumnMapping,
+  type DuplicateMatch,
+  type ExistingLedgerRow,
+  type ImportedTransaction,
+  type ParsedStatement,
+} from "@/utils/ledgerImport";
+import type { LedgerType } from "@/utils/ledgerCategories";
+import { ArrowLeft, FileUp, Loader2 } from "lucide-react";
+
+interface ImportLedgerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+/**
+ * A transaction in the preview
+ * @interface PreviewRow
+ */
+interface PreviewRow extends ImportedTransaction {
+  category: string;
+  duplicate: DuplicateMatch;
+  selected: boolean;
+}
+
+// Fields the user maps for a generic CSV
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: "date", label: "Date *" },
+  { key: "item", label: "Description *" },
+  { key: "amount", label: "Amount" },
+  { key: "moneyIn", label: "Money in" },
+  { key: "moneyOut", label: "Money out" },
+  { key: "type", label: "Type (income/expense)" },
+  { key: "quantity", label: "Quantity" },
+  { key: "notes", label: "Notes" },
+];
+
+const INSERT_BATCH_SIZE = 500;
+const EXISTING_PAGE_SIZE = 1000; // PostgREST returns at most 1000 rows per request
+
+// The user's ledger rows between two dates, fetched page by page so a busy
+// statement period is checked in full
+const fetchExistingRows = async (userId: string, from: string, to: string) => {
+  const rows: ExistingLedgerRow[] = [];
+
+  for (let offset = 0; ; offset += EXISTING_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("ledger")
+      .select("date, type, item, amount, import_ref")
+      .eq("user_id", userId)
+      .gte("date", from)
+      .lte("date", to)
+      .order("id")
+      .range(offset, offset + EXISTING_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < EXISTING_PAGE_SIZE) return rows;
+  }
+};
+
+export const ImportLedgerDialog = ({ open, onOpenChange, onSuccess }: ImportLedgerDialogProps) => {
+  const [step, setStep] = useState<"source" | "columns" | "preview">("source");
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [positiveType, setPositiveType] = useState<LedgerType>("expense");
+  const [sourceLabel, setSourceLabel] = useState("");
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const headers = csvRows[0] || [];
+  const selectedCount = rows.filter((row) => row.selected).length;
+  const duplicateCount = rows.filter((row) => row.duplicate).length;
+
+  const reset = () => {
+    setStep("source");
+    setText("");
+    setFileName(null);
+    setCsvRows([]);
+    setMapping(null);
+    setRows([]);
+    setSkipped(0);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setText(await file.text());
+    setFileName(file.name);
+  };
+
+  // Step 3 setup: categorize and check the transactions against the ledger
+  const buildPreview = async (parsed: ParsedStatement, label: string) => {
+    if (parsed.transactions.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: "No transactions could be read. Check the file or the column mapping.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setWorking(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const dates = parsed.transactions.map((transaction) => transaction.date).sort();
+      const [existing, { data: rules, error: rulesError }] = await Promise.all([
+        fetchExistingRows(user.id, dates[0], dates[dates.length - 1]),
+        supabase.from("ledger_category_rules").select("id, type, match_text, category, created_at"),
+      ]);
+
+      if (rulesError) throw rulesError;
+
+      const duplicates = findDuplicates(parsed.transactions, existing);
+
+      setRows(
+        parsed.transactions.map((transaction, index) => ({
+          ...transaction,
+          category: suggestCategory(transaction.type, transaction.item, rules || []),
+          duplicate: duplicates[index],
+          selected: duplicates[index] === null,
+        }))
+      );
+      setSkipped(parsed.skipped);
+      setSourceLabel(label);
+      setStep("preview");
+    } catch (error) {
+      console.error("Error preparing import:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check the transactions against your ledger",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Step 1 -> 2 (generic CSV) or straight to 3 (M-Pesa)
+  const handleContinue = () => {
+    if (isMpesaStatement(text)) {
+      buildPreview(parseMpesaStatement(text), "M-Pesa statement");
+      return;
+    }
+
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      toast({
+        title: "Unrecognised file",
+        description: "Upload a CSV with a header row, or paste an M-Pesa statement.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCsvRows(parsed);
+    setMapping(guessColumnMapping(parsed[0]));
+    setStep("columns");
+  };
+
+  const mappingReady =
+    mapping !== null &&
+    mapping.date !== null &&
+    mapping.item !== null &&
+    (mapping.amount !== null || mapping.moneyIn !== null || mapping.moneyOut !== null);
+
+  const updateRow = (index: number, changes: Partial<PreviewRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleImport = async () => {
+    try {
+      setWorking(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const records = rows
+        .filter((row) => row.selected)
+        .map((row) => ({
+          user_id: user.id,
+          type: row.type,
+          item: row.item,
+          amount: row.amount,
+          quantity: row.quantity,
+          date: row.date,
+          notes: row.notes,
+          category: row.category,
+          import_ref: row.importRef,
+        }));
+
+      // Rows already imported under the same reference are skipped, not duplicated,
+      // and left out of the returned rows
+      let added = 0;
+      for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from("ledger")
+          .upsert(records.slice(i, i + INSERT_BATCH_SIZE), {
+            onConflict: "user_id,import_ref",
+            ignoreDuplicates: true,
+          })
+          .select("id");
+
+        if (error) throw error;
+        added += data?.length ?? 0;
+      }
+
+      const skipped = records.length - added;
+
+      toast({
+        title: "Import complete",
+        description:
+          `${added} transaction${added === 1 ? "" : "s"} added to your ledger` +
+          (skipped > 0 ? `, ${skipped} already there` : ""),
+      });
+      handleOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to import transactions. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === "source" && "Upload a CSV or an M-Pesa statement"}
+            {step === "columns" && "Tell us which column holds what"}
+            {step === "preview" && `${sourceLabel} · review before importing`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: Source */}
+        {step === "source" && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 cursor-pointer text-muted-foreground hover:bg-muted">
+              <FileUp className="w-8 h-8" />
+              <span className="text-sm">{fileName || "Choose a CSV or text file"}</span>
+              <input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={handleFileSelect}
+              />
+            </label>
+            <div className="space-y-2">
+              <Label htmlFor="import-text">Or paste the statement</Label>
+              <Textarea
+                id="import-text"
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setFileName(null);
+                }}
+                placeholder="Paste CSV rows, or select all the text in an M-Pesa PDF statement and paste it here"
+                rows={6}
+                className="font-mono text-xs"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleContinue} disabled={!text.trim() || working}>
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Continue
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 2: Column mapping */}
+        {step === "columns" && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-sm">{field.label}</Label>
+                  <Select
+                    value={mapping[field.key] === null ? "none" : String(mapping[field.key])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key]: value === "none" ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in file</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {mapping.amount !== null && mapping.type === null && (
+              <div className="space-y-1">
+                <Label className="text-sm">Positive amounts are</Label>
+                <Select value={positiveType} onValueChange={(value: LedgerType) => setPositiveType(value)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expenses</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Negative amounts are always expenses.</p>
+              </div>
+            )}
+
+            {/* First rows of the file, to check the mapping against */}
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {headers.map((header, index) => (
+                      <TableHead key={index} className="whitespace-nowrap">
+                        {header || `Column ${index + 1}`}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {csvRows.slice(1, 4).map((cells, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {headers.map((_, index) => (
+                        <TableCell key={index} className="whitespace-nowrap text-xs">
+                          {cells[index]}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("source")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={() => buildPreview(mapCsvRows(csvRows.slice(1), mapping, positiveType), fileName || "CSV")}
+                disabled={!mappingReady || working}
+              >
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{rows.length} read</Badge>
+              {duplicateCount > 0 && <Badge variant="secondary">{duplicateCount} already in ledger</Badge>}
+              {skipped > 0 && <Badge variant="outline">{skipped} rows skipped</Badge>}
+            </div>
+
+            <div className="rounded-md border max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={rows.length > 0 && selectedCount === rows.length}
+                        onCheckedChange={(checked) =>
+                          setRows((prev) => prev.map((row) => ({ ...row, selected: checked === true })))
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index} className={row.selected ? "" : "opacity-60"}>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.selected}
+                          onCheckedChange={(checked) => updateRow(index, { selected: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(`${row.date}T00:00:00`), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="max-w-xs truncate">{row.item}</div>
+                        {row.duplicate && (
+                          <Badge variant={row.duplicate === "exact" ? "secondary" : "outline"} className="mt-1 text-xs">
+                            {row.duplicate === "exact" ? "Already in ledger" : "Possible duplicate"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select value={row.category} onValueChange={(value) => updateRow(index, { category: value })}>
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categoriesFor(row.type).map((category) => (
+                              <SelectItem key={category} value={category}>
+                                {category}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-bold whitespace-nowrap ${
+                          row.type === "income" ? "text-success" : "text-destructive"
+                        }`}
+                      >
+                        {row.type === "income" ? "+" : "-"}KES {row.amount.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep(csvRows.length > 0 ? "columns" : "source")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={selectedCount === 0 || working}>
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {selectedCount} transaction{selectedCount === 1 ? "" : "s"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
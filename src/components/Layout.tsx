@@ -19,7 +19,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { User, Session } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Home, TrendingUp, Store, Users, LogOut, Sprout, Trophy, ShoppingBag, UserPlus } from "lucide-react";
+import { Home, TrendingUp, Store, Users, LogOut, Sprout, Trophy, ShoppingBag, UserPlus, Scale } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationCenter } from "./NotificationCenter";
 import { UserStatsDisplay } from "./UserStatsDisplay";
@@ -41,6 +41,7 @@ const Layout = ({ children }: LayoutProps) => {
   const [loading, setLoading] = useState(true);
   const [unreadNotifications, setUnreadNotifications] = useState(0);
   const [pendingOrders, setPendingOrders] = useState(0);
+  const [isResolver, setIsResolver] = useState(false); // Can rule on order disputes
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
@@ -100,6 +101,15 @@ const Layout = ({ children }: LayoutProps) => {
 
     fetchNotificationCounts();
 
+    // Resolvers get a link to the dispute queue
+    supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "resolver")
+      .maybeSingle()
+      .then(({ data }) => setIsResolver(!!data));
+
     // Subscribe to realtime updates
     const notificationsChannel = supabase
       .channel("notifications_count")
@@ -148,6 +158,7 @@ const Layout = ({ children }: LayoutProps) => {
     { path: "/market-intel", label: "Market Intel", icon: TrendingUp },
     { path: "/marketplace", label: "Marketplace", icon: Store },
     { path: "/social", label: "Social", icon: Users },
+    ...(isResolver ? [{ path: "/disputes", label: "Disputes", icon: Scale }] : []),
   ];
 
   const isActive = (path: string) => location.pathname === path;
@@ -230,7 +241,7 @@ const Layout = ({ children }: LayoutProps) => {
       <NotificationPermissionPrompt />
 
       <nav className="md:hidden fixed bottom-0 left-0 right-0 border-t bg-card shadow-lg z-50">
-        <div className="grid grid-cols-4 gap-1 p-2">
+        <div className={`grid ${isResolver ? "grid-cols-5" : "grid-cols-4"} gap-1 p-2`}>
           {navItems.map((item) => (
             <Link key={item.path} to={item.path}>
               <Button
@@ -0,0 +1,185 @@
+/**
+ * LISTING DETAILS DIALOG
+ *
+ * Full view of a marketplace listing, opened by clicking its name in Browse.
+ * Shows the photos at full width with the seller, stock, price and timing,
+ * and the same actions as the listing card.
+ *
+ * Opening it counts as a detail view in the seller's listing analytics
+ * (recorded by the Marketplace page, see utils/listingAnalytics).
+ */
+
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ListingGallery } from "./ListingGallery";
+import { formatPrice, formatQuantity } from "@/utils/units";
+import { formatTimeLeft, isAuctionOpen } from "@/utils/auctions";
+import { Gavel, HandCoins, MapPin, MessageCircle, ShoppingCart, Star } from "lucide-react";
+
+/**
+ * Listing fields shown in the dialog (a search_listings row)
+ * @interface ListingDetails
+ */
+interface ListingDetails {
+  id: string;
+  crop_name: string;
+  quantity: number;
+  available_quantity: number;
+  price_per_kg: number;
+  location: string;
+  seller_id: string;
+  image_urls: string[];
+  unit: string;
+  unit_kg: number;
+  seller_name: string | null;
+  seller_rating: number;
+  seller_review_count: number;
+  sale_type: string;
+  auction_ends_at: string | null;
+  created_at: string;
+}
+
+interface ListingDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listing: ListingDetails;
+  isOwnListing: boolean; // Sellers see the details without buying actions
+  myBidPerKg?: number | null; // Buyer's open bid on an auction lot
+  onBuy: () => void;
+  onOffer: () => void;
+  onBid: () => void;
+  onContact: () => void;
+}
+
+export const ListingDetailsDialog = ({
+  open,
+  onOpenChange,
+  listing,
+  isOwnListing,
+  myBidPerKg = null,
+  onBuy,
+  onOffer,
+  onBid,
+  onContact,
+}: ListingDetailsDialogProps) => {
+  const isAuction = listing.sale_type === "auction";
+
+  // Close this dialog before handing over to the action's own dialog
+  const runAction = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {listing.crop_name}
+            {isAuction && (
+              <Badge variant="outline" className="gap-1">
+                <Gavel className="w-3 h-3" />
+                Auction
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Listed {formatDistanceToNow(new Date(listing.created_at), { addSuffix: true })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ListingGallery images={listing.image_urls} cropName={listing.crop_name} />
+
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            <span>
+              Seller:{" "}
+              <Link to={`/u/${listing.seller_id}`} className="hover:underline hover:text-foreground">
+                {listing.seller_name || "Farmer"}
+              </Link>
+            </span>
+            {listing.seller_review_count > 0 && (
+              <span className="flex items-center gap-1">
+                <Star className="w-3 h-3 fill-current" />
+                {listing.seller_rating} ({listing.seller_review_count})
+              </span>
+            )}
+            <span className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              {listing.location}
+            </span>
+          </div>
+
+          <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>{isAuction ? "Lot" : "In stock"}:</span>
+              <span className="font-semibold">
+                {formatQuantity(listing.available_quantity, listing.unit, listing.unit_kg)}
+                {!isAuction && listing.available_quantity < listing.quantity && (
+                  <span className="font-normal text-muted-foreground">
+                    {" "}of {formatQuantity(listing.quantity, listing.unit, listing.unit_kg)}
+                  </span>
+                )}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>{isAuction ? "Reserve price" : "Price"}:</span>
+              <span className="font-semibold text-primary">
+                {formatPrice(listing.price_per_kg, listing.unit, listing.unit_kg)}
+              </span>
+            </div>
+            {isAuction && listing.auction_ends_at && (
+              <div className="flex justify-between">
+                <span>Bidding:</span>
+                <span className="font-semibold">
+                  {isAuctionOpen(listing) ? `ends in ${formatTimeLeft(listing.auction_ends_at)}` : "closing"}
+                </span>
+              </div>
+            )}
+            {myBidPerKg && (
+              <div className="flex justify-between">
+                <span>Your bid:</span>
+                <span className="font-semibold">{formatPrice(myBidPerKg, listing.unit, listing.unit_kg)}</span>
+              </div>
+            )}
+          </div>
+
+          {!isOwnListing && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              {isAuction ? (
+                <Button onClick={() => runAction(onBid)} disabled={!isAuctionOpen(listing)} className="flex-1 gap-2">
+                  <Gavel className="w-4 h-4" />
+                  {myBidPerKg ? "Update Bid" : "Place Bid"}
+                </Button>
+              ) : (
+                <>
+                  <Button onClick={() => runAction(onBuy)} className="flex-1 gap-2">
+                    <ShoppingCart className="w-4 h-4" />
+                    Buy Now
+                  </Button>
+                  <Button variant="outline" onClick={() => runAction(onOffer)} className="flex-1 gap-2">
+                    <HandCoins className="w-4 h-4" />
+                    Make Offer
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" onClick={() => runAction(onContact)} className="flex-1 gap-2">
+                <MessageCircle className="w-4 h-4" />
+                Contact
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * LISTING FILTER BAR
+ *
+ * Search, filter and sort controls for the Browse tab in Marketplace.
+ * This component only holds the controls; Marketplace passes the values
+ * to the search_listings RPC, which does the actual filtering server-side.
+ *
+ * FILTERS:
+ * - Free text: matches crop name, location or seller name
+ * - Crop: exact crop (from the popular crops list)
+ * - Region: listing location, same place-name rule as the Wanted board matcher
+ * - Price range: KES per kg
+ * - Minimum quantity: kg still in stock
+ * - Seller rating: minimum average review score
+ *
+ * SORT ORDERS:
+ * - newest: most recently listed first
+ * - cheapest: lowest price per kg first
+ * - nearest: listings in the buyer's profile location first
+ */
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePopularCrops } from "@/hooks/usePopularCrops";
+import { Search, X } from "lucide-react";
+import { DEFAULT_LISTING_FILTERS, type ListingFilters } from "@/utils/listingFilters";
+
+interface ListingFilterBarProps {
+  filters: ListingFilters;
+  onChange: (filters: ListingFilters) => void;
+}
+
+export const ListingFilterBar = ({ filters, onChange }: ListingFilterBarProps) => {
+  const { crops } = usePopularCrops();
+
+  const update = (changes: Partial<ListingFilters>) => onChange({ ...filters, ...changes });
+
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(DEFAULT_LISTING_FILTERS);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search crops, places or sellers"
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={filters.sort}
+          onValueChange={(value) => update({ sort: value as ListingFilters["sort"] })}
+        >
+          <SelectTrigger className="sm:w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest</SelectItem>
+            <SelectItem value="cheapest">Cheapest</SelectItem>
+            <SelectItem value="nearest">Nearest</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <Select value={filters.crop} onValueChange={(value) => update({ crop: value })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Crop" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Crops</SelectItem>
+            {crops.map((crop) => (
+              <SelectItem key={crop} value={crop}>
+                {crop}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={filters.region}
+          onChange={(e) => update({ region: e.target.value })}
+          placeholder="Region, e.g. Nakuru"
+        />
+        <Select value={filters.minRating} onValueChange={(value) => update({ minRating: value })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Seller rating" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any rating</SelectItem>
+            <SelectItem value="3">3★ and up</SelectItem>
+            <SelectItem value="4">4★ and up</SelectItem>
+            <SelectItem value="4.5">4.5★ and up</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="0"
+          value={filters.minPrice}
+          onChange={(e) => update({ minPrice: e.target.value })}
+          placeholder="Min KES/kg"
+        />
+        <Input
+          type="number"
+          min="0"
+          value={filters.maxPrice}
+          onChange={(e) => update({ maxPrice: e.target.value })}
+          placeholder="Max KES/kg"
+        />
+        <Input
+          type="number"
+          min="0"
+          value={filters.minQuantity}
+          onChange={(e) => update({ minQuantity: e.target.value })}
+          placeholder="Min quantity (kg)"
+        />
+      </div>
+
+      {isFiltered && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(DEFAULT_LISTING_FILTERS)}
+          className="gap-1"
+        >
+          <X className="h-3 w-3" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+/**
+ * LISTING GALLERY
+ *
+ * Swipeable photo carousel for a marketplace listing's image_urls.
+ * Each photo is lazy-loaded so a long list of listings only downloads
+ * the photos that scroll into view.
+ *
+ * DISPLAY RULES:
+ * - No photos: neutral placeholder with a package icon
+ * - One photo: shown on its own, no navigation
+ * - Several photos: carousel with previous/next buttons and a "2 / 5" counter
+ *
+ * USAGE:
+ * ```typescript
+ * <ListingGallery images={listing.image_urls} cropName={listing.crop_name} />
+ * ```
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { LazyMedia } from "@/components/LazyMedia";
+import { Package } from "lucide-react";
+
+interface ListingGalleryProps {
+  images: string[]; // Public URLs from the listing-photos bucket
+  cropName: string; // Used for alt text
+  className?: string; // Width of the gallery; height follows a 4:3 aspect ratio
+}
+
+// Same footprint for skeleton, photo and placeholder so cards don't jump while loading
+const PHOTO_CLASS = "aspect-[4/3] w-full rounded-lg object-cover";
+
+export const ListingGallery = ({ images, cropName, className = "" }: ListingGalleryProps) => {
+  const [api, setApi] = useState<CarouselApi>(); // Embla instance, for the slide counter
+  const [current, setCurrent] = useState(1); // 1-based index of the visible photo
+
+  // Keep the counter in sync as the user swipes
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap() + 1);
+    onSelect();
+    api.on("select", onSelect);
+
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  if (images.length === 0) {
+    return (
+      <div className={`flex aspect-[4/3] items-center justify-center rounded-lg bg-muted ${className}`}>
+        <Package className="h-8 w-8 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (images.length === 1) {
+    return (
+      <LazyMedia
+        src={images[0]}
+        alt={cropName}
+        className={PHOTO_CLASS}
+        containerClassName={className}
+      />
+    );
+  }
+
+  return (
+    <Carousel setApi={setApi} opts={{ loop: true }} className={`relative ${className}`}>
+      <CarouselContent>
+        {images.map((src, index) => (
+          <CarouselItem key={src}>
+            <LazyMedia
+              src={src}
+              alt={`${cropName} photo ${index + 1}`}
+              className={PHOTO_CLASS}
+            />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious className="left-2" />
+      <CarouselNext className="right-2" />
+      <span className="absolute bottom-2 right-2 rounded-full bg-background/80 px-2 py-0.5 text-xs">
+        {current} / {images.length}
+      </span>
+    </Carousel>
+  );
+};
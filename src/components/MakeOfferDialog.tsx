@@ -0,0 +1,260 @@
+/**
+ * MAKE OFFER DIALOG
+ *
+ * Form for buyers to propose their own price and quantity on a listing instead
+ * of accepting the fixed price_per_kg. Opens a negotiation thread that the
+ * seller can accept, reject or counter (see OfferThread).
+ *
+ * OFFER FLOW:
+ * 1. Buyer clicks "Make Offer" on a marketplace listing
+ * 2. Dialog opens pre-populated with the asking price and remaining stock
+ * 3. Buyer proposes: price and quantity (in the listing's unit) and how to receive it (DeliveryOptions)
+ * 4. On submit → make_offer() opens a thread with status "pending"
+ * 5. Seller is notified and responds from the chat with the buyer
+ * 6. Counter-offers go back and forth until one side accepts
+ * 7. Acceptance creates the order at the agreed price (stock reserved then)
+ *
+ * VALIDATION:
+ * - Price must be greater than zero
+ * - Quantity must be above zero and within remaining stock (compared in kg)
+ * - Delivery choice required (carried onto the order when accepted; the delivery
+ *   fee is priced on the agreed quantity at that point)
+ * - Only one open offer per buyer per listing (enforced server-side)
+ *
+ * DATABASE INTEGRATION:
+ * - Calls: make_offer() RPC (validates listing, inserts offer, notifies seller)
+ * - Offers table has no INSERT policy, make_offer() is the only way in
+ * - Offers are stored per kg; price and quantity are converted from the listing's unit
+ */
+
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { HandCoins } from "lucide-react";
+import { toKg, fromKg, unitLabel, formatQuantity, formatPrice } from "@/utils/units";
+import { DeliveryOptions } from "./DeliveryOptions";
+import { useDeliveryOptions } from "@/hooks/useDeliveryOptions";
+import {
+  EMPTY_DELIVERY_CHOICE,
+  calculateDeliveryFee,
+  toDeliveryDetails,
+  validateDeliveryChoice,
+  type DeliveryChoice,
+} from "@/utils/delivery";
+
+interface MakeOfferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listingId: string; // Marketplace listing being negotiated
+  cropName: string; // Display crop name in dialog
+  askingPrice: number; // Seller's listed price per kg
+  availableQuantity: number; // Remaining stock in kg, max quantity buyer can offer for
+  unit?: string; // Unit the listing is sold in (default kg)
+  unitKg?: number; // Weight of one unit in kg
+  onOfferMade?: () => void; // Callback, e.g. to open the chat with the seller
+}
+
+export const MakeOfferDialog = ({
+  open,
+  onOpenChange,
+  listingId,
+  cropName,
+  askingPrice,
+  availableQuantity,
+  unit = "kg",
+  unitKg = 1,
+  onOfferMade,
+}: MakeOfferDialogProps) => {
+  const askingPricePerUnit = Math.round(askingPrice * unitKg * 100) / 100;
+
+  // FORM STATE
+  const [price, setPrice] = useState<number>(askingPricePerUnit); // Proposed price per unit
+  const [quantity, setQuantity] = useState<number>(1); // Amount to buy, in unit
+  const [delivery, setDelivery] = useState<DeliveryChoice>(EMPTY_DELIVERY_CHOICE); // Pickup or delivery details
+  const [loading, setLoading] = useState(false); // Submission in progress
+  const { toast } = useToast();
+  const { pickupPoints, tariffs } = useDeliveryOptions();
+
+  // CALCULATED TOTAL - Updates reactively as price or quantity changes
+  const totalAmount = quantity * price;
+  const deliveryFee = calculateDeliveryFee(
+    tariffs.find((tariff) => tariff.id === delivery.tariffId),
+    toKg(quantity, unitKg)
+  );
+
+  /**
+   * HANDLE SUBMIT
+   * Opens the negotiation thread via make_offer()
+   *
+   * PROCESS:
+   * 1. Validate price, quantity and delivery choice
+   * 2. Call make_offer() (seller is notified server-side)
+   * 3. Show success toast, close dialog and reset form
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // VALIDATION 1: Price and quantity must be sensible
+    if (price <= 0 || quantity <= 0 || toKg(quantity, unitKg) > availableQuantity) {
+      toast({
+        title: "Invalid Offer",
+        description: `Enter a price above zero and a quantity up to ${formatQuantity(availableQuantity, unit, unitKg)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // VALIDATION 2: Delivery choice is carried onto the order on acceptance
+    const deliveryError = validateDeliveryChoice(delivery);
+    if (deliveryError) {
+      toast({
+        title: "Missing Information",
+        description: deliveryError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      // Step 1: Open the negotiation thread
+      const { error } = await supabase.rpc("make_offer", {
+        p_listing_id: listingId,
+        p_price_per_kg: price / unitKg,
+        p_quantity: toKg(quantity, unitKg),
+        p_delivery_details: toDeliveryDetails(delivery),
+      });
+
+      if (error) {
+        toast({
+          title: "Offer Not Sent",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Step 2: Show success message to buyer
+      toast({
+        title: "Offer Sent",
+        description: "The seller has been notified of your offer",
+      });
+
+      // Step 3: Close dialog and reset form
+      onOpenChange(false);
+      onOfferMade?.();
+
+      setPrice(askingPricePerUnit);
+      setQuantity(1);
+      setDelivery(EMPTY_DELIVERY_CHOICE);
+    } catch (error) {
+      console.error("Error making offer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to send offer",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5" />
+            Make an Offer
+          </DialogTitle>
+          <DialogDescription>
+            Propose your price for {cropName}. Asking price is {formatPrice(askingPrice, unit, unitKg)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="offerPrice">Your Price (KES/{unitLabel(unit)})</Label>
+              <Input
+                id="offerPrice"
+                type="number"
+                step="0.01"
+                min={0.01}
+                value={price}
+                onChange={(e) => setPrice(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offerQuantity">Quantity ({unitLabel(unit, 2)})</Label>
+              <Input
+                id="offerQuantity"
+                type="number"
+                min={unit === "kg" ? 1 : 0.5}
+                step={unit === "kg" ? 1 : 0.5}
+                max={fromKg(availableQuantity, unitKg)}
+                value={quantity}
+                onChange={(e) => setQuantity(Number(e.target.value))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            In stock: {formatQuantity(availableQuantity, unit, unitKg)}
+          </p>
+
+          <DeliveryOptions
+            value={delivery}
+            onChange={setDelivery}
+            pickupPoints={pickupPoints}
+            tariffs={tariffs}
+          />
+
+          <div className="p-4 bg-muted rounded-lg space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Asking price:</span>
+              <span className="font-semibold">{formatPrice(askingPrice, unit, unitKg)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>Your price:</span>
+              <span className="font-semibold">{formatPrice(price / unitKg, unit, unitKg)}</span>
+            </div>
+            <div className="flex justify-between text-lg font-bold border-t pt-2">
+              <span>Offer Total:</span>
+              <span className="text-primary">KES {totalAmount.toLocaleString()}</span>
+            </div>
+            {delivery.method === "delivery" && delivery.tariffId && (
+              <p className="text-xs text-muted-foreground">
+                Plus about KES {deliveryFee.toLocaleString()} delivery, priced on the agreed quantity
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Sending..." : "Send Offer"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
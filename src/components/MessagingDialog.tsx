@@ -11,6 +11,8 @@
  * 4. Push notifications for new messages
  * 5. Auto-scroll to latest message
  * 6. Read status tracking and updates
+ * 7. Structured price offers for the listing being discussed (OfferThread)
+ * 8. Counts a chat in the seller's listing analytics when a buyer writes about a listing
  * 
  * CONVERSATION FLOW:
  * 1. Buyer clicks "Contact Seller" on a listing OR clicks message icon in order card
@@ -55,6 +57,8 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Send, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { createNotification, NotificationTemplates } from "@/utils/notificationHelpers";
+import { OfferThread } from "./OfferThread";
+import { recordListingEvents } from "@/utils/listingAnalytics";
 
 /**
  * Message Interface
@@ -74,6 +78,7 @@ interface MessagingDialogProps {
   otherUserId: string; // ID of person we're chatting with
   otherUserName: string; // Display name of other person
   listingId?: string; // Optional listing context
+  onOrderCreated?: () => void; // Called when an offer accepted in this chat becomes an order
 }
 
 export const MessagingDialog = ({
@@ -82,6 +87,7 @@ export const MessagingDialog = ({
   otherUserId,
   otherUserName,
   listingId,
+  onOrderCreated,
 }: MessagingDialogProps) => {
   // MESSAGE STATE
   const [messages, setMessages] = useState<Message[]>([]); // Conversation history
@@ -208,6 +214,9 @@ export const MessagingDialog = ({
       if (error) throw error;
 
       setNewMessage("");
+
+      // Counted once per buyer; the seller's own replies are ignored
+      if (listingId) recordListingEvents([listingId], "chat");
       
       // Create notification for recipient
       const notification = NotificationTemplates.newMessage(otherUserName);
@@ -247,6 +256,11 @@ export const MessagingDialog = ({
           </DialogDescription>
         </DialogHeader>
 
+        {/* Negotiation sits above the chat so haggling ends in a real order */}
+        {listingId && otherUserId && (
+          <OfferThread listingId={listingId} otherUserId={otherUserId} onOrderCreated={onOrderCreated} />
+        )}
+
         <ScrollArea className="flex-1 pr-4">
           {loading ? (
             <div className="flex items-center justify-center h-full">
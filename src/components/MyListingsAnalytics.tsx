@@ -0,0 +1,290 @@
+/**
+ * MY LISTINGS ANALYTICS
+ *
+ * Seller view of how buyers engage with each of their listings, shown on the
+ * Marketplace "My Listings" tab.
+ *
+ * METRICS (per listing, over the chosen period):
+ * - Impressions: times the listing was shown in Browse
+ * - Detail views: times it was opened in the details dialog
+ * - Chats: buyers who messaged about it
+ * - Orders: orders placed, and conversion rate (orders ÷ impressions)
+ * - Price vs market: listing price against the 30-day market_prices average
+ *   for the crop in its region (national average when the region has none)
+ *
+ * CHART:
+ * Daily activity for all listings or one of them (get_listing_analytics_series).
+ * Impressions use the right-hand axis as they run far higher than the rest.
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import { formatPrice } from "@/utils/units";
+import {
+  ANALYTICS_PERIODS,
+  getConversionRate,
+  getPriceVsMarket,
+  type ListingAnalytics,
+} from "@/utils/listingAnalytics";
+
+/**
+ * One day of get_listing_analytics_series()
+ * @interface SeriesPoint
+ */
+interface SeriesPoint {
+  day: string;
+  impressions: number;
+  detail_views: number;
+  chats: number;
+  orders: number;
+}
+
+const CHART_CONFIG = {
+  impressions: { label: "Impressions", color: "hsl(var(--muted-foreground))" },
+  detail_views: { label: "Detail views", color: "hsl(var(--accent))" },
+  chats: { label: "Chats", color: "hsl(var(--secondary))" },
+  orders: { label: "Orders", color: "hsl(var(--primary))" },
+};
+
+export const MyListingsAnalytics = () => {
+  const [days, setDays] = useState(30);
+  const [chartListingId, setChartListingId] = useState("all");
+  const [rows, setRows] = useState<ListingAnalytics[]>([]);
+  const [series, setSeries] = useState<SeriesPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Per-listing totals for the period
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("get_listing_analytics", { p_days: days });
+
+      if (error) {
+        console.error("Error fetching listing analytics:", error);
+      } else {
+        setRows(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchAnalytics();
+  }, [days]);
+
+  // Daily series for the chart
+  useEffect(() => {
+    const fetchSeries = async () => {
+      const { data, error } = await supabase.rpc("get_listing_analytics_series", {
+        p_days: days,
+        p_listing_id: chartListingId === "all" ? undefined : chartListingId,
+      });
+
+      if (error) {
+        console.error("Error fetching listing activity:", error);
+        return;
+      }
+      setSeries(data || []);
+    };
+
+    fetchSeries();
+  }, [days, chartListingId]);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      impressions: sum.impressions + row.impressions,
+      detail_views: sum.detail_views + row.detail_views,
+      chats: sum.chats + row.chats,
+      orders: sum.orders + row.orders,
+    }),
+    { impressions: 0, detail_views: 0, chats: 0, orders: 0 }
+  );
+  const totalConversion = getConversionRate(totals.orders, totals.impressions);
+
+  const summaryCards = [
+    { label: "Impressions", value: totals.impressions.toLocaleString() },
+    { label: "Detail Views", value: totals.detail_views.toLocaleString() },
+    { label: "Chats", value: totals.chats.toLocaleString() },
+    { label: "Orders", value: totals.orders.toLocaleString() },
+    { label: "Conversion", value: totalConversion !== null ? `${totalConversion}%` : "—" },
+  ];
+
+  const chartData = series.map((point) => ({
+    ...point,
+    date: format(new Date(`${point.day}T00:00:00`), "MMM d"),
+  }));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ANALYTICS_PERIODS.map((period) => (
+              <SelectItem key={period.days} value={String(period.days)}>
+                {period.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {summaryCards.map((card) => (
+          <Card key={card.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{card.label}</p>
+              <p className="text-2xl font-bold">{card.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Buyer Activity</CardTitle>
+            <CardDescription>Daily impressions, detail views, chats and orders</CardDescription>
+          </div>
+          <Select value={chartListingId} onValueChange={setChartListingId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All listings</SelectItem>
+              {rows.map((row) => (
+                <SelectItem key={row.listing_id} value={row.listing_id}>
+                  {row.crop_name} · {format(new Date(row.created_at), "MMM d")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={CHART_CONFIG} className="h-[300px] w-full">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} interval="preserveStartEnd" />
+              <YAxis yAxisId="left" tick={{ fontSize: 12 }} allowDecimals={false} />
+              <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 12 }} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line
+                yAxisId="right"
+                type="monotone"
+                dataKey="impressions"
+                stroke="var(--color-impressions)"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              <Line yAxisId="left" type="monotone" dataKey="detail_views" stroke="var(--color-detail_views)" dot={false} />
+              <Line yAxisId="left" type="monotone" dataKey="chats" stroke="var(--color-chats)" dot={false} />
+              <Line
+                yAxisId="left"
+                type="monotone"
+                dataKey="orders"
+                stroke="var(--color-orders)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Listings</CardTitle>
+          <CardDescription>Active listings and any that ended in this period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              You have no listings in this period. List your produce to start seeing buyer activity.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Listing</TableHead>
+                  <TableHead>Price vs Market</TableHead>
+                  <TableHead className="text-right">Impressions</TableHead>
+                  <TableHead className="text-right">Views</TableHead>
+                  <TableHead className="text-right">Chats</TableHead>
+                  <TableHead className="text-right">Orders</TableHead>
+                  <TableHead className="text-right">Conversion</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const conversion = getConversionRate(row.orders, row.impressions);
+                  const vsMarket = getPriceVsMarket(row.price_per_kg, row.market_price_per_kg);
+
+                  return (
+                    <TableRow key={row.listing_id}>
+                      <TableCell>
+                        <div className="font-medium flex items-center gap-2">
+                          {row.crop_name}
+                          {row.status !== "active" && (
+                            <Badge variant="outline" className="capitalize">
+                              {row.status}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.location} · {formatPrice(row.price_per_kg, row.unit, row.unit_kg)}
+                          {row.sale_type === "auction" && " reserve"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {vsMarket === null || row.market_price_per_kg === null ? (
+                          <span className="text-muted-foreground text-sm">No market data</span>
+                        ) : (
+                          <div>
+                            <span
+                              className={`font-medium ${
+                                vsMarket > 10 ? "text-destructive" : vsMarket < -10 ? "text-primary" : ""
+                              }`}
+                            >
+                              {vsMarket > 0 ? "+" : ""}
+                              {vsMarket}%
+                            </span>
+                            <div className="text-xs text-muted-foreground">
+                              {row.market_scope === "region" ? "Regional" : "National"} avg{" "}
+                              {formatPrice(row.market_price_per_kg, row.unit, row.unit_kg)}
+                            </div>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.impressions.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.detail_views.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.chats.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.orders.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{conversion !== null ? `${conversion}%` : "—"}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
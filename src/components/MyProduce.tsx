@@ -3,6 +3,9 @@
  * 
  * Displays user's active crops with planting dates and acreage information.
  * Used by AI for personalized farming recommendations and insights.
+ * Each planting shows its costs, revenue and profit so far (ledger entries
+ * linked to it, see utils/cropProfitability), and can be marked harvested with
+ * the quantity actually harvested. Full per-planting P&L lives on Finances.
  * 
  * @component
  * @example
@@ -12,10 +15,13 @@
  */
 
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus, Sprout } from "lucide-react";
+import { RecordHarvestDialog } from "./RecordHarvestDialog";
+import { getCropPnl, type CropProfitability } from "@/utils/cropProfitability";
+import { PackageCheck, Plus, Sprout } from "lucide-react";
 
 /**
  * Single crop data structure
@@ -42,6 +48,8 @@ interface MyProduceProps {
 
 export default function MyProduce({ onAddClick }: MyProduceProps) {
   const [crops, setCrops] = useState<Crop[]>([]);
+  const [profitability, setProfitability] = useState<Map<string, CropProfitability>>(new Map());
+  const [harvestCrop, setHarvestCrop] = useState<Crop | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -61,6 +69,9 @@ export default function MyProduce({ onAddClick }: MyProduceProps) {
         
         if (error) throw error;
         if (data) setCrops(data);
+
+        const { data: pnlData } = await supabase.rpc("get_crop_profitability");
+        setProfitability(new Map((pnlData || []).map((row) => [row.crop_id, row])));
       }
     } catch (error) {
       console.error("Error fetching crops:", error);
@@ -114,42 +125,70 @@ export default function MyProduce({ onAddClick }: MyProduceProps) {
           </div>
         ) : (
           <div className="space-y-3">
-            {crops.map((crop) => (
-              <div key={crop.id} className="p-4 border rounded-lg hover:border-primary/50 transition-colors">
-                <div className="flex justify-between items-start mb-2">
-                  <div>
-                    <p className="font-semibold text-lg">{crop.crop_name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {crop.acreage} acres
-                    </p>
+            {crops.map((crop) => {
+              // Money linked to this planting so far
+              const row = profitability.get(crop.id);
+              const pnl = row && row.entry_count > 0 ? getCropPnl(row) : null;
+
+              return (
+                <div key={crop.id} className="p-4 border rounded-lg hover:border-primary/50 transition-colors">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <p className="font-semibold text-lg">{crop.crop_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {crop.acreage} acres
+                      </p>
+                    </div>
+                    <span className="text-xs px-2 py-1 bg-primary/10 text-primary rounded font-medium">
+                      {crop.status}
+                    </span>
                   </div>
-                  <span className="text-xs px-2 py-1 bg-primary/10 text-primary rounded font-medium">
-                    {crop.status}
-                  </span>
-                </div>
                 
-                <div className="grid grid-cols-2 gap-3 mt-3 text-sm">
-                  <div>
-                    <p className="text-muted-foreground">Planted</p>
-                    <p className="font-medium">
-                      {new Date(crop.planting_date).toLocaleDateString()}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {getDaysPlanted(crop.planting_date)} days ago
-                    </p>
-                  </div>
+                  <div className="grid grid-cols-2 gap-3 mt-3 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Planted</p>
+                      <p className="font-medium">
+                        {new Date(crop.planting_date).toLocaleDateString()}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {getDaysPlanted(crop.planting_date)} days ago
+                      </p>
+                    </div>
                   
-                  <div>
-                    <p className="text-muted-foreground">Expected Yield</p>
-                    <p className="font-medium">
-                      {crop.expected_yield 
-                        ? `${crop.expected_yield.toLocaleString()} kg`
-                        : "Not set"}
-                    </p>
+                    <div>
+                      <p className="text-muted-foreground">Expected Yield</p>
+                      <p className="font-medium">
+                        {crop.expected_yield 
+                          ? `${crop.expected_yield.toLocaleString()} kg`
+                          : "Not set"}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2 mt-3 pt-3 border-t text-sm">
+                    {pnl ? (
+                      <div className="flex flex-wrap gap-x-3 text-muted-foreground">
+                        <span>Costs KES {pnl.costs.toLocaleString()}</span>
+                        <span>Revenue KES {pnl.revenue.toLocaleString()}</span>
+                        <span className={`font-medium ${pnl.profit >= 0 ? "text-success" : "text-destructive"}`}>
+                          {pnl.profit >= 0 ? "Profit" : "Loss"} KES {Math.abs(pnl.profit).toLocaleString()}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">No transactions linked yet</span>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => setHarvestCrop(crop)}>
+                      <PackageCheck className="w-4 h-4 mr-1" />
+                      Harvest
+                    </Button>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
+
+            <Button variant="link" className="w-full" asChild>
+              <Link to="/finances">View profit per planting in Finances</Link>
+            </Button>
             
             <Button 
               variant="outline" 
@@ -162,6 +201,15 @@ export default function MyProduce({ onAddClick }: MyProduceProps) {
           </div>
         )}
       </CardContent>
+
+      {harvestCrop && (
+        <RecordHarvestDialog
+          open={!!harvestCrop}
+          onOpenChange={(open) => !open && setHarvestCrop(null)}
+          crop={harvestCrop}
+          onSuccess={fetchCrops}
+        />
+      )}
     </Card>
   );
 }
@@ -13,6 +13,8 @@
  * - Auto-refresh notification list on new insertions
  * - Icon-based notification categorization
  * - Scrollable notification list (last 10)
+ * - One-tap actions for notifications that carry one (e.g. "Renew" on listing expiry alerts)
+ * - Saved-search alerts only raise a browser notification if that search has push turned on
  */
 
 import { useState, useEffect } from "react";
@@ -28,6 +30,8 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useNotifications } from "@/hooks/useNotifications";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
 
 // Notification data structure from database
 interface Notification {
@@ -36,14 +40,32 @@ interface Notification {
   title: string;     // Notification heading
   message: string;   // Notification body text
   read: boolean;     // Read/unread status
+  data: Json | null; // Metadata; { action, listing_id } for actionable notifications
   created_at: string; // Timestamp
 }
 
+/**
+ * Reads the listing a "renew_listing" notification refers to
+ * @returns Listing ID, or null if the notification has no renew action
+ */
+const getRenewListingId = (notification: Notification): string | null => {
+  const data = notification.data as { action?: string; listing_id?: string } | null;
+  return data?.action === "renew_listing" && data.listing_id ? data.listing_id : null;
+};
+
+// Pages that push notifications with an action open on
+const ACTION_URLS: Record<string, string> = {
+  view_listing: '/marketplace',
+  view_finances: '/finances', // Budget alerts
+};
+
 export const NotificationCenter = () => {
   // State management
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [renewingId, setRenewingId] = useState<string | null>(null); // Notification whose listing is being renewed
   const { showNotification, permission } = useNotifications();
+  const { toast } = useToast();
 
   /**
    * Initialization Effect
@@ -69,12 +91,14 @@ export const NotificationCenter = () => {
           await fetchNotifications();
           
           // Show browser push notification if user has granted permission
-          if (permission === 'granted') {
-            const newNotif = payload.new as Notification;
+          // and the notification hasn't opted out (data.push = false)
+          const newNotif = payload.new as Notification;
+          const data = newNotif.data as { push?: boolean; action?: string } | null;
+          if (permission === 'granted' && data?.push !== false) {
             showNotification(newNotif.title, {
               body: newNotif.message,
               tag: newNotif.type,
-              data: { url: getNotificationUrl(newNotif.type) },
+              data: { url: (data?.action && ACTION_URLS[data.action]) || getNotificationUrl(newNotif.type) },
             });
           }
         }
@@ -145,6 +169,39 @@ export const NotificationCenter = () => {
     }
   };
 
+  /**
+   * Renew Listing
+   * Runs renew_listing for the listing in an expiry notification and marks it read
+   */
+  const renewListing = async (notification: Notification, listingId: string) => {
+    try {
+      setRenewingId(notification.id);
+      const { data: expiresAt, error } = await supabase.rpc('renew_listing', {
+        p_listing_id: listingId,
+      });
+
+      if (error) {
+        toast({
+          title: 'Listing Not Renewed',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Listing Renewed',
+        description: `Visible to buyers until ${new Date(expiresAt).toLocaleDateString()}`,
+      });
+
+      if (!notification.read) await markAsRead(notification.id);
+    } catch (error) {
+      console.error('Error renewing listing:', error);
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
   const getNotificationUrl = (type: string) => {
     switch (type) {
       case 'message':
@@ -234,6 +291,20 @@ export const NotificationCenter = () => {
                         minute: '2-digit'
                       })}
                     </p>
+                    {getRenewListingId(notification) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="mt-2 h-7 text-xs"
+                        disabled={renewingId === notification.id}
+                        onClick={(e) => {
+                          e.stopPropagation(); // Don't also trigger the row's mark-as-read
+                          renewListing(notification, getRenewListingId(notification)!);
+                        }}
+                      >
+                        {renewingId === notification.id ? 'Renewing...' : 'Renew Listing'}
+                      </Button>
+                    )}
                   </div>
                   {!notification.read && (
                     <div className="h-2 w-2 rounded-full bg-primary flex-shrink-0 mt-1" />
@@ -0,0 +1,326 @@
+/**
+ * OFFER THREAD
+ *
+ * Shows one price negotiation between a buyer and a seller as a list of rounds,
+ * newest last, with the actions available on the latest pending round.
+ *
+ * NEGOTIATION RULES (enforced by respond_to_offer()):
+ * - The party who did NOT propose a pending offer can Accept, Reject or Counter it
+ * - The party who proposed it can only Withdraw it
+ * - Countering closes the current round ("countered") and opens a new pending one
+ * - Accepting reserves stock and creates the order at the agreed price
+ *
+ * USAGE:
+ * - In MessagingDialog: pass listingId + otherUserId, shows the latest thread
+ *   on that listing between the two users, updates live via Realtime
+ * - In OrderCard: pass offerId (orders.offer_id), shows the full thread that
+ *   led to the order, read-only
+ *
+ * DATABASE INTEGRATION:
+ * - Reads: offers table (RLS limits rows to buyer and seller)
+ * - Calls: respond_to_offer() RPC for every action
+ * - Realtime: channel `offers-{listingId}` for INSERT/UPDATE on offers
+ * - Offers are stored per kg; amounts are shown and countered in the listing's unit
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { HandCoins } from "lucide-react";
+import { toKg, unitLabel, formatQuantity, formatPrice } from "@/utils/units";
+
+/**
+ * Offer Interface
+ * One round of a negotiation thread
+ */
+interface Offer {
+  id: string;
+  thread_id: string;
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+  proposed_by: string;
+  price_per_kg: number;
+  quantity: number;
+  status: string;
+  order_id: string | null;
+  created_at: string;
+}
+
+interface OfferThreadProps {
+  listingId?: string; // Chat mode: listing being negotiated
+  otherUserId?: string; // Chat mode: counterpart in the conversation
+  offerId?: string; // Order mode: any offer in the thread (usually the accepted one)
+  onOrderCreated?: () => void; // Called after this user accepts an offer
+}
+
+export const OfferThread = ({ listingId, otherUserId, offerId, onOrderCreated }: OfferThreadProps) => {
+  const [offers, setOffers] = useState<Offer[]>([]); // Rounds of the thread, oldest first
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [acting, setActing] = useState(false); // An action is in flight
+  const [countering, setCountering] = useState(false); // Counter form visible
+  const [counterPrice, setCounterPrice] = useState<number>(0); // Per unit
+  const [counterQuantity, setCounterQuantity] = useState<number>(0); // In unit
+  const [unit, setUnit] = useState({ code: "kg", kg: 1 }); // Listing's unit of measure
+  const { toast } = useToast();
+
+  const readOnly = !!offerId;
+
+  /**
+   * FETCH OFFERS
+   * Loads the rounds of the relevant thread
+   *
+   * - Order mode: look up the thread of offerId, then load all its rounds
+   * - Chat mode: load offers on the listing involving otherUserId and keep
+   *   only the most recent thread
+   */
+  const fetchOffers = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setCurrentUserId(user.id);
+
+      let query = supabase
+        .from("offers")
+        .select("id, thread_id, listing_id, buyer_id, seller_id, proposed_by, price_per_kg, quantity, status, order_id, created_at")
+        .order("created_at", { ascending: true });
+
+      if (offerId) {
+        const { data: anchor, error: anchorError } = await supabase
+          .from("offers")
+          .select("thread_id")
+          .eq("id", offerId)
+          .single();
+
+        if (anchorError) throw anchorError;
+        query = query.eq("thread_id", anchor.thread_id);
+      } else if (listingId && otherUserId) {
+        query = query
+          .eq("listing_id", listingId)
+          .or(`buyer_id.eq.${otherUserId},seller_id.eq.${otherUserId}`);
+      } else {
+        return;
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows = data || [];
+      const latestThreadId = rows[rows.length - 1]?.thread_id;
+      setOffers(rows.filter((offer) => offer.thread_id === latestThreadId));
+
+      // Show amounts in the unit the listing is sold in (kg if it's no longer visible)
+      if (rows.length > 0) {
+        const { data: listing } = await supabase
+          .from("marketplace_listings")
+          .select("unit, unit_kg")
+          .eq("id", rows[0].listing_id)
+          .maybeSingle();
+
+        if (listing) setUnit({ code: listing.unit, kg: Number(listing.unit_kg) });
+      }
+    } catch (error) {
+      console.error("Error fetching offers:", error);
+    }
+  }, [listingId, otherUserId, offerId]);
+
+  useEffect(() => {
+    fetchOffers();
+
+    // Order mode shows a closed thread, no need to listen for changes
+    if (offerId || !listingId) return;
+
+    const channel = supabase
+      .channel(`offers-${listingId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "offers",
+          filter: `listing_id=eq.${listingId}`,
+        },
+        () => fetchOffers()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchOffers, listingId, offerId]);
+
+  /**
+   * RESPOND TO OFFER
+   * Runs accept / reject / counter / withdraw through respond_to_offer()
+   * The other party is notified server-side
+   */
+  const respond = async (offer: Offer, action: "accept" | "reject" | "counter" | "withdraw") => {
+    if (action === "counter" && (counterPrice <= 0 || counterQuantity <= 0)) {
+      toast({
+        title: "Invalid Counter-Offer",
+        description: "Price and quantity must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setActing(true);
+
+      const { error } = await supabase.rpc("respond_to_offer", {
+        p_offer_id: offer.id,
+        p_action: action,
+        p_price_per_kg: action === "counter" ? counterPrice / unit.kg : undefined,
+        p_quantity: action === "counter" ? toKg(counterQuantity, unit.kg) : undefined,
+      });
+
+      if (error) {
+        toast({
+          title: "Offer Not Updated",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const messages = {
+        accept: "Offer accepted. The order is now in My Orders.",
+        reject: "Offer rejected",
+        counter: "Counter-offer sent",
+        withdraw: "Offer withdrawn",
+      };
+      toast({ title: "Success", description: messages[action] });
+
+      setCountering(false);
+      if (action === "accept") onOrderCreated?.();
+      await fetchOffers();
+    } catch (error) {
+      console.error("Error responding to offer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update offer",
+        variant: "destructive",
+      });
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-800 border-yellow-300";
+      case "accepted":
+        return "bg-green-100 text-green-800 border-green-300";
+      case "rejected":
+      case "withdrawn":
+        return "bg-red-100 text-red-800 border-red-300";
+      default:
+        return "bg-gray-100 text-gray-800 border-gray-300";
+    }
+  };
+
+  const describeProposer = (offer: Offer) => {
+    if (offer.proposed_by === currentUserId) return "You";
+    return offer.proposed_by === offer.buyer_id ? "Buyer" : "Seller";
+  };
+
+  if (offers.length === 0) return null;
+
+  const latest = offers[offers.length - 1];
+  const canRespond = !readOnly && latest.status === "pending" && latest.proposed_by !== currentUserId;
+  const canWithdraw = !readOnly && latest.status === "pending" && latest.proposed_by === currentUserId;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <HandCoins className="h-4 w-4" />
+        Price Negotiation
+      </p>
+
+      <ol className="space-y-1">
+        {offers.map((offer) => (
+          <li key={offer.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span>
+              <span className="text-muted-foreground">{describeProposer(offer)}:</span>{" "}
+              <span className="font-semibold">{formatPrice(offer.price_per_kg, unit.code, unit.kg)}</span>
+              {" "}× {formatQuantity(offer.quantity, unit.code, unit.kg)}
+              <span className="text-muted-foreground">
+                {" "}= KES {(offer.price_per_kg * offer.quantity).toLocaleString()}
+              </span>
+            </span>
+            <Badge variant="outline" className={getStatusColor(offer.status)}>
+              {offer.status}
+            </Badge>
+          </li>
+        ))}
+      </ol>
+
+      {canRespond && !countering && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => respond(latest, "accept")} disabled={acting}>
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setCounterPrice(Math.round(latest.price_per_kg * unit.kg * 100) / 100);
+              setCounterQuantity(Math.round((latest.quantity / unit.kg) * 100) / 100);
+              setCountering(true);
+            }}
+            disabled={acting}
+          >
+            Counter
+          </Button>
+          <Button size="sm" variant="destructive" onClick={() => respond(latest, "reject")} disabled={acting}>
+            Reject
+          </Button>
+        </div>
+      )}
+
+      {canRespond && countering && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="number"
+            step="0.01"
+            min={0.01}
+            value={counterPrice}
+            onChange={(e) => setCounterPrice(Number(e.target.value))}
+            className="w-28"
+            aria-label={`Counter price per ${unitLabel(unit.code)}`}
+          />
+          <span className="text-sm text-muted-foreground">KES/{unitLabel(unit.code)} ×</span>
+          <Input
+            type="number"
+            min={unit.code === "kg" ? 1 : 0.5}
+            step={unit.code === "kg" ? 1 : 0.5}
+            value={counterQuantity}
+            onChange={(e) => setCounterQuantity(Number(e.target.value))}
+            className="w-24"
+            aria-label="Counter quantity"
+          />
+          <span className="text-sm text-muted-foreground">{unitLabel(unit.code, 2)}</span>
+          <Button size="sm" onClick={() => respond(latest, "counter")} disabled={acting}>
+            Send
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setCountering(false)} disabled={acting}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {canWithdraw && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">Waiting for a response...</span>
+          <Button size="sm" variant="outline" onClick={() => respond(latest, "withdraw")} disabled={acting}>
+            Withdraw
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -9,51 +9,100 @@
  * BUYER PERSPECTIVE:
  * 1. requested → Waiting for seller to confirm
  * 2. confirmed → Seller preparing order, waiting for shipment
- * 3. in-transit → Order shipped, tracking delivery
+ *    (buyer pays with M-Pesa while requested/confirmed; funds held in escrow)
+ * 3. in-transit → Order shipped (or ready for pickup); buyer sees the delivery code
  * 4. delivered → Mark as received → completed
  * 5. completed → Leave review (ReviewDialog)
  * 
  * SELLER PERSPECTIVE:
- * 1. requested → Confirm order OR Cancel
+ * 1. requested → Confirm order OR Cancel (delivery orders: check the buyer's
+ *    distance band first and change it if wrong; confirming accepts the fee)
  * 2. confirmed → Mark as shipped (in-transit)
- * 3. in-transit → Waiting for buyer to receive
+ * 3. in-transit → Enter the buyer's delivery code to mark delivered
  * 4. delivered → Waiting for buyer to complete
  * 5. completed → Transaction finished
  * 
+ * DISPUTES:
+ * - Either party can "Report a Problem" on a confirmed, in-transit or delivered order
+ *   (DisputeDialog); the order becomes "disputed" and is frozen with its escrow
+ * - The ruling (resolve_dispute) moves it to cancelled, completed or back in transit
+ * - DisputePanel shows the claim, evidence and ruling
+ * 
  * STATUS ACTIONS BY ROLE:
  * 
  * Seller Actions:
  * - requested: "Confirm Order" (→ confirmed) or "Cancel Order" (→ cancelled)
- * - confirmed: "Mark as Shipped" (→ in-transit)
- * - in-transit/delivered/completed: No actions (buyer-driven)
+ * - confirmed: "Mark In Transit" / "Ready for Pickup" (→ in-transit), only once payment is held in escrow
+ * - in-transit: "Mark Delivered" (→ delivered) with the buyer's six-digit code (confirm_delivery)
+ * - delivered/completed: No actions (buyer-driven)
+ * 
+ * Seller may also cancel a confirmed order before it ships.
  * 
  * Buyer Actions:
- * - requested/confirmed/in-transit: "Cancel Order" (→ cancelled)
- * - delivered: "Mark as Received" (→ completed)
- * - completed: "Leave Review" (opens ReviewDialog)
+ * - requested/confirmed: "Pay with M-Pesa" (opens PaymentDialog) until payment is held;
+ *   delivery orders only once confirmed, so the seller has agreed the delivery fee
+ * - requested: "Cancel Order" (→ cancelled)
+ * - delivered: "Confirm Receipt" (→ completed, releases escrow to the seller)
+ * - completed: "Leave Review" (opens ReviewDialog), also after a full refund ruling
+ * 
+ * DELIVERY:
+ * - Shows the method (farm pickup, market pickup point or delivery), the pickup
+ *   window or address, and the delivery fee included in the total
+ * - The buyer sees their delivery code until the order is delivered and hands it
+ *   over only on receipt; five wrong codes lock confirmation (report a problem instead)
+ *
+ * These rules are enforced server-side by update_order_status() and confirm_delivery(); the buttons
+ * below only mirror them. Clients cannot write orders.status directly.
  * 
  * KEY FEATURES:
+ * - Status timeline from order_status_history (actor, timestamp, note)
+ * - Negotiation rounds for orders agreed via an offer (OfferThread)
+ * - Escrow payment status, updated live when the STK push completes
+ * - Optional note attached to each transition
  * - Status-based color coding and icons
  * - Role-specific action buttons
  * - Real-time status updates (visible to both parties)
  * - Direct messaging button (opens MessagingDialog)
  * - Points awarded on completion (50 for seller, 25 for buyer)
  * - Review system for completed orders
+ * - PDF invoice (any order not cancelled unpaid) and receipt (once paid), see utils/orderDocuments
  * 
  * DATABASE OPERATIONS:
- * - Updates: order status via PATCH
+ * - Calls: update_order_status() RPC (validates transition, writes history)
+ * - Calls: set_order_delivery_tariff() RPC when the seller changes the delivery band
+ * - Calls: confirm_delivery() RPC (checks the buyer's code, marks delivered)
+ * - Reads: order_delivery_codes (buyer only) for the delivery code
+ * - Reads: order_status_history for the timeline
+ * - Reads: payments (latest per order) for the escrow status
+ * - Reads: disputes (latest per order); opened via open_dispute() in DisputeDialog
  * - Inserts: notifications for status changes
  * - Calls: award_points() on completion
  * - Inserts: reviews via ReviewDialog
+ * - Calls: order-document edge function for invoices and receipts
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { ReviewDialog } from "./ReviewDialog";
+import { OfferThread } from "./OfferThread";
+import { PaymentDialog } from "./PaymentDialog";
+import { DisputeDialog } from "./DisputeDialog";
+import { DisputePanel, type Dispute } from "./DisputePanel";
+import { formatQuantity } from "@/utils/units";
+import { DELIVERY_METHODS, calculateDeliveryFee, formatPickupWindow, type DeliveryTariff } from "@/utils/delivery";
+import {
+  DOCUMENT_KINDS,
+  RECEIPT_PAYMENT_STATUSES,
+  downloadOrderDocument,
+  type OrderDocumentKind,
+} from "@/utils/orderDocuments";
 import {
   Package,
   Truck,
@@ -61,6 +110,11 @@ import {
   XCircle,
   MessageSquare,
   MapPin,
+  Smartphone,
+  ShieldCheck,
+  AlertTriangle,
+  KeyRound,
+  FileText,
 } from "lucide-react";
 
 interface Order {
@@ -68,15 +122,31 @@ interface Order {
   listing_id: string;
   buyer_id: string;
   seller_id: string;
-  quantity: number;
+  quantity: number; // Always kg
   amount: number;
   status: string;
   delivery_details: any;
+  delivery_method?: string; // farm_pickup, market_pickup or delivery
+  delivery_fee?: number; // Included in amount
+  delivery_tariff_id?: string | null; // Band the fee was priced from (delivery only)
+  pickup_window_start?: string | null;
+  pickup_window_end?: string | null;
+  offer_id?: string | null; // Accepted offer this order was created from
+  unit?: string; // Unit the listing was sold in, snapshotted at order time
+  unit_kg?: number; // Weight of one unit in kg
   created_at: string;
   listing?: {
     crop_name: string;
     price_per_kg: number;
+    location?: string; // Farm location, where farm pickups happen
   };
+  contract?: {
+    crop_name: string; // Contract orders have no listing
+  } | null;
+  pickup_point?: {
+    name: string;
+    location: string;
+  } | null;
   buyer_profile?: {
     full_name: string;
   };
@@ -85,6 +155,35 @@ interface Order {
   };
 }
 
+/**
+ * Status History Entry
+ * One row of order_status_history, rendered as a timeline step
+ */
+interface StatusHistoryEntry {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null; // null when changed by a backend job
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * Payment Interface
+ * Latest payments row for the order (escrow state)
+ */
+interface Payment {
+  id: string;
+  status: string; // pending, held, failed, released, refunded, partially_refunded
+  amount: number;
+  refunded_amount: number | null; // Set by a partial-refund dispute ruling
+  provider_receipt: string | null;
+  failure_reason: string | null;
+}
+
+// Statuses in which the buyer still needs their delivery code
+const DELIVERY_CODE_STATUSES = ["requested", "confirmed", "in-transit", "disputed"];
+
 interface OrderCardProps {
   order: Order;
   userRole: "buyer" | "seller"; // Determines which actions to show
@@ -100,8 +199,226 @@ export const OrderCard = ({
 }: OrderCardProps) => {
   const [loading, setLoading] = useState(false);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]); // Status timeline, oldest first
+  const [note, setNote] = useState(""); // Optional note for the next transition
+  const [payment, setPayment] = useState<Payment | null>(null); // Latest payment attempt
+  const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
+  const [dispute, setDispute] = useState<Dispute | null>(null); // Latest dispute, if any
+  const [disputeDialogOpen, setDisputeDialogOpen] = useState(false);
+  const [deliveryCode, setDeliveryCode] = useState<string | null>(null); // Buyer only
+  const [codeInput, setCodeInput] = useState(""); // Seller enters the buyer's code
+  const [documentLoading, setDocumentLoading] = useState<OrderDocumentKind | null>(null);
+  const [tariffs, setTariffs] = useState<DeliveryTariff[]>([]); // Bands the seller can switch to
+  const [tariffId, setTariffId] = useState(order.delivery_tariff_id || ""); // Seller's pick before confirming
   const { toast } = useToast();
 
+  const isPaid = payment?.status === "held" || payment?.status === "released";
+  const myId = userRole === "buyer" ? order.buyer_id : order.seller_id;
+  const isPickup = order.delivery_method === "farm_pickup" || order.delivery_method === "market_pickup";
+  const awaitingDelivery = DELIVERY_CODE_STATUSES.includes(order.status);
+  // The buyer picked the delivery band; the seller confirms or corrects its fee before payment
+  const feeUnconfirmed = order.status === "requested" && order.delivery_method === "delivery" && !!order.delivery_tariff_id;
+  const confirmsDeliveryFee = userRole === "seller" && feeUnconfirmed;
+  const hasReceipt = !!payment && RECEIPT_PAYMENT_STATUSES.includes(payment.status);
+  const hasInvoice = order.status !== "cancelled" || hasReceipt;
+
+  // Reviews open once the order completes, or when a ruling refunded the buyer in full
+  const canReview =
+    order.status === "completed" ||
+    (order.status === "cancelled" && dispute?.status === "resolved" && dispute.resolution === "full_refund");
+
+  /**
+   * FETCH STATUS HISTORY
+   * Loads the order's transition log whenever its status changes
+   */
+  useEffect(() => {
+    const fetchHistory = async () => {
+      const { data, error } = await supabase
+        .from("order_status_history")
+        .select("id, from_status, to_status, changed_by, note, created_at")
+        .eq("order_id", order.id)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching order history:", error);
+        return;
+      }
+
+      setHistory(data || []);
+    };
+
+    fetchHistory();
+  }, [order.id, order.status]);
+
+  /**
+   * FETCH DELIVERY TARIFFS
+   * Active bands, for the seller to check the buyer's pick before confirming
+   */
+  useEffect(() => {
+    if (!confirmsDeliveryFee) return;
+
+    const fetchTariffs = async () => {
+      const { data, error } = await supabase
+        .from("delivery_tariffs")
+        .select("id, label, max_distance_km, base_fee, fee_per_kg")
+        .eq("active", true)
+        .order("sort_order");
+
+      if (error) {
+        console.error("Error fetching delivery tariffs:", error);
+        return;
+      }
+
+      setTariffs(data || []);
+    };
+
+    fetchTariffs();
+  }, [confirmsDeliveryFee]);
+
+  /**
+   * FETCH PAYMENT
+   * Loads the latest payment and listens for callback updates
+   * (pending → held/failed arrives asynchronously from payment-callback)
+   */
+  useEffect(() => {
+    const fetchPayment = async () => {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("id, status, amount, refunded_amount, provider_receipt, failure_reason")
+        .eq("order_id", order.id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching payment:", error);
+        return;
+      }
+
+      setPayment(data);
+    };
+
+    fetchPayment();
+
+    const channel = supabase
+      .channel(`payments-${order.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "payments",
+          filter: `order_id=eq.${order.id}`,
+        },
+        () => fetchPayment()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [order.id, order.status]);
+
+  /**
+   * FETCH DELIVERY CODE
+   * Only the buyer can read it (RLS); shown until the order is delivered
+   */
+  useEffect(() => {
+    if (userRole !== "buyer" || !DELIVERY_CODE_STATUSES.includes(order.status)) {
+      setDeliveryCode(null);
+      return;
+    }
+
+    const fetchDeliveryCode = async () => {
+      const { data, error } = await supabase
+        .from("order_delivery_codes")
+        .select("code")
+        .eq("order_id", order.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching delivery code:", error);
+        return;
+      }
+
+      setDeliveryCode(data?.code ?? null);
+    };
+
+    fetchDeliveryCode();
+  }, [order.id, order.status, userRole]);
+
+  /**
+   * FETCH DISPUTE
+   * Loads the latest dispute and listens for rulings
+   */
+  useEffect(() => {
+    const fetchDispute = async () => {
+      const { data, error } = await supabase
+        .from("disputes")
+        .select("id, opened_by, reason, description, evidence_paths, requested_remedy, requested_amount, status, resolution, refund_amount, resolution_note, created_at")
+        .eq("order_id", order.id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching dispute:", error);
+        return;
+      }
+
+      setDispute(data);
+    };
+
+    fetchDispute();
+
+    const channel = supabase
+      .channel(`disputes-${order.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "disputes",
+          filter: `order_id=eq.${order.id}`,
+        },
+        () => fetchDispute()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [order.id, order.status]);
+
+  const describePayment = (current: Payment) => {
+    switch (current.status) {
+      case "pending":
+        return "Waiting for M-Pesa confirmation...";
+      case "held":
+        return `Paid · held in escrow until receipt is confirmed (${current.provider_receipt})`;
+      case "released":
+        return `Paid · released to seller (${current.provider_receipt})`;
+      case "refunded":
+        return "Refunded to buyer";
+      case "partially_refunded":
+        return `KES ${current.refunded_amount?.toLocaleString()} refunded to buyer · rest released to seller (${current.provider_receipt})`;
+      case "failed":
+        return `Payment failed: ${current.failure_reason || "not completed"}`;
+      default:
+        return current.status;
+    }
+  };
+
+  /**
+   * Describes who made a transition from the viewer's point of view
+   */
+  const describeActor = (changedBy: string | null) => {
+    if (!changedBy) return "System";
+    if (changedBy === myId) return "You";
+    if (changedBy === order.buyer_id) return "Buyer";
+    return changedBy === order.seller_id ? "Seller" : "Resolver";
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "requested":
@@ -116,6 +433,8 @@ export const OrderCard = ({
         return <CheckCircle className="h-4 w-4 text-primary" />;
       case "cancelled":
         return <XCircle className="h-4 w-4 text-red-600" />;
+      case "disputed":
+        return <AlertTriangle className="h-4 w-4 text-orange-600" />;
       default:
         return <Package className="h-4 w-4" />;
     }
@@ -135,6 +454,8 @@ export const OrderCard = ({
         return "bg-primary/10 text-primary border-primary/30";
       case "cancelled":
         return "bg-red-100 text-red-800 border-red-300";
+      case "disputed":
+        return "bg-orange-100 text-orange-800 border-orange-300";
       default:
         return "bg-gray-100 text-gray-800 border-gray-300";
     }
@@ -145,7 +466,7 @@ export const OrderCard = ({
    * Changes order status and notifies the other party
    * 
    * PROCESS:
-   * 1. Update order status in database
+   * 1. Call update_order_status() (rejects transitions not allowed for this role)
    * 2. Create notification for other party (buyer or seller)
    * 3. If status is "completed", award points to both parties:
    *    - Seller: 50 points for completing sale
@@ -153,11 +474,13 @@ export const OrderCard = ({
    * 4. Show success toast
    * 5. Trigger parent refresh to update order list
    * 
-   * COMMON STATUS TRANSITIONS:
+   * ALLOWED STATUS TRANSITIONS:
    * - requested → confirmed (seller confirms)
    * - confirmed → in-transit (seller ships)
+   * - in-transit → delivered goes through confirmDelivery() instead (needs the buyer's code)
    * - delivered → completed (buyer receives)
-   * - any → cancelled (either party cancels)
+   * - requested → cancelled (either party)
+   * - confirmed → cancelled (seller only)
    * 
    * NOTIFICATIONS:
    * - Sent to the opposite party in transaction
@@ -174,11 +497,12 @@ export const OrderCard = ({
     try {
       setLoading(true);
       
-      // Step 1: Update order status in database
-      const { error } = await supabase
-        .from("orders")
-        .update({ status: newStatus })
-        .eq("id", order.id);
+      // Step 1: Transition order server-side, recording actor and note
+      const { error } = await supabase.rpc("update_order_status", {
+        p_order_id: order.id,
+        p_new_status: newStatus,
+        p_note: note.trim() || undefined,
+      });
 
       if (error) throw error;
 
@@ -217,6 +541,7 @@ export const OrderCard = ({
         description: `Order status updated to ${newStatus}`,
       });
 
+      setNote("");
       onStatusChange?.();
     } catch (error) {
       console.error("Error updating order status:", error);
@@ -230,6 +555,118 @@ export const OrderCard = ({
     }
   };
 
+  /**
+   * CONFIRM DELIVERY
+   * Seller marks an in-transit order delivered with the code the buyer handed over
+   *
+   * PROCESS:
+   * 1. Call confirm_delivery() (false when the code is wrong; the attempt is counted)
+   * 2. Notify the buyer
+   * 3. Trigger parent refresh
+   */
+  const confirmDelivery = async () => {
+    try {
+      setLoading(true);
+
+      // Step 1: Check the code and move the order to delivered
+      const { data: confirmed, error } = await supabase.rpc("confirm_delivery", {
+        p_order_id: order.id,
+        p_code: codeInput.trim(),
+        p_note: note.trim() || undefined,
+      });
+
+      if (error) {
+        toast({
+          title: "Could not confirm delivery",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!confirmed) {
+        toast({
+          title: "Wrong Code",
+          description: "That code doesn't match. Ask the buyer to read it out again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Step 2: Let the buyer know so they can confirm receipt
+      await supabase.from("notifications").insert({
+        user_id: order.buyer_id,
+        type: "order",
+        title: "Order Status Updated",
+        message: "Order status changed to delivered",
+        data: { order_id: order.id },
+      });
+
+      toast({
+        title: "Success",
+        description: "Order marked as delivered",
+      });
+
+      setCodeInput("");
+      setNote("");
+      onStatusChange?.();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * DOWNLOAD DOCUMENT
+   * Fetches the stored invoice or receipt, generating it on first request
+   */
+  const downloadDocument = async (kind: OrderDocumentKind) => {
+    try {
+      setDocumentLoading(kind);
+      const documentNumber = await downloadOrderDocument(order.id, kind);
+      toast({
+        title: `${DOCUMENT_KINDS[kind]} ${documentNumber}`,
+        description: "Your download should start shortly",
+      });
+    } catch (error) {
+      console.error(`Error downloading ${kind}:`, error);
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : `Could not get the ${kind}`,
+        variant: "destructive",
+      });
+    } finally {
+      setDocumentLoading(null);
+    }
+  };
+
+  /**
+   * CONFIRM ORDER
+   * For a delivery order, first saves the seller's delivery band if they changed
+   * the buyer's pick (set_order_delivery_tariff reprices the fee and tells the buyer)
+   */
+  const confirmOrder = async () => {
+    if (confirmsDeliveryFee && tariffId && tariffId !== order.delivery_tariff_id) {
+      setLoading(true);
+      const { error } = await supabase.rpc("set_order_delivery_tariff", {
+        p_order_id: order.id,
+        p_tariff_id: tariffId,
+      });
+      setLoading(false);
+
+      if (error) {
+        console.error("Error updating delivery fee:", error);
+        toast({
+          title: "Error",
+          description: error.message || "Failed to update the delivery fee",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    await updateOrderStatus("confirmed");
+  };
+
   const getAvailableActions = () => {
     const actions = [];
 
@@ -239,8 +676,8 @@ export const OrderCard = ({
           <Button
             key="confirm"
             size="sm"
-            onClick={() => updateOrderStatus("confirmed")}
-            disabled={loading}
+            onClick={confirmOrder}
+            disabled={loading || (confirmsDeliveryFee && !tariffId)}
           >
             Confirm Order
           </Button>
@@ -257,14 +694,26 @@ export const OrderCard = ({
           </Button>
         );
       } else if (order.status === "confirmed") {
+        // Shipping is blocked server-side until the buyer's payment is in escrow
         actions.push(
           <Button
             key="transit"
             size="sm"
             onClick={() => updateOrderStatus("in-transit")}
+            disabled={loading || !isPaid}
+          >
+            {!isPaid ? "Awaiting Payment" : isPickup ? "Ready for Pickup" : "Mark In Transit"}
+          </Button>
+        );
+        actions.push(
+          <Button
+            key="cancel"
+            size="sm"
+            variant="destructive"
+            onClick={() => updateOrderStatus("cancelled")}
             disabled={loading}
           >
-            Mark In Transit
+            Cancel
           </Button>
         );
       } else if (order.status === "in-transit") {
@@ -272,8 +721,8 @@ export const OrderCard = ({
           <Button
             key="delivered"
             size="sm"
-            onClick={() => updateOrderStatus("delivered")}
-            disabled={loading}
+            onClick={confirmDelivery}
+            disabled={loading || !/^\d{6}$/.test(codeInput.trim())}
           >
             Mark Delivered
           </Button>
@@ -282,6 +731,37 @@ export const OrderCard = ({
     }
 
     if (userRole === "buyer") {
+      if (
+        (order.status === "requested" || order.status === "confirmed") &&
+        !feeUnconfirmed &&
+        !isPaid &&
+        payment?.status !== "pending"
+      ) {
+        actions.push(
+          <Button
+            key="pay"
+            size="sm"
+            onClick={() => setPaymentDialogOpen(true)}
+            className="gap-2"
+          >
+            <Smartphone className="h-4 w-4" />
+            Pay with M-Pesa
+          </Button>
+        );
+      }
+      if (order.status === "requested") {
+        actions.push(
+          <Button
+            key="cancel"
+            size="sm"
+            variant="destructive"
+            onClick={() => updateOrderStatus("cancelled")}
+            disabled={loading}
+          >
+            Cancel Order
+          </Button>
+        );
+      }
       if (order.status === "delivered") {
         actions.push(
           <Button
@@ -290,11 +770,11 @@ export const OrderCard = ({
             onClick={() => updateOrderStatus("completed")}
             disabled={loading}
           >
-            Confirm Receipt
+            {payment?.status === "held" ? "Confirm Receipt & Release Payment" : "Confirm Receipt"}
           </Button>
         );
       }
-      if (order.status === "completed") {
+      if (canReview) {
         actions.push(
           <Button
             key="review"
@@ -308,9 +788,27 @@ export const OrderCard = ({
       }
     }
 
+    // Either party can dispute an order that is under way
+    if (["confirmed", "in-transit", "delivered"].includes(order.status)) {
+      actions.push(
+        <Button
+          key="dispute"
+          size="sm"
+          variant="ghost"
+          onClick={() => setDisputeDialogOpen(true)}
+          className="gap-2 text-destructive"
+        >
+          <AlertTriangle className="h-4 w-4" />
+          Report a Problem
+        </Button>
+      );
+    }
+
     return actions;
   };
 
+  const actions = getAvailableActions();
+
   return (
     <>
       <Card>
@@ -318,20 +816,27 @@ export const OrderCard = ({
           <div className="flex items-start justify-between">
             <div className="space-y-1">
               <CardTitle className="text-lg">
-                {order.listing?.crop_name || "Product"}
+                {order.listing?.crop_name || order.contract?.crop_name || "Product"}
               </CardTitle>
               <p className="text-sm text-muted-foreground">
-                {userRole === "buyer"
-                  ? `Seller: ${order.seller_profile?.full_name}`
-                  : `Buyer: ${order.buyer_profile?.full_name}`}
+                {userRole === "buyer" ? "Seller: " : "Buyer: "}
+                <Link
+                  to={`/u/${userRole === "buyer" ? order.seller_id : order.buyer_id}`}
+                  className="hover:underline hover:text-foreground"
+                >
+                  {userRole === "buyer" ? order.seller_profile?.full_name : order.buyer_profile?.full_name}
+                </Link>
               </p>
             </div>
-            <Badge className={getStatusColor(order.status)}>
-              <span className="flex items-center gap-1">
-                {getStatusIcon(order.status)}
-                {order.status}
-              </span>
-            </Badge>
+            {/* Current status badge until the timeline has loaded */}
+            {history.length === 0 && (
+              <Badge className={getStatusColor(order.status)}>
+                <span className="flex items-center gap-1">
+                  {getStatusIcon(order.status)}
+                  {order.status}
+                </span>
+              </Badge>
+            )}
           </div>
         </CardHeader>
 
@@ -339,7 +844,7 @@ export const OrderCard = ({
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
               <p className="text-muted-foreground">Quantity</p>
-              <p className="font-semibold">{order.quantity}kg</p>
+              <p className="font-semibold">{formatQuantity(order.quantity, order.unit, order.unit_kg)}</p>
             </div>
             <div>
               <p className="text-muted-foreground">Total Amount</p>
@@ -349,25 +854,151 @@ export const OrderCard = ({
             </div>
           </div>
 
-          {order.delivery_details?.address && (
-            <div className="flex gap-2 p-3 bg-muted rounded-lg">
-              <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
-              <div className="flex-1 text-sm">
-                <p className="font-medium">Delivery Address</p>
+          <div className="flex gap-2 p-3 bg-muted rounded-lg">
+            <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm">
+              <p className="font-medium">{DELIVERY_METHODS[order.delivery_method || "delivery"]}</p>
+              {order.delivery_method === "market_pickup" && order.pickup_point && (
+                <p className="text-muted-foreground">
+                  {order.pickup_point.name}, {order.pickup_point.location}
+                </p>
+              )}
+              {order.delivery_method === "farm_pickup" && order.listing?.location && (
+                <p className="text-muted-foreground">{order.listing.location}</p>
+              )}
+              {isPickup && order.pickup_window_start && order.pickup_window_end && (
                 <p className="text-muted-foreground">
-                  {order.delivery_details.address}
+                  Pickup: {formatPickupWindow(order.pickup_window_start, order.pickup_window_end)}
                 </p>
-                {order.delivery_details.notes && (
-                  <p className="text-muted-foreground italic mt-1">
-                    Note: {order.delivery_details.notes}
+              )}
+              {order.delivery_details?.address && (
+                <p className="text-muted-foreground">{order.delivery_details.address}</p>
+              )}
+              {!!order.delivery_fee && (
+                <p className="text-muted-foreground">
+                  Delivery fee: KES {order.delivery_fee.toLocaleString()} (included in total)
+                </p>
+              )}
+              {userRole === "buyer" && feeUnconfirmed && (
+                <p className="text-muted-foreground">
+                  You can pay once the seller confirms the order and its delivery fee.
+                </p>
+              )}
+              {confirmsDeliveryFee && (
+                <div className="mt-2 space-y-1">
+                  <p className="text-muted-foreground">
+                    Check the buyer's distance band and change it if it's wrong before confirming:
                   </p>
-                )}
+                  <Select value={tariffId} onValueChange={setTariffId}>
+                    <SelectTrigger className="bg-background">
+                      <SelectValue placeholder="Choose a delivery distance" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tariffs.map((tariff) => (
+                        <SelectItem key={tariff.id} value={tariff.id}>
+                          {tariff.label} - KES {calculateDeliveryFee(tariff, order.quantity).toLocaleString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {order.delivery_details?.notes && (
+                <p className="text-muted-foreground italic mt-1">
+                  Note: {order.delivery_details.notes}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {deliveryCode && awaitingDelivery && (
+            <div className="flex gap-2 p-3 rounded-lg border border-primary/30 bg-primary/5 text-sm">
+              <KeyRound className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-medium">
+                  Delivery code: <span className="font-mono tracking-widest">{deliveryCode}</span>
+                </p>
+                <p className="text-muted-foreground">
+                  Give this to the {isPickup ? "seller" : "driver"} only once you have the produce.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {payment && (
+            <div className="flex gap-2 p-3 bg-muted rounded-lg text-sm">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-medium">Payment</p>
+                <p className="text-muted-foreground">{describePayment(payment)}</p>
               </div>
             </div>
           )}
 
+          {dispute && dispute.status !== "withdrawn" && (
+            <DisputePanel
+              dispute={dispute}
+              isOpener={dispute.opened_by === myId}
+              onChange={onStatusChange}
+            />
+          )}
+
+          {order.offer_id && <OfferThread offerId={order.offer_id} />}
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Order Timeline</p>
+              <ol className="border-l border-border ml-2 space-y-3">
+                {history.map((entry, index) => (
+                  <li key={entry.id} className="relative pl-5">
+                    <span className="absolute -left-2 top-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+                      {getStatusIcon(entry.to_status)}
+                    </span>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge
+                        variant="outline"
+                        className={index === history.length - 1 ? getStatusColor(entry.to_status) : ""}
+                      >
+                        {entry.to_status}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {describeActor(entry.changed_by)} · {new Date(entry.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    {entry.note && (
+                      <p className="text-sm text-muted-foreground italic mt-1">
+                        "{entry.note}"
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Note only applies to status changes, not reviews or disputes */}
+          {!canReview && actions.some((action) => action.key !== "dispute") && (
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note to your update (optional)"
+              maxLength={280}
+            />
+          )}
+
+          {userRole === "seller" && order.status === "in-transit" && (
+            <Input
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value.replace(/\D/g, ""))}
+              placeholder="Buyer's 6-digit delivery code"
+              inputMode="numeric"
+              maxLength={6}
+              className="font-mono tracking-widest"
+            />
+          )}
+
           <div className="flex flex-wrap gap-2">
-            {getAvailableActions()}
+            {actions}
             <Button
               size="sm"
               variant="outline"
@@ -377,6 +1008,30 @@ export const OrderCard = ({
               <MessageSquare className="h-4 w-4" />
               Message
             </Button>
+            {hasInvoice && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadDocument("invoice")}
+                disabled={documentLoading !== null}
+                className="gap-2"
+              >
+                <FileText className="h-4 w-4" />
+                {documentLoading === "invoice" ? "Preparing..." : "Invoice"}
+              </Button>
+            )}
+            {hasReceipt && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadDocument("receipt")}
+                disabled={documentLoading !== null}
+                className="gap-2"
+              >
+                <FileText className="h-4 w-4" />
+                {documentLoading === "receipt" ? "Preparing..." : "Receipt"}
+              </Button>
+            )}
           </div>
 
           <p className="text-xs text-muted-foreground">
@@ -385,6 +1040,23 @@ export const OrderCard = ({
         </CardContent>
       </Card>
 
+      {userRole === "buyer" && (
+        <PaymentDialog
+          open={paymentDialogOpen}
+          onOpenChange={setPaymentDialogOpen}
+          orderId={order.id}
+          amount={order.amount}
+        />
+      )}
+
+      <DisputeDialog
+        open={disputeDialogOpen}
+        onOpenChange={setDisputeDialogOpen}
+        orderId={order.id}
+        orderAmount={order.amount}
+        onDisputeOpened={onStatusChange}
+      />
+
       <ReviewDialog
         open={reviewDialogOpen}
         onOpenChange={setReviewDialogOpen}
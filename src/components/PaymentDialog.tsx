@@ -0,0 +1,180 @@
+/**
+ * PAYMENT DIALOG
+ *
+ * Lets a buyer pay for an order with M-Pesa. Funds are held in escrow and only
+ * released to the seller when the buyer confirms receipt in OrderCard.
+ *
+ * PAYMENT FLOW:
+ * 1. Buyer clicks "Pay with M-Pesa" on an order (requested or confirmed)
+ * 2. Dialog shows the order total and asks for the Safaricom number to charge
+ * 3. On submit → initiate-payment edge function starts an STK push
+ * 4. Buyer enters their M-Pesa PIN on the phone prompt
+ * 5. payment-callback records the result; payment becomes "held" (escrow)
+ * 6. OrderCard picks up the new status via Realtime
+ *
+ * ESCROW:
+ * - held: Paid, waiting for the buyer to confirm receipt
+ * - released: Buyer confirmed receipt, funds go to the seller
+ * - refunded: Order cancelled after payment, funds go back to the buyer
+ *
+ * EDGE FUNCTION:
+ * - Calls: initiate-payment with { order_id, phone_number }
+ * - Amount is taken from the order server-side, not from this form
+ */
+
+import { useState } from "react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Smartphone, ShieldCheck } from "lucide-react";
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string; // Order being paid for
+  amount: number; // Order total in KES (display only)
+  onPaymentStarted?: () => void; // Callback to refresh payment status
+}
+
+// Kenyan mobile numbers: 07XX/01XX, 7XX/1XX or 2547XX/2541XX, optionally with +
+const PHONE_PATTERN = /^(\+?254|0)?[17]\d{8}$/;
+
+export const PaymentDialog = ({
+  open,
+  onOpenChange,
+  orderId,
+  amount,
+  onPaymentStarted,
+}: PaymentDialogProps) => {
+  const [phoneNumber, setPhoneNumber] = useState(""); // M-Pesa number to charge
+  const [loading, setLoading] = useState(false); // Waiting on initiate-payment
+  const { toast } = useToast();
+
+  /**
+   * HANDLE SUBMIT
+   * Starts the STK push through the initiate-payment edge function
+   *
+   * PROCESS:
+   * 1. Validate the phone number format
+   * 2. Invoke initiate-payment (creates pending payment, pushes PIN prompt)
+   * 3. Surface the server's error message if the charge could not start
+   * 4. Tell the buyer to check their phone (or that payment is already held)
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const cleaned = phoneNumber.replace(/[\s-]/g, "");
+    if (!PHONE_PATTERN.test(cleaned)) {
+      toast({
+        title: "Invalid Phone Number",
+        description: "Enter a Safaricom number, e.g. 0712 345 678",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.functions.invoke("initiate-payment", {
+        body: { order_id: orderId, phone_number: cleaned },
+      });
+
+      if (error) {
+        // Non-2xx responses carry a readable reason in the body
+        const details = error instanceof FunctionsHttpError ? await error.context.json() : null;
+        toast({
+          title: "Payment Not Started",
+          description: details?.error || "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: data.status === "held" ? "Payment Received" : "Check Your Phone",
+        description: data.status === "held"
+          ? "Your payment is held in escrow until you confirm receipt"
+          : data.message,
+      });
+
+      onOpenChange(false);
+      onPaymentStarted?.();
+    } catch (error) {
+      console.error("Error starting payment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to start payment",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            Pay with M-Pesa
+          </DialogTitle>
+          <DialogDescription>
+            You will receive a prompt on your phone to enter your M-Pesa PIN
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="mpesaPhone">M-Pesa Phone Number</Label>
+            <Input
+              id="mpesaPhone"
+              type="tel"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              placeholder="e.g., 0712 345 678"
+              required
+            />
+          </div>
+
+          <div className="p-4 bg-muted rounded-lg space-y-2">
+            <div className="flex justify-between text-lg font-bold">
+              <span>Amount:</span>
+              <span className="text-primary">KES {amount.toLocaleString()}</span>
+            </div>
+            <p className="flex items-start gap-2 text-xs text-muted-foreground">
+              <ShieldCheck className="h-4 w-4 flex-shrink-0" />
+              Held in escrow and released to the seller only when you confirm receipt.
+              Refunded if the order is cancelled.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Sending prompt..." : "Pay Now"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,235 @@
+/**
+ * PLACE BID DIALOG
+ *
+ * Form for buyers to place a sealed bid on an auction lot.
+ *
+ * BIDDING FLOW:
+ * 1. Buyer clicks "Place Bid" on an auction listing in the Marketplace
+ * 2. Buyer enters a price per unit (at least the reserve) and how to receive the lot
+ * 3. On submit → place_bid() records the bid; bidding again revises it
+ * 4. When the auction ends, the close-auctions job turns the highest bid into a
+ *    "requested" order for the whole lot and notifies the winner, the seller
+ *    and the losing bidders
+ *
+ * SEALED BIDS:
+ * - Bidders only ever see their own bid
+ * - The seller sees bids only after the auction has closed
+ *
+ * VALIDATION:
+ * - Bid must be at or above the reserve price (re-checked server-side)
+ * - Pickup windows must start after the auction ends
+ * - Delivery needs an address and a distance band
+ */
+
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Gavel } from "lucide-react";
+import { formatPrice, formatQuantity, unitLabel } from "@/utils/units";
+import { formatTimeLeft } from "@/utils/auctions";
+import { DeliveryOptions } from "./DeliveryOptions";
+import { useDeliveryOptions } from "@/hooks/useDeliveryOptions";
+import {
+  EMPTY_DELIVERY_CHOICE,
+  calculateDeliveryFee,
+  toDeliveryDetails,
+  validateDeliveryChoice,
+  type DeliveryChoice,
+} from "@/utils/delivery";
+
+interface PlaceBidDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listingId: string; // Auction listing being bid on
+  cropName: string;
+  reservePricePerKg: number; // Lowest acceptable bid, KES per kg
+  lotQuantity: number; // kg in the lot; the winner buys all of it
+  auctionEndsAt: string;
+  unit?: string; // Unit the listing is sold in (default kg)
+  unitKg?: number; // Weight of one unit in kg
+  currentBidPerKg?: number | null; // Buyer's existing bid, if any
+  onBidPlaced?: () => void; // Callback to refresh the buyer's bids
+}
+
+export const PlaceBidDialog = ({
+  open,
+  onOpenChange,
+  listingId,
+  cropName,
+  reservePricePerKg,
+  lotQuantity,
+  auctionEndsAt,
+  unit = "kg",
+  unitKg = 1,
+  currentBidPerKg = null,
+  onBidPlaced,
+}: PlaceBidDialogProps) => {
+  // FORM STATE
+  const [bid, setBid] = useState(""); // Bid per unit in KES
+  const [delivery, setDelivery] = useState<DeliveryChoice>(EMPTY_DELIVERY_CHOICE);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { pickupPoints, tariffs } = useDeliveryOptions();
+
+  // CALCULATED TOTAL - What the buyer pays if this bid wins
+  const bidPerKg = Number(bid) / unitKg;
+  const deliveryFee =
+    delivery.method === "delivery"
+      ? calculateDeliveryFee(tariffs.find((tariff) => tariff.id === delivery.tariffId), lotQuantity)
+      : 0;
+  const totalAmount = (bidPerKg > 0 ? bidPerKg * lotQuantity : 0) + deliveryFee;
+
+  /**
+   * HANDLE SUBMIT
+   * Records (or revises) the buyer's sealed bid via place_bid()
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // VALIDATION 1: Bid must meet the reserve (compared per kg, to the cent)
+    if (!(bidPerKg > 0) || Math.round(bidPerKg * 100) < Math.round(reservePricePerKg * 100)) {
+      toast({
+        title: "Bid Too Low",
+        description: `Bids start at the reserve price of ${formatPrice(reservePricePerKg, unit, unitKg)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // VALIDATION 2: Pickup window or delivery address and distance
+    const deliveryError = validateDeliveryChoice(delivery);
+    if (deliveryError) {
+      toast({
+        title: "Missing Information",
+        description: deliveryError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      // The auction may have ended, or the pickup window may fall before the end
+      const { error } = await supabase.rpc("place_bid", {
+        p_listing_id: listingId,
+        p_price_per_kg: bidPerKg,
+        p_delivery_details: toDeliveryDetails(delivery),
+      });
+
+      if (error) {
+        toast({
+          title: "Bid Not Placed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: currentBidPerKg ? "Bid Updated" : "Bid Placed",
+        description: "We'll let you know how the auction goes when it closes",
+      });
+
+      onOpenChange(false);
+      onBidPlaced?.();
+      setBid("");
+      setDelivery(EMPTY_DELIVERY_CHOICE);
+    } catch (error) {
+      console.error("Error placing bid:", error);
+      toast({
+        title: "Error",
+        description: "Failed to place bid",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            {currentBidPerKg ? "Update Your Bid" : "Place a Bid"}
+          </DialogTitle>
+          <DialogDescription>
+            Sealed-bid auction for {formatQuantity(lotQuantity, unit, unitKg)} of {cropName}.
+            Ends in {formatTimeLeft(auctionEndsAt)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bid">Your Bid per {unit === "kg" ? "KG" : unitLabel(unit)} (KES)</Label>
+            <Input
+              id="bid"
+              type="number"
+              step="0.01"
+              min={Number((reservePricePerKg * unitKg).toFixed(2))}
+              value={bid}
+              onChange={(e) => setBid(e.target.value)}
+              placeholder={(reservePricePerKg * unitKg).toFixed(2)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Reserve: {formatPrice(reservePricePerKg, unit, unitKg)}
+              {currentBidPerKg && <> · Your current bid: {formatPrice(currentBidPerKg, unit, unitKg)}</>}
+            </p>
+          </div>
+
+          <DeliveryOptions
+            value={delivery}
+            onChange={setDelivery}
+            pickupPoints={pickupPoints}
+            tariffs={tariffs}
+          />
+
+          <div className="p-4 bg-muted rounded-lg space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Lot:</span>
+              <span className="font-semibold">{formatQuantity(lotQuantity, unit, unitKg)}</span>
+            </div>
+            {delivery.method === "delivery" && (
+              <div className="flex justify-between text-sm">
+                <span>Delivery:</span>
+                <span className="font-semibold">
+                  {delivery.tariffId ? `KES ${deliveryFee.toLocaleString()}` : "Choose a distance"}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between text-lg font-bold border-t pt-2">
+              <span>If you win:</span>
+              <span className="text-primary">KES {totalAmount.toLocaleString()}</span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Placing..." : currentBidPerKg ? "Update Bid" : "Place Bid"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * PLANTING PICKER
+ *
+ * Chooses which plantings (crops records) a ledger entry belongs to, used by
+ * AddLedgerDialog and AssignPlantingsDialog.
+ *
+ * - No planting: general farm income or expense
+ * - One planting: the whole amount counts towards it
+ * - Several plantings: a shared cost or income, split by acreage; each
+ *   planting's share is shown as it is picked
+ */
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { formatPlanting, getAcreageShares, type Planting } from "@/utils/cropProfitability";
+
+interface PlantingPickerProps {
+  plantings: Planting[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  amount?: number; // Entry amount, to show each planting's share in KES
+}
+
+export const PlantingPicker = ({ plantings, selectedIds, onChange, amount }: PlantingPickerProps) => {
+  const shares = getAcreageShares(plantings.filter((planting) => selectedIds.includes(planting.id)));
+  const isSplit = selectedIds.length > 1;
+
+  const togglePlanting = (id: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, id] : selectedIds.filter((selectedId) => selectedId !== id));
+  };
+
+  if (plantings.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add your crops on the Dashboard to track profit per planting.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+        {plantings.map((planting) => {
+          const share = shares.get(planting.id);
+
+          return (
+            <div key={planting.id} className="flex items-center justify-between gap-2 py-1">
+              <div className="flex items-center gap-2 min-w-0">
+                <Checkbox
+                  id={`planting-${planting.id}`}
+                  checked={selectedIds.includes(planting.id)}
+                  onCheckedChange={(checked) => togglePlanting(planting.id, checked === true)}
+                />
+                <Label htmlFor={`planting-${planting.id}`} className="text-sm font-normal truncate">
+                  {formatPlanting(planting)}
+                </Label>
+              </div>
+              {isSplit && share !== undefined && (
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {Math.round(share * 100)}%
+                  {amount ? ` · KES ${Math.round(amount * share).toLocaleString()}` : ""}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {selectedIds.length === 0
+          ? "Not linked to a planting"
+          : isSplit
+            ? "Shared across the selected plantings by acreage"
+            : "Counts in full towards this planting"}
+      </p>
+    </div>
+  );
+};
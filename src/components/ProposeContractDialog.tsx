@@ -0,0 +1,334 @@
+/**
+ * PROPOSE CONTRACT DIALOG
+ *
+ * Form for a buyer (offtaker, processor) to propose a forward contract to a
+ * farmer before planting. Opened from the farmer's public profile.
+ *
+ * CONTRACT TERMS:
+ * - Crop and quality specs (grade, moisture, size, packaging...)
+ * - Price formula: a fixed price per kg, or the market price plus a premium
+ *   with a guaranteed floor and an optional ceiling
+ * - Delivery schedule: one or more dated deliveries; the contracted volume is their total
+ * - Farm pickup or delivery to an address
+ *
+ * FLOW:
+ * 1. propose_contract() stores the contract as 'proposed' and notifies the farmer
+ * 2. The farmer accepts on the Contracts page, linking one of their crop records
+ * 3. Each delivery becomes an order on its due date (contract-deliveries job)
+ */
+
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePopularCrops } from "@/hooks/usePopularCrops";
+import { FileSignature, Plus, Trash2 } from "lucide-react";
+
+interface ScheduleRow {
+  dueDate: string;
+  quantity: string; // kg
+}
+
+const EMPTY_ROW: ScheduleRow = { dueDate: "", quantity: "" };
+
+interface ProposeContractDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farmerId: string;
+  farmerName: string;
+}
+
+export const ProposeContractDialog = ({ open, onOpenChange, farmerId, farmerName }: ProposeContractDialogProps) => {
+  const { crops: cropOptions } = usePopularCrops();
+
+  // FORM STATE
+  const [cropName, setCropName] = useState("");
+  const [priceType, setPriceType] = useState<"fixed" | "market">("fixed");
+  const [price, setPrice] = useState(""); // Fixed price per kg
+  const [premium, setPremium] = useState("0"); // % over market price
+  const [floor, setFloor] = useState("");
+  const [ceiling, setCeiling] = useState("");
+  const [qualitySpecs, setQualitySpecs] = useState("");
+  const [deliveryMethod, setDeliveryMethod] = useState<"farm_pickup" | "delivery">("farm_pickup");
+  const [address, setAddress] = useState("");
+  const [schedule, setSchedule] = useState<ScheduleRow[]>([EMPTY_ROW]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const totalQuantity = schedule.reduce((sum, row) => sum + (Number(row.quantity) || 0), 0);
+
+  const updateRow = (index: number, changes: Partial<ScheduleRow>) => {
+    setSchedule((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const resetForm = () => {
+    setCropName("");
+    setPriceType("fixed");
+    setPrice("");
+    setPremium("0");
+    setFloor("");
+    setCeiling("");
+    setQualitySpecs("");
+    setDeliveryMethod("farm_pickup");
+    setAddress("");
+    setSchedule([EMPTY_ROW]);
+  };
+
+  /**
+   * HANDLE SUBMIT
+   * Sends the proposal; the database validates the terms and notifies the farmer
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!cropName || schedule.some((row) => !row.dueDate || !(Number(row.quantity) > 0))) {
+      toast({
+        title: "Missing Information",
+        description: "Choose a crop and give every delivery a date and quantity",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { error } = await supabase.rpc("propose_contract", {
+        p_farmer_id: farmerId,
+        p_crop_name: cropName,
+        p_price_type: priceType,
+        p_price_per_kg: priceType === "fixed" ? Number(price) : undefined,
+        p_market_premium_pct: priceType === "market" ? Number(premium) || 0 : undefined,
+        p_price_floor: priceType === "market" ? Number(floor) : undefined,
+        p_price_ceiling: priceType === "market" && ceiling ? Number(ceiling) : undefined,
+        p_quality_specs: qualitySpecs,
+        p_delivery_method: deliveryMethod,
+        p_delivery_address: deliveryMethod === "delivery" ? address : undefined,
+        p_deliveries: schedule.map((row) => ({ due_date: row.dueDate, quantity: Number(row.quantity) })),
+      });
+
+      if (error) {
+        toast({
+          title: "Contract Not Sent",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Contract Proposed",
+        description: `${farmerName} has been asked to review your terms`,
+      });
+      onOpenChange(false);
+      resetForm();
+    } catch (error) {
+      console.error("Error proposing contract:", error);
+      toast({
+        title: "Error",
+        description: "Failed to propose contract",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Propose a Contract
+          </DialogTitle>
+          <DialogDescription>
+            Lock in supply from {farmerName} before planting
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contractCrop">Crop</Label>
+            <Select value={cropName} onValueChange={setCropName}>
+              <SelectTrigger id="contractCrop">
+                <SelectValue placeholder="Select a crop" />
+              </SelectTrigger>
+              <SelectContent>
+                {cropOptions.map((crop) => (
+                  <SelectItem key={crop} value={crop}>
+                    {crop}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="priceType">Price Formula</Label>
+            <Select value={priceType} onValueChange={(value) => setPriceType(value as "fixed" | "market")}>
+              <SelectTrigger id="priceType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Fixed price</SelectItem>
+                <SelectItem value="market">Market-linked</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {priceType === "fixed" ? (
+            <div className="space-y-2">
+              <Label htmlFor="contractPrice">Price per KG (KES)</Label>
+              <Input
+                id="contractPrice"
+                type="number"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="e.g., 45"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="premium" className="text-xs">Premium (%)</Label>
+                  <Input
+                    id="premium"
+                    type="number"
+                    step="0.5"
+                    value={premium}
+                    onChange={(e) => setPremium(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="floor" className="text-xs">Floor (KES/kg)</Label>
+                  <Input
+                    id="floor"
+                    type="number"
+                    step="0.01"
+                    value={floor}
+                    onChange={(e) => setFloor(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="ceiling" className="text-xs">Ceiling (optional)</Label>
+                  <Input
+                    id="ceiling"
+                    type="number"
+                    step="0.01"
+                    value={ceiling}
+                    onChange={(e) => setCeiling(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each delivery is priced at the average market price of the previous week plus the premium,
+                never below the floor.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="qualitySpecs">Quality Specs</Label>
+            <Textarea
+              id="qualitySpecs"
+              value={qualitySpecs}
+              onChange={(e) => setQualitySpecs(e.target.value)}
+              placeholder="e.g., Grade 1, moisture below 13.5%, in 90kg bags"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contractDelivery">Delivery</Label>
+            <Select
+              value={deliveryMethod}
+              onValueChange={(value) => setDeliveryMethod(value as "farm_pickup" | "delivery")}
+            >
+              <SelectTrigger id="contractDelivery">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="farm_pickup">Collected from the farm</SelectItem>
+                <SelectItem value="delivery">Delivered to my address</SelectItem>
+              </SelectContent>
+            </Select>
+            {deliveryMethod === "delivery" && (
+              <Input
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="Delivery address"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Delivery Schedule</Label>
+            {schedule.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={row.dueDate}
+                  onChange={(e) => updateRow(index, { dueDate: e.target.value })}
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  step="1"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                  placeholder="kg"
+                  className="w-28"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={schedule.length === 1}
+                  onClick={() => setSchedule((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setSchedule((prev) => [...prev, EMPTY_ROW])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Delivery
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Total contracted: <strong>{totalQuantity.toLocaleString()} kg</strong>
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Sending..." : "Send Proposal"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
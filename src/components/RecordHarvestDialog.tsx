@@ -0,0 +1,118 @@
+/**
+ * RECORD HARVEST DIALOG
+ *
+ * Records how much a planting actually yielded and marks it harvested, from
+ * My Produce. The harvested quantity gives the real cost per kg in the
+ * Finances crop profitability view (until then it is estimated from the
+ * expected yield).
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface RecordHarvestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  crop: { id: string; crop_name: string; acreage: number; expected_yield: number | null };
+  onSuccess: () => void;
+}
+
+export const RecordHarvestDialog = ({ open, onOpenChange, crop, onSuccess }: RecordHarvestDialogProps) => {
+  const [quantity, setQuantity] = useState("");
+  const [harvestedAt, setHarvestedAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the expected yield
+  useEffect(() => {
+    if (open) setQuantity(crop.expected_yield ? String(crop.expected_yield) : "");
+  }, [open, crop.expected_yield]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const { error } = await supabase
+      .from("crops")
+      .update({
+        harvested_quantity: parseFloat(quantity),
+        harvested_at: harvestedAt,
+        status: "harvested",
+      })
+      .eq("id", crop.id);
+
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Error recording harvest:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record the harvest. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Harvest recorded",
+      description: `${crop.crop_name}: ${parseFloat(quantity).toLocaleString()} kg`,
+    });
+    onOpenChange(false);
+    onSuccess();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Harvest</DialogTitle>
+          <DialogDescription>
+            {crop.crop_name} · {crop.acreage} acres
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="harvested-quantity">Quantity harvested (kg) *</Label>
+              <Input
+                id="harvested-quantity"
+                type="number"
+                min="0"
+                step="0.1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="harvested-at">Harvest date *</Label>
+              <Input
+                id="harvested-at"
+                type="date"
+                value={harvestedAt}
+                onChange={(e) => setHarvestedAt(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Harvest
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
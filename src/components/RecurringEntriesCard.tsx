@@ -0,0 +1,200 @@
+/**
+ * RECURRING ENTRIES CARD
+ *
+ * Recurring income and expenses on the Finances page (wages, land lease, loan
+ * repayments), posted into the ledger on each date by the recurring-ledger job.
+ *
+ * FEATURES:
+ * - Upcoming occurrences over the next 30 days, with their total
+ * - Every recurring entry with its schedule and next date
+ * - Pause and resume (resuming skips the dates missed while paused)
+ * - Add, edit and delete through RecurringEntryDialog
+ */
+
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Repeat } from "lucide-react";
+import { RecurringEntryDialog } from "./RecurringEntryDialog";
+import {
+  FREQUENCY_LABELS,
+  getFirstOccurrenceFrom,
+  getUpcomingOccurrences,
+  hasEnded,
+  type RecurringEntry,
+  type RecurringFrequency,
+} from "@/utils/recurringEntries";
+
+interface RecurringEntriesCardProps {
+  refreshKey?: unknown; // Refetch when this changes, e.g. after ledger entries change
+}
+
+const UPCOMING_DAYS = 30;
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "EEE, MMM d");
+
+export const RecurringEntriesCard = ({ refreshKey }: RecurringEntriesCardProps) => {
+  const [entries, setEntries] = useState<RecurringEntry[]>([]);
+  const [editing, setEditing] = useState<{ entry: RecurringEntry | null } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("recurring_ledger_entries")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("next_date", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching recurring entries:", error);
+        return;
+      }
+      setEntries(data || []);
+    };
+
+    fetchEntries();
+  }, [refreshKey, reloadKey]);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcoming = getUpcomingOccurrences(entries, format(addDays(new Date(), UPCOMING_DAYS), "yyyy-MM-dd"));
+  const upcomingNet = upcoming.reduce(
+    (sum, { entry }) => sum + (entry.type === "income" ? 1 : -1) * Number(entry.amount),
+    0
+  );
+
+  const toggleActive = async (entry: RecurringEntry, active: boolean) => {
+    const { error } = await supabase
+      .from("recurring_ledger_entries")
+      .update(active ? { active, next_date: getFirstOccurrenceFrom(entry, today) } : { active })
+      .eq("id", entry.id);
+
+    if (error) {
+      console.error("Error updating recurring entry:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update recurring entry",
+        variant: "destructive",
+      });
+      return;
+    }
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="w-5 h-5" />
+              Recurring Entries
+            </CardTitle>
+            <CardDescription>Wages, leases and repayments posted to your ledger automatically</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setEditing({ entry: null })}>
+            <Plus className="w-4 h-4 mr-1" />
+            Recurring
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entries.length > 0 ? (
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Upcoming */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <h4 className="font-medium">Next {UPCOMING_DAYS} days</h4>
+                {upcoming.length > 0 && (
+                  <span className={upcomingNet >= 0 ? "text-success" : "text-destructive"}>
+                    {upcomingNet >= 0 ? "+" : "-"}KES {Math.abs(upcomingNet).toLocaleString()}
+                  </span>
+                )}
+              </div>
+              {upcoming.length > 0 ? (
+                <div className="space-y-1">
+                  {upcoming.map(({ entry, date }) => (
+                    <div key={`${entry.id}-${date}`} className="flex items-center justify-between text-sm rounded-md border p-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{entry.item}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {date <= today ? "Due" : formatDay(date)}
+                        </p>
+                      </div>
+                      <span className={`font-bold whitespace-nowrap ${entry.type === "income" ? "text-success" : "text-destructive"}`}>
+                        {entry.type === "income" ? "+" : "-"}KES {Number(entry.amount).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing due in the next {UPCOMING_DAYS} days</p>
+              )}
+            </div>
+
+            {/* All recurring entries */}
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">Schedules</h4>
+              {entries.map((entry) => {
+                const ended = hasEnded(entry);
+
+                return (
+                  <div key={entry.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() => setEditing({ entry })}
+                    >
+                      <p className="font-medium text-sm truncate flex items-center gap-2">
+                        {entry.item}
+                        {ended && <Badge variant="outline">Ended</Badge>}
+                        {!ended && !entry.active && <Badge variant="secondary">Paused</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {FREQUENCY_LABELS[entry.frequency as RecurringFrequency]} · KES{" "}
+                        {Number(entry.amount).toLocaleString()} · {entry.category}
+                        {!ended && entry.active && ` · next ${formatDay(entry.next_date)}`}
+                        {entry.end_date && ` · until ${formatDay(entry.end_date)}`}
+                      </p>
+                    </button>
+                    {!ended && (
+                      <Switch
+                        checked={entry.active}
+                        onCheckedChange={(checked) => toggleActive(entry, checked)}
+                        aria-label={entry.active ? "Pause" : "Resume"}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Repeat className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No recurring entries</p>
+            <p className="text-sm mt-2">Add wages, rent or loan repayments once instead of every time</p>
+          </div>
+        )}
+      </CardContent>
+
+      {editing && (
+        <RecurringEntryDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          entry={editing.entry}
+          onSaved={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+    </Card>
+  );
+};
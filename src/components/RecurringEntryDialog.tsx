@@ -0,0 +1,329 @@
+/**
+ * RECURRING ENTRY DIALOG
+ *
+ * Sets up, changes or removes a recurring ledger entry from the Finances page:
+ * income or an expense that repeats weekly or monthly (wages, land lease, loan
+ * repayments). The recurring-ledger job posts each occurrence into the ledger
+ * on its date.
+ *
+ * The category is suggested from the item like in AddLedgerDialog. Type,
+ * frequency and start date are fixed once created; end the entry and add a new
+ * one to change the schedule. Removing it keeps the entries already posted.
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { categoriesFor, suggestCategory, type LedgerCategoryRule } from "@/utils/ledgerCategories";
+import {
+  FREQUENCY_LABELS,
+  getFirstOccurrenceFrom,
+  hasEnded,
+  type RecurringEntry,
+  type RecurringFrequency,
+} from "@/utils/recurringEntries";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface RecurringEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: RecurringEntry | null; // Entry being edited, null to add one
+  onSaved: () => void;
+}
+
+export const RecurringEntryDialog = ({ open, onOpenChange, entry, onSaved }: RecurringEntryDialogProps) => {
+  const [type, setType] = useState<"income" | "expense">("expense");
+  const [item, setItem] = useState("");
+  const [amount, setAmount] = useState("");
+  const [category, setCategory] = useState<string | null>(null); // null follows the suggestion
+  const [frequency, setFrequency] = useState<RecurringFrequency>("monthly");
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [rules, setRules] = useState<LedgerCategoryRule[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const selectedCategory = category ?? suggestCategory(type, item, rules);
+
+  // Start from the entry being edited (and load category rules) each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setType(entry?.type === "income" ? "income" : "expense");
+    setItem(entry?.item || "");
+    setAmount(entry ? String(entry.amount) : "");
+    setCategory(entry?.category || null);
+    setFrequency(entry?.frequency === "weekly" ? "weekly" : "monthly");
+    setStartDate(entry?.start_date || format(new Date(), "yyyy-MM-dd"));
+    setEndDate(entry?.end_date || "");
+    setNotes(entry?.notes || "");
+
+    const fetchRules = async () => {
+      const { data, error } = await supabase
+        .from("ledger_category_rules")
+        .select("id, type, match_text, category, created_at");
+
+      if (error) {
+        console.error("Error fetching category rules:", error);
+        return;
+      }
+      setRules(data || []);
+    };
+
+    fetchRules();
+  }, [open, entry]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (endDate && endDate < startDate) {
+      toast({
+        title: "Check the dates",
+        description: "The end date can't be before the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const values = {
+        item: item.trim(),
+        amount: parseFloat(amount),
+        category: selectedCategory,
+        end_date: endDate || null,
+        notes: notes.trim() || null,
+      };
+
+      // A changed end date can end an entry or bring an ended one back; paused stays paused.
+      // An ended entry comes back from its first date from today, like resuming a paused one
+      const paused = entry !== null && !entry.active && !hasEnded(entry);
+      const ended = entry !== null && !entry.active && hasEnded(entry);
+      const nextDate = ended ? getFirstOccurrenceFrom(entry, format(new Date(), "yyyy-MM-dd")) : entry?.next_date ?? startDate;
+      const active = !paused && (values.end_date === null || nextDate <= values.end_date);
+      const changes = ended && active ? { ...values, active, next_date: nextDate } : { ...values, active };
+
+      const { error } = entry
+        ? await supabase.from("recurring_ledger_entries").update(changes).eq("id", entry.id)
+        : await supabase.from("recurring_ledger_entries").insert({
+            ...values,
+            user_id: user.id,
+            type,
+            frequency,
+            start_date: startDate,
+            next_date: startDate,
+          });
+
+      if (error) throw error;
+
+      toast({
+        title: entry ? "Recurring entry updated" : "Recurring entry added",
+        description: entry ? undefined : `${FREQUENCY_LABELS[frequency]} from ${format(new Date(`${startDate}T00:00:00`), "MMM d, yyyy")}`,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving recurring entry:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save recurring entry",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entry) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("recurring_ledger_entries").delete().eq("id", entry.id);
+    setSaving(false);
+
+    if (error) {
+      console.error("Error deleting recurring entry:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete recurring entry",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Recurring entry removed", description: "Entries already posted stay in your ledger" });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry ? "Edit Recurring Entry" : "Add Recurring Entry"}</DialogTitle>
+          <DialogDescription>Posted to your ledger automatically on each date</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Select
+                value={type}
+                onValueChange={(value: "income" | "expense") => {
+                  setType(value);
+                  setCategory(null); // Categories differ by type
+                }}
+                disabled={!!entry}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Repeats *</Label>
+              <Select
+                value={frequency}
+                onValueChange={(value: RecurringFrequency) => setFrequency(value)}
+                disabled={!!entry}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-item">Item *</Label>
+            <Input
+              id="recurring-item"
+              value={item}
+              onChange={(e) => setItem(e.target.value)}
+              placeholder="e.g. Farm worker wages, Land lease"
+              maxLength={200}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-amount">Amount (KES) *</Label>
+              <Input
+                id="recurring-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={selectedCategory} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoriesFor(type).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start">First date *</Label>
+              <Input
+                id="recurring-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={!!entry}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end">End date</Label>
+              <Input
+                id="recurring-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+          {!entry && startDate < format(new Date(), "yyyy-MM-dd") && (
+            <p className="text-xs text-muted-foreground">
+              Dates already past are posted the next time recurring entries run.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-notes">Notes</Label>
+            <Textarea
+              id="recurring-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-2 justify-between">
+            {entry ? (
+              <Button type="button" variant="ghost" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
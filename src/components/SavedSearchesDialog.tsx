@@ -0,0 +1,266 @@
+/**
+ * SAVED SEARCHES DIALOG
+ *
+ * Settings panel for a buyer's saved Browse searches and their new-listing alerts.
+ *
+ * FEATURES:
+ * - Save the current filters (crop, region, max price, min quantity) as a search
+ * - Pause or resume alerts for a search
+ * - Turn browser (push) notifications on or off per search; turning one on
+ *   asks for notification permission if it hasn't been granted yet
+ * - Delete searches no longer needed
+ *
+ * ALERTS:
+ * New listings are matched in the database (notify_saved_searches trigger), so
+ * alerts arrive in NotificationCenter even when the buyer isn't browsing.
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useNotifications } from "@/hooks/useNotifications";
+import type { ListingFilters } from "@/utils/listingFilters";
+import {
+  MAX_SAVED_SEARCHES,
+  describeSavedSearch,
+  toSavedSearchCriteria,
+  type SavedSearch,
+} from "@/utils/savedSearches";
+import { BellRing, Loader2, Trash2 } from "lucide-react";
+
+const SAVED_SEARCH_COLUMNS =
+  "id, crop_name, region, max_price, min_quantity, push_enabled, active, last_notified_at, created_at";
+
+interface SavedSearchesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: ListingFilters; // Current Browse filters, offered as a new search
+}
+
+export const SavedSearchesDialog = ({ open, onOpenChange, filters }: SavedSearchesDialogProps) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { permission, requestPermission } = useNotifications();
+  const { toast } = useToast();
+
+  const criteria = toSavedSearchCriteria(filters);
+  const alreadySaved = criteria !== null && searches.some((search) =>
+    describeSavedSearch(search) === describeSavedSearch(criteria)
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchSearches = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from("saved_searches")
+          .select(SAVED_SEARCH_COLUMNS)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        setSearches(data || []);
+      } catch (error) {
+        console.error("Error fetching saved searches:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load saved searches",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSearches();
+  }, [open, toast]);
+
+  /**
+   * Save Current Search
+   * Stores the saveable filters; the database enforces the per-user limit
+   */
+  const saveCurrentSearch = async () => {
+    if (!criteria) return;
+
+    try {
+      setSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .insert({
+          user_id: user.id,
+          ...criteria,
+          push_enabled: permission === "granted",
+        })
+        .select(SAVED_SEARCH_COLUMNS)
+        .single();
+
+      // The limit trigger's message tells the buyer what to do
+      if (error) {
+        toast({
+          title: "Search Not Saved",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setSearches((prev) => [data, ...prev]);
+      toast({
+        title: "Search Saved",
+        description: "We'll let you know when a matching listing is posted",
+      });
+    } catch (error) {
+      console.error("Error saving search:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSearch = async (id: string, changes: Partial<Pick<SavedSearch, "active" | "push_enabled">>) => {
+    // Browser notifications need permission before they are worth switching on
+    if (changes.push_enabled && permission !== "granted") {
+      const granted = await requestPermission();
+      if (!granted) return;
+    }
+
+    const { error } = await supabase.from("saved_searches").update(changes).eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update saved search",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSearches((prev) => prev.map((search) => (search.id === id ? { ...search, ...changes } : search)));
+  };
+
+  const deleteSearch = async (id: string) => {
+    const { error } = await supabase.from("saved_searches").delete().eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete saved search",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSearches((prev) => prev.filter((search) => search.id !== id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-primary" />
+            Saved Searches
+          </DialogTitle>
+          <DialogDescription>
+            Get notified when new listings match what you buy regularly.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Current filters, offered as a new search */}
+        <div className="rounded-md border p-3 space-y-2">
+          <p className="text-sm font-medium">Current filters</p>
+          {criteria ? (
+            <>
+              <p className="text-sm text-muted-foreground">{describeSavedSearch(criteria)}</p>
+              <Button
+                size="sm"
+                onClick={saveCurrentSearch}
+                disabled={saving || alreadySaved || searches.length >= MAX_SAVED_SEARCHES}
+              >
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {alreadySaved ? "Already Saved" : "Save This Search"}
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Set a crop, region, max price or minimum quantity in the filters to save a search.
+            </p>
+          )}
+        </div>
+
+        {/* Saved searches */}
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : searches.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No saved searches yet</p>
+        ) : (
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {searches.map((search) => (
+              <div key={search.id} className="rounded-md border p-3 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">{describeSavedSearch(search)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {search.last_notified_at
+                        ? `Last match ${new Date(search.last_notified_at).toLocaleDateString()}`
+                        : "No matches yet"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => deleteSearch(search.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`active-${search.id}`}
+                      checked={search.active}
+                      onCheckedChange={(checked) => updateSearch(search.id, { active: checked })}
+                    />
+                    <Label htmlFor={`active-${search.id}`} className="text-sm">Alerts</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`push-${search.id}`}
+                      checked={search.push_enabled}
+                      disabled={!search.active}
+                      onCheckedChange={(checked) => updateSearch(search.id, { push_enabled: checked })}
+                    />
+                    <Label htmlFor={`push-${search.id}`} className="text-sm">Browser notifications</Label>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {searches.length >= MAX_SAVED_SEARCHES && (
+          <p className="text-xs text-muted-foreground">
+            You can save up to {MAX_SAVED_SEARCHES} searches. Delete one to add another.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
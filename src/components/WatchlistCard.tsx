@@ -0,0 +1,114 @@
+/**
+ * WATCHLIST CARD
+ *
+ * "Watching" section of the Marketplace Browse tab: listings the buyer has
+ * bookmarked with the heart button, including ones that have since sold out
+ * or expired, so they can see what happened to them.
+ *
+ * ALERTS:
+ * The notify_listing_watchers trigger notifies watchers when a listing drops
+ * in price, is down to its last 20% of stock, or expires.
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Heart, Loader2, MapPin } from "lucide-react";
+import { formatPrice, formatQuantity } from "@/utils/units";
+
+/**
+ * Watched Listing Interface
+ * A listing_watches row with the listing it points at
+ */
+export interface WatchedListing {
+  listing_id: string;
+  created_at: string;
+  listing: {
+    crop_name: string;
+    price_per_kg: number;
+    available_quantity: number;
+    location: string;
+    status: string | null;
+    unit: string;
+    unit_kg: number;
+  } | null;
+}
+
+// Badges for listings that can no longer be bought
+const UNAVAILABLE_STATUS_LABELS: Record<string, string> = {
+  sold_out: "Sold out",
+  sold: "Sold",
+  expired: "Expired",
+  inactive: "Withdrawn",
+};
+
+interface WatchlistCardProps {
+  items: WatchedListing[];
+  loading: boolean;
+  onUnwatch: (listingId: string) => void;
+}
+
+export const WatchlistCard = ({ items, loading, onUnwatch }: WatchlistCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Heart className="w-5 h-5 text-primary" />
+          Watching ({items.length})
+        </CardTitle>
+        <CardDescription>Get alerts on price drops, low stock and expiry</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Tap the heart on a listing to watch it
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {items.map(({ listing_id, listing }) => (
+              <div key={listing_id} className="flex items-start justify-between gap-2 p-3 border rounded-lg">
+                {listing ? (
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm">{listing.crop_name}</p>
+                      {listing.status && UNAVAILABLE_STATUS_LABELS[listing.status] && (
+                        <Badge variant="secondary" className="text-xs">
+                          {UNAVAILABLE_STATUS_LABELS[listing.status]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {listing.location}
+                    </p>
+                    <p className="text-xs">
+                      <span className="font-semibold text-primary">
+                        {formatPrice(listing.price_per_kg, listing.unit, listing.unit_kg)}
+                      </span>
+                      {" · "}
+                      {formatQuantity(listing.available_quantity, listing.unit, listing.unit_kg)} left
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Listing no longer available</p>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  onClick={() => onUnwatch(listing_id)}
+                >
+                  <Heart className="w-4 h-4 fill-primary text-primary" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,6 +3,8 @@
  * 
  * Tool for estimating crop yields based on acreage and historical averages.
  * Provides harvest date predictions and potential revenue calculations.
+ * Yields are estimated in kilograms and can be shown in any unit the crop
+ * trades in (90kg bags, crates, ...), with the market price converted to match.
  * 
  * @component
  * @example
@@ -23,6 +25,8 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calculator, TrendingUp } from "lucide-react";
 import { usePopularCrops } from "@/hooks/usePopularCrops";
+import { useUnits } from "@/hooks/useUnits";
+import { fromKg, formatPrice, unitLabel } from "@/utils/units";
 
 const CROP_YIELD_DATA: Record<string, { avgYield: number; unit: string; growthPeriod: number }> = {
   maize: { avgYield: 2500, unit: "kg/acre", growthPeriod: 120 },
@@ -42,7 +46,9 @@ interface YieldCalculatorDialogProps {
 
 export default function YieldCalculatorDialog({ open, onOpenChange }: YieldCalculatorDialogProps) {
   const { crops: popularCrops } = usePopularCrops();
+  const { unitsForCrop, kgPerUnit } = useUnits();
   const [selectedCrop, setSelectedCrop] = useState("");
+  const [unit, setUnit] = useState("kg");
   const [acreage, setAcreage] = useState("");
   const [expectedYield, setExpectedYield] = useState<number | null>(null);
   const [estimatedHarvest, setEstimatedHarvest] = useState<string>("");
@@ -119,8 +125,16 @@ export default function YieldCalculatorDialog({ open, onOpenChange }: YieldCalcu
     }
   };
 
+  const handleCropChange = (crop: string) => {
+    setSelectedCrop(crop);
+    setUnit("kg");
+  };
+
+  const unitKg = (selectedCrop && kgPerUnit(selectedCrop, unit)) || 1;
+
   const handleReset = () => {
     setSelectedCrop("");
+    setUnit("kg");
     setAcreage("");
     setExpectedYield(null);
     setEstimatedHarvest("");
@@ -148,7 +162,7 @@ export default function YieldCalculatorDialog({ open, onOpenChange }: YieldCalcu
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <Label htmlFor="crop">Select Crop</Label>
-            <Select value={selectedCrop} onValueChange={setSelectedCrop}>
+            <Select value={selectedCrop} onValueChange={handleCropChange}>
               <SelectTrigger id="crop">
                 <SelectValue placeholder="Choose a crop" />
               </SelectTrigger>
@@ -175,6 +189,26 @@ export default function YieldCalculatorDialog({ open, onOpenChange }: YieldCalcu
             />
           </div>
 
+          {selectedCrop && unitsForCrop(selectedCrop).length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="yield-unit">Show Yield In</Label>
+              <Select value={unit} onValueChange={setUnit}>
+                <SelectTrigger id="yield-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {unitsForCrop(selectedCrop).map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code === "kg"
+                        ? "Kilograms"
+                        : `${unitLabel(option.code, 2)} (${option.kgPerUnit}kg each)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <Button 
             onClick={calculateYield} 
             className="w-full"
@@ -188,10 +222,13 @@ export default function YieldCalculatorDialog({ open, onOpenChange }: YieldCalcu
               <div className="p-4 bg-primary/10 rounded-lg border-l-4 border-primary">
                 <p className="text-sm font-medium text-muted-foreground">Expected Yield</p>
                 <p className="text-3xl font-bold text-primary mt-1">
-                  {expectedYield.toLocaleString()} kg
+                  {unit === "kg"
+                    ? `${expectedYield.toLocaleString()} kg`
+                    : `${fromKg(expectedYield, unitKg).toLocaleString()} ${unitLabel(unit, 2)}`}
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
                   Based on {CROP_YIELD_DATA[selectedCrop].avgYield.toLocaleString()} kg/acre average
+                  {unit !== "kg" && ` (${expectedYield.toLocaleString()} kg)`}
                 </p>
               </div>
 
@@ -217,7 +254,7 @@ export default function YieldCalculatorDialog({ open, onOpenChange }: YieldCalcu
                     KES {(marketPrice * expectedYield).toLocaleString()}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Based on current market price: KES {marketPrice}/kg in {userLocation}
+                    Based on current market price: {formatPrice(marketPrice, unit, unitKg)} in {userLocation}
                   </p>
                 </div>
               )}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { DeliveryTariff, PickupPoint } from "@/utils/delivery";
+
+/**
+ * Custom hook to load the active market pickup points and delivery tariff bands.
+ *
+ * @returns {Object} An object containing:
+ *   - `pickupPoints` {PickupPoint[]} - Active pickup points, by name
+ *   - `tariffs` {DeliveryTariff[]} - Active tariff bands, nearest first
+ *   - `loading` {boolean} - True while the tables are being fetched
+ *
+ * @example
+ * ```tsx
+ * const { tariffs } = useDeliveryOptions();
+ * calculateDeliveryFee(tariffs.find((t) => t.id === tariffId), quantityKg);
+ * ```
+ */
+export const useDeliveryOptions = () => {
+  const [pickupPoints, setPickupPoints] = useState<PickupPoint[]>([]);
+  const [tariffs, setTariffs] = useState<DeliveryTariff[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [pointsResult, tariffsResult] = await Promise.all([
+          supabase.from("pickup_points").select("id, name, location").eq("active", true).order("name"),
+          supabase
+            .from("delivery_tariffs")
+            .select("id, label, max_distance_km, base_fee, fee_per_kg")
+            .eq("active", true)
+            .order("sort_order"),
+        ]);
+
+        if (pointsResult.error) throw pointsResult.error;
+        if (tariffsResult.error) throw tariffsResult.error;
+
+        setPickupPoints(pointsResult.data || []);
+        setTariffs(tariffsResult.data || []);
+      } catch (error) {
+        console.error("Error fetching delivery options:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOptions();
+  }, []);
+
+  return { pickupPoints, tariffs, loading };
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface UnitRow {
+  code: string;
+  default_kg: number | null;
+  sort_order: number;
+}
+
+interface ConversionRow {
+  crop_name: string;
+  unit_code: string;
+  kg_per_unit: number;
+}
+
+/**
+ * A unit a crop can be sold in, with the weight of one unit
+ */
+export interface CropUnit {
+  code: string;
+  kgPerUnit: number;
+}
+
+/**
+ * Custom hook to load units of measure and crop-specific conversion factors.
+ *
+ * Mirrors the database function unit_kg_factor(): a crop-specific weight from
+ * crop_unit_conversions wins, otherwise the unit's default_kg applies. Units with
+ * no default (crate, bunch) are only offered for crops that have a conversion.
+ *
+ * @returns {Object} An object containing:
+ *   - `unitsForCrop` {(crop: string) => CropUnit[]} - Units the crop can be sold in, kg first
+ *   - `kgPerUnit` {(crop: string, unit: string) => number | null} - Weight of one unit
+ *   - `loading` {boolean} - True while the tables are being fetched
+ *
+ * @example
+ * ```tsx
+ * const { unitsForCrop } = useUnits();
+ * unitsForCrop("Tomatoes"); // [{ code: "kg", kgPerUnit: 1 }, ..., { code: "crate", kgPerUnit: 64 }]
+ * ```
+ *
+ * @remarks
+ * - Falls back to kilograms only if the fetch fails
+ * - Crop names are matched case-insensitively
+ */
+export const useUnits = () => {
+  const [units, setUnits] = useState<UnitRow[]>([{ code: "kg", default_kg: 1, sort_order: 0 }]);
+  const [conversions, setConversions] = useState<ConversionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchUnits = async () => {
+      try {
+        const [unitsResult, conversionsResult] = await Promise.all([
+          supabase.from("units").select("code, default_kg, sort_order").order("sort_order"),
+          supabase.from("crop_unit_conversions").select("crop_name, unit_code, kg_per_unit"),
+        ]);
+
+        if (unitsResult.error) throw unitsResult.error;
+        if (conversionsResult.error) throw conversionsResult.error;
+
+        setUnits(unitsResult.data || []);
+        setConversions(conversionsResult.data || []);
+      } catch (error) {
+        console.error("Error fetching units:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUnits();
+  }, []);
+
+  const kgPerUnit = (crop: string, unit: string): number | null => {
+    const cropName = crop.trim().toLowerCase();
+    const conversion = conversions.find((c) => c.crop_name === cropName && c.unit_code === unit);
+    if (conversion) return Number(conversion.kg_per_unit);
+
+    const defaultKg = units.find((u) => u.code === unit)?.default_kg;
+    return defaultKg ? Number(defaultKg) : null;
+  };
+
+  const unitsForCrop = (crop: string): CropUnit[] =>
+    units
+      .map((unit) => ({ code: unit.code, kgPerUnit: kgPerUnit(crop, unit.code) }))
+      .filter((unit): unit is CropUnit => unit.kgPerUnit !== null);
+
+  return { unitsForCrop, kgPerUnit, loading };
+};
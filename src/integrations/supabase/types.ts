@@ -14,6 +14,101 @@ export type Database = {
   }
   public: {
     Tables: {
+      bids: {
+        Row: {
+          bidder_id: string
+          created_at: string
+          delivery_details: Json
+          id: string
+          listing_id: string
+          order_id: string | null
+          price_per_kg: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          bidder_id: string
+          created_at?: string
+          delivery_details: Json
+          id?: string
+          listing_id: string
+          order_id?: string | null
+          price_per_kg: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          bidder_id?: string
+          created_at?: string
+          delivery_details?: Json
+          id?: string
+          listing_id?: string
+          order_id?: string | null
+          price_per_kg?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bids_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bids_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          alert_level: number
+          amount: number
+          category: string
+          created_at: string
+          crop_id: string | null
+          id: string
+          season: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_level?: number
+          amount: number
+          category: string
+          created_at?: string
+          crop_id?: string | null
+          id?: string
+          season: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_level?: number
+          amount?: number
+          category?: string
+          created_at?: string
+          crop_id?: string | null
+          id?: string
+          season?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       buyer_requests: {
         Row: {
           buyer_id: string
@@ -159,12 +254,177 @@ export type Database = {
           },
         ]
       }
+      contract_deliveries: {
+        Row: {
+          contract_id: string
+          created_at: string
+          due_date: string
+          id: string
+          order_id: string | null
+          price_per_kg: number | null
+          quantity: number
+          status: string
+        }
+        Insert: {
+          contract_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          order_id?: string | null
+          price_per_kg?: number | null
+          quantity: number
+          status?: string
+        }
+        Update: {
+          contract_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          order_id?: string | null
+          price_per_kg?: number | null
+          quantity?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_deliveries_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_deliveries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contracts: {
+        Row: {
+          buyer_id: string
+          created_at: string
+          crop_id: string | null
+          crop_name: string
+          delivery_address: string | null
+          delivery_method: string
+          farmer_id: string
+          id: string
+          market_premium_pct: number
+          price_ceiling: number | null
+          price_floor: number | null
+          price_per_kg: number | null
+          price_type: string
+          quality_specs: string
+          responded_at: string | null
+          status: string
+          total_quantity: number
+          updated_at: string
+        }
+        Insert: {
+          buyer_id: string
+          created_at?: string
+          crop_id?: string | null
+          crop_name: string
+          delivery_address?: string | null
+          delivery_method: string
+          farmer_id: string
+          id?: string
+          market_premium_pct?: number
+          price_ceiling?: number | null
+          price_floor?: number | null
+          price_per_kg?: number | null
+          price_type: string
+          quality_specs: string
+          responded_at?: string | null
+          status?: string
+          total_quantity: number
+          updated_at?: string
+        }
+        Update: {
+          buyer_id?: string
+          created_at?: string
+          crop_id?: string | null
+          crop_name?: string
+          delivery_address?: string | null
+          delivery_method?: string
+          farmer_id?: string
+          id?: string
+          market_premium_pct?: number
+          price_ceiling?: number | null
+          price_floor?: number | null
+          price_per_kg?: number | null
+          price_type?: string
+          quality_specs?: string
+          responded_at?: string | null
+          status?: string
+          total_quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contracts_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crop_shelf_life: {
+        Row: {
+          crop_name: string
+          perishability: string
+          shelf_life_days: number
+        }
+        Insert: {
+          crop_name: string
+          perishability: string
+          shelf_life_days: number
+        }
+        Update: {
+          crop_name?: string
+          perishability?: string
+          shelf_life_days?: number
+        }
+        Relationships: []
+      }
+      crop_unit_conversions: {
+        Row: {
+          crop_name: string
+          kg_per_unit: number
+          unit_code: string
+        }
+        Insert: {
+          crop_name: string
+          kg_per_unit: number
+          unit_code: string
+        }
+        Update: {
+          crop_name?: string
+          kg_per_unit?: number
+          unit_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_unit_conversions_unit_code_fkey"
+            columns: ["unit_code"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
       crops: {
         Row: {
           acreage: number
           created_at: string
           crop_name: string
           expected_yield: number | null
+          harvested_at: string | null
+          harvested_quantity: number | null
           id: string
           planting_date: string
           status: string | null
@@ -176,6 +436,8 @@ export type Database = {
           created_at?: string
           crop_name: string
           expected_yield?: number | null
+          harvested_at?: string | null
+          harvested_quantity?: number | null
           id?: string
           planting_date: string
           status?: string | null
@@ -187,6 +449,8 @@ export type Database = {
           created_at?: string
           crop_name?: string
           expected_yield?: number | null
+          harvested_at?: string | null
+          harvested_quantity?: number | null
           id?: string
           planting_date?: string
           status?: string | null
@@ -195,6 +459,104 @@ export type Database = {
         }
         Relationships: []
       }
+      delivery_tariffs: {
+        Row: {
+          active: boolean
+          base_fee: number
+          fee_per_kg: number
+          id: string
+          label: string
+          max_distance_km: number | null
+          sort_order: number
+        }
+        Insert: {
+          active?: boolean
+          base_fee: number
+          fee_per_kg?: number
+          id?: string
+          label: string
+          max_distance_km?: number | null
+          sort_order?: number
+        }
+        Update: {
+          active?: boolean
+          base_fee?: number
+          fee_per_kg?: number
+          id?: string
+          label?: string
+          max_distance_km?: number | null
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      disputes: {
+        Row: {
+          created_at: string
+          description: string
+          evidence_paths: string[]
+          id: string
+          opened_by: string
+          order_id: string
+          order_status_before: string
+          reason: string
+          refund_amount: number | null
+          requested_amount: number | null
+          requested_remedy: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          evidence_paths?: string[]
+          id?: string
+          opened_by: string
+          order_id: string
+          order_status_before: string
+          reason: string
+          refund_amount?: number | null
+          requested_amount?: number | null
+          requested_remedy: string
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          evidence_paths?: string[]
+          id?: string
+          opened_by?: string
+          order_id?: string
+          order_status_before?: string
+          reason?: string
+          refund_amount?: number | null
+          requested_amount?: number | null
+          requested_remedy?: string
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leaderboard_refresh_log: {
         Row: {
           id: string
@@ -213,39 +575,136 @@ export type Database = {
       ledger: {
         Row: {
           amount: number
+          category: string
           created_at: string
+          crop_id: string | null
           date: string
           id: string
+          import_ref: string | null
           item: string
           notes: string | null
+          order_id: string | null
           quantity: number | null
+          recurring_id: string | null
           type: string
           user_id: string
         }
         Insert: {
           amount: number
+          category?: string
           created_at?: string
+          crop_id?: string | null
           date?: string
           id?: string
+          import_ref?: string | null
           item: string
           notes?: string | null
+          order_id?: string | null
           quantity?: number | null
+          recurring_id?: string | null
           type: string
           user_id: string
         }
         Update: {
           amount?: number
+          category?: string
           created_at?: string
+          crop_id?: string | null
           date?: string
           id?: string
+          import_ref?: string | null
           item?: string
           notes?: string | null
+          order_id?: string | null
           quantity?: number | null
+          recurring_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_recurring_id_fkey"
+            columns: ["recurring_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_ledger_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_category_rules: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          match_text: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          match_text: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          match_text?: string
           type?: string
           user_id?: string
         }
         Relationships: []
       }
+      ledger_crop_allocations: {
+        Row: {
+          crop_id: string
+          ledger_id: string
+          share: number
+        }
+        Insert: {
+          crop_id: string
+          ledger_id: string
+          share: number
+        }
+        Update: {
+          crop_id?: string
+          ledger_id?: string
+          share?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_crop_allocations_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_crop_allocations_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledger"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       likes: {
         Row: {
           created_at: string
@@ -275,28 +734,89 @@ export type Database = {
           },
         ]
       }
-      market_prices: {
+      listing_events: {
         Row: {
-          crop_name: string
+          created_at: string
+          event_date: string
+          event_type: string
           id: string
-          price_per_kg: number
-          recorded_at: string | null
-          region: string
-          source: string | null
+          listing_id: string
+          viewer_id: string
         }
         Insert: {
-          crop_name: string
+          created_at?: string
+          event_date?: string
+          event_type: string
           id?: string
-          price_per_kg: number
-          recorded_at?: string | null
-          region: string
-          source?: string | null
+          listing_id: string
+          viewer_id: string
         }
         Update: {
-          crop_name?: string
+          created_at?: string
+          event_date?: string
+          event_type?: string
           id?: string
-          price_per_kg?: number
-          recorded_at?: string | null
+          listing_id?: string
+          viewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "listing_events_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      listing_watches: {
+        Row: {
+          created_at: string
+          listing_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          listing_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          listing_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "listing_watches_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_prices: {
+        Row: {
+          crop_name: string
+          id: string
+          price_per_kg: number
+          recorded_at: string | null
+          region: string
+          source: string | null
+        }
+        Insert: {
+          crop_name: string
+          id?: string
+          price_per_kg: number
+          recorded_at?: string | null
+          region: string
+          source?: string | null
+        }
+        Update: {
+          crop_name?: string
+          id?: string
+          price_per_kg?: number
+          recorded_at?: string | null
           region?: string
           source?: string | null
         }
@@ -304,39 +824,66 @@ export type Database = {
       }
       marketplace_listings: {
         Row: {
+          auction_closed_at: string | null
+          auction_ends_at: string | null
+          available_quantity: number
           created_at: string
           crop_name: string
+          expires_at: string
+          expiry_warned_at: string | null
           id: string
           image_url: string | null
+          image_urls: string[]
           location: string
           price_per_kg: number
           quantity: number
+          sale_type: string
           seller_id: string
           status: string | null
+          unit: string
+          unit_kg: number
           updated_at: string
         }
         Insert: {
+          auction_closed_at?: string | null
+          auction_ends_at?: string | null
+          available_quantity: number
           created_at?: string
           crop_name: string
+          expires_at?: string
+          expiry_warned_at?: string | null
           id?: string
           image_url?: string | null
+          image_urls?: string[]
           location: string
           price_per_kg: number
           quantity: number
+          sale_type?: string
           seller_id: string
           status?: string | null
+          unit?: string
+          unit_kg?: number
           updated_at?: string
         }
         Update: {
+          auction_closed_at?: string | null
+          auction_ends_at?: string | null
+          available_quantity?: number
           created_at?: string
           crop_name?: string
+          expires_at?: string
+          expiry_warned_at?: string | null
           id?: string
           image_url?: string | null
+          image_urls?: string[]
           location?: string
           price_per_kg?: number
           quantity?: number
+          sale_type?: string
           seller_id?: string
           status?: string | null
+          unit?: string
+          unit_kg?: number
           updated_at?: string
         }
         Relationships: []
@@ -404,44 +951,272 @@ export type Database = {
         }
         Relationships: []
       }
+      offers: {
+        Row: {
+          buyer_id: string
+          created_at: string
+          delivery_details: Json | null
+          id: string
+          listing_id: string
+          order_id: string | null
+          price_per_kg: number
+          proposed_by: string
+          quantity: number
+          seller_id: string
+          status: string
+          thread_id: string
+          updated_at: string
+        }
+        Insert: {
+          buyer_id: string
+          created_at?: string
+          delivery_details?: Json | null
+          id?: string
+          listing_id: string
+          order_id?: string | null
+          price_per_kg: number
+          proposed_by: string
+          quantity: number
+          seller_id: string
+          status?: string
+          thread_id: string
+          updated_at?: string
+        }
+        Update: {
+          buyer_id?: string
+          created_at?: string
+          delivery_details?: Json | null
+          id?: string
+          listing_id?: string
+          order_id?: string | null
+          price_per_kg?: number
+          proposed_by?: string
+          quantity?: number
+          seller_id?: string
+          status?: string
+          thread_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offers_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_delivery_codes: {
+        Row: {
+          code: string
+          confirmed_at: string | null
+          created_at: string
+          failed_attempts: number
+          order_id: string
+        }
+        Insert: {
+          code: string
+          confirmed_at?: string | null
+          created_at?: string
+          failed_attempts?: number
+          order_id: string
+        }
+        Update: {
+          code?: string
+          confirmed_at?: string | null
+          created_at?: string
+          failed_attempts?: number
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_delivery_codes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_documents: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          document_number: string
+          id: string
+          kind: string
+          order_id: string
+          storage_path: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          document_number?: string
+          id?: string
+          kind: string
+          order_id: string
+          storage_path?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          document_number?: string
+          id?: string
+          kind?: string
+          order_id?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_documents_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
           amount: number
+          bid_id: string | null
           buyer_id: string | null
+          contract_id: string | null
           created_at: string | null
           delivery_details: Json | null
+          delivery_fee: number
+          delivery_method: string
+          delivery_tariff_id: string | null
           id: string
           listing_id: string | null
+          offer_id: string | null
+          pickup_point_id: string | null
+          pickup_window_end: string | null
+          pickup_window_start: string | null
           quantity: number
           seller_id: string | null
           status: string | null
+          unit: string
+          unit_kg: number
           updated_at: string | null
         }
         Insert: {
           amount: number
+          bid_id?: string | null
           buyer_id?: string | null
+          contract_id?: string | null
           created_at?: string | null
           delivery_details?: Json | null
+          delivery_fee?: number
+          delivery_method?: string
+          delivery_tariff_id?: string | null
           id?: string
           listing_id?: string | null
+          offer_id?: string | null
+          pickup_point_id?: string | null
+          pickup_window_end?: string | null
+          pickup_window_start?: string | null
           quantity: number
           seller_id?: string | null
           status?: string | null
+          unit?: string
+          unit_kg?: number
           updated_at?: string | null
         }
         Update: {
           amount?: number
+          bid_id?: string | null
           buyer_id?: string | null
+          contract_id?: string | null
           created_at?: string | null
           delivery_details?: Json | null
+          delivery_fee?: number
+          delivery_method?: string
+          delivery_tariff_id?: string | null
           id?: string
           listing_id?: string | null
+          offer_id?: string | null
+          pickup_point_id?: string | null
+          pickup_window_end?: string | null
+          pickup_window_start?: string | null
           quantity?: number
           seller_id?: string | null
           status?: string | null
+          unit?: string
+          unit_kg?: number
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "orders_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_tariff_id_fkey"
+            columns: ["delivery_tariff_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_tariffs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_listing_id_fkey"
             columns: ["listing_id"]
@@ -449,8 +1224,117 @@ export type Database = {
             referencedRelation: "marketplace_listings"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_pickup_point_id_fkey"
+            columns: ["pickup_point_id"]
+            isOneToOne: false
+            referencedRelation: "pickup_points"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          held_at: string | null
+          id: string
+          order_id: string
+          payee_id: string
+          payer_id: string
+          phone_number: string
+          provider: string
+          provider_receipt: string | null
+          provider_request_id: string | null
+          raw_callback: Json | null
+          refunded_amount: number | null
+          settled_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          held_at?: string | null
+          id?: string
+          order_id: string
+          payee_id: string
+          payer_id: string
+          phone_number: string
+          provider: string
+          provider_receipt?: string | null
+          provider_request_id?: string | null
+          raw_callback?: Json | null
+          refunded_amount?: number | null
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          held_at?: string | null
+          id?: string
+          order_id?: string
+          payee_id?: string
+          payer_id?: string
+          phone_number?: string
+          provider?: string
+          provider_receipt?: string | null
+          provider_request_id?: string | null
+          raw_callback?: Json | null
+          refunded_amount?: number | null
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      pickup_points: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          location: string
+          name: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          location: string
+          name: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          location?: string
+          name?: string
+        }
+        Relationships: []
+      }
       posts: {
         Row: {
           content: string
@@ -517,6 +1401,60 @@ export type Database = {
         }
         Relationships: []
       }
+      recurring_ledger_entries: {
+        Row: {
+          active: boolean
+          amount: number
+          category: string
+          created_at: string
+          end_date: string | null
+          frequency: string
+          id: string
+          item: string
+          next_date: string
+          notes: string | null
+          quantity: number | null
+          start_date: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          category: string
+          created_at?: string
+          end_date?: string | null
+          frequency: string
+          id?: string
+          item: string
+          next_date: string
+          notes?: string | null
+          quantity?: number | null
+          start_date: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          category?: string
+          created_at?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          item?: string
+          next_date?: string
+          notes?: string | null
+          quantity?: number | null
+          start_date?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       referrals: {
         Row: {
           created_at: string | null
@@ -582,6 +1520,87 @@ export type Database = {
           },
         ]
       }
+      saved_searches: {
+        Row: {
+          active: boolean
+          created_at: string
+          crop_name: string | null
+          id: string
+          last_notified_at: string | null
+          max_price: number | null
+          min_quantity: number | null
+          push_enabled: boolean
+          region: string | null
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          crop_name?: string | null
+          id?: string
+          last_notified_at?: string | null
+          max_price?: number | null
+          min_quantity?: number | null
+          push_enabled?: boolean
+          region?: string | null
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          crop_name?: string | null
+          id?: string
+          last_notified_at?: string | null
+          max_price?: number | null
+          min_quantity?: number | null
+          push_enabled?: boolean
+          region?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      units: {
+        Row: {
+          code: string
+          default_kg: number | null
+          label: string
+          plural_label: string
+          sort_order: number
+        }
+        Insert: {
+          code: string
+          default_kg?: number | null
+          label: string
+          plural_label: string
+          sort_order?: number
+        }
+        Update: {
+          code?: string
+          default_kg?: number | null
+          label?: string
+          plural_label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_stats: {
         Row: {
           badges: Json | null
@@ -649,8 +1668,125 @@ export type Database = {
         Args: { p_action: string; p_points: number; p_user_id: string }
         Returns: undefined
       }
+      categorize_ledger_item: {
+        Args: {
+          p_fallback?: string
+          p_item: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: string
+      }
       complete_referral: { Args: { p_referred_id: string }; Returns: undefined }
+      confirm_delivery: {
+        Args: { p_code: string; p_note?: string; p_order_id: string }
+        Returns: boolean
+      }
+      contract_price_per_kg: {
+        Args: { p_contract_id: string }
+        Returns: number
+      }
+      default_ledger_category: {
+        Args: { p_item: string; p_type: string }
+        Returns: string
+      }
       generate_referral_code: { Args: never; Returns: string }
+      get_budget_status: {
+        Args: { p_season?: string }
+        Returns: {
+          amount: number
+          category: string
+          crop_id: string
+          crop_name: string
+          id: string
+          season: string
+          spent: number
+        }[]
+      }
+      get_crop_profitability: {
+        Args: never
+        Returns: {
+          acreage: number
+          crop_id: string
+          crop_name: string
+          direct_costs: number
+          entry_count: number
+          expected_yield: number
+          harvested_at: string
+          harvested_quantity: number
+          planting_date: string
+          revenue: number
+          shared_costs: number
+          status: string
+        }[]
+      }
+      get_disputes_for_review: {
+        Args: { p_status?: string }
+        Returns: {
+          buyer_id: string
+          buyer_name: string | null
+          created_at: string
+          crop_name: string | null
+          description: string
+          evidence_paths: string[]
+          id: string
+          opened_by: string
+          order_amount: number
+          order_id: string
+          order_quantity: number
+          order_status_before: string
+          order_unit: string
+          order_unit_kg: number
+          payment_status: string | null
+          reason: string
+          refund_amount: number | null
+          requested_amount: number | null
+          requested_remedy: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          seller_id: string
+          seller_name: string | null
+          status: string
+        }[]
+      }
+      get_listing_analytics: {
+        Args: { p_days?: number }
+        Returns: {
+          chats: number
+          created_at: string
+          crop_name: string
+          detail_views: number
+          impressions: number
+          listing_id: string
+          location: string
+          market_price_per_kg: number
+          market_scope: string
+          orders: number
+          price_per_kg: number
+          sale_type: string
+          status: string
+          unit: string
+          unit_kg: number
+        }[]
+      }
+      get_listing_analytics_series: {
+        Args: { p_days?: number; p_listing_id?: string }
+        Returns: {
+          chats: number
+          day: string
+          detail_views: number
+          impressions: number
+          orders: number
+        }[]
+      }
+      get_listing_watch_counts: {
+        Args: { p_listing_ids: string[] }
+        Returns: {
+          listing_id: string
+          watchers: number
+        }[]
+      }
       get_popular_crops: {
         Args: never
         Returns: {
@@ -658,12 +1794,206 @@ export type Database = {
           usage_count: number
         }[]
       }
+      get_price_suggestion: {
+        Args: { p_crop_name: string; p_location?: string }
+        Returns: {
+          listing_count: number
+          listing_price: number
+          listing_scope: string
+          market_price: number
+          market_scope: string
+          order_count: number
+          order_price: number
+          order_scope: string
+        }[]
+      }
+      get_seller_profile: {
+        Args: { p_user_id: string }
+        Returns: {
+          active_listings: number
+          avg_rating: number
+          cancellation_rate: number | null
+          cancelled_orders: number
+          completed_orders: number
+          completion_rate: number | null
+          full_name: string
+          id: string
+          location: string
+          median_response_minutes: number | null
+          member_since: string
+          rating_counts: number[]
+          review_count: number
+        }[]
+      }
+      get_seller_reviews: {
+        Args: { p_before?: string; p_limit?: number; p_user_id: string }
+        Returns: {
+          comment: string | null
+          created_at: string
+          crop_name: string | null
+          id: string
+          rating: number
+          reviewer_name: string | null
+        }[]
+      }
+      has_role: {
+        Args: { p_role: string; p_user_id: string }
+        Returns: boolean
+      }
+      ledger_categories: { Args: { p_type: string }; Returns: string[] }
+      listing_shelf_life_days: {
+        Args: { p_crop_name: string }
+        Returns: number
+      }
+      make_offer: {
+        Args: {
+          p_delivery_details?: Json
+          p_listing_id: string
+          p_price_per_kg: number
+          p_quantity: number
+        }
+        Returns: string
+      }
+      next_recurring_date: {
+        Args: { p_date: string; p_frequency: string; p_start_date: string }
+        Returns: string
+      }
+      open_dispute: {
+        Args: {
+          p_description: string
+          p_evidence_paths?: string[]
+          p_order_id: string
+          p_reason: string
+          p_requested_amount?: number
+          p_requested_remedy: string
+        }
+        Returns: string
+      }
+      place_bid: {
+        Args: {
+          p_delivery_details: Json
+          p_listing_id: string
+          p_price_per_kg: number
+        }
+        Returns: string
+      }
+      place_order: {
+        Args: {
+          p_delivery_details?: Json
+          p_listing_id: string
+          p_quantity: number
+        }
+        Returns: string
+      }
       process_referral: {
         Args: { p_new_user_id: string; p_referral_code: string }
         Returns: undefined
       }
+      propose_contract: {
+        Args: {
+          p_crop_name: string
+          p_deliveries: Json
+          p_delivery_address?: string
+          p_delivery_method: string
+          p_farmer_id: string
+          p_market_premium_pct?: number
+          p_price_ceiling?: number
+          p_price_floor?: number
+          p_price_per_kg?: number
+          p_price_type: string
+          p_quality_specs: string
+        }
+        Returns: string
+      }
+      record_listing_events: {
+        Args: { p_event_type: string; p_listing_ids: string[] }
+        Returns: undefined
+      }
       refresh_leaderboards: { Args: never; Returns: undefined }
+      renew_listing: { Args: { p_listing_id: string }; Returns: string }
+      resolve_dispute: {
+        Args: {
+          p_dispute_id: string
+          p_note?: string
+          p_refund_amount?: number
+          p_resolution: string
+        }
+        Returns: undefined
+      }
+      respond_to_contract: {
+        Args: { p_action: string; p_contract_id: string; p_crop_id?: string }
+        Returns: undefined
+      }
+      respond_to_offer: {
+        Args: {
+          p_action: string
+          p_offer_id: string
+          p_price_per_kg?: number
+          p_quantity?: number
+        }
+        Returns: string
+      }
+      search_listings: {
+        Args: {
+          p_crop?: string
+          p_cursor?: string
+          p_limit?: number
+          p_max_price?: number
+          p_min_price?: number
+          p_min_quantity?: number
+          p_min_rating?: number
+          p_near?: string
+          p_query?: string
+          p_region?: string
+          p_sort?: string
+        }
+        Returns: {
+          auction_ends_at: string
+          available_quantity: number
+          created_at: string
+          crop_name: string
+          id: string
+          image_urls: string[]
+          location: string
+          price_per_kg: number
+          proximity: number
+          quantity: number
+          sale_type: string
+          seller_id: string
+          seller_name: string
+          seller_rating: number
+          seller_review_count: number
+          sort_cursor: string
+          unit: string
+          unit_kg: number
+        }[]
+      }
+      season_of: { Args: { p_date: string }; Returns: string }
+      set_ledger_crops: {
+        Args: { p_crop_ids: string[]; p_ledger_id: string }
+        Returns: undefined
+      }
+      set_order_delivery_tariff: {
+        Args: { p_order_id: string; p_tariff_id: string }
+        Returns: number
+      }
+      unit_kg_factor: {
+        Args: { p_crop_name: string; p_unit: string }
+        Returns: number
+      }
+      update_order_status: {
+        Args: { p_new_status: string; p_note?: string; p_order_id: string }
+        Returns: undefined
+      }
       update_streak: { Args: { p_user_id: string }; Returns: undefined }
+      validate_delivery_details: {
+        Args: { p_details: Json }
+        Returns: undefined
+      }
+      withdraw_dispute: {
+        Args: { p_dispute_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,423 @@
+/**
+ * CONTRACTS PAGE
+ *
+ * Dashboard for forward contracts, for both sides of the agreement. Buyers
+ * propose contracts from a farmer's profile; farmers accept them here.
+ *
+ * PAGE STRUCTURE:
+ * - Summary cards: active contracts, contracted volume, volume due to date, delivered volume
+ * - Two tabs: "Selling" (contracts where I'm the farmer) and "Buying" (where I'm the buyer)
+ * - Each contract shows its price formula, quality specs, linked crop record,
+ *   a delivered vs expected progress bar and the delivery schedule with each order's status
+ *
+ * ACTIONS (respond_to_contract):
+ * - Farmer, proposed contract: accept (choosing the matching crop record) or decline
+ * - Buyer, proposed contract: withdraw
+ * - Either party, active contract: cancel; deliveries not yet ordered are cancelled
+ *
+ * Due deliveries become orders through the contract-deliveries job and are
+ * then managed under My Orders like any other order.
+ *
+ * @page
+ * @example
+ * ```tsx
+ * <Route path="/contracts" element={<Contracts />} />
+ * ```
+ */
+
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CONTRACT_STATUS_LABELS,
+  describePriceFormula,
+  getContractVolumes,
+  type Contract,
+} from "@/utils/contracts";
+import { AlertTriangle, FileSignature, Loader2, Sprout } from "lucide-react";
+import { format } from "date-fns";
+
+/**
+ * Farmer's crop record that a contract can be linked to
+ * @interface CropRecord
+ */
+interface CropRecord {
+  id: string;
+  crop_name: string;
+  planting_date: string;
+  acreage: number;
+}
+
+const statusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  if (status === "active") return "default";
+  if (status === "proposed") return "secondary";
+  if (status === "completed") return "outline";
+  return "destructive";
+};
+
+/**
+ * A single contract with its schedule and the actions open to the current user
+ */
+const ContractCard = ({
+  contract,
+  role,
+  counterpartyName,
+  cropRecords,
+  onUpdated,
+}: {
+  contract: Contract;
+  role: "farmer" | "buyer";
+  counterpartyName: string;
+  cropRecords: CropRecord[];
+  onUpdated: () => void;
+}) => {
+  const [cropId, setCropId] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const volumes = getContractVolumes(contract.deliveries);
+  const deliveredPct = volumes.expected > 0 ? Math.min(100, (volumes.delivered / volumes.expected) * 100) : 0;
+  const matchingCrops = cropRecords.filter(
+    (crop) => crop.crop_name.toLowerCase() === contract.crop_name.toLowerCase()
+  );
+  const deliveries = [...contract.deliveries].sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+  /**
+   * HANDLE RESPOND
+   * Accepts, declines or cancels the contract; the database checks who may do what
+   */
+  const handleRespond = async (action: "accept" | "decline" | "cancel") => {
+    if (action === "accept" && !cropId) {
+      toast({
+        title: "Choose a Crop Record",
+        description: `Link the ${contract.crop_name} planting this contract will be grown from`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await supabase.rpc("respond_to_contract", {
+        p_contract_id: contract.id,
+        p_action: action,
+        p_crop_id: action === "accept" ? cropId : undefined,
+      });
+
+      if (error) {
+        toast({
+          title: "Contract Not Updated",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title:
+          action === "accept" ? "Contract Accepted" : action === "decline" ? "Contract Declined" : "Contract Cancelled",
+        description: `${counterpartyName} has been notified`,
+      });
+      onUpdated();
+    } catch (error) {
+      console.error("Error responding to contract:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update contract",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">
+              {contract.total_quantity.toLocaleString()}kg of {contract.crop_name}
+            </CardTitle>
+            <CardDescription>
+              {role === "farmer" ? "Buyer" : "Farmer"}:{" "}
+              <Link
+                to={`/u/${role === "farmer" ? contract.buyer_id : contract.farmer_id}`}
+                className="hover:underline"
+              >
+                {counterpartyName}
+              </Link>{" "}
+              · Proposed {format(new Date(contract.created_at), "MMM d, yyyy")}
+            </CardDescription>
+          </div>
+          <Badge variant={statusVariant(contract.status)}>
+            {CONTRACT_STATUS_LABELS[contract.status] || contract.status}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 text-sm sm:grid-cols-2">
+          <div>
+            <span className="text-muted-foreground">Price: </span>
+            {describePriceFormula(contract)}
+          </div>
+          <div>
+            <span className="text-muted-foreground">Delivery: </span>
+            {contract.delivery_method === "delivery"
+              ? `Delivered to ${contract.delivery_address}`
+              : "Collected from the farm"}
+          </div>
+          <div className="sm:col-span-2">
+            <span className="text-muted-foreground">Quality: </span>
+            {contract.quality_specs}
+          </div>
+        </div>
+
+        {/* Linked crop record */}
+        {contract.crop && (
+          <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+            <p className="flex items-center gap-2 font-medium">
+              <Sprout className="w-4 h-4 text-primary" />
+              Planted {format(new Date(contract.crop.planting_date), "MMM d, yyyy")} on {contract.crop.acreage} acres
+            </p>
+            {contract.crop.expected_yield !== null && (
+              <p className="text-muted-foreground">
+                Expected yield: {contract.crop.expected_yield.toLocaleString()}kg
+              </p>
+            )}
+            {contract.crop.expected_yield !== null && contract.crop.expected_yield < volumes.expected && (
+              <p className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                Contracted volume is more than the expected yield
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Expected vs delivered */}
+        {contract.status !== "proposed" && contract.status !== "declined" && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>Delivered</span>
+              <span className="font-semibold">
+                {volumes.delivered.toLocaleString()} / {volumes.expected.toLocaleString()}kg
+              </span>
+            </div>
+            <Progress value={deliveredPct} />
+            {volumes.dueToDate > volumes.delivered && (
+              <p className="text-xs text-muted-foreground">
+                {(volumes.dueToDate - volumes.delivered).toLocaleString()}kg due so far is still outstanding
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Delivery schedule */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Delivery Schedule</p>
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+              <span>
+                {format(new Date(delivery.due_date), "MMM d, yyyy")} · {delivery.quantity.toLocaleString()}kg
+                {delivery.price_per_kg !== null && <> at KES {delivery.price_per_kg}/kg</>}
+              </span>
+              <Badge variant="outline" className="capitalize">
+                {delivery.order ? `Order ${delivery.order.status?.replace("_", " ")}` : delivery.status}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {/* Actions */}
+        {contract.status === "proposed" && role === "farmer" && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={cropId} onValueChange={setCropId}>
+              <SelectTrigger className="sm:flex-1">
+                <SelectValue
+                  placeholder={
+                    matchingCrops.length > 0
+                      ? `Link a ${contract.crop_name} crop record`
+                      : `Add a ${contract.crop_name} crop on your dashboard first`
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {matchingCrops.map((crop) => (
+                  <SelectItem key={crop.id} value={crop.id}>
+                    Planted {format(new Date(crop.planting_date), "MMM d, yyyy")} · {crop.acreage} acres
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => handleRespond("accept")} disabled={submitting}>
+              Accept
+            </Button>
+            <Button variant="outline" onClick={() => handleRespond("decline")} disabled={submitting}>
+              Decline
+            </Button>
+          </div>
+        )}
+        {contract.status === "proposed" && role === "buyer" && (
+          <Button variant="outline" onClick={() => handleRespond("cancel")} disabled={submitting}>
+            Withdraw Proposal
+          </Button>
+        )}
+        {contract.status === "active" && (
+          <Button variant="outline" onClick={() => handleRespond("cancel")} disabled={submitting}>
+            Cancel Contract
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Contracts = () => {
+  const [tab, setTab] = useState("selling");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [profileNames, setProfileNames] = useState<Map<string, string>>(new Map());
+  const [cropRecords, setCropRecords] = useState<CropRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchContracts();
+  }, []);
+
+  const fetchContracts = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      // RLS returns only contracts where the user is a party
+      const { data, error } = await supabase
+        .from("contracts")
+        .select(`
+          *,
+          deliveries:contract_deliveries(id, due_date, quantity, status, price_per_kg, order:orders(id, status, quantity)),
+          crop:crops(planting_date, acreage, expected_yield)
+        `)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const partyIds = [...new Set((data || []).flatMap((contract) => [contract.buyer_id, contract.farmer_id]))];
+      const { data: profilesData } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", partyIds);
+
+      // The farmer's own crop records, for linking on acceptance
+      const { data: cropsData } = await supabase
+        .from("crops")
+        .select("id, crop_name, planting_date, acreage")
+        .eq("user_id", user.id)
+        .order("planting_date", { ascending: false });
+
+      setContracts((data || []) as Contract[]);
+      setProfileNames(new Map(profilesData?.map((profile) => [profile.id, profile.full_name]) || []));
+      setCropRecords(cropsData || []);
+    } catch (error) {
+      console.error("Error fetching contracts:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selling = contracts.filter((contract) => contract.farmer_id === userId);
+  const buying = contracts.filter((contract) => contract.buyer_id === userId);
+  const shown = tab === "selling" ? selling : buying;
+
+  // Summary across the contracts in the current tab that are running or done
+  const liveContracts = shown.filter((contract) => contract.status === "active" || contract.status === "completed");
+  const totals = liveContracts.reduce(
+    (sum, contract) => {
+      const volumes = getContractVolumes(contract.deliveries);
+      return {
+        expected: sum.expected + volumes.expected,
+        dueToDate: sum.dueToDate + volumes.dueToDate,
+        delivered: sum.delivered + volumes.delivered,
+      };
+    },
+    { expected: 0, dueToDate: 0, delivered: 0 }
+  );
+
+  const summaryCards = [
+    { label: "Active Contracts", value: shown.filter((contract) => contract.status === "active").length.toString() },
+    { label: "Contracted", value: `${totals.expected.toLocaleString()}kg` },
+    { label: "Due to Date", value: `${totals.dueToDate.toLocaleString()}kg` },
+    { label: "Delivered", value: `${totals.delivered.toLocaleString()}kg` },
+  ];
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-2">Contracts</h1>
+        <p className="text-muted-foreground">Forward contracts agreed before planting, and how their deliveries are going</p>
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="selling">Selling ({selling.length})</TabsTrigger>
+          <TabsTrigger value="buying">Buying ({buying.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value={tab} className="space-y-4 mt-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {summaryCards.map((card) => (
+                  <Card key={card.label}>
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-muted-foreground">{card.label}</p>
+                      <p className="text-2xl font-bold">{card.value}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              {shown.length === 0 ? (
+                <div className="text-center text-muted-foreground py-12 space-y-2">
+                  <FileSignature className="w-10 h-10 mx-auto" />
+                  <p>
+                    {tab === "selling"
+                      ? "No contracts yet. Buyers can propose one from your profile."
+                      : "No contracts yet. Propose one from a farmer's profile."}
+                  </p>
+                </div>
+              ) : (
+                shown.map((contract) => (
+                  <ContractCard
+                    key={contract.id}
+                    contract={contract}
+                    role={tab === "selling" ? "farmer" : "buyer"}
+                    counterpartyName={
+                      profileNames.get(tab === "selling" ? contract.buyer_id : contract.farmer_id) || "Unknown"
+                    }
+                    cropRecords={cropRecords}
+                    onUpdated={fetchContracts}
+                  />
+                ))
+              )}
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Contracts;
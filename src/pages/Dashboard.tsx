@@ -274,6 +274,8 @@ const Dashboard = () => {
    * Data Structure:
    * - Each ledger entry has: type ("income" or "expense"), amount (number)
    * - Amounts are stored as numbers but cast to Number() for safety
+   * - Completed marketplace orders are included: the database posts them as
+   *   income (seller) or expense (buyer) and removes them on cancellation or refund
    * 
    * Error Handling:
    * - Shows toast notification on database error
@@ -0,0 +1,297 @@
+/**
+ * DISPUTES PAGE
+ *
+ * Resolver queue for order disputes. Only users with the 'resolver' role
+ * (user_roles) can load it; everyone else sees a notice.
+ *
+ * PAGE STRUCTURE:
+ * - Two tabs: "Open" (oldest first, awaiting a ruling) and "Resolved"
+ * - Each case shows the order, both parties, the claim, evidence photos,
+ *   the requested remedy and the escrow status
+ *
+ * RULINGS (resolve_dispute):
+ * - Full refund: order cancelled, escrow refunded to the buyer
+ * - Partial refund: order completed, part of the escrow refunded, the rest released
+ * - Redelivery: order back in transit, escrow stays held
+ * - Rejected: order resumes; a delivered order completes and escrow is released
+ *
+ * @page
+ * @example
+ * ```tsx
+ * <Route path="/disputes" element={<Disputes />} />
+ * ```
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { formatQuantity } from "@/utils/units";
+import { DISPUTE_REASONS, DISPUTE_REMEDIES, DISPUTE_RESOLUTIONS, getEvidenceUrls } from "@/utils/disputes";
+import { Loader2, Scale, ShieldAlert } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+/**
+ * One row of get_disputes_for_review()
+ * @interface DisputeCase
+ */
+interface DisputeCase {
+  id: string;
+  order_id: string;
+  opened_by: string;
+  reason: string;
+  description: string;
+  evidence_paths: string[];
+  requested_remedy: string;
+  requested_amount: number | null;
+  order_status_before: string;
+  status: string;
+  resolution: string | null;
+  refund_amount: number | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  order_amount: number;
+  order_quantity: number;
+  order_unit: string;
+  order_unit_kg: number;
+  crop_name: string | null;
+  buyer_id: string;
+  buyer_name: string | null;
+  seller_id: string;
+  seller_name: string | null;
+  payment_status: string | null;
+}
+
+/**
+ * A single case with its ruling form
+ */
+const DisputeCaseCard = ({ dispute, onResolved }: { dispute: DisputeCase; onResolved: () => void }) => {
+  const [evidenceUrls, setEvidenceUrls] = useState<string[]>([]);
+  const [resolution, setResolution] = useState("");
+  const [refundAmount, setRefundAmount] = useState(
+    dispute.requested_amount !== null ? String(dispute.requested_amount) : ""
+  );
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getEvidenceUrls(dispute.evidence_paths).then(setEvidenceUrls);
+  }, [dispute.id, dispute.evidence_paths]);
+
+  const openedByBuyer = dispute.opened_by === dispute.buyer_id;
+
+  const resolve = async () => {
+    try {
+      setLoading(true);
+      const { error } = await supabase.rpc("resolve_dispute", {
+        p_dispute_id: dispute.id,
+        p_resolution: resolution,
+        p_refund_amount: resolution === "partial_refund" ? parseFloat(refundAmount) : undefined,
+        p_note: note.trim() || undefined,
+      });
+
+      if (error) {
+        toast({
+          title: "Could not resolve dispute",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Dispute Resolved",
+        description: DISPUTE_RESOLUTIONS[resolution],
+      });
+      onResolved();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="text-lg">
+              {DISPUTE_REASONS[dispute.reason] || dispute.reason} · {dispute.crop_name || "Order"}
+            </CardTitle>
+            <CardDescription>
+              {formatQuantity(dispute.order_quantity, dispute.order_unit, dispute.order_unit_kg)} for KES{" "}
+              {dispute.order_amount.toLocaleString()} · opened{" "}
+              {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })} while {dispute.order_status_before}
+            </CardDescription>
+          </div>
+          <Badge variant={dispute.status === "open" ? "destructive" : "outline"}>{dispute.status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-muted-foreground">Buyer{openedByBuyer && " (opened)"}</p>
+            <Link to={`/u/${dispute.buyer_id}`} className="font-medium hover:underline">
+              {dispute.buyer_name || "Buyer"}
+            </Link>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Seller{!openedByBuyer && " (opened)"}</p>
+            <Link to={`/u/${dispute.seller_id}`} className="font-medium hover:underline">
+              {dispute.seller_name || "Seller"}
+            </Link>
+          </div>
+        </div>
+
+        <div className="p-3 bg-muted rounded-lg space-y-1">
+          <p>{dispute.description}</p>
+          <p className="text-xs text-muted-foreground">
+            Requested: {DISPUTE_REMEDIES[dispute.requested_remedy]}
+            {dispute.requested_amount !== null && ` (KES ${dispute.requested_amount.toLocaleString()})`}
+            {" · "}Payment: {dispute.payment_status || "none"}
+          </p>
+        </div>
+
+        {evidenceUrls.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto">
+            {evidenceUrls.map((url, index) => (
+              <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                <img src={url} alt={`Evidence ${index + 1}`} className="h-24 w-24 object-cover rounded-md" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {dispute.status === "open" ? (
+          <div className="space-y-3 pt-2 border-t">
+            <Select value={resolution} onValueChange={setResolution}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a ruling" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DISPUTE_RESOLUTIONS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {resolution === "partial_refund" && (
+              <Input
+                type="number"
+                min="1"
+                max={dispute.order_amount - 1}
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                placeholder="Refund to buyer (KES)"
+              />
+            )}
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Explain the ruling to both parties (optional)"
+              maxLength={500}
+              rows={2}
+            />
+            <Button onClick={resolve} disabled={!resolution || loading} className="gap-2">
+              <Scale className="h-4 w-4" />
+              Issue Ruling
+            </Button>
+          </div>
+        ) : (
+          dispute.resolution && (
+            <div className="pt-2 border-t">
+              <p className="font-medium">
+                {DISPUTE_RESOLUTIONS[dispute.resolution]}
+                {dispute.resolution === "partial_refund" && dispute.refund_amount !== null &&
+                  ` (KES ${dispute.refund_amount.toLocaleString()})`}
+              </p>
+              {dispute.resolution_note && <p className="text-muted-foreground italic">"{dispute.resolution_note}"</p>}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Disputes = () => {
+  const [tab, setTab] = useState("open");
+  const [disputes, setDisputes] = useState<DisputeCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isResolver, setIsResolver] = useState(true); // Assume access until the RPC says otherwise
+
+  const fetchDisputes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("get_disputes_for_review", { p_status: tab });
+
+      if (error) {
+        // Non-resolvers are rejected by the function itself
+        console.error("Error fetching disputes:", error);
+        setIsResolver(false);
+        return;
+      }
+
+      setIsResolver(true);
+      setDisputes(data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  if (!isResolver) {
+    return (
+      <div className="text-center py-20 space-y-2">
+        <ShieldAlert className="w-10 h-10 mx-auto text-muted-foreground" />
+        <p className="text-muted-foreground">Only dispute resolvers can view this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-2">Disputes</h1>
+        <p className="text-muted-foreground">Rule on problems reported with marketplace orders</p>
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value={tab} className="space-y-4 mt-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : disputes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              {tab === "open" ? "No disputes waiting for a ruling" : "No resolved disputes yet"}
+            </p>
+          ) : (
+            disputes.map((dispute) => (
+              <DisputeCaseCard key={dispute.id} dispute={dispute} onResolved={fetchDisputes} />
+            ))
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Disputes;
@@ -2,7 +2,16 @@
  * FINANCES PAGE
  * 
  * Comprehensive financial management interface for tracking farm income and expenses.
- * Features expense categorization, time-period comparisons, charts, and export capabilities.
+ * Features income and expense categories, time-period comparisons, charts, and export capabilities.
+ * Each entry stores its category; it can be changed from the table, and the user's
+ * category rules (CategoryRulesDialog) decide how new entries are categorized.
+ * Entries can be linked to plantings (or split across them by acreage), which
+ * feeds the per-planting profit and loss in CropProfitabilityCard.
+ * Bank/CSV exports and M-Pesa statements can be imported in bulk (ImportLedgerDialog).
+ * Seasonal budgets per expense category are tracked against actual spend (BudgetCard).
+ * Recurring entries (RecurringEntriesCard) are posted by a daily job (recurring_id set).
+ * Completed marketplace orders are posted here automatically (order_id set) and
+ * removed again if the order is cancelled or refunded.
  * 
  * @page
  * @example
@@ -19,9 +28,17 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Download, Search, TrendingUp, TrendingDown, DollarSign, Calendar, Filter, PieChart as PieChartIcon, BarChart3 } from "lucide-react";
+import { Download, Search, TrendingUp, TrendingDown, DollarSign, Calendar, Filter, PieChart as PieChartIcon, BarChart3, Store, Tags, Upload, Repeat } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import AddLedgerDialog from "@/components/AddLedgerDialog";
+import { CategoryRulesDialog } from "@/components/CategoryRulesDialog";
+import { ImportLedgerDialog } from "@/components/ImportLedgerDialog";
+import { AssignPlantingsDialog } from "@/components/AssignPlantingsDialog";
+import { CropProfitabilityCard } from "@/components/CropProfitabilityCard";
+import { BudgetCard } from "@/components/BudgetCard";
+import { RecurringEntriesCard } from "@/components/RecurringEntriesCard";
+import { categoriesFor } from "@/utils/ledgerCategories";
+import type { Planting } from "@/utils/cropProfitability";
 import { format, startOfMonth, endOfMonth, startOfYear, endOfYear, subMonths, subYears } from "date-fns";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
 
@@ -37,6 +54,11 @@ interface LedgerEntry {
   amount: number;
   quantity: number | null;
   notes: string | null;
+  category: string;
+  order_id: string | null;
+  crop_id: string | null;
+  recurring_id: string | null; // Posted from a recurring entry
+  allocations: { crop_id: string }[]; // Plantings a shared entry is split across
   created_at: string;
 }
 
@@ -45,11 +67,16 @@ const Finances = () => {
   const [filteredEntries, setFilteredEntries] = useState<LedgerEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [addLedgerOpen, setAddLedgerOpen] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [plantings, setPlantings] = useState<Planting[]>([]);
+  const [assigning, setAssigning] = useState<{ entry: LedgerEntry; currentIds: string[] } | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [comparisonView, setComparisonView] = useState<"monthly" | "yearly">("monthly");
+  const [breakdownType, setBreakdownType] = useState<"expense" | "income">("expense");
   const { toast } = useToast();
 
   const [summary, setSummary] = useState({
@@ -58,30 +85,11 @@ const Finances = () => {
     netProfit: 0,
   });
 
-  // Categorize expense based on item name
-  const categorizeExpense = (item: string): string => {
-    const itemLower = item.toLowerCase();
-    
-    if (itemLower.includes('seed') || itemLower.includes('seedling')) return 'Seeds';
-    if (itemLower.includes('fertilizer') || itemLower.includes('manure') || itemLower.includes('compost')) return 'Fertilizer';
-    if (itemLower.includes('labor') || itemLower.includes('labour') || itemLower.includes('worker') || itemLower.includes('wages')) return 'Labor';
-    if (itemLower.includes('equipment') || itemLower.includes('tool') || itemLower.includes('machinery') || itemLower.includes('tractor')) return 'Equipment';
-    if (itemLower.includes('pesticide') || itemLower.includes('herbicide') || itemLower.includes('insecticide') || itemLower.includes('fungicide')) return 'Pesticides';
-    if (itemLower.includes('water') || itemLower.includes('irrigation') || itemLower.includes('pump')) return 'Irrigation';
-    if (itemLower.includes('fuel') || itemLower.includes('diesel') || itemLower.includes('petrol') || itemLower.includes('gas')) return 'Fuel';
-    if (itemLower.includes('transport') || itemLower.includes('delivery') || itemLower.includes('shipping')) return 'Transport';
-    if (itemLower.includes('rent') || itemLower.includes('lease') || itemLower.includes('land')) return 'Land & Rent';
-    if (itemLower.includes('feed') || itemLower.includes('livestock') || itemLower.includes('animal')) return 'Livestock';
-    
-    return 'Other';
-  };
-
-  // Calculate expense breakdown by category
-  const getExpenseBreakdown = () => {
-    const expenses = filteredEntries.filter(e => e.type === 'expense');
-    const categoryTotals = expenses.reduce((acc, entry) => {
-      const category = categorizeExpense(entry.item);
-      acc[category] = (acc[category] || 0) + Number(entry.amount);
+  // Calculate income or expense breakdown by category
+  const getCategoryBreakdown = () => {
+    const matching = filteredEntries.filter(e => e.type === breakdownType);
+    const categoryTotals = matching.reduce((acc, entry) => {
+      acc[entry.category] = (acc[entry.category] || 0) + Number(entry.amount);
       return acc;
     }, {} as Record<string, number>);
 
@@ -121,7 +129,7 @@ const Finances = () => {
     const allCategories = new Set<string>();
     entries
       .filter(e => e.type === 'expense')
-      .forEach(entry => allCategories.add(categorizeExpense(entry.item)));
+      .forEach(entry => allCategories.add(entry.category));
 
     // Build comparison data
     return periods.map(period => {
@@ -134,8 +142,7 @@ const Finances = () => {
 
       const categoryTotals: Record<string, number> = {};
       periodExpenses.forEach(entry => {
-        const category = categorizeExpense(entry.item);
-        categoryTotals[category] = (categoryTotals[category] || 0) + Number(entry.amount);
+        categoryTotals[entry.category] = (categoryTotals[entry.category] || 0) + Number(entry.amount);
       });
 
       return {
@@ -174,13 +181,20 @@ const Finances = () => {
 
       const { data, error } = await supabase
         .from("ledger")
-        .select("*")
+        .select("*, allocations:ledger_crop_allocations(crop_id)")
         .eq("user_id", user.id)
         .order("date", { ascending: false });
 
       if (error) throw error;
 
+      const { data: cropsData } = await supabase
+        .from("crops")
+        .select("id, crop_name, planting_date, acreage")
+        .eq("user_id", user.id)
+        .order("planting_date", { ascending: false });
+
       setEntries(data || []);
+      setPlantings(cropsData || []);
       calculateSummary(data || []);
     } catch (error) {
       console.error("Error fetching ledger:", error);
@@ -239,12 +253,44 @@ const Finances = () => {
     calculateSummary(filtered);
   };
 
+  // Change an entry's category from the table
+  const updateCategory = async (entryId: string, category: string) => {
+    const { error } = await supabase
+      .from("ledger")
+      .update({ category })
+      .eq("id", entryId);
+
+    if (error) {
+      console.error("Error updating category:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update category",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEntries(prev => prev.map(entry => entry.id === entryId ? { ...entry, category } : entry));
+  };
+
+  // Planting(s) an entry counts towards: its direct link, else its split
+  const getPlantingIds = (entry: LedgerEntry) =>
+    entry.crop_id ? [entry.crop_id] : entry.allocations.map(allocation => allocation.crop_id);
+
+  const getPlantingLabel = (entry: LedgerEntry) => {
+    const ids = getPlantingIds(entry);
+    if (ids.length === 0) return null;
+    if (ids.length > 1) return `Split · ${ids.length} plantings`;
+    return plantings.find(planting => planting.id === ids[0])?.crop_name || "Planting";
+  };
+
   const exportToCSV = () => {
-    const headers = ["Date", "Type", "Item", "Amount (KES)", "Quantity", "Notes"];
+    const headers = ["Date", "Type", "Item", "Category", "Amount (KES)", "Quantity", "Notes"];
     const rows = filteredEntries.map(entry => [
       format(new Date(entry.date), "yyyy-MM-dd"),
       entry.type,
       entry.item,
+      entry.category,
       entry.amount.toString(),
       entry.quantity?.toString() || "",
       entry.notes || "",
@@ -278,6 +324,8 @@ const Finances = () => {
     setEndDate("");
   };
 
+  const breakdownTotal = breakdownType === "expense" ? summary.totalExpenses : summary.totalIncome;
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -285,10 +333,20 @@ const Finances = () => {
           <h1 className="text-3xl font-bold">Financial Management</h1>
           <p className="text-muted-foreground">Track and analyze your farm finances</p>
         </div>
-        <Button onClick={() => setAddLedgerOpen(true)}>
-          <DollarSign className="w-4 h-4 mr-2" />
-          Add Transaction
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRulesOpen(true)}>
+            <Tags className="w-4 h-4 mr-2" />
+            Category Rules
+          </Button>
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={() => setAddLedgerOpen(true)}>
+            <DollarSign className="w-4 h-4 mr-2" />
+            Add Transaction
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -339,104 +397,130 @@ const Finances = () => {
         </Card>
       </div>
 
-      {/* Expense Comparison Over Time */}
-      {entries.some(e => e.type === 'expense') && (
+      {/* Expense Comparison Over Time, beside seasonal budget vs actual */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        {entries.some(e => e.type === 'expense') && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5" />
+                    Expense Comparison
+                  </CardTitle>
+                  <CardDescription>Track spending trends across time periods</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant={comparisonView === "monthly" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setComparisonView("monthly")}
+                  >
+                    Monthly
+                  </Button>
+                  <Button
+                    variant={comparisonView === "yearly" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setComparisonView("yearly")}
+                  >
+                    Yearly
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {getCategoryComparison().some(period => 
+                Object.keys(period).some(key => key !== 'period' && period[key as keyof typeof period])
+              ) ? (
+                <ResponsiveContainer width="100%" height={400}>
+                  <BarChart data={getCategoryComparison()}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis 
+                      dataKey="period" 
+                      stroke="hsl(var(--foreground))"
+                      style={{ fontSize: '12px' }}
+                    />
+                    <YAxis 
+                      stroke="hsl(var(--foreground))"
+                      style={{ fontSize: '12px' }}
+                      tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`}
+                    />
+                    <Tooltip 
+                      formatter={(value: number) => `KES ${value.toLocaleString()}`}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--background))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '8px'
+                      }}
+                    />
+                    <Legend />
+                    {Array.from(new Set(
+                      entries
+                        .filter(e => e.type === 'expense')
+                        .map(e => e.category)
+                    )).map((category, index) => (
+                      <Bar 
+                        key={category} 
+                        dataKey={category} 
+                        fill={COLORS[index % COLORS.length]}
+                        radius={[4, 4, 0, 0]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="text-center py-12 text-muted-foreground">
+                  <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No expense data available for comparison</p>
+                  <p className="text-sm mt-2">Add transactions to see spending trends</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <BudgetCard plantings={plantings} refreshKey={entries} />
+      </div>
+
+      {/* Category Breakdown */}
+      {filteredEntries.length > 0 && (
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle className="flex items-center gap-2">
-                  <BarChart3 className="w-5 h-5" />
-                  Expense Comparison
+                  <PieChartIcon className="w-5 h-5" />
+                  {breakdownType === "expense" ? "Expense" : "Income"} Categories
                 </CardTitle>
-                <CardDescription>Track spending trends across time periods</CardDescription>
+                <CardDescription>
+                  Breakdown of {breakdownType === "expense" ? "spending" : "earnings"} by category
+                </CardDescription>
               </div>
               <div className="flex gap-2">
                 <Button
-                  variant={comparisonView === "monthly" ? "default" : "outline"}
+                  variant={breakdownType === "expense" ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setComparisonView("monthly")}
+                  onClick={() => setBreakdownType("expense")}
                 >
-                  Monthly
+                  Expenses
                 </Button>
                 <Button
-                  variant={comparisonView === "yearly" ? "default" : "outline"}
+                  variant={breakdownType === "income" ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setComparisonView("yearly")}
+                  onClick={() => setBreakdownType("income")}
                 >
-                  Yearly
+                  Income
                 </Button>
               </div>
             </div>
           </CardHeader>
-          <CardContent>
-            {getCategoryComparison().some(period => 
-              Object.keys(period).some(key => key !== 'period' && period[key as keyof typeof period])
-            ) ? (
-              <ResponsiveContainer width="100%" height={400}>
-                <BarChart data={getCategoryComparison()}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                  <XAxis 
-                    dataKey="period" 
-                    stroke="hsl(var(--foreground))"
-                    style={{ fontSize: '12px' }}
-                  />
-                  <YAxis 
-                    stroke="hsl(var(--foreground))"
-                    style={{ fontSize: '12px' }}
-                    tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`}
-                  />
-                  <Tooltip 
-                    formatter={(value: number) => `KES ${value.toLocaleString()}`}
-                    contentStyle={{
-                      backgroundColor: 'hsl(var(--background))',
-                      border: '1px solid hsl(var(--border))',
-                      borderRadius: '8px'
-                    }}
-                  />
-                  <Legend />
-                  {Array.from(new Set(
-                    entries
-                      .filter(e => e.type === 'expense')
-                      .map(e => categorizeExpense(e.item))
-                  )).map((category, index) => (
-                    <Bar 
-                      key={category} 
-                      dataKey={category} 
-                      fill={COLORS[index % COLORS.length]}
-                      radius={[4, 4, 0, 0]}
-                    />
-                  ))}
-                </BarChart>
-              </ResponsiveContainer>
-            ) : (
-              <div className="text-center py-12 text-muted-foreground">
-                <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <p>No expense data available for comparison</p>
-                <p className="text-sm mt-2">Add transactions to see spending trends</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Expense Category Breakdown */}
-      {filteredEntries.some(e => e.type === 'expense') && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <PieChartIcon className="w-5 h-5" />
-              Expense Categories
-            </CardTitle>
-            <CardDescription>Breakdown of spending by category</CardDescription>
-          </CardHeader>
           <CardContent>
             <div className="grid md:grid-cols-2 gap-6">
               <div>
                 <ResponsiveContainer width="100%" height={300}>
                   <PieChart>
                     <Pie
-                      data={getExpenseBreakdown()}
+                      data={getCategoryBreakdown()}
                       cx="50%"
                       cy="50%"
                       labelLine={false}
@@ -445,7 +529,7 @@ const Finances = () => {
                       fill="#8884d8"
                       dataKey="value"
                     >
-                      {getExpenseBreakdown().map((entry, index) => (
+                      {getCategoryBreakdown().map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                       ))}
                     </Pie>
@@ -462,7 +546,7 @@ const Finances = () => {
               </div>
               <div className="space-y-3">
                 <h4 className="font-semibold text-sm mb-4">Category Details</h4>
-                {getExpenseBreakdown().map((category, index) => (
+                {getCategoryBreakdown().map((category, index) => (
                   <div key={category.name} className="flex items-center justify-between p-3 rounded-lg border">
                     <div className="flex items-center gap-3">
                       <div 
@@ -474,14 +558,14 @@ const Finances = () => {
                     <div className="text-right">
                       <p className="font-bold text-sm">KES {category.value.toLocaleString()}</p>
                       <p className="text-xs text-muted-foreground">
-                        {((category.value / summary.totalExpenses) * 100).toFixed(1)}%
+                        {((category.value / breakdownTotal) * 100).toFixed(1)}%
                       </p>
                     </div>
                   </div>
                 ))}
-                {getExpenseBreakdown().length === 0 && (
+                {getCategoryBreakdown().length === 0 && (
                   <p className="text-sm text-muted-foreground text-center py-8">
-                    No expense data available
+                    No {breakdownType} data available
                   </p>
                 )}
               </div>
@@ -490,6 +574,12 @@ const Finances = () => {
         </Card>
       )}
 
+      {/* Recurring income and expenses, with what's coming up */}
+      <RecurringEntriesCard refreshKey={entries} />
+
+      {/* Per-planting profit and loss */}
+      <CropProfitabilityCard refreshKey={entries} />
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -589,6 +679,8 @@ const Finances = () => {
                     <TableHead>Date</TableHead>
                     <TableHead>Type</TableHead>
                     <TableHead>Item</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Planting</TableHead>
                     <TableHead className="text-right">Amount</TableHead>
                     <TableHead>Quantity</TableHead>
                     <TableHead>Notes</TableHead>
@@ -613,7 +705,49 @@ const Finances = () => {
                           {entry.type}
                         </Badge>
                       </TableCell>
-                      <TableCell className="font-medium">{entry.item}</TableCell>
+                      <TableCell className="font-medium">
+                        {entry.item}
+                        {/* Posted automatically when a marketplace order completed */}
+                        {entry.order_id && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            <Store className="w-3 h-3 mr-1" />
+                            Marketplace
+                          </Badge>
+                        )}
+                        {entry.recurring_id && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            <Repeat className="w-3 h-3 mr-1" />
+                            Recurring
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={entry.category}
+                          onValueChange={(value) => updateCategory(entry.id, value)}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categoriesFor(entry.type).map((category) => (
+                              <SelectItem key={category} value={category}>
+                                {category}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className={getPlantingLabel(entry) ? "" : "text-muted-foreground"}
+                          onClick={() => setAssigning({ entry, currentIds: getPlantingIds(entry) })}
+                        >
+                          {getPlantingLabel(entry) || "Assign"}
+                        </Button>
+                      </TableCell>
                       <TableCell className={`text-right font-bold ${
                         entry.type === "income" ? "text-success" : "text-destructive"
                       }`}>
@@ -637,6 +771,29 @@ const Finances = () => {
         onOpenChange={setAddLedgerOpen}
         onSuccess={fetchEntries}
       />
+
+      {assigning && (
+        <AssignPlantingsDialog
+          open={!!assigning}
+          onOpenChange={(open) => !open && setAssigning(null)}
+          entry={assigning.entry}
+          currentIds={assigning.currentIds}
+          plantings={plantings}
+          onSaved={fetchEntries}
+        />
+      )}
+
+      <CategoryRulesDialog
+        open={rulesOpen}
+        onOpenChange={setRulesOpen}
+        onEntriesUpdated={fetchEntries}
+      />
+
+      <ImportLedgerDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onSuccess={fetchEntries}
+      />
     </div>
   );
 };
@@ -3,6 +3,7 @@
  * 
  * Market intelligence dashboard showing price trends, top-performing crops,
  * and regional demand insights. Displays 6-month price history charts.
+ * market_prices are stored per kg; the chart can show them per bag, crate, etc.
  * 
  * @page
  * @example
@@ -21,10 +22,14 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { format, subMonths } from "date-fns";
 import { usePopularCrops } from "@/hooks/usePopularCrops";
+import { useUnits } from "@/hooks/useUnits";
+import { unitLabel } from "@/utils/units";
 
 const MarketIntel = () => {
   const { crops: cropOptions } = usePopularCrops();
+  const { unitsForCrop, kgPerUnit } = useUnits();
   const [selectedCrop, setSelectedCrop] = useState("Tomatoes");
+  const [unit, setUnit] = useState("kg");
   const [priceHistory, setPriceHistory] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -57,7 +62,7 @@ const MarketIntel = () => {
 
         const chartData = Array.from(priceMap.entries()).map(([date, { total, count }]) => ({
           date,
-          price: Math.round(total / count),
+          pricePerKg: total / count,
         }));
 
         setPriceHistory(chartData);
@@ -72,6 +77,19 @@ const MarketIntel = () => {
     fetchPriceHistory();
   }, [selectedCrop]);
 
+  // Scale the per-kg averages to the unit picked for the chart
+  const unitKg = kgPerUnit(selectedCrop, unit) || 1;
+  const priceLabel = `KES/${unitLabel(unit)}`;
+  const chartData = priceHistory.map((point) => ({
+    date: point.date,
+    price: Math.round(point.pricePerKg * unitKg),
+  }));
+
+  const handleCropChange = (crop: string) => {
+    setSelectedCrop(crop);
+    setUnit("kg");
+  };
+
   const topCrops = [
     { name: "Tomatoes", price: 85, change: 12, trend: "up" },
     { name: "Cabbages", price: 45, change: 8, trend: "up" },
@@ -207,18 +225,32 @@ const MarketIntel = () => {
               <CardTitle>Price Trends - Last 6 Months</CardTitle>
               <CardDescription>Historical price data to guide planting decisions</CardDescription>
             </div>
-            <Select value={selectedCrop} onValueChange={setSelectedCrop}>
-              <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Select crop" />
-              </SelectTrigger>
-              <SelectContent>
-                {cropOptions.map((crop) => (
-                  <SelectItem key={crop} value={crop}>
-                    {crop}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <div className="flex gap-2">
+              <Select value={selectedCrop} onValueChange={handleCropChange}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select crop" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cropOptions.map((crop) => (
+                    <SelectItem key={crop} value={crop}>
+                      {crop}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={unit} onValueChange={setUnit}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {unitsForCrop(selectedCrop).map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      Per {unitLabel(option.code)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -226,18 +258,18 @@ const MarketIntel = () => {
             <div className="h-[300px] flex items-center justify-center">
               <p className="text-muted-foreground">Loading price data...</p>
             </div>
-          ) : priceHistory.length > 0 ? (
+          ) : chartData.length > 0 ? (
             <ChartContainer
               config={{
                 price: {
-                  label: "Price (KES/kg)",
+                  label: `Price (${priceLabel})`,
                   color: "hsl(var(--primary))",
                 },
               }}
               className="h-[300px]"
             >
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={priceHistory}>
+                <LineChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis 
                     dataKey="date" 
@@ -246,7 +278,7 @@ const MarketIntel = () => {
                   />
                   <YAxis 
                     tick={{ fontSize: 12 }}
-                    label={{ value: "KES/kg", angle: -90, position: "insideLeft" }}
+                    label={{ value: priceLabel, angle: -90, position: "insideLeft" }}
                   />
                   <ChartTooltip content={<ChartTooltipContent />} />
                   <Line
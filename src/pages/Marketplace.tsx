@@ -5,15 +5,17 @@
  * It integrates listing management, order creation, direct messaging, and transaction tracking.
  * 
  * KEY FEATURES:
- * 1. Browse Active Listings - View all produce available for purchase
+ * 1. Browse Active Listings - Search, filter and sort produce, loaded page by page
  * 2. Create Listings - Sellers can list their produce with details
  * 3. Order Creation - Buyers can request to purchase from sellers
  * 4. Direct Messaging - Real-time chat between buyers and sellers
  * 5. Order Tracking - Monitor transaction progress through status flow
+ * 6. Wanted Board - Buyers post requests, sellers browse and respond
  * 
  * TRANSACTION FLOW:
  * 1. Seller creates listing → appears in marketplace
  * 2. Buyer browses listings → clicks "Buy Now"
+ *    (or "Make Offer" → price negotiated in chat → accepted offer becomes the order)
  * 3. Order created with status "requested"
  * 4. Seller confirms → status "confirmed"
  * 5. Seller ships → status "in-transit"
@@ -22,35 +24,105 @@
  * 
  * COMPONENTS USED:
  * - AddListingDialog: Form for creating new marketplace listings
+ * - AddBuyerRequestDialog: Form for buyers to post "wanted" requests
  * - CreateOrderDialog: Form for buyers to request purchases
+ * - MakeOfferDialog: Form for buyers to propose their own price
+ * - PlaceBidDialog: Sealed bid on an auction lot
  * - MessagingDialog: Real-time chat interface between parties
  * - OrderCard: Displays order details with status management
+ * - ListingGallery: Photo carousel on each listing card
+ * - ListingFilterBar: Search, filter and sort controls for the Browse tab
+ * - SavedSearchesDialog: Save the current filters and manage new-listing alerts
+ * - WatchlistCard: "Watching" section for listings bookmarked with the heart button
+ * - ListingDetailsDialog: Full listing view, opened by clicking a listing's name
+ * - MyListingsAnalytics: Seller metrics on the "My Listings" tab
+ *
+ * WATCHLIST:
+ * Buyers heart listings to watch them; sellers see a watcher count on their own
+ * listings (get_listing_watch_counts) to help them judge their pricing.
+ *
+ * AUCTIONS:
+ * Auction lots show a countdown and take sealed bids instead of orders or offers.
+ * The close-auctions job turns the highest bid into an order when bidding ends.
+ *
+ * LISTING ANALYTICS:
+ * Browse records an impression for each listing it shows and a detail view when a
+ * listing is opened; MessagingDialog records chats. Sellers see these with their
+ * orders, conversion and price vs market on the "My Listings" tab.
+ *
+ * CONTRACTS:
+ * Forward contracts live on their own page (/contracts); their deliveries show
+ * up under My Orders once the contract-deliveries job orders them.
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { MapPin, MessageCircle, Package, Loader2, ShoppingCart, ShoppingBag, Store } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Link } from "react-router-dom";
+import { MapPin, MessageCircle, Package, Loader2, ShoppingCart, ShoppingBag, Store, Megaphone, CheckCircle, HandCoins, Star, BellRing, Heart, Eye, Gavel, FileSignature, BarChart3 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import AddListingDialog from "@/components/AddListingDialog";
+import AddBuyerRequestDialog from "@/components/AddBuyerRequestDialog";
 import { CreateOrderDialog } from "@/components/CreateOrderDialog";
+import { MakeOfferDialog } from "@/components/MakeOfferDialog";
+import { PlaceBidDialog } from "@/components/PlaceBidDialog";
 import { MessagingDialog } from "@/components/MessagingDialog";
 import { OrderCard } from "@/components/OrderCard";
+import { ListingGallery } from "@/components/ListingGallery";
+import { ListingFilterBar } from "@/components/ListingFilterBar";
+import { DEFAULT_LISTING_FILTERS, type ListingFilters } from "@/utils/listingFilters";
+import { SavedSearchesDialog } from "@/components/SavedSearchesDialog";
+import { WatchlistCard, type WatchedListing } from "@/components/WatchlistCard";
+import { ListingDetailsDialog } from "@/components/ListingDetailsDialog";
+import { MyListingsAnalytics } from "@/components/MyListingsAnalytics";
+import { isMatch, type MatchableListing } from "@/utils/marketplaceMatching";
+import { formatQuantity, formatPrice } from "@/utils/units";
+import { formatTimeLeft, isAuctionOpen } from "@/utils/auctions";
+import { recordListingEvents } from "@/utils/listingAnalytics";
+
+// Listings fetched per search_listings call
+const LISTINGS_PER_PAGE = 20;
 
 /**
  * Listing Interface
- * Represents a marketplace listing with seller information
+ * Represents a search_listings result row with seller information
  */
 interface Listing {
   id: string;
   crop_name: string;
-  quantity: number;
+  quantity: number; // Originally listed quantity
+  available_quantity: number; // Remaining stock after reservations
   price_per_kg: number;
   location: string;
   seller_id: string;
-  profiles?: {
+  image_urls: string[]; // Gallery photos from the listing-photos bucket
+  unit: string; // Unit the seller sells in; quantities and price above are per kg
+  unit_kg: number; // Weight of one unit in kg
+  seller_name: string | null;
+  seller_rating: number; // Average review score, 0 when unreviewed
+  seller_review_count: number;
+  sale_type: string; // "fixed" or "auction"; for auctions price_per_kg is the reserve
+  auction_ends_at: string | null;
+  created_at: string;
+  sort_cursor: string; // Pass back to search_listings to get the next page
+}
+
+/**
+ * Buyer Request Interface
+ * Represents a "wanted" post on the Wanted board with buyer information
+ */
+interface BuyerRequest {
+  id: string;
+  buyer_id: string;
+  crop_name: string;
+  quantity_needed: number;
+  region: string;
+  max_price: number | null;
+  created_at: string;
+  buyer_profile?: {
     full_name: string;
   };
 }
@@ -72,15 +144,27 @@ interface Order {
   listing_id: string;
   buyer_id: string;
   seller_id: string;
-  quantity: number;
+  quantity: number; // Always kg
+  unit: string; // Unit the listing was sold in
+  unit_kg: number; // Weight of one unit in kg
   amount: number;
   status: string;
   delivery_details: any;
+  delivery_method: string; // farm_pickup, market_pickup or delivery
+  delivery_fee: number; // Included in amount
+  pickup_window_start: string | null;
+  pickup_window_end: string | null;
+  offer_id: string | null; // Set when the order came from an accepted offer
   created_at: string;
   listing?: {
     crop_name: string;
     price_per_kg: number;
+    location: string;
   };
+  pickup_point?: {
+    name: string;
+    location: string;
+  } | null;
   buyer_profile?: {
     full_name: string;
   };
@@ -91,13 +175,34 @@ interface Order {
 
 const Marketplace = () => {
   // LISTING STATE - Controls marketplace inventory display
-  const [listings, setListings] = useState<Listing[]>([]); // All active listings
-  const [loading, setLoading] = useState(true); // Initial data fetch loading
+  const [listings, setListings] = useState<Listing[]>([]); // Search results loaded so far
+  const [loading, setLoading] = useState(true); // First page loading
+  const [loadingMore, setLoadingMore] = useState(false); // Next page loading
+  const [hasMore, setHasMore] = useState(false); // More results beyond the last page
+  const [nextCursor, setNextCursor] = useState<string | null>(null); // sort_cursor of the last row
+  const [filters, setFilters] = useState<ListingFilters>(DEFAULT_LISTING_FILTERS);
+  const [myListings, setMyListings] = useState<MatchableListing[]>([]); // For "Matches your listing" badges
+  const [watchCounts, setWatchCounts] = useState<Record<string, number>>({}); // Watchers per own listing
+  const [watchlist, setWatchlist] = useState<WatchedListing[]>([]); // Listings the user is watching
+  const [watchlistLoading, setWatchlistLoading] = useState(true);
+  const [myBids, setMyBids] = useState<Record<string, number>>({}); // Own open bid per auction, KES/kg
+  const loadMoreRef = useRef<HTMLDivElement>(null); // Infinite scroll sentinel
+  const searchIdRef = useRef(0); // Discards responses from superseded searches
+  
+  // WANTED BOARD STATE - Active buyer requests
+  const [buyerRequests, setBuyerRequests] = useState<BuyerRequest[]>([]);
+  const [requestsLoading, setRequestsLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null); // Distinguishes own requests
   
   // DIALOG STATE - Controls which modal dialogs are open
   const [addListingOpen, setAddListingOpen] = useState(false); // Seller listing creation
+  const [addRequestOpen, setAddRequestOpen] = useState(false); // Buyer wanted request creation
   const [orderDialogOpen, setOrderDialogOpen] = useState(false); // Buyer order creation
+  const [offerDialogOpen, setOfferDialogOpen] = useState(false); // Buyer price offer
+  const [bidDialogOpen, setBidDialogOpen] = useState(false); // Buyer auction bid
   const [messagingDialogOpen, setMessagingDialogOpen] = useState(false); // Buyer-seller chat
+  const [savedSearchesOpen, setSavedSearchesOpen] = useState(false); // Saved searches and alerts
+  const [detailsOpen, setDetailsOpen] = useState(false); // Full listing view
   
   // SELECTED DATA - Tracks which listing user is interacting with
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
@@ -111,7 +216,7 @@ const Marketplace = () => {
   const [selectedChat, setSelectedChat] = useState<{
     userId: string; // ID of other party in conversation
     userName: string; // Display name of other party
-    listingId: string; // Listing context for conversation
+    listingId?: string; // Listing context for conversation (absent for request replies)
   } | null>(null);
   
   const { toast } = useToast();
@@ -121,57 +226,67 @@ const Marketplace = () => {
    * Load marketplace listings and user's orders on component mount
    */
   useEffect(() => {
-    fetchListings();
     fetchOrders();
+    fetchBuyerRequests();
+    fetchMyListings();
+    fetchWatchlist();
+    fetchMyBids();
   }, []);
 
   /**
    * FETCH LISTINGS
-   * Retrieves all active marketplace listings with seller profile information
+   * Runs the search_listings RPC with the current filters
    * 
    * PROCESS:
-   * 1. Query marketplace_listings table for active listings
-   * 2. Extract unique seller IDs from listings
-   * 3. Fetch seller profiles separately (RLS-compliant approach)
-   * 4. Enrich listings with seller names using Map for O(1) lookup
-   * 5. Sort by creation date (newest first)
+   * 1. Convert filter form values into RPC arguments (blank = no filter)
+   * 2. Call search_listings, continuing after `cursor` when loading more
+   * 3. Ignore the response if a newer search started meanwhile
+   * 4. Replace or append results and remember the last row's cursor
+   * 5. Record an impression for each listing shown (seller analytics)
+   * 
+   * SERVER-SIDE:
+   * Filtering, sorting, seller names and ratings all come from the RPC,
+   * so only one page of active listings is downloaded at a time.
    * 
-   * WHY SEPARATE QUERIES:
-   * RLS policies prevent direct joins between listings and profiles
-   * We fetch profiles separately and merge client-side
+   * STOCK:
+   * available_quantity is decremented by place_order() and restored on
+   * cancellation, so it is what buyers can still order. Sold-out listings
+   * drop out of the "active" filter automatically.
+   * 
+   * @param cursor - sort_cursor of the last loaded row, or null for the first page
    */
-  const fetchListings = async () => {
+  const fetchListings = useCallback(async (cursor: string | null = null) => {
+    const searchId = ++searchIdRef.current;
+    const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
     try {
-      // Step 1: Fetch all active listings
-      const { data: listingsData, error } = await supabase
-        .from("marketplace_listings")
-        .select("*")
-        .eq("status", "active") // Only show active listings
-        .order("created_at", { ascending: false }); // Newest first
+      // Step 1-2: Fetch one page of matching listings
+      const { data, error } = await supabase.rpc("search_listings", {
+        p_query: filters.query || undefined,
+        p_crop: filters.crop === "all" ? undefined : filters.crop,
+        p_region: filters.region || undefined,
+        p_min_price: toNumber(filters.minPrice),
+        p_max_price: toNumber(filters.maxPrice),
+        p_min_quantity: toNumber(filters.minQuantity),
+        p_min_rating: filters.minRating === "any" ? undefined : Number(filters.minRating),
+        p_sort: filters.sort,
+        p_cursor: cursor ?? undefined,
+        p_limit: LISTINGS_PER_PAGE,
+      });
 
       if (error) throw error;
 
-      if (listingsData) {
-        // Step 2: Get unique seller IDs from all listings
-        const userIds = [...new Set(listingsData.map((l) => l.seller_id))];
-        
-        // Step 3: Fetch seller profiles for enrichment
-        const { data: profilesData } = await supabase
-          .from("profiles")
-          .select("id, full_name")
-          .in("id", userIds);
-
-        // Step 4: Create lookup map for O(1) profile access
-        const profilesMap = new Map(profilesData?.map((p) => [p.id, p]) || []);
-        
-        // Step 5: Enrich listings with seller information
-        const enriched = listingsData.map((listing) => ({
-          ...listing,
-          profiles: profilesMap.get(listing.seller_id),
-        }));
-        
-        setListings(enriched);
-      }
+      // Step 3: A newer search owns the list now
+      if (searchId !== searchIdRef.current) return;
+
+      // Step 4: Replace on a new search, append when scrolling
+      const page = data || [];
+      setListings((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(page.length > 0 ? page[page.length - 1].sort_cursor : cursor);
+      setHasMore(page.length === LISTINGS_PER_PAGE);
+
+      // Step 5: Own listings are skipped server-side
+      recordListingEvents(page.map((listing) => listing.id), "impression");
     } catch (error) {
       console.error("Error fetching listings:", error);
       toast({
@@ -180,8 +295,246 @@ const Marketplace = () => {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (searchId === searchIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [filters, toast]);
+
+  /**
+   * LOAD MORE LISTINGS
+   * Fetches the next page when the infinite scroll sentinel comes into view
+   */
+  const loadMoreListings = useCallback(async () => {
+    if (loadingMore || !hasMore || !nextCursor) return;
+
+    setLoadingMore(true);
+    await fetchListings(nextCursor);
+  }, [loadingMore, hasMore, nextCursor, fetchListings]);
+
+  /**
+   * SEARCH ON FILTER CHANGE
+   * Restarts the search from the first page, debounced so typing doesn't
+   * fire a request per keystroke. Also runs the initial search on mount.
+   */
+  useEffect(() => {
+    setLoading(true);
+    const timer = setTimeout(() => fetchListings(), 300);
+    return () => clearTimeout(timer);
+  }, [fetchListings]);
+
+  // Infinite scroll observer
+  useEffect(() => {
+    if (!loadMoreRef.current || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMoreListings();
+        }
+      },
+      { threshold: 0.1 }
+    );
+
+    observer.observe(loadMoreRef.current);
+
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, loadMoreListings]);
+
+  /**
+   * FETCH MY LISTINGS
+   * The current user's own active listings, used to flag Wanted requests they can fill.
+   * Kept separate from the paginated search so every listing is considered.
+   */
+  const fetchMyListings = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("marketplace_listings")
+        .select("id, seller_id, crop_name, location, price_per_kg")
+        .eq("seller_id", user.id)
+        .eq("status", "active");
+
+      if (error) throw error;
+      setMyListings(data || []);
+
+      // Watcher counts for the seller's own listing cards
+      if (data && data.length > 0) {
+        const { data: counts, error: countsError } = await supabase.rpc("get_listing_watch_counts", {
+          p_listing_ids: data.map((listing) => listing.id),
+        });
+
+        if (countsError) throw countsError;
+        setWatchCounts(Object.fromEntries((counts || []).map((row) => [row.listing_id, row.watchers])));
+      }
+    } catch (error) {
+      console.error("Error fetching own listings:", error);
+    }
+  };
+
+  /**
+   * FETCH WATCHLIST
+   * Listings the user has hearted, newest first. Watchers can still read
+   * listings that have sold out or expired, so those stay in the list.
+   */
+  const fetchWatchlist = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("listing_watches")
+        .select("listing_id, created_at, listing:marketplace_listings(crop_name, price_per_kg, available_quantity, location, status, unit, unit_kg)")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setWatchlist(data || []);
+    } catch (error) {
+      console.error("Error fetching watchlist:", error);
+    } finally {
+      setWatchlistLoading(false);
+    }
+  };
+
+  /**
+   * TOGGLE WATCH
+   * Hearts or un-hearts a listing
+   */
+  const toggleWatch = async (listingId: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const watching = watchlist.some((item) => item.listing_id === listingId);
+      const { error } = watching
+        ? await supabase.from("listing_watches").delete().eq("user_id", user.id).eq("listing_id", listingId)
+        : await supabase.from("listing_watches").insert({ user_id: user.id, listing_id: listingId });
+
+      if (error) throw error;
+
+      if (!watching) {
+        toast({
+          title: "Watching listing",
+          description: "We'll notify you about price drops, low stock and expiry",
+        });
+      }
+      await fetchWatchlist();
+    } catch (error) {
+      console.error("Error updating watchlist:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update your watchlist",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * FETCH MY BIDS
+   * The user's open bids, so auction cards can show "Your bid". Bids are
+   * sealed: nobody else's are readable until the auction closes.
+   */
+  const fetchMyBids = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("bids")
+        .select("listing_id, price_per_kg")
+        .eq("bidder_id", user.id)
+        .eq("status", "active");
+
+      if (error) throw error;
+      setMyBids(Object.fromEntries((data || []).map((bid) => [bid.listing_id, bid.price_per_kg])));
+    } catch (error) {
+      console.error("Error fetching bids:", error);
+    }
+  };
+
+  /**
+   * FETCH BUYER REQUESTS
+   * Retrieves active "wanted" requests with buyer names for the Wanted board
+   * 
+   * Profiles are fetched separately and merged client-side (RLS prevents joins)
+   */
+  const fetchBuyerRequests = async () => {
+    try {
+      setRequestsLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+
+      const { data: requestsData, error } = await supabase
+        .from("buyer_requests")
+        .select("id, buyer_id, crop_name, quantity_needed, region, max_price, created_at")
+        .eq("status", "active")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const buyerIds = [...new Set((requestsData || []).map((r) => r.buyer_id))];
+      const { data: profilesData } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", buyerIds);
+
+      const profilesMap = new Map(profilesData?.map((p) => [p.id, p]) || []);
+
+      setBuyerRequests(
+        (requestsData || []).map((request) => ({
+          ...request,
+          buyer_profile: profilesMap.get(request.buyer_id),
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching buyer requests:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load buyer requests",
+        variant: "destructive",
+      });
+    } finally {
+      setRequestsLoading(false);
+    }
+  };
+
+  /**
+   * MARK REQUEST FULFILLED
+   * Lets a buyer close their own request once they have sourced the produce
+   */
+  const markRequestFulfilled = async (requestId: string) => {
+    const { error } = await supabase
+      .from("buyer_requests")
+      .update({ status: "fulfilled" })
+      .eq("id", requestId);
+
+    if (error) {
+      console.error("Error closing buyer request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to close request",
+        variant: "destructive",
+      });
+      return;
     }
+
+    toast({ title: "Request closed", description: "Marked as fulfilled" });
+    fetchBuyerRequests();
+  };
+
+  /**
+   * HANDLE RESPOND
+   * Opens a chat with the buyer so a seller can make an offer on their request
+   */
+  const handleRespond = (request: BuyerRequest) => {
+    setSelectedChat({
+      userId: request.buyer_id,
+      userName: request.buyer_profile?.full_name || "Buyer",
+    });
   };
 
   /**
@@ -195,6 +548,16 @@ const Marketplace = () => {
     setMessagingDialogOpen(true);
   };
 
+  /**
+   * HANDLE VIEW DETAILS
+   * Opens the full listing view and counts a detail view for the seller
+   */
+  const handleViewDetails = (listing: Listing) => {
+    setSelectedListing(listing);
+    setDetailsOpen(true);
+    recordListingEvents([listing.id], "detail_view");
+  };
+
   /**
    * HANDLE BUY
    * Opens order creation dialog for purchase flow
@@ -206,6 +569,24 @@ const Marketplace = () => {
     setOrderDialogOpen(true);
   };
 
+  /**
+   * HANDLE OFFER
+   * Opens the offer dialog so a buyer can propose their own price
+   */
+  const handleOffer = (listing: Listing) => {
+    setSelectedListing(listing);
+    setOfferDialogOpen(true);
+  };
+
+  /**
+   * HANDLE BID
+   * Opens the bid dialog for an auction lot
+   */
+  const handleBid = (listing: Listing) => {
+    setSelectedListing(listing);
+    setBidDialogOpen(true);
+  };
+
   const fetchOrders = async () => {
     try {
       setOrdersLoading(true);
@@ -217,7 +598,9 @@ const Marketplace = () => {
         .from("orders")
         .select(`
           *,
-          listing:marketplace_listings(crop_name, price_per_kg)
+          listing:marketplace_listings(crop_name, price_per_kg, location),
+          contract:contracts(crop_name),
+          pickup_point:pickup_points(name, location)
         `)
         .eq("buyer_id", user.id)
         .order("created_at", { ascending: false });
@@ -240,7 +623,9 @@ const Marketplace = () => {
         .from("orders")
         .select(`
           *,
-          listing:marketplace_listings(crop_name, price_per_kg)
+          listing:marketplace_listings(crop_name, price_per_kg, location),
+          contract:contracts(crop_name),
+          pickup_point:pickup_points(name, location)
         `)
         .eq("seller_id", user.id)
         .order("created_at", { ascending: false });
@@ -274,52 +659,130 @@ const Marketplace = () => {
           <h1 className="text-3xl font-bold text-foreground mb-2">Marketplace</h1>
           <p className="text-muted-foreground">Buy, sell, and manage your transactions</p>
         </div>
-        <Button onClick={() => setAddListingOpen(true)}>
-          <Package className="w-4 h-4 mr-2" />
-          List Your Produce
-        </Button>
+        <div className="flex gap-2">
+          <Link to="/contracts">
+            <Button variant="outline">
+              <FileSignature className="w-4 h-4 mr-2" />
+              Contracts
+            </Button>
+          </Link>
+          <Button onClick={() => setAddListingOpen(true)}>
+            <Package className="w-4 h-4 mr-2" />
+            List Your Produce
+          </Button>
+        </div>
       </div>
 
       <Tabs defaultValue="browse" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="browse" className="gap-2">
             <Store className="h-4 w-4" />
             Browse Listings
           </TabsTrigger>
+          <TabsTrigger value="wanted" className="gap-2">
+            <Megaphone className="h-4 w-4" />
+            Wanted ({buyerRequests.length})
+          </TabsTrigger>
           <TabsTrigger value="orders" className="gap-2">
             <ShoppingBag className="h-4 w-4" />
             My Orders ({buyOrders.length + sellOrders.length})
           </TabsTrigger>
+          <TabsTrigger value="listings" className="gap-2">
+            <BarChart3 className="h-4 w-4" />
+            My Listings
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="browse" className="space-y-6">
           <div className="grid gap-6 lg:grid-cols-3">
             <div className="lg:col-span-2 space-y-6">
               <Card>
-                <CardHeader>
-                  <CardTitle>Active Listings</CardTitle>
-                  <CardDescription>Available produce from verified sellers</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Active Listings</CardTitle>
+                    <CardDescription>Available produce from verified sellers</CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setSavedSearchesOpen(true)}>
+                    <BellRing className="w-4 h-4 mr-2" />
+                    Saved Searches
+                  </Button>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  <ListingFilterBar filters={filters} onChange={setFilters} />
                   {loading ? (
                     <div className="flex justify-center py-8">
                       <Loader2 className="w-8 h-8 animate-spin text-primary" />
                     </div>
                   ) : listings.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
-                      <p>No listings yet. Be the first to list your produce!</p>
+                      <p>
+                        {JSON.stringify(filters) === JSON.stringify(DEFAULT_LISTING_FILTERS)
+                          ? "No listings yet. Be the first to list your produce!"
+                          : "No listings match your filters"}
+                      </p>
                     </div>
                   ) : (
                     <div className="space-y-4">
                       {listings.map((listing) => (
                         <div key={listing.id} className="p-4 border rounded-lg hover:shadow-md transition-shadow">
                           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                            <ListingGallery
+                              images={listing.image_urls}
+                              cropName={listing.crop_name}
+                              className="w-full sm:w-40 flex-shrink-0"
+                            />
                             <div className="flex-1">
                               <div className="flex items-center gap-2 mb-2">
-                                <h3 className="font-semibold text-lg">{listing.crop_name}</h3>
+                                <button
+                                  type="button"
+                                  onClick={() => handleViewDetails(listing)}
+                                  className="font-semibold text-lg hover:underline"
+                                >
+                                  {listing.crop_name}
+                                </button>
+                                {listing.sale_type === "auction" && listing.auction_ends_at && (
+                                  <Badge variant="outline" className="gap-1">
+                                    <Gavel className="w-3 h-3" />
+                                    Auction · {isAuctionOpen(listing)
+                                      ? `ends in ${formatTimeLeft(listing.auction_ends_at)}`
+                                      : "closing"}
+                                  </Badge>
+                                )}
+                                {listing.seller_id === currentUserId ? (
+                                  <Badge variant="secondary" className="gap-1">
+                                    <Eye className="w-3 h-3" />
+                                    {watchCounts[listing.id] || 0} watching
+                                  </Badge>
+                                ) : (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => toggleWatch(listing.id)}
+                                  >
+                                    <Heart
+                                      className={`w-4 h-4 ${
+                                        watchlist.some((item) => item.listing_id === listing.id)
+                                          ? "fill-primary text-primary"
+                                          : ""
+                                      }`}
+                                    />
+                                  </Button>
+                                )}
                               </div>
                               <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-                                <span>Seller: {listing.profiles?.full_name || "Farmer"}</span>
+                                <span>
+                                  Seller:{" "}
+                                  <Link to={`/u/${listing.seller_id}`} className="hover:underline hover:text-foreground">
+                                    {listing.seller_name || "Farmer"}
+                                  </Link>
+                                </span>
+                                {listing.seller_review_count > 0 && (
+                                  <span className="flex items-center gap-1">
+                                    <Star className="w-3 h-3 fill-current" />
+                                    {listing.seller_rating} ({listing.seller_review_count})
+                                  </span>
+                                )}
                                 <span>•</span>
                                 <span className="flex items-center gap-1">
                                   <MapPin className="w-3 h-3" />
@@ -327,19 +790,57 @@ const Marketplace = () => {
                                 </span>
                               </div>
                               <div className="mt-2 flex items-center gap-4">
-                                <span className="text-sm">Quantity: <strong>{listing.quantity}kg</strong></span>
-                                <span className="text-lg font-bold text-primary">KES {listing.price_per_kg}/kg</span>
+                                <span className="text-sm">
+                                  {listing.sale_type === "auction" ? "Lot" : "In stock"}:{" "}
+                                  <strong>{formatQuantity(listing.available_quantity, listing.unit, listing.unit_kg)}</strong>
+                                </span>
+                                <span className="text-lg font-bold text-primary">
+                                  {listing.sale_type === "auction" && (
+                                    <span className="text-sm font-normal text-muted-foreground">Reserve </span>
+                                  )}
+                                  {formatPrice(listing.price_per_kg, listing.unit, listing.unit_kg)}
+                                </span>
                               </div>
+                              {myBids[listing.id] && (
+                                <p className="mt-1 text-sm text-muted-foreground">
+                                  Your bid: <strong>{formatPrice(myBids[listing.id], listing.unit, listing.unit_kg)}</strong>
+                                </p>
+                              )}
                             </div>
                             <div className="flex flex-col gap-2 w-full sm:w-auto">
-                              <Button 
-                                size="sm"
-                                onClick={() => handleBuy(listing)}
-                                className="w-full gap-2"
-                              >
-                                <ShoppingCart className="w-4 h-4" />
-                                Buy Now
-                              </Button>
+                              {listing.sale_type === "auction" ? (
+                                listing.seller_id !== currentUserId && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => handleBid(listing)}
+                                    disabled={!isAuctionOpen(listing)}
+                                    className="w-full gap-2"
+                                  >
+                                    <Gavel className="w-4 h-4" />
+                                    {myBids[listing.id] ? "Update Bid" : "Place Bid"}
+                                  </Button>
+                                )
+                              ) : (
+                                <>
+                                  <Button 
+                                    size="sm"
+                                    onClick={() => handleBuy(listing)}
+                                    className="w-full gap-2"
+                                  >
+                                    <ShoppingCart className="w-4 h-4" />
+                                    Buy Now
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleOffer(listing)}
+                                    className="w-full gap-2"
+                                  >
+                                    <HandCoins className="w-4 h-4" />
+                                    Make Offer
+                                  </Button>
+                                </>
+                              )}
                               <Button 
                                 variant="outline" 
                                 size="sm"
@@ -353,6 +854,20 @@ const Marketplace = () => {
                           </div>
                         </div>
                       ))}
+
+                      {/* Infinite scroll trigger */}
+                      <div ref={loadMoreRef} className="py-4">
+                        {loadingMore && (
+                          <div className="flex items-center justify-center">
+                            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                          </div>
+                        )}
+                        {!hasMore && (
+                          <p className="text-center text-sm text-muted-foreground">
+                            No more listings to load
+                          </p>
+                        )}
+                      </div>
                     </div>
                   )}
                 </CardContent>
@@ -360,6 +875,8 @@ const Marketplace = () => {
             </div>
 
             <div className="space-y-6">
+              <WatchlistCard items={watchlist} loading={watchlistLoading} onUnwatch={toggleWatch} />
+
               <Card>
                 <CardHeader>
                   <CardTitle>AI Insights</CardTitle>
@@ -386,6 +903,93 @@ const Marketplace = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="wanted" className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle>Wanted by Buyers</CardTitle>
+                <CardDescription>Produce buyers are looking for right now</CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => setAddRequestOpen(true)} className="gap-2">
+                <Megaphone className="w-4 h-4" />
+                Post a Request
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {requestsLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                </div>
+              ) : buyerRequests.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>No open requests. Post one and sellers will come to you!</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {buyerRequests.map((request) => {
+                    const isOwn = request.buyer_id === currentUserId;
+                    // Highlight requests the current seller can already fill
+                    const canFill = !isOwn && myListings.some((listing) => isMatch(listing, request));
+
+                    return (
+                      <div key={request.id} className="p-4 border rounded-lg hover:shadow-md transition-shadow">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-2">
+                              <h3 className="font-semibold text-lg">{request.crop_name}</h3>
+                              {isOwn && <Badge variant="secondary">Your request</Badge>}
+                              {canFill && <Badge>Matches your listing</Badge>}
+                            </div>
+                            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                              <span>Buyer: {request.buyer_profile?.full_name || "Buyer"}</span>
+                              <span>•</span>
+                              <span className="flex items-center gap-1">
+                                <MapPin className="w-3 h-3" />
+                                {request.region}
+                              </span>
+                            </div>
+                            <div className="mt-2 flex items-center gap-4">
+                              <span className="text-sm">Needs: <strong>{request.quantity_needed}kg</strong></span>
+                              <span className="text-lg font-bold text-primary">
+                                {request.max_price !== null ? `Up to KES ${request.max_price}/kg` : "Open to offers"}
+                              </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Posted {new Date(request.created_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="flex flex-col gap-2 w-full sm:w-auto">
+                            {isOwn ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => markRequestFulfilled(request.id)}
+                                className="w-full gap-2"
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                                Mark Fulfilled
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                onClick={() => handleRespond(request)}
+                                className="w-full gap-2"
+                              >
+                                <MessageCircle className="w-4 h-4" />
+                                Respond
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="orders" className="space-y-6">
           {ordersLoading ? (
             <div className="flex items-center justify-center min-h-[400px]">
@@ -462,16 +1066,46 @@ const Marketplace = () => {
             </Tabs>
           )}
         </TabsContent>
+
+        <TabsContent value="listings" className="space-y-6">
+          <MyListingsAnalytics />
+        </TabsContent>
       </Tabs>
 
       <AddListingDialog 
         open={addListingOpen} 
         onOpenChange={setAddListingOpen}
-        onSuccess={fetchListings}
+        onSuccess={() => {
+          fetchListings();
+          fetchMyListings(); // New listing may fill a Wanted request
+        }}
+      />
+
+      <AddBuyerRequestDialog
+        open={addRequestOpen}
+        onOpenChange={setAddRequestOpen}
+        onSuccess={fetchBuyerRequests}
+      />
+
+      <SavedSearchesDialog
+        open={savedSearchesOpen}
+        onOpenChange={setSavedSearchesOpen}
+        filters={filters}
       />
 
       {selectedListing && (
         <>
+          <ListingDetailsDialog
+            open={detailsOpen}
+            onOpenChange={setDetailsOpen}
+            listing={selectedListing}
+            isOwnListing={selectedListing.seller_id === currentUserId}
+            myBidPerKg={myBids[selectedListing.id] ?? null}
+            onBuy={() => handleBuy(selectedListing)}
+            onOffer={() => handleOffer(selectedListing)}
+            onBid={() => handleBid(selectedListing)}
+            onContact={() => handleContact(selectedListing)}
+          />
           <CreateOrderDialog
             open={orderDialogOpen}
             onOpenChange={setOrderDialogOpen}
@@ -479,9 +1113,12 @@ const Marketplace = () => {
             sellerId={selectedListing.seller_id}
             cropName={selectedListing.crop_name}
             pricePerKg={selectedListing.price_per_kg}
-            availableQuantity={selectedListing.quantity}
+            availableQuantity={selectedListing.available_quantity}
+            unit={selectedListing.unit}
+            unitKg={selectedListing.unit_kg}
             onOrderCreated={() => {
               setOrderDialogOpen(false);
+              fetchListings(); // Reflect the reserved stock
               fetchOrders();
               toast({
                 title: "Order created",
@@ -489,12 +1126,42 @@ const Marketplace = () => {
               });
             }}
           />
+          <MakeOfferDialog
+            open={offerDialogOpen}
+            onOpenChange={setOfferDialogOpen}
+            listingId={selectedListing.id}
+            cropName={selectedListing.crop_name}
+            askingPrice={selectedListing.price_per_kg}
+            availableQuantity={selectedListing.available_quantity}
+            unit={selectedListing.unit}
+            unitKg={selectedListing.unit_kg}
+            onOfferMade={() => setMessagingDialogOpen(true)} // Continue the negotiation in chat
+          />
+          {selectedListing.auction_ends_at && (
+            <PlaceBidDialog
+              open={bidDialogOpen}
+              onOpenChange={setBidDialogOpen}
+              listingId={selectedListing.id}
+              cropName={selectedListing.crop_name}
+              reservePricePerKg={selectedListing.price_per_kg}
+              lotQuantity={selectedListing.available_quantity}
+              auctionEndsAt={selectedListing.auction_ends_at}
+              unit={selectedListing.unit}
+              unitKg={selectedListing.unit_kg}
+              currentBidPerKg={myBids[selectedListing.id] ?? null}
+              onBidPlaced={fetchMyBids}
+            />
+          )}
           <MessagingDialog
             open={messagingDialogOpen}
             onOpenChange={setMessagingDialogOpen}
             otherUserId={selectedListing.seller_id}
-            otherUserName={selectedListing.profiles?.full_name || "Seller"}
+            otherUserName={selectedListing.seller_name || "Seller"}
             listingId={selectedListing.id}
+            onOrderCreated={() => {
+              fetchListings();
+              fetchOrders();
+            }}
           />
         </>
       )}
@@ -506,6 +1173,10 @@ const Marketplace = () => {
           otherUserId={selectedChat.userId}
           otherUserName={selectedChat.userName}
           listingId={selectedChat.listingId}
+          onOrderCreated={() => {
+            fetchListings();
+            fetchOrders();
+          }}
         />
       )}
     </div>
@@ -5,9 +5,10 @@
  * buyer and seller perspectives. Nested within Marketplace section.
  * 
  * PAGE STRUCTURE:
- * - Two tabs: "My Purchases" and "My Sales"
+ * - Three tabs: "My Purchases", "My Sales" and "Documents"
  * - My Purchases: Orders where current user is buyer
  * - My Sales: Orders where current user is seller
+ * - Documents: Invoices and receipts already issued for the user's orders, for re-download
  * 
  * KEY FEATURES:
  * 1. Dual perspective order tracking (buy and sell sides)
@@ -43,24 +44,40 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { OrderCard } from "@/components/OrderCard";
 import { MessagingDialog } from "@/components/MessagingDialog";
-import { ShoppingBag, Store, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DOCUMENT_KINDS, downloadOrderDocument, type OrderDocumentKind } from "@/utils/orderDocuments";
+import { ShoppingBag, Store, Loader2, FileText, Download } from "lucide-react";
 
 interface Order {
   id: string;
   listing_id: string;
   buyer_id: string;
   seller_id: string;
-  quantity: number;
+  quantity: number; // Always kg
+  unit: string; // Unit the listing was sold in
+  unit_kg: number; // Weight of one unit in kg
   amount: number;
   status: string;
   delivery_details: any;
+  delivery_method: string; // farm_pickup, market_pickup or delivery
+  delivery_fee: number; // Included in amount
+  pickup_window_start: string | null;
+  pickup_window_end: string | null;
   created_at: string;
   listing?: {
     crop_name: string;
     price_per_kg: number;
+    location: string;
   };
+  pickup_point?: {
+    name: string;
+    location: string;
+  } | null;
   buyer_profile?: {
     full_name: string;
   };
@@ -69,11 +86,32 @@ interface Order {
   };
 }
 
+/**
+ * Order Document Interface
+ * An issued invoice or receipt with its order's crop
+ */
+interface OrderDocument {
+  id: string;
+  order_id: string;
+  kind: OrderDocumentKind;
+  document_number: string;
+  amount: number;
+  created_at: string;
+  order: {
+    listing: {
+      crop_name: string;
+    } | null;
+  } | null;
+}
+
 const Orders = () => {
   // ORDER STATE - Separated by user role in transaction
   const [buyOrders, setBuyOrders] = useState<Order[]>([]); // User is buyer
   const [sellOrders, setSellOrders] = useState<Order[]>([]); // User is seller
   const [loading, setLoading] = useState(true); // Initial data fetch
+  const [documents, setDocuments] = useState<OrderDocument[]>([]); // Issued invoices and receipts
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const { toast } = useToast();
   
   // MESSAGING STATE - For buyer-seller communication
   const [selectedChat, setSelectedChat] = useState<{
@@ -86,6 +124,42 @@ const Orders = () => {
     fetchOrders();
   }, []);
 
+  /**
+   * FETCH DOCUMENTS
+   * Invoices and receipts for the user's orders (RLS limits rows to order parties)
+   */
+  const fetchDocuments = async () => {
+    const { data, error } = await supabase
+      .from("order_documents")
+      .select(`
+        id, order_id, kind, document_number, amount, created_at,
+        order:orders(listing:marketplace_listings(crop_name))
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching documents:", error);
+      return;
+    }
+
+    setDocuments((data || []) as OrderDocument[]);
+  };
+
+  const downloadDocument = async (orderDocument: OrderDocument) => {
+    try {
+      setDownloadingId(orderDocument.id);
+      await downloadOrderDocument(orderDocument.order_id, orderDocument.kind);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not get the document",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
   /**
    * FETCH ORDERS
    * Retrieves all orders for current user from both buyer and seller perspectives
@@ -126,7 +200,9 @@ const Orders = () => {
         .from("orders")
         .select(`
           *,
-          listing:marketplace_listings(crop_name, price_per_kg)
+          listing:marketplace_listings(crop_name, price_per_kg, location),
+          contract:contracts(crop_name),
+          pickup_point:pickup_points(name, location)
         `)
         .eq("buyer_id", user.id) // User's purchases
         .order("created_at", { ascending: false }); // Newest first
@@ -152,7 +228,9 @@ const Orders = () => {
         .from("orders")
         .select(`
           *,
-          listing:marketplace_listings(crop_name, price_per_kg)
+          listing:marketplace_listings(crop_name, price_per_kg, location),
+          contract:contracts(crop_name),
+          pickup_point:pickup_points(name, location)
         `)
         .eq("seller_id", user.id) // User's sales
         .order("created_at", { ascending: false }); // Newest first
@@ -197,8 +275,12 @@ const Orders = () => {
         <p className="text-muted-foreground">Track and manage your transactions</p>
       </div>
 
-      <Tabs defaultValue="purchases" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs
+        defaultValue="purchases"
+        onValueChange={(tab) => tab === "documents" && fetchDocuments()}
+        className="space-y-6"
+      >
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="purchases" className="gap-2">
             <ShoppingBag className="h-4 w-4" />
             My Purchases ({buyOrders.length})
@@ -207,6 +289,10 @@ const Orders = () => {
             <Store className="h-4 w-4" />
             My Sales ({sellOrders.length})
           </TabsTrigger>
+          <TabsTrigger value="documents" className="gap-2">
+            <FileText className="h-4 w-4" />
+            Documents
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="purchases" className="space-y-4">
@@ -258,6 +344,42 @@ const Orders = () => {
             ))
           )}
         </TabsContent>
+
+        <TabsContent value="documents" className="space-y-3">
+          {documents.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No invoices or receipts yet. Get them from an order above.</p>
+            </div>
+          ) : (
+            documents.map((orderDocument) => (
+              <Card key={orderDocument.id}>
+                <CardContent className="flex items-center justify-between gap-4 p-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{orderDocument.document_number}</p>
+                      <Badge variant="outline">{DOCUMENT_KINDS[orderDocument.kind]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {orderDocument.order?.listing?.crop_name || "Order"} · KES {orderDocument.amount.toLocaleString()} ·{" "}
+                      {new Date(orderDocument.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => downloadDocument(orderDocument)}
+                    disabled={downloadingId === orderDocument.id}
+                    className="gap-2"
+                  >
+                    <Download className="h-4 w-4" />
+                    PDF
+                  </Button>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
       </Tabs>
 
       {selectedChat && (
@@ -22,6 +22,7 @@ import { Heart, MessageCircle, Share2, Send, TrendingUp, Loader2, Image as Image
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { formatDistanceToNow } from "date-fns";
+import { Link } from "react-router-dom";
 import CommentSection from "@/components/CommentSection";
 import { LeaderboardCard } from "@/components/LeaderboardCard";
 import { useCompleteReferral } from "@/hooks/useCompleteReferral";
@@ -756,7 +757,9 @@ const Social = () => {
                       <div className="flex-1">
                         <div className="flex items-start justify-between mb-2">
                           <div>
-                            <p className="font-semibold">{post.profiles?.full_name || "Farmer"}</p>
+                            <Link to={`/u/${post.user_id}`} className="font-semibold hover:underline">
+                              {post.profiles?.full_name || "Farmer"}
+                            </Link>
                             <p className="text-sm text-muted-foreground">
                               {post.profiles?.location || "Kenya"} • {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
                             </p>
@@ -0,0 +1,387 @@
+/**
+ * USER PROFILE PAGE
+ *
+ * Public reputation profile so buyers can see who they are dealing with.
+ * Linked from marketplace listing cards, order cards and social post authors.
+ *
+ * SECTIONS:
+ * - Header: name, location, member-since date, average rating
+ * - Trust stats: completion rate, cancellation rate, median response time
+ * - Rating breakdown: number of 1-5 star reviews
+ * - Reviews: review texts, newest first, with "Load more"
+ * - Active listings: what the seller has on the marketplace right now
+ * - "Propose Contract" (other users' profiles): forward contract for a future harvest
+ *
+ * DATA FETCHING:
+ * - get_seller_profile() RPC for the header and stats (profiles, orders and
+ *   messages are private under RLS, so aggregates are computed server-side)
+ * - get_seller_reviews() RPC for review texts with reviewer names
+ * - Active listings read directly (active listings are public)
+ *
+ * @page
+ * @example
+ * ```tsx
+ * <Route path="/u/:id" element={<UserProfile />} />
+ * ```
+ */
+
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { ListingGallery } from "@/components/ListingGallery";
+import { ProposeContractDialog } from "@/components/ProposeContractDialog";
+import { formatPrice, formatQuantity } from "@/utils/units";
+import { Calendar, CheckCircle, Clock, FileSignature, Loader2, MapPin, Package, Star, XCircle } from "lucide-react";
+
+/**
+ * Public profile and reputation aggregates from get_seller_profile()
+ * @interface SellerProfile
+ */
+interface SellerProfile {
+  id: string;
+  full_name: string;
+  location: string;
+  member_since: string;
+  avg_rating: number;
+  review_count: number;
+  rating_counts: number[]; // [1-star, 2-star, 3-star, 4-star, 5-star]
+  completed_orders: number;
+  cancelled_orders: number;
+  completion_rate: number | null; // Percent of finished sales; null with no finished sales
+  cancellation_rate: number | null;
+  median_response_minutes: number | null; // Null when no buyer messages to measure
+  active_listings: number;
+}
+
+interface Review {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  reviewer_name: string | null;
+  crop_name: string | null;
+}
+
+interface ProfileListing {
+  id: string;
+  crop_name: string;
+  available_quantity: number;
+  price_per_kg: number;
+  unit: string;
+  unit_kg: number;
+  location: string;
+  image_urls: string[];
+}
+
+const REVIEWS_PER_PAGE = 10;
+
+/**
+ * Formats a response time in minutes as "12 min", "3 hrs" or "2 days"
+ */
+const formatResponseTime = (minutes: number) => {
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)} hrs`;
+  return `${Math.round(minutes / (60 * 24))} days`;
+};
+
+const UserProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const [profile, setProfile] = useState<SellerProfile | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [listings, setListings] = useState<ProfileListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMoreReviews, setHasMoreReviews] = useState(false);
+  const [loadingReviews, setLoadingReviews] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null); // Hides own-profile actions
+  const [contractOpen, setContractOpen] = useState(false);
+
+  useEffect(() => {
+    if (id) fetchProfile(id);
+  }, [id]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  /**
+   * Loads the profile, first page of reviews and active listings in parallel
+   */
+  const fetchProfile = async (userId: string) => {
+    setLoading(true);
+    try {
+      const [profileResult, reviewsResult, listingsResult] = await Promise.all([
+        supabase.rpc("get_seller_profile", { p_user_id: userId }),
+        supabase.rpc("get_seller_reviews", { p_user_id: userId, p_limit: REVIEWS_PER_PAGE }),
+        supabase
+          .from("marketplace_listings")
+          .select("id, crop_name, available_quantity, price_per_kg, unit, unit_kg, location, image_urls")
+          .eq("seller_id", userId)
+          .eq("status", "active")
+          .gt("expires_at", new Date().toISOString())
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (reviewsResult.error) throw reviewsResult.error;
+      if (listingsResult.error) throw listingsResult.error;
+
+      setProfile(profileResult.data?.[0] || null);
+      setReviews(reviewsResult.data || []);
+      setHasMoreReviews((reviewsResult.data?.length || 0) === REVIEWS_PER_PAGE);
+      setListings(listingsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      setProfile(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMoreReviews = async () => {
+    if (!id || reviews.length === 0) return;
+    setLoadingReviews(true);
+    try {
+      const { data, error } = await supabase.rpc("get_seller_reviews", {
+        p_user_id: id,
+        p_before: reviews[reviews.length - 1].created_at,
+        p_limit: REVIEWS_PER_PAGE,
+      });
+
+      if (error) throw error;
+
+      setReviews((prev) => [...prev, ...(data || [])]);
+      setHasMoreReviews((data?.length || 0) === REVIEWS_PER_PAGE);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    } finally {
+      setLoadingReviews(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-20 space-y-4">
+        <p className="text-muted-foreground">This profile could not be found.</p>
+        <Button asChild variant="outline">
+          <Link to="/marketplace">Back to Marketplace</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const maxRatingCount = Math.max(...profile.rating_counts, 1);
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-6">
+      {/* Header */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <Avatar className="w-16 h-16">
+              <AvatarFallback className="text-2xl">{profile.full_name?.[0] || "F"}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 space-y-1">
+              <h1 className="text-2xl font-bold text-foreground">{profile.full_name || "Farmer"}</h1>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-4 h-4" />
+                  {profile.location}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Calendar className="w-4 h-4" />
+                  Member since {format(new Date(profile.member_since), "MMMM yyyy")}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Star className="w-6 h-6 fill-warning text-warning" />
+              <span className="text-2xl font-bold">{profile.avg_rating}</span>
+              <span className="text-sm text-muted-foreground">
+                ({profile.review_count} {profile.review_count === 1 ? "review" : "reviews"})
+              </span>
+            </div>
+            {currentUserId && currentUserId !== profile.id && (
+              <Button variant="outline" onClick={() => setContractOpen(true)}>
+                <FileSignature className="w-4 h-4 mr-2" />
+                Propose Contract
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Trust stats */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="w-4 h-4 text-success" />
+              Completion Rate
+            </div>
+            <p className="text-2xl font-bold mt-1">
+              {profile.completion_rate !== null ? `${profile.completion_rate}%` : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">{profile.completed_orders} completed sales</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <XCircle className="w-4 h-4 text-destructive" />
+              Cancellation Rate
+            </div>
+            <p className="text-2xl font-bold mt-1">
+              {profile.cancellation_rate !== null ? `${profile.cancellation_rate}%` : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">{profile.cancelled_orders} cancelled</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Clock className="w-4 h-4 text-primary" />
+              Response Time
+            </div>
+            <p className="text-2xl font-bold mt-1">
+              {profile.median_response_minutes !== null
+                ? formatResponseTime(profile.median_response_minutes)
+                : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">Median, last 90 days</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Package className="w-4 h-4 text-accent" />
+              Active Listings
+            </div>
+            <p className="text-2xl font-bold mt-1">{profile.active_listings}</p>
+            <p className="text-xs text-muted-foreground">On the marketplace now</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        {/* Rating breakdown */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Ratings</CardTitle>
+            <CardDescription>From completed orders</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[5, 4, 3, 2, 1].map((stars) => (
+              <div key={stars} className="flex items-center gap-2 text-sm">
+                <span className="w-8 flex items-center gap-0.5">
+                  {stars}
+                  <Star className="w-3 h-3 fill-warning text-warning" />
+                </span>
+                <Progress value={(profile.rating_counts[stars - 1] / maxRatingCount) * 100} className="flex-1 h-2" />
+                <span className="w-8 text-right text-muted-foreground">{profile.rating_counts[stars - 1]}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Reviews */}
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reviews.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No reviews yet</p>
+            ) : (
+              <div className="space-y-4">
+                {reviews.map((review) => (
+                  <div key={review.id} className="border-b last:border-0 pb-4 last:pb-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-1">
+                        {[1, 2, 3, 4, 5].map((star) => (
+                          <Star
+                            key={star}
+                            className={`w-4 h-4 ${star <= review.rating ? "fill-warning text-warning" : "text-muted-foreground"}`}
+                          />
+                        ))}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                    {review.comment && <p className="text-sm mt-2">{review.comment}</p>}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {review.reviewer_name || "Buyer"}
+                      {review.crop_name && ` • bought ${review.crop_name}`}
+                    </p>
+                  </div>
+                ))}
+                {hasMoreReviews && (
+                  <Button variant="outline" className="w-full" onClick={loadMoreReviews} disabled={loadingReviews}>
+                    {loadingReviews ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more reviews"}
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Active listings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Listings</CardTitle>
+          <CardDescription>Order from the Marketplace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {listings.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No active listings</p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {listings.map((listing) => (
+                <div key={listing.id} className="border rounded-lg overflow-hidden">
+                  <ListingGallery images={listing.image_urls} cropName={listing.crop_name} className="w-full" />
+                  <div className="p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <p className="font-semibold">{listing.crop_name}</p>
+                      <Badge variant="secondary">{formatPrice(listing.price_per_kg, listing.unit, listing.unit_kg)}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatQuantity(listing.available_quantity, listing.unit, listing.unit_kg)} available
+                    </p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {listing.location}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ProposeContractDialog
+        open={contractOpen}
+        onOpenChange={setContractOpen}
+        farmerId={profile.id}
+        farmerName={profile.full_name || "This farmer"}
+      />
+    </div>
+  );
+};
+
+export default UserProfile;
@@ -0,0 +1,54 @@
+/**
+ * Auction Utilities
+ *
+ * Sealed-bid auctions sell a whole bulk lot to the highest bidder. Bidders
+ * can't see each other's bids; the close-auctions job turns the best bid into
+ * an order once the auction ends.
+ *
+ * For auction listings price_per_kg holds the reserve price, the lowest bid
+ * the seller will accept.
+ */
+
+/**
+ * Auction lengths offered to sellers
+ * The database allows 1 hour to 14 days, ending at least a day before the listing expires
+ */
+export const AUCTION_DURATIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 5, label: '5 days' },
+  { days: 7, label: '1 week' },
+];
+
+/**
+ * Whether an auction is still taking bids.
+ *
+ * @param {object} listing - Listing with its sale type and auction end time
+ * @param {Date} now - Current time (defaults to now)
+ * @returns {boolean} True if bids can be placed
+ */
+export const isAuctionOpen = (
+  listing: { sale_type: string; auction_ends_at: string | null },
+  now = new Date()
+): boolean =>
+  listing.sale_type === 'auction' &&
+  listing.auction_ends_at !== null &&
+  new Date(listing.auction_ends_at) > now;
+
+/**
+ * Time left in an auction, e.g. "2d 5h", "3h 20m" or "12m"
+ *
+ * @param {string} endsAt - auction_ends_at timestamp
+ * @param {Date} now - Current time (defaults to now)
+ * @returns {string} Short countdown, or "Ended"
+ */
+export const formatTimeLeft = (endsAt: string, now = new Date()): string => {
+  const minutes = Math.floor((new Date(endsAt).getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) return 'Ended';
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
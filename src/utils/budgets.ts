@@ -0,0 +1,68 @@
+/**
+ * Seasonal Budgets
+ *
+ * Planned spend per expense category for a season (utils/seasons), for the
+ * whole farm or a single planting. Actual spend comes from get_budget_status():
+ * - Whole-farm budgets: the category's expenses dated in the season
+ * - Planting budgets: the category's expenses linked to the planting, including
+ *   its acreage share of split entries
+ *
+ * Owners are notified by check_budget_alerts() when a budget passes 80% and 100%.
+ */
+
+/**
+ * One row of get_budget_status()
+ * @interface BudgetStatus
+ */
+export interface BudgetStatus {
+  id: string;
+  season: string; // Season key, e.g. '2025-long'
+  crop_id: string | null; // NULL for whole-farm budgets
+  crop_name: string | null;
+  category: string;
+  amount: number;
+  spent: number;
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+// Share of the budget at which the owner is warned (same as check_budget_alerts())
+export const BUDGET_WARNING_SHARE = 0.8;
+
+/**
+ * Classifies spend against a budget, with the thresholds used for alerts.
+ *
+ * @param {number} spent - Actual spend
+ * @param {number} amount - Budgeted amount
+ * @returns {BudgetLevel} 'over' from 100%, 'warning' from 80%, otherwise 'ok'
+ */
+export const getBudgetLevel = (spent: number, amount: number): BudgetLevel => {
+  if (spent >= amount) return 'over';
+  if (spent >= amount * BUDGET_WARNING_SHARE) return 'warning';
+  return 'ok';
+};
+
+/**
+ * Works out how far spend is from budget.
+ *
+ * @param {BudgetStatus} budget - Budget with actual spend
+ * @returns Variance (budget minus spend; negative when overspent) and % of budget used
+ */
+export const getBudgetVariance = (budget: BudgetStatus) => {
+  const amount = Number(budget.amount);
+  const spent = Number(budget.spent);
+
+  return {
+    variance: Math.round((amount - spent) * 100) / 100,
+    percentUsed: amount > 0 ? Math.round((spent / amount) * 100) : 0,
+  };
+};
+
+/**
+ * Labels a budget by what it covers.
+ *
+ * @param {BudgetStatus} budget - Budget
+ * @returns {string} E.g. "Fertilizer" or "Fertilizer · Maize"
+ */
+export const formatBudgetScope = (budget: BudgetStatus): string =>
+  budget.crop_name ? `${budget.category} · ${budget.crop_name}` : budget.category;
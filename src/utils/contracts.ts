@@ -0,0 +1,104 @@
+/**
+ * Forward Contract Utilities
+ *
+ * A forward contract lets a buyer (offtaker, processor) lock in a farmer's
+ * supply before planting: crop, volume, a price formula, quality specs and a
+ * delivery schedule. The farmer links it to one of their crop records when
+ * accepting, and the contract-deliveries job creates an order for each
+ * scheduled delivery on its due date.
+ *
+ * All quantities are in kg and prices in KES per kg.
+ */
+
+/**
+ * Scheduled delivery as stored in contract_deliveries, with its order once created
+ * @interface ContractDelivery
+ */
+export interface ContractDelivery {
+  id: string;
+  due_date: string;
+  quantity: number;
+  status: string; // 'scheduled' | 'ordered' | 'cancelled'
+  price_per_kg: number | null; // Price applied when the order was created
+  order: { id: string; status: string | null; quantity: number } | null;
+}
+
+/**
+ * Contract as shown on the Contracts page
+ * @interface Contract
+ */
+export interface Contract {
+  id: string;
+  buyer_id: string;
+  farmer_id: string;
+  crop_id: string | null;
+  crop_name: string;
+  total_quantity: number;
+  price_type: string; // 'fixed' | 'market'
+  price_per_kg: number | null;
+  market_premium_pct: number;
+  price_floor: number | null;
+  price_ceiling: number | null;
+  quality_specs: string;
+  delivery_method: string; // 'farm_pickup' | 'delivery'
+  delivery_address: string | null;
+  status: string;
+  created_at: string;
+  deliveries: ContractDelivery[];
+  crop: { planting_date: string; acreage: number; expected_yield: number | null } | null;
+}
+
+export const CONTRACT_STATUS_LABELS: Record<string, string> = {
+  proposed: 'Proposed',
+  active: 'Active',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+// Order statuses that count as delivered against a contract
+const DELIVERED_ORDER_STATUSES = ['delivered', 'completed'];
+
+/**
+ * Describes a contract's price formula, e.g. "KES 45/kg" or
+ * "Market +5%, floor KES 40/kg, ceiling KES 60/kg"
+ *
+ * @param {Contract} contract - Contract price terms
+ * @returns {string} Human-readable formula
+ */
+export const describePriceFormula = (
+  contract: Pick<Contract, 'price_type' | 'price_per_kg' | 'market_premium_pct' | 'price_floor' | 'price_ceiling'>
+): string => {
+  if (contract.price_type === 'fixed') {
+    return `KES ${contract.price_per_kg?.toLocaleString()}/kg fixed`;
+  }
+
+  const premium = Number(contract.market_premium_pct);
+  const parts = [premium === 0 ? 'Market price' : `Market ${premium > 0 ? '+' : ''}${premium}%`];
+  if (contract.price_floor !== null) parts.push(`floor KES ${contract.price_floor.toLocaleString()}/kg`);
+  if (contract.price_ceiling !== null) parts.push(`ceiling KES ${contract.price_ceiling.toLocaleString()}/kg`);
+  return parts.join(', ');
+};
+
+/**
+ * Expected vs delivered volumes for a contract's schedule.
+ * Cancelled deliveries that were never ordered drop out of the expected volume.
+ *
+ * @param {ContractDelivery[]} deliveries - Contract delivery schedule
+ * @param {Date} today - Reference date (defaults to now)
+ * @returns {{ expected: number, dueToDate: number, delivered: number }} Volumes in kg
+ */
+export const getContractVolumes = (deliveries: ContractDelivery[], today = new Date()) => {
+  const todayKey = today.toISOString().split('T')[0];
+  const live = deliveries.filter((delivery) => delivery.status !== 'cancelled' || delivery.order);
+
+  return {
+    expected: live.reduce((sum, delivery) => sum + delivery.quantity, 0),
+    dueToDate: live
+      .filter((delivery) => delivery.due_date <= todayKey)
+      .reduce((sum, delivery) => sum + delivery.quantity, 0),
+    delivered: live
+      .filter((delivery) => DELIVERED_ORDER_STATUSES.includes(delivery.order?.status ?? ''))
+      .reduce((sum, delivery) => sum + (delivery.order?.quantity ?? 0), 0),
+  };
+};
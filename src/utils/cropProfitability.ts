@@ -0,0 +1,177 @@
+/**
+ * Crop Profitability
+ *
+ * Profit and loss per planting (crops record) from get_crop_profitability().
+ * Ledger entries count towards a planting when linked to it directly (crop_id),
+ * or in proportion to its acreage when split across several plantings
+ * (ledger_crop_allocations, written by set_ledger_crops()).
+ *
+ * Cost per kg uses the harvested quantity once recorded, and the expected yield
+ * as an estimate before that.
+ */
+
+import { format } from 'date-fns';
+import { getSeason } from '@/utils/seasons';
+
+/**
+ * A planting a ledger entry can be assigned to
+ * @interface Planting
+ */
+export interface Planting {
+  id: string;
+  crop_name: string;
+  planting_date: string;
+  acreage: number;
+}
+
+/**
+ * One row of get_crop_profitability()
+ * @interface CropProfitability
+ */
+export interface CropProfitability {
+  crop_id: string;
+  crop_name: string;
+  acreage: number;
+  planting_date: string;
+  status: string;
+  expected_yield: number | null;
+  harvested_quantity: number | null;
+  harvested_at: string | null;
+  direct_costs: number;
+  shared_costs: number;
+  revenue: number;
+  entry_count: number;
+}
+
+/**
+ * Figures derived for a planting or a group of plantings
+ * @interface CropPnl
+ */
+export interface CropPnl {
+  costs: number;
+  revenue: number;
+  profit: number;
+  roi: number | null; // Profit as % of costs, null without costs
+  costPerAcre: number | null;
+  costPerKg: number | null;
+  costPerKgEstimated: boolean; // True when based on expected rather than harvested yield
+}
+
+/**
+ * Season totals for comparing seasons
+ * @interface SeasonPnl
+ */
+export interface SeasonPnl extends CropPnl {
+  key: string;
+  label: string;
+  plantings: number;
+  acreage: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Names a planting so repeat plantings of a crop can be told apart.
+ *
+ * @param {Planting} planting - Crop record
+ * @returns {string} e.g. "Tomatoes · Mar 2025 · 2 ac"
+ */
+export const formatPlanting = (planting: Planting): string =>
+  `${planting.crop_name} · ${format(new Date(`${planting.planting_date}T00:00:00`), 'MMM yyyy')} · ${planting.acreage} ac`;
+
+/**
+ * Share of an entry each selected planting takes when split by acreage.
+ * Same split as set_ledger_crops().
+ *
+ * @param {Planting[]} plantings - Selected plantings
+ * @returns {Map<string, number>} Planting id to share (0-1); empty if there is no acreage
+ */
+export const getAcreageShares = (plantings: Planting[]): Map<string, number> => {
+  const totalAcreage = plantings.reduce((sum, planting) => sum + Number(planting.acreage), 0);
+  if (totalAcreage <= 0) return new Map();
+
+  return new Map(plantings.map((planting) => [planting.id, Number(planting.acreage) / totalAcreage]));
+};
+
+/**
+ * Return on costs as a percentage.
+ *
+ * @param {number} profit - Revenue minus costs
+ * @param {number} costs - Total costs
+ * @returns {number | null} ROI rounded to a whole percent, null without costs
+ */
+const getRoi = (profit: number, costs: number): number | null =>
+  costs > 0 ? Math.round((profit / costs) * 100) : null;
+
+/**
+ * Works out a planting's profit and unit costs.
+ *
+ * @param {CropProfitability} row - Planting with its linked income and costs
+ * @returns {CropPnl} Profit, ROI and cost per acre and per kg
+ */
+export const getCropPnl = (row: CropProfitability): CropPnl => {
+  const costs = Number(row.direct_costs) + Number(row.shared_costs);
+  const revenue = Number(row.revenue);
+  const profit = revenue - costs;
+  const harvested = row.harvested_quantity !== null ? Number(row.harvested_quantity) : null;
+  const yieldKg = harvested ?? (row.expected_yield !== null ? Number(row.expected_yield) : null);
+
+  return {
+    costs: round(costs),
+    revenue: round(revenue),
+    profit: round(profit),
+    roi: getRoi(profit, costs),
+    costPerAcre: row.acreage > 0 ? round(costs / row.acreage) : null,
+    costPerKg: yieldKg && yieldKg > 0 ? round(costs / yieldKg) : null,
+    costPerKgEstimated: harvested === null,
+  };
+};
+
+/**
+ * Totals plantings by the season they were planted in, oldest season first.
+ * Cost per kg only counts plantings with a harvest recorded.
+ *
+ * @param {CropProfitability[]} rows - Plantings
+ * @returns {SeasonPnl[]} One row per season
+ */
+export const summarizeBySeason = (rows: CropProfitability[]): SeasonPnl[] => {
+  const seasons = new Map<string, { label: string; rows: CropProfitability[] }>();
+
+  rows.forEach((row) => {
+    const season = getSeason(row.planting_date);
+    const group = seasons.get(season.key) || { label: season.label, rows: [] };
+    group.rows.push(row);
+    seasons.set(season.key, group);
+  });
+
+  return Array.from(seasons.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => {
+      const acreage = group.rows.reduce((sum, row) => sum + Number(row.acreage), 0);
+      const costs = group.rows.reduce(
+        (sum, row) => sum + Number(row.direct_costs) + Number(row.shared_costs),
+        0
+      );
+      const revenue = group.rows.reduce((sum, row) => sum + Number(row.revenue), 0);
+      const harvested = group.rows.filter((row) => row.harvested_quantity !== null);
+      const harvestedKg = harvested.reduce((sum, row) => sum + Number(row.harvested_quantity), 0);
+      const harvestedCosts = harvested.reduce(
+        (sum, row) => sum + Number(row.direct_costs) + Number(row.shared_costs),
+        0
+      );
+
+      return {
+        key,
+        label: group.label,
+        plantings: group.rows.length,
+        acreage: round(acreage),
+        costs: round(costs),
+        revenue: round(revenue),
+        profit: round(revenue - costs),
+        roi: getRoi(revenue - costs, costs),
+        costPerAcre: acreage > 0 ? round(costs / acreage) : null,
+        costPerKg: harvestedKg > 0 ? round(harvestedCosts / harvestedKg) : null,
+        costPerKgEstimated: false,
+      };
+    });
+};
@@ -0,0 +1,156 @@
+/**
+ * Delivery Logistics Utilities
+ *
+ * How an order gets from the farm to the buyer, shared by the order and offer
+ * dialogs (DeliveryOptions) and OrderCard.
+ *
+ * Delivery Methods:
+ * - farm_pickup: Buyer collects from the seller's farm in a scheduled window, no fee
+ * - market_pickup: Seller drops the produce at a market pickup point, buyer collects
+ *   in a scheduled window, no fee
+ * - delivery: Seller delivers to the buyer's address; the fee comes from the
+ *   delivery_tariffs band the buyer picks and is added to the order total. The
+ *   seller checks the band (and can change it) when confirming the order, and
+ *   the buyer pays only after that
+ *
+ * Every order gets a six-digit delivery code that only the buyer can see. The
+ * seller (or their driver) must enter it to mark the order delivered (confirm_delivery).
+ */
+
+import { format } from 'date-fns';
+
+export const DELIVERY_METHODS: Record<string, string> = {
+  farm_pickup: 'Farm pickup',
+  market_pickup: 'Market pickup point',
+  delivery: 'Delivery to my address',
+};
+
+/**
+ * Pickup windows a buyer can book, in local hours
+ */
+export const PICKUP_SLOTS: Record<string, { label: string; startHour: number; endHour: number }> = {
+  early: { label: '6am - 9am', startHour: 6, endHour: 9 },
+  morning: { label: '9am - 12pm', startHour: 9, endHour: 12 },
+  afternoon: { label: '12pm - 3pm', startHour: 12, endHour: 15 },
+  evening: { label: '3pm - 6pm', startHour: 15, endHour: 18 },
+};
+
+/**
+ * A delivery_tariffs row
+ */
+export interface DeliveryTariff {
+  id: string;
+  label: string;
+  max_distance_km: number | null;
+  base_fee: number;
+  fee_per_kg: number;
+}
+
+/**
+ * A pickup_points row
+ */
+export interface PickupPoint {
+  id: string;
+  name: string;
+  location: string;
+}
+
+/**
+ * The buyer's delivery choice while filling in an order or offer form
+ */
+export interface DeliveryChoice {
+  method: string;
+  address: string; // Delivery only
+  notes: string;
+  pickupPointId: string; // Market pickup only
+  tariffId: string; // Delivery only
+  pickupDate: string; // yyyy-MM-dd, pickups only
+  pickupSlot: string; // Key of PICKUP_SLOTS, pickups only
+}
+
+export const EMPTY_DELIVERY_CHOICE: DeliveryChoice = {
+  method: 'delivery',
+  address: '',
+  notes: '',
+  pickupPointId: '',
+  tariffId: '',
+  pickupDate: '',
+  pickupSlot: '',
+};
+
+/**
+ * Calculates the delivery fee the same way create_reserved_order() does.
+ *
+ * @param {DeliveryTariff | undefined} tariff - Chosen tariff band
+ * @param {number} quantityKg - Order quantity in kg
+ * @returns {number} Fee in KES, 0 without a tariff
+ */
+export const calculateDeliveryFee = (tariff: DeliveryTariff | undefined, quantityKg: number): number => {
+  if (!tariff) return 0;
+  return Math.round((Number(tariff.base_fee) + Number(tariff.fee_per_kg) * quantityKg) * 100) / 100;
+};
+
+/**
+ * Turns a pickup date and slot into the window start and end.
+ *
+ * @returns {{ start: Date; end: Date } | null} null until both are chosen
+ */
+export const getPickupWindow = (date: string, slot: string): { start: Date; end: Date } | null => {
+  const hours = PICKUP_SLOTS[slot];
+  if (!date || !hours) return null;
+
+  const start = new Date(`${date}T00:00:00`);
+  const end = new Date(start);
+  start.setHours(hours.startHour);
+  end.setHours(hours.endHour);
+  return { start, end };
+};
+
+/**
+ * Checks a delivery choice before it is sent (mirrors validate_delivery_details()).
+ *
+ * @returns {string | null} An error message, or null when the choice is complete
+ */
+export const validateDeliveryChoice = (choice: DeliveryChoice): string | null => {
+  if (choice.method === 'delivery') {
+    if (!choice.address.trim()) return 'Please provide a delivery address';
+    if (!choice.tariffId) return 'Choose a delivery distance';
+    return null;
+  }
+
+  if (choice.method === 'market_pickup' && !choice.pickupPointId) {
+    return 'Choose a market pickup point';
+  }
+
+  const pickupWindow = getPickupWindow(choice.pickupDate, choice.pickupSlot);
+  if (!pickupWindow) return 'Choose a pickup day and time';
+  if (pickupWindow.start < new Date()) return 'The pickup window must be in the future';
+  return null;
+};
+
+/**
+ * Builds the p_delivery_details payload for place_order() and make_offer().
+ */
+export const toDeliveryDetails = (choice: DeliveryChoice) => {
+  const pickupWindow = getPickupWindow(choice.pickupDate, choice.pickupSlot);
+  const isDelivery = choice.method === 'delivery';
+
+  return {
+    method: choice.method,
+    address: isDelivery ? choice.address.trim() : undefined,
+    notes: choice.notes.trim() || undefined,
+    tariff_id: isDelivery ? choice.tariffId : undefined,
+    pickup_point_id: choice.method === 'market_pickup' ? choice.pickupPointId : undefined,
+    window_start: !isDelivery ? pickupWindow?.start.toISOString() : undefined,
+    window_end: !isDelivery ? pickupWindow?.end.toISOString() : undefined,
+  };
+};
+
+/**
+ * Formats a pickup window for display.
+ *
+ * @example
+ * formatPickupWindow(order.pickup_window_start, order.pickup_window_end); // "Mon 24 Nov, 06:00 - 09:00"
+ */
+export const formatPickupWindow = (start: string, end: string): string =>
+  `${format(new Date(start), 'EEE d MMM, HH:mm')} - ${format(new Date(end), 'HH:mm')}`;
@@ -0,0 +1,62 @@
+/**
+ * Order Dispute Utilities
+ *
+ * Labels and helpers shared by the dispute dialog, the dispute panel on
+ * OrderCard and the resolver queue.
+ *
+ * Dispute Lifecycle:
+ * 1. Buyer or seller opens a dispute (open_dispute) → order status 'disputed',
+ *    escrow stays held and neither party can move the order
+ * 2. The opener may withdraw it (withdraw_dispute) → order returns to its previous status
+ * 3. A resolver rules on it (resolve_dispute) → the ruling decides the order status,
+ *    where the escrowed money goes, completion points and whether reviews are allowed
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const DISPUTE_REASONS: Record<string, string> = {
+  short_delivery: 'Short delivery',
+  spoiled: 'Spoiled or damaged produce',
+  not_delivered: 'Never arrived',
+  wrong_item: 'Wrong produce delivered',
+  other: 'Other',
+};
+
+export const DISPUTE_REMEDIES: Record<string, string> = {
+  refund: 'Full refund',
+  partial_refund: 'Partial refund',
+  redelivery: 'Redelivery',
+};
+
+export const DISPUTE_RESOLUTIONS: Record<string, string> = {
+  full_refund: 'Full refund to buyer',
+  partial_refund: 'Partial refund to buyer',
+  redelivery: 'Seller to redeliver',
+  rejected: 'Rejected - order goes ahead',
+};
+
+/**
+ * Maximum evidence photos per dispute (matches the disputes table check)
+ */
+export const MAX_EVIDENCE_PHOTOS = 6;
+
+/**
+ * Creates short-lived URLs for evidence photos in the private dispute-evidence bucket.
+ *
+ * @param {string[]} paths - Storage paths ({order_id}/{user_id}/filename)
+ * @returns {Promise<string[]>} Signed URLs valid for one hour; empty if signing fails
+ */
+export const getEvidenceUrls = async (paths: string[]): Promise<string[]> => {
+  if (paths.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from('dispute-evidence')
+    .createSignedUrls(paths, 60 * 60);
+
+  if (error) {
+    console.error('Error signing evidence URLs:', error);
+    return [];
+  }
+
+  return (data || []).flatMap((item) => (item.signedUrl ? [item.signedUrl] : []));
+};
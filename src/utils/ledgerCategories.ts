@@ -0,0 +1,142 @@
+/**
+ * Ledger Categories
+ *
+ * Every ledger entry stores a category (ledger.category). When an entry is added
+ * the category is suggested from the item text: the user's own rules in
+ * ledger_category_rules first ("item contains X -> category Y", the longest
+ * matching text wins), then the built-in keywords. The user can always override
+ * the suggestion, and can change the category later from the Finances page.
+ *
+ * Category lists and keywords mirror ledger_categories() and
+ * default_ledger_category() in the database, which validate stored categories
+ * and categorize marketplace orders.
+ */
+
+export type LedgerType = 'income' | 'expense';
+
+export const EXPENSE_CATEGORIES = [
+  'Seeds',
+  'Fertilizer',
+  'Labor',
+  'Equipment',
+  'Pesticides',
+  'Irrigation',
+  'Fuel',
+  'Transport',
+  'Land & Rent',
+  'Livestock',
+  'Other',
+];
+
+export const INCOME_CATEGORIES = [
+  'Crop Sales',
+  'Livestock Sales',
+  'Services & Hire',
+  'Grants & Subsidies',
+  'Other',
+];
+
+/**
+ * A row of ledger_category_rules
+ * @interface LedgerCategoryRule
+ */
+export interface LedgerCategoryRule {
+  id: string;
+  type: string;
+  match_text: string; // Lower-cased and trimmed, see normalizeRuleText()
+  category: string;
+  created_at: string;
+}
+
+// Built-in keywords, checked in order; the first group with a match wins
+const EXPENSE_KEYWORDS: [string, string[]][] = [
+  ['Seeds', ['seed']],
+  ['Fertilizer', ['fertilizer', 'manure', 'compost']],
+  ['Labor', ['labor', 'labour', 'worker', 'wages']],
+  ['Equipment', ['equipment', 'tool', 'machinery', 'tractor']],
+  ['Pesticides', ['pesticide', 'herbicide', 'insecticide', 'fungicide']],
+  ['Irrigation', ['water', 'irrigation', 'pump']],
+  ['Fuel', ['fuel', 'diesel', 'petrol', 'gas']],
+  ['Transport', ['transport', 'delivery', 'shipping']],
+  ['Land & Rent', ['rent', 'lease', 'land']],
+  ['Livestock', ['feed', 'livestock', 'animal']],
+];
+
+const INCOME_KEYWORDS: [string, string[]][] = [
+  ['Grants & Subsidies', ['grant', 'subsidy', 'subsidies']],
+  [
+    'Livestock Sales',
+    ['milk', 'egg', 'cattle', 'cow', 'goat', 'sheep', 'chicken', 'poultry', 'livestock'],
+  ],
+  ['Services & Hire', ['hire', 'service', 'rent', 'lease']],
+  ['Crop Sales', ['sale', 'sold', 'harvest', 'produce']],
+];
+
+/**
+ * Categories a ledger entry of the given type may use.
+ *
+ * @param {string} type - 'income' or 'expense'
+ * @returns {string[]} Allowed categories, 'Other' last
+ */
+export const categoriesFor = (type: string): string[] =>
+  type === 'income' ? INCOME_CATEGORIES : EXPENSE_CATEGORIES;
+
+/**
+ * Guesses a category from the item text with the built-in keywords.
+ * Same rules as default_ledger_category() in the database.
+ *
+ * @param {string} type - 'income' or 'expense'
+ * @param {string} item - Item/description of the entry
+ * @returns {string} Category, 'Other' when no keyword matches
+ */
+export const defaultCategory = (type: string, item: string): string => {
+  const itemLower = item.toLowerCase();
+  const keywords = type === 'income' ? INCOME_KEYWORDS : EXPENSE_KEYWORDS;
+  const match = keywords.find(([, words]) => words.some((word) => itemLower.includes(word)));
+
+  return match ? match[0] : 'Other';
+};
+
+/**
+ * Puts rule text in the form ledger_category_rules stores it.
+ *
+ * @param {string} text - Text typed by the user
+ * @returns {string} Lower-cased, trimmed text
+ */
+export const normalizeRuleText = (text: string): string => text.trim().toLowerCase();
+
+/**
+ * Finds the user's rule that applies to an item: the one with the longest
+ * matching text, the newest on a tie. Same order as categorize_ledger_item().
+ *
+ * @param {string} type - 'income' or 'expense'
+ * @param {string} item - Item/description of the entry
+ * @param {LedgerCategoryRule[]} rules - The user's rules
+ * @returns {LedgerCategoryRule | null} Matching rule, or null if none applies
+ */
+export const findMatchingRule = (
+  type: string,
+  item: string,
+  rules: LedgerCategoryRule[]
+): LedgerCategoryRule | null => {
+  const itemLower = item.toLowerCase();
+  const matches = rules
+    .filter((rule) => rule.type === type && itemLower.includes(rule.match_text))
+    .sort(
+      (a, b) => b.match_text.length - a.match_text.length || b.created_at.localeCompare(a.created_at)
+    );
+
+  return matches[0] || null;
+};
+
+/**
+ * Suggests a category for a new entry: the user's matching rule, else the
+ * built-in keywords.
+ *
+ * @param {string} type - 'income' or 'expense'
+ * @param {string} item - Item/description of the entry
+ * @param {LedgerCategoryRule[]} rules - The user's rules
+ * @returns {string} Suggested category
+ */
+export const suggestCategory = (type: string, item: string, rules: LedgerCategoryRule[]): string =>
+  findMatchingRule(type, item, rules)?.category || defaultCategory(type, item);
@@ -0,0 +1,487 @@
+/**
+ * Ledger Statement Import
+ *
+ * Turns a bank/spreadsheet CSV or an M-Pesa statement into ledger transactions
+ * for the import wizard on the Finances page (ImportLedgerDialog).
+ *
+ * FORMATS:
+ * - Generic CSV: the user maps columns to date, description and either a signed
+ *   amount or separate money in / money out columns
+ * - M-Pesa full statement, either the CSV export or text copied from the PDF:
+ *   "Paid In" rows become income and "Withdrawn" rows expenses; only completed
+ *   transactions are imported. The receipt number is kept as the import
+ *   reference so re-importing an overlapping statement skips known rows.
+ *
+ * Dates written with slashes are read day first (15/01/2024), as in Kenya.
+ */
+
+import type { LedgerType } from '@/utils/ledgerCategories';
+
+/**
+ * A transaction read from a statement, ready to become a ledger row
+ * @interface ImportedTransaction
+ */
+export interface ImportedTransaction {
+  date: string; // yyyy-MM-dd
+  type: LedgerType;
+  item: string;
+  amount: number; // Always positive; type says which way the money went
+  quantity: number | null;
+  notes: string | null;
+  importRef: string | null; // e.g. 'mpesa:SGL7ABCD12', or 'csv:…' built from the row
+}
+
+/**
+ * Result of reading a statement
+ * @interface ParsedStatement
+ */
+export interface ParsedStatement {
+  transactions: ImportedTransaction[];
+  skipped: number; // Rows that couldn't be read or weren't completed transactions
+}
+
+/**
+ * Which CSV column (index) holds each field, null when not in the file
+ * @interface ColumnMapping
+ */
+export interface ColumnMapping {
+  date: number | null;
+  item: number | null;
+  amount: number | null; // Signed amount: negative is money out
+  moneyIn: number | null;
+  moneyOut: number | null;
+  type: number | null; // Text such as income/expense, credit/debit, in/out
+  quantity: number | null;
+  notes: number | null;
+}
+
+/**
+ * An existing ledger row, for duplicate detection
+ * @interface ExistingLedgerRow
+ */
+export interface ExistingLedgerRow {
+  date: string;
+  type: string;
+  item: string;
+  amount: number;
+  import_ref: string | null;
+}
+
+/**
+ * How an imported transaction matches what is already in the ledger:
+ * 'exact' - same import reference, or same date, type, amount and description
+ * 'possible' - same date, type and amount but a different description
+ */
+export type DuplicateMatch = 'exact' | 'possible' | null;
+
+export const MAX_ITEM_LENGTH = 200;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// An M-Pesa statement record starts with the receipt number and completion time
+const MPESA_RECORD_START = /^([A-Z0-9]{10})\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}(?::\d{2})?)\s+/;
+const MPESA_RECORD =
+  /^([A-Z0-9]{10})\s+(\d{4}-\d{2}-\d{2})\s+\d{2}:\d{2}(?::\d{2})?\s+(.*?)\s+(Completed|Failed|Pending|Reversed|Cancelled)\s+(-?[\d,]+\.\d{2})\s+(-?[\d,]+\.\d{2})\s*(.*)$/i;
+
+const cleanText = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells (with commas, line
+ * breaks and doubled quotes) and semicolon- or tab-separated files.
+ *
+ * @param {string} text - File contents
+ * @returns {string[][]} Non-empty rows
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value !== ''));
+};
+
+/**
+ * Reads a money value: "1,500.00", "KES 1500", "-250", "(250.00)".
+ *
+ * @param {string} value - Cell text
+ * @returns {number | null} Amount (negative for money out), null if not a number
+ */
+export const parseAmount = (value: string | undefined): number | null => {
+  if (!value) return null;
+
+  let text = value.replace(/kshs|ksh|kes|\s|,/gi, '');
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (text === '' || !/^[-+]?\d*\.?\d+$/.test(text)) return null;
+
+  return sign * parseFloat(text);
+};
+
+/**
+ * Reads a date in the formats statements commonly use: 2024-01-15 (with or
+ * without a time), 15/01/2024, 15-01-24, 15 Jan 2024.
+ *
+ * @param {string} value - Cell text
+ * @returns {string | null} yyyy-MM-dd, null if not a valid date
+ */
+export const parseDate = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (dayFirst) {
+    const year = Number(dayFirst[3]) + (dayFirst[3].length === 2 ? 2000 : 0);
+    return toIsoDate(year, Number(dayFirst[2]), Number(dayFirst[1]));
+  }
+
+  const named = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s,-]+(\d{4})/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase());
+    if (month >= 0) return toIsoDate(Number(named[3]), month + 1, Number(named[1]));
+  }
+
+  return null;
+};
+
+/**
+ * Whether the text is an M-Pesa statement (CSV export or PDF text).
+ *
+ * @param {string} text - File contents or pasted text
+ * @returns {boolean} True for M-Pesa statements
+ */
+export const isMpesaStatement = (text: string): boolean => {
+  const head = text.slice(0, 5000).toLowerCase();
+  if (head.includes('receipt') && head.includes('paid in') && head.includes('withdrawn')) return true;
+
+  return text.split(/\r?\n/).some((line) => MPESA_RECORD.test(line.trim()));
+};
+
+const mpesaTransaction = (
+  receipt: string,
+  date: string | null,
+  details: string,
+  paidIn: number | null,
+  withdrawn: number | null
+): ImportedTransaction | null => {
+  if (!date) return null;
+
+  const isIncome = paidIn !== null && paidIn > 0;
+  const amount = isIncome ? paidIn : Math.abs(withdrawn ?? 0);
+  if (!(amount > 0)) return null;
+
+  return {
+    date,
+    type: isIncome ? 'income' : 'expense',
+    item: cleanText(details).slice(0, MAX_ITEM_LENGTH) || 'M-Pesa transaction',
+    amount,
+    quantity: null,
+    notes: `M-Pesa ${receipt}`,
+    importRef: `mpesa:${receipt}`,
+  };
+};
+
+/**
+ * Reads an M-Pesa statement CSV export (Receipt No., Completion Time, Details,
+ * Transaction Status, Paid In, Withdrawn, Balance).
+ *
+ * @param {string[][]} rows - Parsed CSV, possibly with summary lines above the header
+ * @returns {ParsedStatement} Completed transactions
+ */
+const parseMpesaCsv = (rows: string[][]): ParsedStatement => {
+  const headerIndex = rows.findIndex((cells) => cells.some((cell) => /receipt/i.test(cell)));
+  const header = rows[headerIndex].map((cell) => cell.toLowerCase());
+  const column = (pattern: RegExp) => header.findIndex((cell) => pattern.test(cell));
+
+  const receiptCol = column(/receipt/);
+  const timeCol = column(/completion|time|date/);
+  const detailsCol = column(/details|description/);
+  const statusCol = column(/status/);
+  const paidInCol = column(/paid in/);
+  const withdrawnCol = column(/withdrawn/);
+
+  const transactions: ImportedTransaction[] = [];
+  let skipped = 0;
+
+  rows.slice(headerIndex + 1).forEach((cells) => {
+    const completed = statusCol < 0 || /completed/i.test(cells[statusCol] || '');
+    const transaction = completed
+      ? mpesaTransaction(
+          cells[receiptCol] || '',
+          parseDate(cells[timeCol]),
+          cells[detailsCol] || '',
+          parseAmount(cells[paidInCol]),
+          parseAmount(cells[withdrawnCol])
+        )
+      : null;
+
+    if (transaction && cells[receiptCol]) {
+      transactions.push(transaction);
+    } else {
+      skipped++;
+    }
+  });
+
+  return { transactions, skipped };
+};
+
+/**
+ * Reads text copied from an M-Pesa statement PDF. Each record starts with the
+ * receipt number and completion time; details that wrap onto further lines are
+ * joined back on. Withdrawn amounts are shown negative in the PDF.
+ *
+ * @param {string} text - Pasted statement text
+ * @returns {ParsedStatement} Completed transactions
+ */
+const parseMpesaText = (text: string): ParsedStatement => {
+  const records: string[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (MPESA_RECORD_START.test(trimmed)) {
+      records.push(trimmed);
+    } else if (trimmed && records.length > 0 && !/^(receipt|page|disclaimer)/i.test(trimmed)) {
+      records[records.length - 1] += ` ${trimmed}`;
+    }
+  });
+
+  const transactions: ImportedTransaction[] = [];
+  let skipped = 0;
+
+  records.forEach((record) => {
+    const match = record.match(MPESA_RECORD);
+    const amount = match ? parseAmount(match[5]) : null;
+    const transaction =
+      match && /completed/i.test(match[4]) && amount !== null
+        ? mpesaTransaction(
+            match[1],
+            parseDate(match[2]),
+            `${match[3]} ${match[7]}`,
+            amount > 0 ? amount : null,
+            amount < 0 ? amount : null
+          )
+        : null;
+
+    if (transaction) {
+      transactions.push(transaction);
+    } else {
+      skipped++;
+    }
+  });
+
+  return { transactions, skipped };
+};
+
+/**
+ * Reads an M-Pesa statement in either format.
+ *
+ * @param {string} text - File contents or pasted text
+ * @returns {ParsedStatement} Completed transactions
+ */
+export const parseMpesaStatement = (text: string): ParsedStatement => {
+  const rows = parseCsv(text);
+  const isCsv = rows.some((cells) => cells.length >= 5 && cells.some((cell) => /receipt/i.test(cell)));
+
+  return isCsv ? parseMpesaCsv(rows) : parseMpesaText(text);
+};
+
+/**
+ * Guesses the column mapping from a generic CSV's header row.
+ *
+ * @param {string[]} headers - First row of the file
+ * @returns {ColumnMapping} Best guess; the user can change it
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const lower = headers.map((header) => header.toLowerCase());
+  const find = (pattern: RegExp) => {
+    const index = lower.findIndex((header) => pattern.test(header));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    date: find(/date|time/),
+    item: find(/desc|item|details|particulars|narration|memo/),
+    amount: find(/^amount|^value|^total/),
+    moneyIn: find(/money in|paid in|credit|deposit|income/),
+    moneyOut: find(/money out|withdrawn|debit|withdrawal|expense|paid out/),
+    type: find(/^type|^kind|^direction/),
+    quantity: find(/qty|quantity/),
+    notes: find(/note|comment|remark/),
+  };
+};
+
+/**
+ * Reads a type cell: income/credit/in/sale -> income, expense/debit/out -> expense.
+ *
+ * @param {string} value - Cell text
+ * @returns {LedgerType | null} Type, null if not recognised
+ */
+const parseType = (value: string | undefined): LedgerType | null => {
+  const text = (value || '').trim().toLowerCase();
+  if (/^(income|credit|cr|in|received|sale|deposit)/.test(text)) return 'income';
+  if (/^(expense|debit|dr|out|paid|purchase|withdraw)/.test(text)) return 'expense';
+  return null;
+};
+
+/**
+ * Reads a generic CSV's data rows with the user's column mapping.
+ *
+ * A CSV has no receipt numbers, so each row's import reference is built from
+ * its date, type, amount and description, plus how many identical rows came
+ * before it in the file. Importing the same file again (say, retrying after a
+ * failure part way through) then skips the rows already imported, while
+ * genuinely repeated rows in one file are all kept.
+ *
+ * @param {string[][]} rows - Data rows (header row removed)
+ * @param {ColumnMapping} mapping - Column for each field
+ * @param {LedgerType} positiveType - Type for positive amounts when neither a
+ *   type column nor money in / out columns say
+ * @returns {ParsedStatement} Readable transactions
+ */
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  positiveType: LedgerType
+): ParsedStatement => {
+  const cell = (cells: string[], index: number | null) => (index === null ? undefined : cells[index]);
+  const transactions: ImportedTransaction[] = [];
+  const occurrences = new Map<string, number>();
+  let skipped = 0;
+
+  rows.forEach((cells) => {
+    const date = parseDate(cell(cells, mapping.date));
+    const item = cleanText(cell(cells, mapping.item) || '').slice(0, MAX_ITEM_LENGTH);
+
+    let type: LedgerType | null = null;
+    let amount: number | null = null;
+
+    const moneyIn = parseAmount(cell(cells, mapping.moneyIn));
+    const moneyOut = parseAmount(cell(cells, mapping.moneyOut));
+    const signed = parseAmount(cell(cells, mapping.amount));
+
+    if (moneyIn !== null && moneyIn !== 0) {
+      type = 'income';
+      amount = Math.abs(moneyIn);
+    } else if (moneyOut !== null && moneyOut !== 0) {
+      type = 'expense';
+      amount = Math.abs(moneyOut);
+    } else if (signed !== null && signed !== 0) {
+      type = parseType(cell(cells, mapping.type)) ?? (signed < 0 ? 'expense' : positiveType);
+      amount = Math.abs(signed);
+    }
+
+    if (!date || !item || !type || amount === null) {
+      skipped++;
+      return;
+    }
+
+    const rounded = Math.round(amount * 100) / 100;
+    const key = `${date}|${type}|${rounded.toFixed(2)}|${item.toLowerCase()}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    transactions.push({
+      date,
+      type,
+      item,
+      amount: rounded,
+      quantity: parseAmount(cell(cells, mapping.quantity)),
+      notes: cleanText(cell(cells, mapping.notes) || '') || null,
+      importRef: `csv:${key}|${occurrence}`,
+    });
+  });
+
+  return { transactions, skipped };
+};
+
+/**
+ * Flags transactions that are already in the ledger, and repeats of the same
+ * import reference within the file. Each existing row is matched at most once,
+ * so two genuine same-day purchases of the same amount aren't both flagged
+ * because one was entered by hand.
+ *
+ * @param {ImportedTransaction[]} transactions - Transactions read from the statement
+ * @param {ExistingLedgerRow[]} existing - The user's ledger rows over the same dates
+ * @returns {DuplicateMatch[]} Match for each transaction, in order
+ */
+export const findDuplicates = (
+  transactions: ImportedTransaction[],
+  existing: ExistingLedgerRow[]
+): DuplicateMatch[] => {
+  const key = (row: { date: string; type: string; amount: number }) =>
+    `${row.date}|${row.type}|${Number(row.amount).toFixed(2)}`;
+  const normalize = (item: string) => cleanText(item).toLowerCase();
+
+  const knownRefs = new Set(existing.map((row) => row.import_ref).filter(Boolean));
+  const unmatched = new Map<string, string[]>();
+  existing.forEach((row) => {
+    const items = unmatched.get(key(row)) || [];
+    items.push(normalize(row.item));
+    unmatched.set(key(row), items);
+  });
+
+  return transactions.map((transaction) => {
+    if (transaction.importRef) {
+      if (knownRefs.has(transaction.importRef)) return 'exact';
+      knownRefs.add(transaction.importRef);
+    }
+
+    const items = unmatched.get(key(transaction));
+    if (!items || items.length === 0) return null;
+
+    const sameItem = items.indexOf(normalize(transaction.item));
+    if (sameItem >= 0) {
+      items.splice(sameItem, 1);
+      return 'exact';
+    }
+    items.shift();
+    return 'possible';
+  });
+};
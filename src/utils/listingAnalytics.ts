@@ -0,0 +1,91 @@
+/**
+ * Listing Analytics Utilities
+ *
+ * Tracks how buyers engage with each listing so sellers can see where it
+ * loses them:
+ * - impression: shown in the Browse results
+ * - detail_view: opened in the listing details dialog
+ * - chat: buyer messaged the seller about it (once per buyer)
+ * - orders: read from the orders table, not tracked here
+ *
+ * Each buyer counts once per listing and event per day, and sellers' activity
+ * on their own listings is ignored (both enforced by record_listing_events).
+ * Sellers see the totals on the Marketplace "My Listings" tab.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type ListingEventType = 'impression' | 'detail_view' | 'chat';
+
+/**
+ * Reporting periods offered on the My Listings tab
+ */
+export const ANALYTICS_PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+/**
+ * One row of get_listing_analytics()
+ * @interface ListingAnalytics
+ */
+export interface ListingAnalytics {
+  listing_id: string;
+  crop_name: string;
+  location: string;
+  price_per_kg: number;
+  unit: string;
+  unit_kg: number;
+  sale_type: string;
+  status: string;
+  created_at: string;
+  impressions: number;
+  detail_views: number;
+  chats: number;
+  orders: number;
+  market_price_per_kg: number | null; // Average over the last 30 days
+  market_scope: string | null; // 'region', 'national', or null without market data
+}
+
+/**
+ * Records buyer activity on listings. Fire-and-forget: a failure is logged
+ * and never interrupts browsing.
+ *
+ * @param {string[]} listingIds - Listings the event applies to
+ * @param {ListingEventType} eventType - What the buyer did
+ */
+export const recordListingEvents = async (listingIds: string[], eventType: ListingEventType) => {
+  if (listingIds.length === 0) return;
+
+  const { error } = await supabase.rpc('record_listing_events', {
+    p_listing_ids: listingIds,
+    p_event_type: eventType,
+  });
+
+  if (error) console.error(`Error recording listing ${eventType}:`, error);
+};
+
+/**
+ * Share of impressions that turned into orders.
+ *
+ * @param {number} orders - Orders placed
+ * @param {number} impressions - Times the listing was shown in Browse
+ * @returns {number | null} Conversion rate in percent (1 decimal), or null before any impressions
+ */
+export const getConversionRate = (orders: number, impressions: number): number | null => {
+  if (impressions === 0) return null;
+  return Math.round((orders / impressions) * 1000) / 10;
+};
+
+/**
+ * How a listing's price compares with the market average, e.g. +12 for 12% above.
+ *
+ * @param {number} pricePerKg - Listing price
+ * @param {number | null} marketPricePerKg - Market average for the crop
+ * @returns {number | null} Difference in percent (whole number), or null without market data
+ */
+export const getPriceVsMarket = (pricePerKg: number, marketPricePerKg: number | null): number | null => {
+  if (!marketPricePerKg) return null;
+  return Math.round(((pricePerKg - marketPricePerKg) / marketPricePerKg) * 100);
+};
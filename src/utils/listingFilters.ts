@@ -0,0 +1,32 @@
+/**
+ * Listing Filter Values
+ *
+ * Form values behind the Browse tab's ListingFilterBar. Marketplace turns them
+ * into search_listings RPC arguments, and saved searches are built from them.
+ */
+
+/**
+ * Listing Filters Interface
+ * Raw form values; empty strings mean "no filter"
+ */
+export interface ListingFilters {
+  query: string;
+  crop: string; // "all" or a crop name
+  region: string;
+  minPrice: string;
+  maxPrice: string;
+  minQuantity: string;
+  minRating: string; // "any" or a number such as "4"
+  sort: 'newest' | 'cheapest' | 'nearest';
+}
+
+export const DEFAULT_LISTING_FILTERS: ListingFilters = {
+  query: '',
+  crop: 'all',
+  region: '',
+  minPrice: '',
+  maxPrice: '',
+  minQuantity: '',
+  minRating: 'any',
+  sort: 'newest',
+};
@@ -0,0 +1,131 @@
+/**
+ * Marketplace Matching Utilities
+ *
+ * Connects supply and demand on the marketplace. Whenever a seller creates a
+ * listing or a buyer posts a "wanted" request, database triggers
+ * (match_listing_to_requests, match_request_to_listings) notify both sides of
+ * compatible entries. These helpers apply the same rules on the client, to
+ * highlight matches and to tell the poster how many there were.
+ *
+ * Compatibility Rules:
+ * - Crop: same name, ignoring case and surrounding whitespace
+ * - Region: listing location and request region are equal, or one contains the other
+ *   (e.g. "Nakuru" matches "Nakuru Town")
+ * - Price: listing price_per_kg is at or below the request's max_price
+ *   (requests without a max_price accept any price)
+ * - Users are never matched with their own listings or requests
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Listing fields needed for matching
+ * @interface MatchableListing
+ */
+export interface MatchableListing {
+  id: string;
+  seller_id: string;
+  crop_name: string;
+  location: string;
+  price_per_kg: number;
+}
+
+/**
+ * Buyer request fields needed for matching
+ * @interface MatchableRequest
+ */
+export interface MatchableRequest {
+  id: string;
+  buyer_id: string;
+  crop_name: string;
+  region: string;
+  quantity_needed: number;
+  max_price: number | null;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Crop names are matched exactly, so LIKE wildcards in them must not match anything else
+const cropPattern = (cropName: string) => cropName.trim().replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Checks whether a listing location and a request region refer to the same area.
+ *
+ * @param {string} location - Listing location as typed by the seller
+ * @param {string} region - Request region as typed by the buyer
+ * @returns {boolean} True if either string contains the other (case-insensitive)
+ */
+export const isRegionCompatible = (location: string, region: string): boolean => {
+  const a = normalize(location);
+  const b = normalize(region);
+  if (!a || !b) return false;
+  return a === b || a.includes(b) || b.includes(a);
+};
+
+/**
+ * Checks all compatibility rules for a listing/request pair.
+ *
+ * @param {MatchableListing} listing - Seller's listing
+ * @param {MatchableRequest} request - Buyer's wanted request
+ * @returns {boolean} True if crop, region and price are all compatible
+ */
+export const isMatch = (listing: MatchableListing, request: MatchableRequest): boolean => {
+  if (listing.seller_id === request.buyer_id) return false;
+  if (normalize(listing.crop_name) !== normalize(request.crop_name)) return false;
+  if (!isRegionCompatible(listing.location, request.region)) return false;
+  return request.max_price === null || listing.price_per_kg <= request.max_price;
+};
+
+/**
+ * Counts active buyer requests compatible with a newly created listing.
+ * The buyers and seller are notified by the on_listing_match_requests trigger.
+ *
+ * @param {MatchableListing} listing - The listing that was just created
+ * @returns {Promise<number>} Number of requests matched
+ *
+ * @remarks
+ * - Errors are logged and reported as zero matches (never blocks listing creation)
+ */
+export const countMatchingRequests = async (listing: MatchableListing): Promise<number> => {
+  try {
+    const { data: requests, error } = await supabase
+      .from('buyer_requests')
+      .select('id, buyer_id, crop_name, region, quantity_needed, max_price')
+      .eq('status', 'active')
+      .ilike('crop_name', cropPattern(listing.crop_name));
+
+    if (error) throw error;
+
+    return (requests || []).filter((request) => isMatch(listing, request)).length;
+  } catch (error) {
+    console.error('Error matching listing to buyer requests:', error);
+    return 0;
+  }
+};
+
+/**
+ * Counts active listings compatible with a newly posted buyer request.
+ * The sellers and buyer are notified by the on_buyer_request_match_listings trigger.
+ *
+ * @param {MatchableRequest} request - The request that was just posted
+ * @returns {Promise<number>} Number of listings matched
+ *
+ * @remarks
+ * - Errors are logged and reported as zero matches (never blocks request creation)
+ */
+export const countMatchingListings = async (request: MatchableRequest): Promise<number> => {
+  try {
+    const { data: listings, error } = await supabase
+      .from('marketplace_listings')
+      .select('id, seller_id, crop_name, location, price_per_kg')
+      .eq('status', 'active')
+      .ilike('crop_name', cropPattern(request.crop_name));
+
+    if (error) throw error;
+
+    return (listings || []).filter((listing) => isMatch(listing, request)).length;
+  } catch (error) {
+    console.error('Error matching buyer request to listings:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,51 @@
+/**
+ * Order Document Utilities
+ *
+ * Invoices and payment receipts are generated as PDF by the order-document
+ * edge function, numbered (INV-YYYY-NNNNNN / RCT-YYYY-NNNNNN) and kept in the
+ * private order-documents bucket. Each order has at most one of each, so
+ * downloading again returns the stored copy.
+ *
+ * Availability:
+ * - invoice: any order not cancelled before payment
+ * - receipt: once the buyer's payment is held, released or partially refunded
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type OrderDocumentKind = 'invoice' | 'receipt';
+
+export const DOCUMENT_KINDS: Record<OrderDocumentKind, string> = {
+  invoice: 'Invoice',
+  receipt: 'Receipt',
+};
+
+/**
+ * Payment statuses that have a receipt
+ */
+export const RECEIPT_PAYMENT_STATUSES = ['held', 'released', 'partially_refunded'];
+
+/**
+ * Fetches (generating on first request) an order's invoice or receipt and starts the download.
+ *
+ * @param {string} orderId - Order the document belongs to
+ * @param {OrderDocumentKind} kind - 'invoice' or 'receipt'
+ * @returns {Promise<string>} The document number
+ * @throws {Error} With the function's reason when the document is not available
+ */
+export const downloadOrderDocument = async (orderId: string, kind: OrderDocumentKind): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('order-document', {
+    body: { order_id: orderId, kind },
+  });
+
+  if (error) {
+    // Non-2xx responses carry a readable reason in the body
+    const details = error instanceof FunctionsHttpError ? await error.context.json() : null;
+    throw new Error(details?.error || `Could not get the ${DOCUMENT_KINDS[kind].toLowerCase()}`);
+  }
+
+  // The signed URL is served as an attachment, so the page stays where it is
+  window.location.assign(data.url);
+  return data.document_number;
+};
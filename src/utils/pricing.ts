@@ -0,0 +1,103 @@
+/**
+ * Listing Price Guidance
+ *
+ * Recommends a price range while a seller fills in AddListingDialog, from
+ * get_price_suggestion(): recent market_prices, recently completed orders (once
+ * there are at least three) and other sellers' active listings for the crop, in
+ * the seller's region where there is data and nationally otherwise.
+ *
+ * The range spans the available reference prices, and is never narrower than
+ * 10% either side of their average so a single source still gives a range.
+ *
+ * All prices are in KES per kg.
+ */
+
+/**
+ * One row of get_price_suggestion()
+ * @interface PriceSuggestion
+ */
+export interface PriceSuggestion {
+  market_price: number | null;
+  market_scope: string | null; // 'region' | 'national' | null
+  order_price: number | null;
+  order_count: number;
+  order_scope: string | null;
+  listing_price: number | null;
+  listing_count: number;
+  listing_scope: string | null;
+}
+
+/**
+ * Recommended range built from a suggestion
+ * @interface PriceRange
+ */
+export interface PriceRange {
+  low: number;
+  high: number;
+  mid: number;
+  sources: { label: string; price: number; scope: string | null }[];
+}
+
+// Minimum spread either side of the average
+const MIN_SPREAD = 0.1;
+
+// How far outside the range a price may go before the seller is warned
+const WARN_BELOW = 0.75;
+const WARN_ABOVE = 1.25;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Builds the recommended range from the reference prices that have data.
+ *
+ * @param {PriceSuggestion} suggestion - Reference prices for the crop and region
+ * @returns {PriceRange | null} Range, or null when there is no data for the crop at all
+ */
+export const getSuggestedPriceRange = (suggestion: PriceSuggestion): PriceRange | null => {
+  const sources = [
+    { label: 'Market price', price: suggestion.market_price, scope: suggestion.market_scope },
+    {
+      label: `Recent sales (${suggestion.order_count})`,
+      price: suggestion.order_price,
+      scope: suggestion.order_scope,
+    },
+    {
+      label: `Competing listings (${suggestion.listing_count})`,
+      price: suggestion.listing_price,
+      scope: suggestion.listing_scope,
+    },
+  ].filter((source): source is PriceRange['sources'][number] => source.price !== null && source.price > 0);
+
+  if (sources.length === 0) return null;
+
+  const prices = sources.map((source) => source.price);
+  const mid = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+
+  return {
+    low: round(Math.min(...prices, mid * (1 - MIN_SPREAD))),
+    high: round(Math.max(...prices, mid * (1 + MIN_SPREAD))),
+    mid: round(mid),
+    sources,
+  };
+};
+
+/**
+ * Warning for a price far outside the recommended range.
+ *
+ * @param {number} pricePerKg - Price the seller entered
+ * @param {PriceRange} range - Recommended range
+ * @returns {string | null} Warning text, or null if the price is reasonable
+ */
+export const getPriceWarning = (pricePerKg: number, range: PriceRange): string | null => {
+  if (!(pricePerKg > 0)) return null;
+
+  if (pricePerKg < range.low * WARN_BELOW) {
+    const below = Math.round((1 - pricePerKg / range.low) * 100);
+    return `${below}% below the recommended range - you may be under-pricing`;
+  }
+  if (pricePerKg > range.high * WARN_ABOVE) {
+    const above = Math.round((pricePerKg / range.high - 1) * 100);
+    return `${above}% above the recommended range - buyers may pass it over`;
+  }
+  return null;
+};
@@ -0,0 +1,112 @@
+/**
+ * Recurring Ledger Entries
+ *
+ * Templates for income and expenses that repeat weekly or monthly (wages, land
+ * lease, loan repayments). The recurring-ledger job posts each occurrence into
+ * the ledger when it falls due (post_recurring_ledger_entries()); these helpers
+ * work out the same schedule for showing upcoming items.
+ */
+
+import { addDays, addMonths, differenceInCalendarMonths, format } from 'date-fns';
+
+export type RecurringFrequency = 'weekly' | 'monthly';
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+/**
+ * A recurring_ledger_entries row
+ * @interface RecurringEntry
+ */
+export interface RecurringEntry {
+  id: string;
+  type: string;
+  item: string;
+  amount: number;
+  quantity: number | null;
+  category: string;
+  notes: string | null;
+  frequency: string;
+  start_date: string;
+  end_date: string | null; // Last day an occurrence may fall on
+  next_date: string; // Next occurrence the job will post
+  active: boolean; // False when paused or ended
+}
+
+/**
+ * An upcoming occurrence of a recurring entry
+ * @interface UpcomingOccurrence
+ */
+export interface UpcomingOccurrence {
+  entry: RecurringEntry;
+  date: string;
+}
+
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+/**
+ * Works out the occurrence after a date. Monthly schedules keep to the start
+ * day, falling back to the last day of shorter months (31 Jan, 29 Feb, 31 Mar).
+ * Same rule as next_recurring_date() in the database.
+ *
+ * @param {string} startDate - First occurrence (yyyy-MM-dd)
+ * @param {string} frequency - 'weekly' or 'monthly'
+ * @param {string} date - An occurrence (yyyy-MM-dd)
+ * @returns {string} The following occurrence (yyyy-MM-dd)
+ */
+export const getNextRecurringDate = (startDate: string, frequency: string, date: string): string => {
+  if (frequency === 'weekly') return format(addDays(toDate(date), 7), 'yyyy-MM-dd');
+
+  const start = toDate(startDate);
+  return format(addMonths(start, differenceInCalendarMonths(toDate(date), start) + 1), 'yyyy-MM-dd');
+};
+
+/**
+ * Finds the first occurrence on or after a date, e.g. where a paused entry
+ * picks up again without posting the weeks it was paused.
+ *
+ * @param {RecurringEntry} entry - Recurring entry
+ * @param {string} date - Earliest date (yyyy-MM-dd)
+ * @returns {string} First occurrence on or after `date`
+ */
+export const getFirstOccurrenceFrom = (entry: RecurringEntry, date: string): string => {
+  let occurrence = entry.next_date;
+  while (occurrence < date) {
+    occurrence = getNextRecurringDate(entry.start_date, entry.frequency, occurrence);
+  }
+  return occurrence;
+};
+
+/**
+ * Checks whether an entry has no occurrences left.
+ *
+ * @param {RecurringEntry} entry - Recurring entry
+ * @returns {boolean} True once the next occurrence is past the end date
+ */
+export const hasEnded = (entry: RecurringEntry): boolean =>
+  entry.end_date !== null && entry.next_date > entry.end_date;
+
+/**
+ * Lists the occurrences of active entries due up to a date, soonest first.
+ *
+ * @param {RecurringEntry[]} entries - Recurring entries
+ * @param {string} until - Last date to include (yyyy-MM-dd)
+ * @returns {UpcomingOccurrence[]} Upcoming occurrences
+ */
+export const getUpcomingOccurrences = (entries: RecurringEntry[], until: string): UpcomingOccurrence[] => {
+  const upcoming: UpcomingOccurrence[] = [];
+
+  entries
+    .filter((entry) => entry.active)
+    .forEach((entry) => {
+      let date = entry.next_date;
+      while (date <= until && (entry.end_date === null || date <= entry.end_date)) {
+        upcoming.push({ entry, date });
+        date = getNextRecurringDate(entry.start_date, entry.frequency, date);
+      }
+    });
+
+  return upcoming.sort((a, b) => a.date.localeCompare(b.date));
+};
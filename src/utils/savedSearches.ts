@@ -0,0 +1,72 @@
+/**
+ * Saved Search Utilities
+ *
+ * Buyers can save the crop, region, price ceiling and minimum quantity from the
+ * Browse filters. When a new listing matches, the notify_saved_searches trigger
+ * sends them a notification (and a browser notification if push is on).
+ *
+ * Only those four filters are saved: free text, seller rating and sort order
+ * describe how to browse, not what the buyer needs.
+ */
+
+import type { ListingFilters } from '@/utils/listingFilters';
+
+/**
+ * Maximum saved searches per user (matches the limit_saved_searches trigger)
+ */
+export const MAX_SAVED_SEARCHES = 10;
+
+/**
+ * Saved search as stored in the saved_searches table
+ * @interface SavedSearch
+ */
+export interface SavedSearch {
+  id: string;
+  crop_name: string | null;
+  region: string | null;
+  max_price: number | null; // KES per kg
+  min_quantity: number | null; // kg
+  push_enabled: boolean;
+  active: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+}
+
+export type SavedSearchCriteria = Pick<SavedSearch, 'crop_name' | 'region' | 'max_price' | 'min_quantity'>;
+
+/**
+ * Picks the saveable criteria out of the Browse filters.
+ *
+ * @param {ListingFilters} filters - Current filter bar values
+ * @returns {SavedSearchCriteria | null} Criteria to save, or null if none are set
+ */
+export const toSavedSearchCriteria = (filters: ListingFilters): SavedSearchCriteria | null => {
+  const toNumber = (value: string) => {
+    const parsed = Number(value);
+    return value.trim() !== '' && parsed > 0 ? parsed : null;
+  };
+
+  const criteria: SavedSearchCriteria = {
+    crop_name: filters.crop === 'all' ? null : filters.crop,
+    region: filters.region.trim() || null,
+    max_price: toNumber(filters.maxPrice),
+    min_quantity: toNumber(filters.minQuantity),
+  };
+
+  return Object.values(criteria).some((value) => value !== null) ? criteria : null;
+};
+
+/**
+ * Describes a saved search in one line, e.g. "Beans in Nakuru, up to KES 120/kg, 2,000+ kg"
+ *
+ * @param {SavedSearchCriteria} search - Saved search criteria
+ * @returns {string} Human-readable summary
+ */
+export const describeSavedSearch = (search: SavedSearchCriteria): string => {
+  const parts = [
+    [search.crop_name || 'Any crop', search.region ? `in ${search.region}` : null].filter(Boolean).join(' '),
+  ];
+  if (search.max_price !== null) parts.push(`up to KES ${search.max_price.toLocaleString()}/kg`);
+  if (search.min_quantity !== null) parts.push(`${search.min_quantity.toLocaleString()}+ kg`);
+  return parts.join(', ');
+};
@@ -0,0 +1,73 @@
+/**
+ * Farming Seasons
+ *
+ * Kenya's two growing seasons, used to group plantings and finances:
+ * - Long rains: plantings from March to August
+ * - Short rains: plantings from September to February (January and February
+ *   belong to the short rains season that started the previous September)
+ *
+ * Season keys ('2025-long', '2025-short') sort in calendar order.
+ */
+
+import { addMonths, format } from 'date-fns';
+
+/**
+ * One growing season
+ * @interface Season
+ */
+export interface Season {
+  key: string;
+  label: string;
+  start: string; // yyyy-MM-dd, first day of the season
+  end: string; // yyyy-MM-dd, last day of the season
+}
+
+/**
+ * Works out the season a date falls in.
+ *
+ * @param {string | Date} date - A date, e.g. a planting date ('yyyy-MM-dd')
+ * @returns {Season} The season containing the date
+ */
+export const getSeason = (date: string | Date): Season => {
+  const day = typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00`) : date;
+  const month = day.getMonth(); // 0 = January
+
+  if (month >= 2 && month <= 7) {
+    const year = day.getFullYear();
+    return {
+      key: `${year}-long`,
+      label: `Long rains ${year}`,
+      start: `${year}-03-01`,
+      end: `${year}-08-31`,
+    };
+  }
+
+  const year = month <= 1 ? day.getFullYear() - 1 : day.getFullYear();
+  return {
+    key: `${year}-short`,
+    label: `Short rains ${year}/${String(year + 1).slice(2)}`,
+    start: `${year}-09-01`,
+    end: format(new Date(year + 1, 2, 0), 'yyyy-MM-dd'), // Last day of February
+  };
+};
+
+/**
+ * Looks up a season from its key.
+ *
+ * @param {string} key - Season key, e.g. '2025-long'
+ * @returns {Season} The season
+ */
+export const getSeasonByKey = (key: string): Season => {
+  const [year, kind] = key.split('-');
+  return getSeason(`${year}-${kind === 'long' ? '03' : '09'}-01`);
+};
+
+/**
+ * Steps forwards or backwards from a season (seasons are six months long).
+ *
+ * @param {Season} season - Season to start from
+ * @param {number} offset - Seasons to move; negative for earlier seasons
+ * @returns {Season} The season `offset` seasons away
+ */
+export const shiftSeason = (season: Season, offset: number): Season =>
+  getSeason(addMonths(new Date(`${season.start}T00:00:00`), offset * 6));
@@ -0,0 +1,84 @@
+/**
+ * Units of Measure Utilities
+ *
+ * Produce trades in kilograms, 90kg bags, tonnes, crates and bunches. The database
+ * always stores kilograms (quantity, available_quantity, price_per_kg) so stock,
+ * search and analytics keep working; listings and orders also carry the unit the
+ * seller chose and unit_kg, the weight of one unit for that crop.
+ *
+ * Conversion Rules:
+ * - kg = quantity in unit × unit_kg
+ * - price per unit = price_per_kg × unit_kg
+ * - unit_kg comes from crop_unit_conversions, falling back to units.default_kg
+ *   (see unit_kg_factor() and the useUnits hook)
+ */
+
+/**
+ * Display labels for the codes seeded in the units table
+ */
+export const UNIT_LABELS: Record<string, { singular: string; plural: string }> = {
+  kg: { singular: 'kg', plural: 'kg' },
+  bag_90kg: { singular: '90kg bag', plural: '90kg bags' },
+  bag_50kg: { singular: '50kg bag', plural: '50kg bags' },
+  tonne: { singular: 'tonne', plural: 'tonnes' },
+  crate: { singular: 'crate', plural: 'crates' },
+  bunch: { singular: 'bunch', plural: 'bunches' },
+};
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Gets the label for a unit, pluralised for the given quantity.
+ *
+ * @param {string} unit - Unit code, e.g. "crate"
+ * @param {number} quantity - Amount the label describes (default 1)
+ * @returns {string} e.g. "crate", "crates", or the code itself if unknown
+ */
+export const unitLabel = (unit: string, quantity = 1): string => {
+  const labels = UNIT_LABELS[unit];
+  if (!labels) return unit;
+  return quantity === 1 ? labels.singular : labels.plural;
+};
+
+/**
+ * Converts an amount in a unit to kilograms.
+ *
+ * @param {number} quantity - Amount in the unit
+ * @param {number} unitKg - Weight of one unit in kg
+ * @returns {number} Kilograms
+ */
+export const toKg = (quantity: number, unitKg: number): number => round(quantity * unitKg, 3);
+
+/**
+ * Converts kilograms to an amount in a unit.
+ *
+ * @param {number} kg - Kilograms
+ * @param {number} unitKg - Weight of one unit in kg
+ * @returns {number} Amount in the unit, rounded to 2 decimals
+ */
+export const fromKg = (kg: number, unitKg: number): number => round(kg / unitKg);
+
+/**
+ * Formats a stored kilogram quantity in the unit it was traded in.
+ *
+ * @example
+ * formatQuantity(192, 'crate', 64) // "3 crates (192kg)"
+ * formatQuantity(50, 'kg', 1)      // "50kg"
+ */
+export const formatQuantity = (kg: number, unit = 'kg', unitKg = 1): string => {
+  if (unit === 'kg') return `${Number(kg).toLocaleString()}kg`;
+  const amount = fromKg(kg, unitKg);
+  return `${amount.toLocaleString()} ${unitLabel(unit, amount)} (${Number(kg).toLocaleString()}kg)`;
+};
+
+/**
+ * Formats a stored per-kg price per unit.
+ *
+ * @example
+ * formatPrice(65.625, 'crate', 64) // "KES 4,200/crate"
+ */
+export const formatPrice = (pricePerKg: number, unit = 'kg', unitKg = 1): string =>
+  `KES ${round(pricePerKg * unitKg).toLocaleString()}/${unitLabel(unit)}`;
@@ -0,0 +1,312 @@
+/**
+ * PAYMENT PROVIDER INTERFACE
+ *
+ * Shared abstraction over mobile-money providers used by the payment edge functions.
+ * initiate-payment starts a charge through a provider, payment-callback asks the
+ * same provider to interpret the result it posts back.
+ *
+ * PROVIDERS:
+ * - MpesaProvider: Safaricom Daraja STK push (Lipa Na M-Pesa Online)
+ * - MockProvider: Local stand-in that "succeeds" or "fails" on demand and
+ *   posts a Daraja-shaped callback to itself, so the full flow works without Safaricom
+ *
+ * SELECTION:
+ * - PAYMENT_PROVIDER=mpesa → MpesaProvider (requires MPESA_* secrets)
+ * - anything else / unset → MockProvider
+ *
+ * CALLBACK FLOW:
+ * 1. initiate-payment calls initiateCharge() → provider returns a request ID
+ * 2. Provider later POSTs the result to payment-callback
+ * 3. payment-callback calls parseCallback() → normalized ChargeResult
+ * 4. Result is matched to the payments row by request ID
+ *
+ * REQUIRED SECRETS (mpesa only):
+ * - MPESA_CONSUMER_KEY / MPESA_CONSUMER_SECRET: Daraja app credentials
+ * - MPESA_SHORTCODE: Paybill or till number receiving funds
+ * - MPESA_PASSKEY: Lipa Na M-Pesa Online passkey
+ * - MPESA_ENVIRONMENT: "sandbox" (default) or "production"
+ */
+
+/**
+ * Charge Request Interface
+ * What the edge function asks the provider to collect
+ */
+export interface ChargeRequest {
+  amount: number;        // Whole KES (M-Pesa does not accept cents)
+  phoneNumber: string;   // MSISDN in 2547XXXXXXXX format
+  reference: string;     // Shown on the buyer's phone (order reference)
+  description: string;   // Short transaction description
+  callbackUrl: string;   // Where the provider posts the result
+}
+
+/**
+ * Charge Initiation Interface
+ * Provider's acknowledgement that the charge was started
+ */
+export interface ChargeInitiation {
+  requestId: string;         // Used to match the callback to the payment
+  customerMessage: string;   // Safe to show to the buyer
+}
+
+/**
+ * Charge Result Interface
+ * Normalized outcome parsed from a provider callback
+ */
+export interface ChargeResult {
+  requestId: string;
+  success: boolean;
+  amount: number | null;     // Amount actually paid (null on failure)
+  receipt: string | null;    // Provider receipt number (null on failure)
+  failureReason: string | null;
+}
+
+/**
+ * Payment Provider Interface
+ * Implemented once per mobile-money provider
+ */
+export interface PaymentProvider {
+  name: string;
+  initiateCharge(request: ChargeRequest): Promise<ChargeInitiation>;
+  parseCallback(body: unknown): ChargeResult;
+  // Mock only: deliver the callback a real provider would send
+  simulateCallback?(requestId: string, request: ChargeRequest): Promise<void>;
+}
+
+/**
+ * NORMALIZE PHONE NUMBER
+ * Converts Kenyan numbers to the 2547XXXXXXXX / 2541XXXXXXXX format M-Pesa expects
+ *
+ * ACCEPTED INPUTS:
+ * - 0712345678, 712345678, +254712345678, 254712345678 (spaces/dashes ignored)
+ *
+ * @param phone - Number as typed by the buyer
+ * @returns Normalized MSISDN, or null if it is not a Kenyan mobile number
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/[^\d]/g, '');
+  let msisdn = digits;
+
+  if (digits.startsWith('0')) msisdn = `254${digits.slice(1)}`;
+  else if (digits.length === 9) msisdn = `254${digits}`;
+
+  return /^254[17]\d{8}$/.test(msisdn) ? msisdn : null;
+}
+
+/**
+ * Daraja STK Callback Interface
+ * Shape of the body Safaricom posts to the callback URL
+ */
+interface StkCallbackBody {
+  Body?: {
+    stkCallback?: {
+      CheckoutRequestID?: string;
+      ResultCode?: number;
+      ResultDesc?: string;
+      CallbackMetadata?: { Item?: { Name: string; Value?: string | number }[] };
+    };
+  };
+}
+
+/**
+ * Parses a Daraja stkCallback body. Shared by both providers since the mock
+ * sends the same shape.
+ */
+function parseDarajaCallback(body: unknown): ChargeResult {
+  const callback = (body as StkCallbackBody)?.Body?.stkCallback;
+  if (!callback?.CheckoutRequestID) {
+    throw new Error('Malformed STK callback');
+  }
+
+  const success = callback.ResultCode === 0;
+  const items = callback.CallbackMetadata?.Item || [];
+  const item = (name: string) => items.find((i) => i.Name === name)?.Value ?? null;
+
+  return {
+    requestId: callback.CheckoutRequestID,
+    success,
+    amount: success ? Number(item('Amount')) : null,
+    receipt: success ? String(item('MpesaReceiptNumber')) : null,
+    failureReason: success ? null : callback.ResultDesc || 'Payment was not completed',
+  };
+}
+
+/**
+ * M-PESA (DARAJA) PROVIDER
+ *
+ * STK PUSH:
+ * 1. Fetch OAuth token with consumer key/secret (basic auth)
+ * 2. Password = base64(shortcode + passkey + timestamp)
+ * 3. POST /mpesa/stkpush/v1/processrequest
+ * 4. Buyer gets a PIN prompt on their phone; result arrives at callbackUrl
+ */
+class MpesaProvider implements PaymentProvider {
+  name = 'mpesa';
+
+  private baseUrl = Deno.env.get('MPESA_ENVIRONMENT') === 'production'
+    ? 'https://api.safaricom.co.ke'
+    : 'https://sandbox.safaricom.co.ke';
+
+  private async getAccessToken(): Promise<string> {
+    const key = Deno.env.get('MPESA_CONSUMER_KEY');
+    const secret = Deno.env.get('MPESA_CONSUMER_SECRET');
+    if (!key || !secret) {
+      throw new Error('M-Pesa credentials are not configured');
+    }
+
+    const response = await fetch(`${this.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+      headers: { Authorization: `Basic ${btoa(`${key}:${secret}`)}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`M-Pesa auth failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.access_token;
+  }
+
+  async initiateCharge(request: ChargeRequest): Promise<ChargeInitiation> {
+    const shortcode = Deno.env.get('MPESA_SHORTCODE');
+    const passkey = Deno.env.get('MPESA_PASSKEY');
+    if (!shortcode || !passkey) {
+      throw new Error('M-Pesa shortcode/passkey are not configured');
+    }
+
+    // Timestamp format: YYYYMMDDHHmmss in East Africa Time (UTC+3)
+    const eat = new Date(Date.now() + 3 * 60 * 60 * 1000);
+    const timestamp = eat.toISOString().replace(/[^\d]/g, '').slice(0, 14);
+    const token = await this.getAccessToken();
+
+    const response = await fetch(`${this.baseUrl}/mpesa/stkpush/v1/processrequest`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        BusinessShortCode: shortcode,
+        Password: btoa(`${shortcode}${passkey}${timestamp}`),
+        Timestamp: timestamp,
+        TransactionType: 'CustomerPayBillOnline',
+        Amount: Math.ceil(request.amount),
+        PartyA: request.phoneNumber,
+        PartyB: shortcode,
+        PhoneNumber: request.phoneNumber,
+        CallBackURL: request.callbackUrl,
+        AccountReference: request.reference.slice(0, 12), // Daraja limit
+        TransactionDesc: request.description.slice(0, 13), // Daraja limit
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.ResponseCode !== '0') {
+      throw new Error(data.errorMessage || data.ResponseDescription || 'STK push was rejected');
+    }
+
+    return {
+      requestId: data.CheckoutRequestID,
+      customerMessage: data.CustomerMessage || 'Check your phone to complete the payment',
+    };
+  }
+
+  parseCallback(body: unknown): ChargeResult {
+    return parseDarajaCallback(body);
+  }
+}
+
+/**
+ * MOCK PROVIDER
+ *
+ * For local development and testing. No money moves.
+ * - Only selected with PAYMENT_PROVIDER=mock, and only against a local
+ *   Supabase (getPaymentProvider refuses it anywhere else)
+ * - MOCK_PAYMENT_RESULT=failed → every charge is declined (default: success)
+ * - Callback is posted immediately, shaped exactly like a Daraja stkCallback
+ */
+class MockProvider implements PaymentProvider {
+  name = 'mock';
+
+  initiateCharge(_request: ChargeRequest): Promise<ChargeInitiation> {
+    return Promise.resolve({
+      requestId: `ws_CO_MOCK_${crypto.randomUUID()}`,
+      customerMessage: 'Mock payment started. No real charge will be made.',
+    });
+  }
+
+  parseCallback(body: unknown): ChargeResult {
+    return parseDarajaCallback(body);
+  }
+
+  async simulateCallback(requestId: string, request: ChargeRequest): Promise<void> {
+    const succeed = Deno.env.get('MOCK_PAYMENT_RESULT') !== 'failed';
+
+    const stkCallback = succeed
+      ? {
+          MerchantRequestID: `MOCK-${Date.now()}`,
+          CheckoutRequestID: requestId,
+          ResultCode: 0,
+          ResultDesc: 'The service request is processed successfully.',
+          CallbackMetadata: {
+            Item: [
+              { Name: 'Amount', Value: Math.ceil(request.amount) },
+              { Name: 'MpesaReceiptNumber', Value: `MOCK${Date.now().toString(36).toUpperCase()}` },
+              { Name: 'PhoneNumber', Value: Number(request.phoneNumber) },
+            ],
+          },
+        }
+      : {
+          MerchantRequestID: `MOCK-${Date.now()}`,
+          CheckoutRequestID: requestId,
+          ResultCode: 1032,
+          ResultDesc: 'Request cancelled by user',
+        };
+
+    const response = await fetch(request.callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ Body: { stkCallback } }),
+    });
+
+    if (!response.ok) {
+      console.error('Mock callback was not accepted:', response.status);
+    }
+  }
+}
+
+// Hostnames SUPABASE_URL has when functions are served by the local Supabase CLI
+const LOCAL_SUPABASE_HOSTS = ['localhost', '127.0.0.1', 'kong', 'host.docker.internal'];
+
+function isLocalSupabase(): boolean {
+  try {
+    return LOCAL_SUPABASE_HOSTS.includes(new URL(Deno.env.get('SUPABASE_URL') ?? '').hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET PAYMENT PROVIDER
+ * Picks the provider from PAYMENT_PROVIDER: "mpesa", or "mock" for local development.
+ *
+ * Fails closed: an unset or unknown value, or the mock outside a local
+ * Supabase, throws instead of quietly approving payments no one made.
+ *
+ * @returns Provider instance for this request
+ * @throws Error when payments are not configured for this environment
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const provider = Deno.env.get('PAYMENT_PROVIDER');
+
+  if (provider === 'mpesa') {
+    return new MpesaProvider();
+  }
+
+  if (provider === 'mock') {
+    if (!isLocalSupabase()) {
+      throw new Error('The mock payment provider only runs against a local Supabase');
+    }
+    return new MockProvider();
+  }
+
+  throw new Error(`PAYMENT_PROVIDER must be "mpesa" or "mock" (got ${provider ? `"${provider}"` : 'nothing'})`);
+}
@@ -0,0 +1,219 @@
+/**
+ * Close Auctions Edge Function
+ *
+ * Scheduled job that settles sealed-bid auctions once bidding has ended. For
+ * each auction lot past auction_ends_at it calls the close_auction RPC, which:
+ *
+ * 1. Winner - Turns the highest bid into a "requested" order for the whole lot
+ *    through create_reserved_order, the same path as a normal order, so the
+ *    seller confirms it in My Sales and payment, delivery and ledger posting
+ *    work as usual
+ * 2. Losing Bids - Marks every other bid as lost
+ * 3. No Sale - Expires the listing if there were no bids it could accept
+ *
+ * The seller, the winning bidder and each losing bidder are then notified.
+ * Bids are sealed until this point: only the closer ever compares them.
+ *
+ * Scheduling:
+ * - Runs every 15 minutes so winners hear soon after an auction ends
+ * - Triggered via Supabase Cron Jobs or external scheduler
+ * - close_auction is idempotent: a lot is only settled once (auction_closed_at)
+ *
+ * @cron Every 15 minutes
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Auction Outcome Interface
+ * What close_auction returns for a settled lot
+ */
+interface AuctionOutcome {
+  listing_id: string;
+  seller_id: string;
+  crop_name: string;
+  quantity: number;                 // kg sold to the winner
+  order_id: string | null;          // Null when the lot went unsold
+  winner_id: string | null;
+  winning_price_per_kg: number | null;
+  losing_bids: { bidder_id: string; price_per_kg: number }[];
+}
+
+/**
+ * Parameters for creating a notification
+ * Mirrors createNotification in src/utils/notificationHelpers.ts
+ */
+interface CreateNotificationParams {
+  userId: string;
+  type: 'order' | 'system';
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Creates a notification for one user.
+ * Errors are logged but don't throw, so one failed insert doesn't stop the others.
+ */
+const createNotification = async (
+  supabase: SupabaseClient,
+  { userId, type, title, message, data }: CreateNotificationParams
+) => {
+  const { error } = await supabase.from('notifications').insert({
+    user_id: userId,
+    type,
+    title,
+    message,
+    data: data || {},
+    read: false,
+  });
+
+  if (error) {
+    console.error('Error creating notification:', error);
+    return false;
+  }
+
+  return true;
+};
+
+const formatKes = (amount: number) => `KES ${Number(amount).toLocaleString()}`;
+
+/**
+ * Main Edge Function Handler
+ * Settles ended auctions and tells everyone involved how they went
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full database access
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    console.log('Starting auction closing job...');
+
+    // ========================================
+    // STEP 1: FIND ENDED AUCTIONS
+    // ========================================
+    const { data: ended, error: endedError } = await supabase
+      .from('marketplace_listings')
+      .select('id')
+      .eq('sale_type', 'auction')
+      .is('auction_closed_at', null)
+      .lte('auction_ends_at', new Date().toISOString());
+
+    if (endedError) {
+      console.error('Error fetching ended auctions:', endedError);
+      throw endedError;
+    }
+
+    // ========================================
+    // STEP 2: SETTLE EACH AUCTION
+    // ========================================
+    // One lot failing (e.g. a lock timeout) shouldn't hold up the rest;
+    // it stays open and is retried on the next run
+    const outcomes: AuctionOutcome[] = [];
+    let failed = 0;
+
+    for (const listing of ended || []) {
+      const { data, error } = await supabase.rpc('close_auction', { p_listing_id: listing.id });
+
+      if (error) {
+        console.error(`Error closing auction ${listing.id}:`, error);
+        failed++;
+        continue;
+      }
+
+      // Null means another run closed it first
+      if (data) outcomes.push(data as AuctionOutcome);
+    }
+
+    // ========================================
+    // STEP 3: NOTIFY SELLERS AND BIDDERS
+    // ========================================
+    const notifications: CreateNotificationParams[] = [];
+
+    for (const outcome of outcomes) {
+      if (outcome.order_id && outcome.winner_id && outcome.winning_price_per_kg !== null) {
+        const total = outcome.winning_price_per_kg * outcome.quantity;
+
+        notifications.push({
+          userId: outcome.winner_id,
+          type: 'order',
+          title: '🏆 You Won the Auction!',
+          message: `Your bid of ${formatKes(outcome.winning_price_per_kg)}/kg won ${outcome.quantity}kg of ${outcome.crop_name} (${formatKes(total)}). The seller will confirm your order shortly.`,
+          data: { listing_id: outcome.listing_id, order_id: outcome.order_id },
+        });
+
+        notifications.push({
+          userId: outcome.seller_id,
+          type: 'order',
+          title: '🔨 Auction Sold',
+          message: `Your ${outcome.crop_name} auction sold for ${formatKes(outcome.winning_price_per_kg)}/kg (${formatKes(total)}). Confirm the order in My Sales.`,
+          data: { listing_id: outcome.listing_id, order_id: outcome.order_id },
+        });
+      } else {
+        notifications.push({
+          userId: outcome.seller_id,
+          type: 'system',
+          title: '🔨 Auction Ended Unsold',
+          message: `Your ${outcome.crop_name} auction ended without a bid at or above your reserve. List it again to find a buyer.`,
+          data: { listing_id: outcome.listing_id },
+        });
+      }
+
+      for (const bid of outcome.losing_bids) {
+        notifications.push({
+          userId: bid.bidder_id,
+          type: 'system',
+          title: '🔨 Auction Closed',
+          message: outcome.order_id
+            ? `Your bid of ${formatKes(bid.price_per_kg)}/kg on ${outcome.crop_name} was outbid.`
+            : `The ${outcome.crop_name} auction you bid on ended without a sale.`,
+          data: { listing_id: outcome.listing_id },
+        });
+      }
+    }
+
+    const results = await Promise.all(
+      notifications.map((notification) => createNotification(supabase, notification))
+    );
+    const notified = results.filter(Boolean).length;
+
+    console.log(`Closed ${outcomes.length} auctions (${failed} failed), sent ${notified} notifications`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        closed: outcomes.length,
+        sold: outcomes.filter((outcome) => outcome.order_id).length,
+        failed,
+        notified,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in close-auctions function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
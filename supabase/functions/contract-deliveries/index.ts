@@ -0,0 +1,163 @@
+/**
+ * Contract Deliveries Edge Function
+ *
+ * Scheduled job that turns forward-contract deliveries into orders when they
+ * fall due. For each scheduled delivery of an active contract with a due date
+ * of today or earlier it calls the create_contract_order RPC, which:
+ *
+ * 1. Prices the delivery from the contract's formula (fixed price, or the
+ *    market price plus premium between the floor and ceiling)
+ * 2. Creates a "requested" order from the buyer to the farmer, so it follows
+ *    the usual confirm, payment, delivery code and ledger flow
+ * 3. Marks the delivery 'ordered' and completes the contract after its last one
+ *
+ * Both parties are then notified with the order's price and quantity.
+ *
+ * Scheduling:
+ * - Runs daily, after expire-listings
+ * - Triggered via Supabase Cron Jobs or external scheduler
+ * - create_contract_order locks the delivery and skips it once ordered, so a
+ *   missed run simply catches up on the next one
+ *
+ * @cron Daily at 7:00 AM
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Contract Order Interface
+ * What create_contract_order returns for a delivery it ordered
+ */
+interface ContractOrder {
+  delivery_id: string;
+  contract_id: string;
+  order_id: string;
+  buyer_id: string;
+  farmer_id: string;
+  crop_name: string;
+  quantity: number;     // kg
+  price_per_kg: number; // Price the contract formula gave today
+  due_date: string;
+}
+
+/**
+ * Main Edge Function Handler
+ * Creates orders for contract deliveries that have fallen due
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full database access
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    console.log('Starting contract deliveries job...');
+
+    const today = new Date().toISOString().split('T')[0];
+
+    // ========================================
+    // STEP 1: FIND DUE DELIVERIES
+    // ========================================
+    const { data: due, error: dueError } = await supabase
+      .from('contract_deliveries')
+      .select('id, contract:contracts!inner(status)')
+      .eq('status', 'scheduled')
+      .eq('contract.status', 'active')
+      .lte('due_date', today);
+
+    if (dueError) {
+      console.error('Error fetching due contract deliveries:', dueError);
+      throw dueError;
+    }
+
+    // ========================================
+    // STEP 2: CREATE AN ORDER FOR EACH
+    // ========================================
+    // One failure shouldn't hold up the rest; it is retried on the next run
+    const created: ContractOrder[] = [];
+    let failed = 0;
+
+    for (const delivery of due || []) {
+      const { data, error } = await supabase.rpc('create_contract_order', { p_delivery_id: delivery.id });
+
+      if (error) {
+        console.error(`Error ordering contract delivery ${delivery.id}:`, error);
+        failed++;
+        continue;
+      }
+
+      if (data) created.push(data as ContractOrder);
+    }
+
+    // ========================================
+    // STEP 3: NOTIFY BOTH PARTIES
+    // ========================================
+    const notifications = created.flatMap((order) => {
+      const total = Math.round(order.quantity * order.price_per_kg).toLocaleString();
+      const terms = `${order.quantity}kg of ${order.crop_name} at KES ${order.price_per_kg}/kg (KES ${total})`;
+
+      return [
+        {
+          user_id: order.farmer_id,
+          type: 'order',
+          title: '📦 Contract Delivery Due',
+          message: `Your contract delivery of ${terms} is due. Confirm the order in My Sales.`,
+          data: { contract_id: order.contract_id, order_id: order.order_id },
+        },
+        {
+          user_id: order.buyer_id,
+          type: 'order',
+          title: '📦 Contract Order Created',
+          message: `Your contract order for ${terms} has been placed. Pay once the farmer confirms.`,
+          data: { contract_id: order.contract_id, order_id: order.order_id },
+        },
+      ];
+    });
+
+    if (notifications.length > 0) {
+      const { error: insertError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+
+      if (insertError) {
+        console.error('Error inserting contract notifications:', insertError);
+        throw insertError;
+      }
+    }
+
+    console.log(`Created ${created.length} contract orders (${failed} failed)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ordered: created.length,
+        failed,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in contract-deliveries function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
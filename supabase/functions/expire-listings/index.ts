@@ -0,0 +1,143 @@
+/**
+ * Expire Listings Edge Function
+ *
+ * Scheduled job that keeps the marketplace free of stale produce. Every listing
+ * has an expires_at set from its crop's shelf life (see crop_shelf_life), and
+ * this job enforces it:
+ *
+ * 1. Expiry Warnings - Sellers are told when a listing expires within 48 hours
+ * 2. Expiry - Active listings past expires_at are marked 'expired' and drop
+ *    out of search results
+ *
+ * Both notifications carry { action: 'renew_listing', listing_id }, which the
+ * NotificationCenter turns into a one-tap "Renew" button (renew_listing RPC).
+ *
+ * Scheduling:
+ * - Runs daily, after daily-notifications
+ * - Triggered via Supabase Cron Jobs or external scheduler
+ * - Each listing is warned at most once per lifetime (expiry_warned_at)
+ *
+ * @cron Daily at 6:30 AM
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How far ahead sellers are warned about an upcoming expiry
+const WARNING_WINDOW_HOURS = 48;
+
+/**
+ * Main Edge Function Handler
+ * Expires stale listings and warns sellers about listings about to expire
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full database access
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    console.log('Starting listing expiry job...');
+
+    const now = new Date();
+    const warnBefore = new Date(now.getTime() + WARNING_WINDOW_HOURS * 60 * 60 * 1000);
+
+    // ========================================
+    // STEP 1: EXPIRE STALE LISTINGS
+    // ========================================
+    // Conditional update so a listing renewed a moment ago is left alone
+    const { data: expired, error: expireError } = await supabase
+      .from('marketplace_listings')
+      .update({ status: 'expired' })
+      .eq('status', 'active')
+      .lte('expires_at', now.toISOString())
+      .select('id, seller_id, crop_name, available_quantity');
+
+    if (expireError) {
+      console.error('Error expiring listings:', expireError);
+      throw expireError;
+    }
+
+    // ========================================
+    // STEP 2: WARN ABOUT UPCOMING EXPIRIES
+    // ========================================
+    const { data: expiring, error: warnError } = await supabase
+      .from('marketplace_listings')
+      .update({ expiry_warned_at: now.toISOString() })
+      .eq('status', 'active')
+      .is('expiry_warned_at', null)
+      .gt('expires_at', now.toISOString())
+      .lte('expires_at', warnBefore.toISOString())
+      .select('id, seller_id, crop_name, expires_at');
+
+    if (warnError) {
+      console.error('Error flagging expiring listings:', warnError);
+      throw warnError;
+    }
+
+    // ========================================
+    // STEP 3: NOTIFY SELLERS
+    // ========================================
+    const notifications = [
+      ...(expired || []).map((listing) => ({
+        user_id: listing.seller_id,
+        type: 'system',
+        title: '⌛ Listing Expired',
+        message: `Your ${listing.crop_name} listing (${listing.available_quantity}kg left) has expired and is hidden from buyers. Renew it if the produce is still available.`,
+        data: { action: 'renew_listing', listing_id: listing.id },
+      })),
+      ...(expiring || []).map((listing) => ({
+        user_id: listing.seller_id,
+        type: 'system',
+        title: '⏳ Listing Expiring Soon',
+        message: `Your ${listing.crop_name} listing expires on ${new Date(listing.expires_at).toLocaleDateString('en-KE', { weekday: 'short', day: 'numeric', month: 'short' })}. Renew it to keep it visible.`,
+        data: { action: 'renew_listing', listing_id: listing.id },
+      })),
+    ];
+
+    if (notifications.length > 0) {
+      const { error: insertError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+
+      if (insertError) {
+        console.error('Error inserting expiry notifications:', insertError);
+        throw insertError;
+      }
+    }
+
+    console.log(`Expired ${expired?.length || 0} listings, warned about ${expiring?.length || 0}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        expired: expired?.length || 0,
+        warned: expiring?.length || 0,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in expire-listings function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,230 @@
+/**
+ * INITIATE PAYMENT EDGE FUNCTION
+ *
+ * Starts a mobile-money (M-Pesa STK push) charge for a marketplace order.
+ * The buyer gets a PIN prompt on their phone; the result arrives later at
+ * the payment-callback function, which moves the money into escrow.
+ *
+ * ESCROW FLOW:
+ * 1. Buyer clicks "Pay with M-Pesa" on an order (requested or confirmed; delivery
+ *    orders only once confirmed, since the seller checks the delivery fee)
+ * 2. This function creates a 'pending' payments row and starts the charge
+ * 3. payment-callback marks it 'held' once the provider confirms payment
+ * 4. Seller can now ship (update_order_status requires a held payment)
+ * 5. Buyer confirms receipt → settle_order_escrow trigger marks it 'released'
+ * 6. If the order is cancelled instead, the held payment is marked 'refunded'
+ *
+ * PROVIDER:
+ * - Chosen by PAYMENT_PROVIDER (see _shared/paymentProvider.ts): "mpesa", or
+ *   "mock" (local Supabase only), which calls back immediately
+ * - Unset or unknown → 500 before any payment is recorded
+ *
+ * RATE LIMITING:
+ * - 10 requests per minute per user (RATE_LIMITS.EXPENSIVE)
+ * - Each call can push a prompt to a real phone
+ *
+ * SECURITY:
+ * - Authentication required (JWT token)
+ * - Only the order's buyer can pay for it
+ * - Amount always comes from the order, never from the request body
+ * - Callback URL carries PAYMENT_CALLBACK_SECRET so forged callbacks are rejected
+ *
+ * REQUEST FORMAT:
+ * POST /functions/v1/initiate-payment
+ * Headers: { Authorization: "Bearer <jwt_token>" }
+ * Body: { order_id: "uuid", phone_number: "0712345678" }
+ *
+ * RESPONSE FORMAT:
+ * {
+ *   payment_id: "uuid",
+ *   status: "pending" | "held" | "failed",
+ *   message: "Check your phone to complete the payment"
+ * }
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { checkRateLimit, getClientIdentifier, createRateLimitResponse, RATE_LIMITS } from "../_shared/rateLimiter.ts";
+import { getPaymentProvider, normalizePhoneNumber } from "../_shared/paymentProvider.ts";
+
+// CORS headers - allows web browser access to edge function
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * MAIN REQUEST HANDLER
+ * Validates the order and starts the provider charge
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // ========================================
+    // STEP 1: VALIDATE ENVIRONMENT
+    // ========================================
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const PAYMENT_CALLBACK_SECRET = Deno.env.get('PAYMENT_CALLBACK_SECRET');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !PAYMENT_CALLBACK_SECRET) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Service role: payments has no client write policies
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ========================================
+    // STEP 2: AUTHENTICATE USER
+    // ========================================
+    const authHeader = req.headers.get('Authorization') || '';
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // ========================================
+    // STEP 3: RATE LIMITING
+    // ========================================
+    const identifier = getClientIdentifier(req, user.id);
+    const rateLimit = checkRateLimit(identifier, RATE_LIMITS.EXPENSIVE);
+
+    if (rateLimit.isLimited) {
+      console.log(`Payment rate limit exceeded for user ${user.id}`);
+      return createRateLimitResponse(rateLimit.remaining, rateLimit.resetTime);
+    }
+
+    // ========================================
+    // STEP 4: VALIDATE REQUEST
+    // ========================================
+    const { order_id, phone_number } = await req.json();
+    const phoneNumber = normalizePhoneNumber(String(phone_number || ''));
+
+    if (!order_id || !phoneNumber) {
+      return jsonResponse({ error: 'A valid order and Safaricom phone number are required' }, 400);
+    }
+
+    // ========================================
+    // STEP 5: LOAD AND CHECK ORDER
+    // ========================================
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, buyer_id, seller_id, amount, status, delivery_method, delivery_tariff_id')
+      .eq('id', order_id)
+      .single();
+
+    if (orderError || !order || order.buyer_id !== user.id) {
+      return jsonResponse({ error: 'Order not found' }, 404);
+    }
+
+    if (!['requested', 'confirmed'].includes(order.status || '')) {
+      return jsonResponse({ error: `Orders that are ${order.status} cannot be paid` }, 400);
+    }
+
+    // The buyer picked the delivery band; the seller confirms (or corrects) its fee first
+    if (order.status === 'requested' && order.delivery_method === 'delivery' && order.delivery_tariff_id) {
+      return jsonResponse({ error: 'You can pay once the seller confirms the order and its delivery fee' }, 409);
+    }
+
+    const { data: activePayment } = await supabase
+      .from('payments')
+      .select('id, status')
+      .eq('order_id', order.id)
+      .in('status', ['pending', 'held'])
+      .maybeSingle();
+
+    if (activePayment) {
+      return jsonResponse({
+        error: activePayment.status === 'held'
+          ? 'This order has already been paid'
+          : 'A payment for this order is already waiting on your phone',
+      }, 409);
+    }
+
+    // ========================================
+    // STEP 6: RECORD PENDING PAYMENT
+    // ========================================
+    const provider = getPaymentProvider();
+
+    const { data: payment, error: insertError } = await supabase
+      .from('payments')
+      .insert({
+        order_id: order.id,
+        payer_id: order.buyer_id,
+        payee_id: order.seller_id,
+        amount: order.amount,
+        phone_number: phoneNumber,
+        provider: provider.name,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw insertError;
+
+    // ========================================
+    // STEP 7: START THE CHARGE
+    // ========================================
+    const chargeRequest = {
+      amount: Number(order.amount),
+      phoneNumber,
+      reference: order.id.slice(0, 8).toUpperCase(),
+      description: 'ShambaXchange',
+      callbackUrl: `${SUPABASE_URL}/functions/v1/payment-callback?token=${PAYMENT_CALLBACK_SECRET}`,
+    };
+
+    let initiation;
+    try {
+      initiation = await provider.initiateCharge(chargeRequest);
+    } catch (providerError) {
+      const reason = providerError instanceof Error ? providerError.message : 'Provider error';
+      console.error(`STK push failed for order ${order.id}:`, reason);
+
+      await supabase
+        .from('payments')
+        .update({ status: 'failed', failure_reason: reason })
+        .eq('id', payment.id);
+
+      return jsonResponse({ error: 'Could not start the payment. Please try again.' }, 502);
+    }
+
+    await supabase
+      .from('payments')
+      .update({ provider_request_id: initiation.requestId })
+      .eq('id', payment.id);
+
+    console.log(`Started ${provider.name} charge ${initiation.requestId} for order ${order.id}`);
+
+    // ========================================
+    // STEP 8: MOCK ONLY - DELIVER THE CALLBACK
+    // ========================================
+    if (provider.simulateCallback) {
+      await provider.simulateCallback(initiation.requestId, chargeRequest);
+    }
+
+    const { data: latest } = await supabase
+      .from('payments')
+      .select('status')
+      .eq('id', payment.id)
+      .single();
+
+    return jsonResponse({
+      payment_id: payment.id,
+      status: latest?.status || 'pending',
+      message: initiation.customerMessage,
+    });
+  } catch (error) {
+    console.error('Error in initiate-payment function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
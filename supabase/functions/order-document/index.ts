@@ -0,0 +1,406 @@
+/**
+ * ORDER DOCUMENT EDGE FUNCTION
+ *
+ * Generates a numbered invoice or payment receipt for a marketplace order as
+ * a PDF, stores it in the private order-documents bucket and returns a
+ * short-lived download link. Institutional buyers (schools, hotels) need an
+ * invoice before paying; farmers keep receipts for cooperative records.
+ *
+ * DOCUMENTS:
+ * - invoice: available for any order that was not cancelled before payment
+ * - receipt: available once the buyer's payment is held, released or partly refunded
+ * - Each order gets at most one of each (order_documents UNIQUE (order_id, kind));
+ *   later requests return the stored PDF instead of generating a new number
+ *
+ * PDF CONTENTS:
+ * - Document number (INV-YYYY-NNNNNN / RCT-YYYY-NNNNNN) and issue date
+ * - Seller and buyer profile details (name, location, phone)
+ * - Line items: produce (quantity in the listing's unit, unit price) and delivery charge
+ * - Total; receipts add the M-Pesa receipt number, payment date and any refund
+ *
+ * RATE LIMITING:
+ * - 60 requests per minute per user (RATE_LIMITS.API)
+ *
+ * SECURITY:
+ * - Authentication required (JWT token)
+ * - Only the order's buyer or seller can request its documents
+ * - Figures always come from the database, never from the request body
+ *
+ * REQUEST FORMAT:
+ * POST /functions/v1/order-document
+ * Headers: { Authorization: "Bearer <jwt_token>" }
+ * Body: { order_id: "uuid", kind: "invoice" | "receipt" }
+ *
+ * RESPONSE FORMAT:
+ * {
+ *   document_number: "INV-2025-000042",
+ *   url: "https://.../order-documents/...pdf?token=..."
+ * }
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { PDFDocument, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import { checkRateLimit, getClientIdentifier, createRateLimitResponse, RATE_LIMITS } from "../_shared/rateLimiter.ts";
+
+// CORS headers - allows web browser access to edge function
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const DELIVERY_LABELS: Record<string, string> = {
+  farm_pickup: 'Farm pickup',
+  market_pickup: 'Market pickup',
+  delivery: 'Delivery',
+};
+
+const PAID_STATUSES = ['held', 'released', 'partially_refunded'];
+
+const SIGNED_URL_SECONDS = 60 * 10;
+
+const formatKes = (value: number) =>
+  `KES ${value.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-KE', { day: 'numeric', month: 'short', year: 'numeric' });
+
+interface Party {
+  full_name: string;
+  location: string;
+  phone: string | null;
+}
+
+interface DocumentData {
+  kind: 'invoice' | 'receipt';
+  documentNumber: string;
+  issuedAt: string;
+  orderId: string;
+  orderDate: string;
+  seller: Party;
+  buyer: Party;
+  cropName: string;
+  quantityInUnit: number;
+  unitLabel: string;
+  goodsAmount: number;
+  deliveryMethod: string;
+  deliveryFee: number;
+  total: number;
+  payment: {
+    receipt: string | null;
+    paidAt: string | null;
+    refunded: number;
+  } | null;
+}
+
+/**
+ * Lays out a one-page A4 invoice or receipt
+ */
+const renderPdf = async (doc: DocumentData): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([595.28, 841.89]); // A4 in points
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const green = rgb(0.13, 0.45, 0.24);
+  const grey = rgb(0.4, 0.4, 0.4);
+  const left = 50;
+  const right = 545;
+  let y = 790;
+
+  const text = (value: string, x: number, size = 10, useBold = false, color = rgb(0, 0, 0)) =>
+    page.drawText(value, { x, y, size, font: useBold ? bold : font, color });
+
+  const textRight = (value: string, x: number, size = 10, useBold = false) => {
+    const width = (useBold ? bold : font).widthOfTextAtSize(value, size);
+    page.drawText(value, { x: x - width, y, size, font: useBold ? bold : font });
+  };
+
+  const rule = () => {
+    page.drawLine({ start: { x: left, y }, end: { x: right, y }, thickness: 0.5, color: grey });
+  };
+
+  // Header
+  text('ShambaXchange', left, 20, true, green);
+  textRight(doc.kind === 'invoice' ? 'INVOICE' : 'RECEIPT', right, 20, true);
+  y -= 22;
+  text('Farm produce marketplace', left, 9, false, grey);
+  textRight(doc.documentNumber, right, 11, true);
+  y -= 14;
+  textRight(`Issued ${formatDate(doc.issuedAt)}`, right, 9);
+  y -= 12;
+  textRight(`Order ${doc.orderId.slice(0, 8).toUpperCase()} · ${formatDate(doc.orderDate)}`, right, 9);
+
+  // Parties
+  y -= 36;
+  text('FROM (SELLER)', left, 9, true, grey);
+  text(doc.kind === 'invoice' ? 'BILL TO (BUYER)' : 'RECEIVED FROM (BUYER)', 310, 9, true, grey);
+  for (const [index, line] of [
+    [doc.seller.full_name, doc.buyer.full_name],
+    [doc.seller.location, doc.buyer.location],
+    [doc.seller.phone || '', doc.buyer.phone || ''],
+  ].entries()) {
+    y -= 14;
+    text(line[0], left, 10, index === 0);
+    text(line[1], 310, 10, index === 0);
+  }
+
+  // Line items
+  y -= 36;
+  text('Description', left, 9, true, grey);
+  textRight('Quantity', 340, 9, true);
+  textRight('Unit Price', 440, 9, true);
+  textRight('Amount', right, 9, true);
+  y -= 8;
+  rule();
+
+  y -= 16;
+  text(doc.cropName, left);
+  textRight(`${doc.quantityInUnit.toLocaleString('en-KE')} ${doc.unitLabel}`, 340);
+  textRight(formatKes(doc.goodsAmount / doc.quantityInUnit), 440);
+  textRight(formatKes(doc.goodsAmount), right);
+
+  y -= 16;
+  text(DELIVERY_LABELS[doc.deliveryMethod] || 'Delivery', left);
+  textRight(doc.deliveryFee > 0 ? formatKes(doc.deliveryFee) : 'No charge', right);
+
+  y -= 10;
+  rule();
+  y -= 18;
+  text('Total', 340, 12, true);
+  textRight(formatKes(doc.total), right, 12, true);
+
+  // Payment details
+  if (doc.payment) {
+    y -= 36;
+    text('PAYMENT', left, 9, true, grey);
+    y -= 14;
+    text(`Paid by M-Pesa${doc.payment.receipt ? ` · receipt ${doc.payment.receipt}` : ''}`, left);
+    if (doc.payment.paidAt) {
+      textRight(formatDate(doc.payment.paidAt), right);
+    }
+    y -= 14;
+    text('Amount received', left);
+    textRight(formatKes(doc.total), right);
+    if (doc.payment.refunded > 0) {
+      y -= 14;
+      text('Refunded to buyer', left);
+      textRight(`- ${formatKes(doc.payment.refunded)}`, right);
+    }
+  } else {
+    y -= 36;
+    text('Payment due by M-Pesa through ShambaXchange. Funds are held in escrow until receipt is confirmed.', left, 9, false, grey);
+  }
+
+  // Footer
+  y = 60;
+  rule();
+  y -= 14;
+  text(`Generated by ShambaXchange for order ${doc.orderId}`, left, 8, false, grey);
+
+  return await pdf.save();
+};
+
+/**
+ * MAIN REQUEST HANDLER
+ * Returns the stored document, generating and storing it on first request
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // ========================================
+    // STEP 1: VALIDATE ENVIRONMENT
+    // ========================================
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Service role: order_documents and the bucket have no client write policies
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ========================================
+    // STEP 2: AUTHENTICATE USER
+    // ========================================
+    const authHeader = req.headers.get('Authorization') || '';
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // ========================================
+    // STEP 3: RATE LIMITING
+    // ========================================
+    const identifier = getClientIdentifier(req, user.id);
+    const rateLimit = checkRateLimit(identifier, RATE_LIMITS.API);
+
+    if (rateLimit.isLimited) {
+      return createRateLimitResponse(rateLimit.remaining, rateLimit.resetTime);
+    }
+
+    // ========================================
+    // STEP 4: VALIDATE REQUEST
+    // ========================================
+    const { order_id, kind } = await req.json();
+
+    if (!order_id || (kind !== 'invoice' && kind !== 'receipt')) {
+      return jsonResponse({ error: 'An order and a document kind (invoice or receipt) are required' }, 400);
+    }
+
+    // ========================================
+    // STEP 5: LOAD AND CHECK ORDER
+    // ========================================
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select(`
+        id, buyer_id, seller_id, quantity, unit, unit_kg, amount, status,
+        delivery_method, delivery_fee, created_at,
+        listing:marketplace_listings(crop_name),
+        contract:contracts(crop_name)
+      `)
+      .eq('id', order_id)
+      .single();
+
+    if (orderError || !order || (order.buyer_id !== user.id && order.seller_id !== user.id)) {
+      return jsonResponse({ error: 'Order not found' }, 404);
+    }
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('status, provider_receipt, held_at, refunded_amount')
+      .eq('order_id', order.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const isPaid = !!payment && PAID_STATUSES.includes(payment.status);
+
+    if (kind === 'receipt' && !isPaid) {
+      return jsonResponse({ error: 'A receipt is available once the buyer has paid' }, 400);
+    }
+
+    if (kind === 'invoice' && order.status === 'cancelled' && !isPaid) {
+      return jsonResponse({ error: 'This order was cancelled' }, 400);
+    }
+
+    // ========================================
+    // STEP 6: RETURN THE STORED DOCUMENT IF ANY
+    // ========================================
+    const signedUrl = async (path: string) => {
+      const { data, error } = await supabase.storage
+        .from('order-documents')
+        .createSignedUrl(path, SIGNED_URL_SECONDS, { download: true });
+      if (error) throw error;
+      return data.signedUrl;
+    };
+
+    const { data: existing } = await supabase
+      .from('order_documents')
+      .select('document_number, storage_path')
+      .eq('order_id', order.id)
+      .eq('kind', kind)
+      .maybeSingle();
+
+    if (existing) {
+      return jsonResponse({
+        document_number: existing.document_number,
+        url: await signedUrl(existing.storage_path),
+      });
+    }
+
+    // ========================================
+    // STEP 7: NUMBER THE DOCUMENT
+    // ========================================
+    const { data: document, error: insertError } = await supabase
+      .from('order_documents')
+      .insert({ order_id: order.id, kind, amount: order.amount, created_by: user.id })
+      .select('id, document_number, storage_path, created_at')
+      .single();
+
+    if (insertError) throw insertError;
+
+    try {
+      // ========================================
+      // STEP 8: GATHER PARTIES AND UNIT
+      // ========================================
+      const [{ data: profiles }, { data: unit }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, full_name, location, phone')
+          .in('id', [order.seller_id, order.buyer_id]),
+        supabase
+          .from('units')
+          .select('label, plural_label')
+          .eq('code', order.unit)
+          .maybeSingle(),
+      ]);
+
+      const party = (id: string | null): Party =>
+        profiles?.find((profile) => profile.id === id) || { full_name: 'Unknown', location: '', phone: null };
+
+      const listing = order.listing as unknown as { crop_name: string } | null;
+      const contract = order.contract as unknown as { crop_name: string } | null; // Contract orders have no listing
+      const quantityInUnit = Number(order.quantity) / Number(order.unit_kg || 1);
+      const deliveryFee = Number(order.delivery_fee || 0);
+
+      // ========================================
+      // STEP 9: RENDER AND STORE THE PDF
+      // ========================================
+      const pdfBytes = await renderPdf({
+        kind,
+        documentNumber: document.document_number,
+        issuedAt: document.created_at,
+        orderId: order.id,
+        orderDate: order.created_at,
+        seller: party(order.seller_id),
+        buyer: party(order.buyer_id),
+        cropName: listing?.crop_name || contract?.crop_name || 'Produce',
+        quantityInUnit,
+        unitLabel: quantityInUnit === 1 ? unit?.label || order.unit : unit?.plural_label || order.unit,
+        goodsAmount: Number(order.amount) - deliveryFee,
+        deliveryMethod: order.delivery_method,
+        deliveryFee,
+        total: Number(order.amount),
+        payment: kind === 'receipt' && payment
+          ? {
+            receipt: payment.provider_receipt,
+            paidAt: payment.held_at,
+            refunded: Number(payment.refunded_amount || 0),
+          }
+          : null,
+      });
+
+      const { error: uploadError } = await supabase.storage
+        .from('order-documents')
+        .upload(document.storage_path, pdfBytes, { contentType: 'application/pdf' });
+
+      if (uploadError) throw uploadError;
+    } catch (renderError) {
+      // Release the order/kind slot so the next request can try again
+      await supabase.from('order_documents').delete().eq('id', document.id);
+      throw renderError;
+    }
+
+    console.log(`Generated ${kind} ${document.document_number} for order ${order.id}`);
+
+    return jsonResponse({
+      document_number: document.document_number,
+      url: await signedUrl(document.storage_path),
+    });
+  } catch (error) {
+    console.error('Error in order-document function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
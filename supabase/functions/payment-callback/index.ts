@@ -0,0 +1,226 @@
+/**
+ * PAYMENT CALLBACK EDGE FUNCTION
+ *
+ * Receives the result of an STK push from the payment provider, verifies it
+ * and records it on the matching payments row. Successful payments go into
+ * escrow ('held') until the buyer confirms receipt of the order.
+ *
+ * VERIFICATION:
+ * 1. ?token= must equal PAYMENT_CALLBACK_SECRET (set by initiate-payment)
+ * 2. CheckoutRequestID must match a payment we created
+ * 3. Amount paid must cover the payment amount (M-Pesa rounds up to whole KES)
+ *
+ * OUTCOMES:
+ * - Success on a pending payment → 'held', seller and buyer notified
+ * - Failure on a pending payment → 'failed' with the provider's reason, buyer notified
+ * - Full success on a payment that failed because its order was cancelled
+ *   while the buyer was entering their PIN → 'refunded', so the money is returned
+ * - Any other success on a failed payment (e.g. a retried amount mismatch) →
+ *   left as it is and logged for manual review
+ * - Anything already settled → ignored (providers retry callbacks)
+ *
+ * Each update only applies if the payment is still in the status it was read
+ * in, so when two deliveries of the same callback race, only the first one
+ * records the outcome and notifies.
+ *
+ * RESPONSE FORMAT:
+ * Always acknowledges in Daraja's format so the provider stops retrying:
+ * { ResultCode: 0, ResultDesc: "Accepted" }
+ *
+ * SECURITY:
+ * - verify_jwt is disabled in config.toml (Safaricom cannot send a JWT)
+ * - Protected by the shared secret instead
+ * - Raw callback stored on the payment for auditing
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { getPaymentProvider } from "../_shared/paymentProvider.ts";
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const acknowledge = () =>
+  new Response(JSON.stringify({ ResultCode: 0, ResultDesc: 'Accepted' }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Main Edge Function Handler
+ * Verifies the provider result and moves the payment into escrow
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // ========================================
+    // STEP 1: VERIFY CALLBACK SECRET
+    // ========================================
+    const secret = Deno.env.get('PAYMENT_CALLBACK_SECRET');
+    const token = new URL(req.url).searchParams.get('token');
+
+    if (!secret || token !== secret) {
+      console.error('Rejected payment callback with invalid token');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // ========================================
+    // STEP 2: PARSE PROVIDER RESULT
+    // ========================================
+    const body = await req.json();
+    const result = getPaymentProvider().parseCallback(body);
+
+    // ========================================
+    // STEP 3: MATCH TO OUR PAYMENT
+    // ========================================
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('id, order_id, payer_id, payee_id, amount, status')
+      .eq('provider_request_id', result.requestId)
+      .maybeSingle();
+
+    if (paymentError) throw paymentError;
+
+    if (!payment) {
+      console.error(`Callback for unknown request ${result.requestId}`);
+      return acknowledge();
+    }
+
+    // ========================================
+    // STEP 4: RECORD OUTCOME
+    // ========================================
+    const notifications = [];
+
+    // Compare-and-set: false when another callback changed the payment first
+    const transition = async (changes: Record<string, unknown>) => {
+      const { data: updated, error: updateError } = await supabase
+        .from('payments')
+        .update(changes)
+        .eq('id', payment.id)
+        .eq('status', payment.status)
+        .select('id');
+
+      if (updateError) throw updateError;
+
+      const applied = (updated || []).length > 0;
+      if (!applied) console.log(`Payment ${payment.id} already left ${payment.status}; skipping`);
+      return applied;
+    };
+
+    if (payment.status === 'pending' && result.success) {
+      // Amount check guards against a tampered or mismatched charge
+      if ((result.amount ?? 0) < Math.ceil(Number(payment.amount))) {
+        await transition({
+          status: 'failed',
+          failure_reason: `Amount mismatch: expected ${payment.amount}, received ${result.amount}`,
+          raw_callback: body,
+        });
+
+        console.error(`Amount mismatch on payment ${payment.id}`);
+        return acknowledge();
+      }
+
+      const applied = await transition({
+        status: 'held',
+        provider_receipt: result.receipt,
+        held_at: new Date().toISOString(),
+        raw_callback: body,
+      });
+      if (!applied) return acknowledge();
+
+      notifications.push(
+        {
+          user_id: payment.payee_id,
+          type: 'order',
+          title: '🔒 Payment in Escrow',
+          message: `The buyer paid KES ${payment.amount}. Funds are held until they confirm receipt - you can now ship.`,
+          data: { order_id: payment.order_id, payment_id: payment.id },
+        },
+        {
+          user_id: payment.payer_id,
+          type: 'order',
+          title: '✅ Payment Received',
+          message: `KES ${payment.amount} received (receipt ${result.receipt}). It will be released to the seller when you confirm receipt.`,
+          data: { order_id: payment.order_id, payment_id: payment.id },
+        }
+      );
+    } else if (payment.status === 'pending') {
+      const applied = await transition({ status: 'failed', failure_reason: result.failureReason, raw_callback: body });
+      if (!applied) return acknowledge();
+
+      notifications.push({
+        user_id: payment.payer_id,
+        type: 'order',
+        title: '❌ Payment Failed',
+        message: `Your M-Pesa payment did not go through: ${result.failureReason}`,
+        data: { order_id: payment.order_id, payment_id: payment.id },
+      });
+    } else if (payment.status === 'failed' && result.success) {
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('status')
+        .eq('id', payment.order_id)
+        .single();
+
+      if (orderError) throw orderError;
+
+      // Only a cancelled order explains money arriving on a failed payment; anything
+      // else (a short payment, an order still open) needs a person to look at it
+      if (order.status !== 'cancelled' || (result.amount ?? 0) < Math.ceil(Number(payment.amount))) {
+        console.error(
+          `Payment ${payment.id} received KES ${result.amount} (receipt ${result.receipt}) after failing; ` +
+          `order is ${order.status}. Leaving for manual review`
+        );
+        return acknowledge();
+      }
+
+      // Order was cancelled while the buyer was paying; give the money back
+      const applied = await transition({
+        status: 'refunded',
+        provider_receipt: result.receipt,
+        settled_at: new Date().toISOString(),
+        raw_callback: body,
+      });
+      if (!applied) return acknowledge();
+
+      notifications.push({
+        user_id: payment.payer_id,
+        type: 'order',
+        title: '↩️ Payment Refunded',
+        message: `Your order was cancelled before your payment arrived. KES ${payment.amount} will be refunded.`,
+        data: { order_id: payment.order_id, payment_id: payment.id },
+      });
+    } else {
+      console.log(`Ignoring repeat callback for payment ${payment.id} (${payment.status})`);
+    }
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+      if (notifyError) console.error('Error creating payment notifications:', notifyError);
+    }
+
+    return acknowledge();
+  } catch (error) {
+    console.error('Error in payment-callback function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,166 @@
+/**
+ * Recurring Ledger Edge Function
+ *
+ * Scheduled job that posts recurring income and expenses (wages, land lease,
+ * loan repayments) into the ledger when they fall due. For each active
+ * template with a next date of today or earlier it calls the
+ * post_recurring_ledger_entries RPC, which:
+ *
+ * 1. Inserts a ledger row for every due occurrence up to today (and the
+ *    template's end date), linked to the template by recurring_id
+ * 2. Advances the template's next date, and deactivates it once past its end
+ *
+ * Each owner then gets one notification covering everything posted for them.
+ *
+ * Scheduling:
+ * - Runs daily, before daily-notifications
+ * - Triggered via Supabase Cron Jobs or external scheduler
+ * - Occurrences are unique per template and date, so a missed run catches up
+ *   on the next one and an overlapping run posts nothing twice
+ *
+ * @cron Daily at 5:30 AM
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Posted Recurring Entry Interface
+ * What post_recurring_ledger_entries returns for a template it posted
+ */
+interface PostedRecurringEntry {
+  recurring_id: string;
+  user_id: string;
+  type: 'income' | 'expense';
+  item: string;
+  amount: number;
+  dates: string[];          // Occurrences posted this run
+  next_date: string | null; // Null once the template has ended
+}
+
+/**
+ * Main Edge Function Handler
+ * Posts due recurring entries and notifies their owners
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full database access
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    console.log('Starting recurring ledger job...');
+
+    const today = new Date().toISOString().split('T')[0];
+
+    // ========================================
+    // STEP 1: FIND DUE TEMPLATES
+    // ========================================
+    const { data: due, error: dueError } = await supabase
+      .from('recurring_ledger_entries')
+      .select('id')
+      .eq('active', true)
+      .lte('next_date', today);
+
+    if (dueError) {
+      console.error('Error fetching due recurring entries:', dueError);
+      throw dueError;
+    }
+
+    // ========================================
+    // STEP 2: POST EACH TEMPLATE'S OCCURRENCES
+    // ========================================
+    // One failure shouldn't hold up the rest; it is retried on the next run
+    const posted: PostedRecurringEntry[] = [];
+    let failed = 0;
+
+    for (const template of due || []) {
+      const { data, error } = await supabase.rpc('post_recurring_ledger_entries', {
+        p_recurring_id: template.id,
+      });
+
+      if (error) {
+        console.error(`Error posting recurring entry ${template.id}:`, error);
+        failed++;
+        continue;
+      }
+
+      if (data) posted.push(data as PostedRecurringEntry);
+    }
+
+    // ========================================
+    // STEP 3: NOTIFY OWNERS
+    // ========================================
+    // One notification per owner, however many templates were posted
+    const byUser = new Map<string, PostedRecurringEntry[]>();
+    for (const entry of posted) {
+      byUser.set(entry.user_id, [...(byUser.get(entry.user_id) || []), entry]);
+    }
+
+    const notifications = Array.from(byUser.entries()).map(([userId, entries]) => {
+      const count = entries.reduce((sum, entry) => sum + entry.dates.length, 0);
+      const message = entries.length === 1
+        ? `${entries[0].item}: KES ${Number(entries[0].amount).toLocaleString()} ${entries[0].type} added to your ledger` +
+          (count > 1 ? ` for ${count} dates.` : '.')
+        : `${count} entries added to your ledger: ${entries.map((entry) => entry.item).join(', ')}.`;
+
+      return {
+        user_id: userId,
+        type: 'system',
+        title: '🔁 Recurring entries posted',
+        message,
+        data: {
+          action: 'view_finances',
+          recurring_ids: entries.map((entry) => entry.recurring_id),
+        },
+      };
+    });
+
+    if (notifications.length > 0) {
+      const { error: insertError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+
+      if (insertError) {
+        console.error('Error inserting recurring entry notifications:', insertError);
+        throw insertError;
+      }
+    }
+
+    const occurrences = posted.reduce((sum, entry) => sum + entry.dates.length, 0);
+    console.log(`Posted ${occurrences} occurrences of ${posted.length} recurring entries (${failed} failed)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        templates: posted.length,
+        occurrences,
+        failed,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in recurring-ledger function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,142 @@
+-- Track remaining stock separately from the originally listed quantity
+ALTER TABLE public.marketplace_listings
+ADD COLUMN IF NOT EXISTS available_quantity numeric;
+
+-- Backfill remaining stock from orders that have not been cancelled
+UPDATE public.marketplace_listings ml
+SET available_quantity = GREATEST(
+  ml.quantity - COALESCE((
+    SELECT SUM(o.quantity)
+    FROM public.orders o
+    WHERE o.listing_id = ml.id AND o.status <> 'cancelled'
+  ), 0),
+  0
+);
+
+ALTER TABLE public.marketplace_listings
+ALTER COLUMN available_quantity SET NOT NULL;
+
+ALTER TABLE public.marketplace_listings
+ADD CONSTRAINT marketplace_listings_available_quantity_check CHECK (available_quantity >= 0);
+
+-- Allow listings to be marked sold out once all stock is reserved
+ALTER TABLE public.marketplace_listings
+DROP CONSTRAINT IF EXISTS marketplace_listings_status_check;
+
+ALTER TABLE public.marketplace_listings
+ADD CONSTRAINT marketplace_listings_status_check CHECK (status IN ('active', 'sold', 'sold_out', 'inactive'));
+
+-- Sold-out listings disappear from the public policy, so keep them visible
+-- to their seller and to anyone holding an order against them
+CREATE POLICY "Sellers can view their own listings"
+  ON public.marketplace_listings FOR SELECT
+  USING (auth.uid() = seller_id);
+
+CREATE POLICY "Order parties can view ordered listings"
+  ON public.marketplace_listings FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.listing_id = marketplace_listings.id
+        AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+-- Orders must go through place_order() so stock is always reserved
+DROP POLICY IF EXISTS "Buyers can create orders" ON public.orders;
+
+-- Function to place an order and reserve listing stock in one transaction
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_listing_id uuid,
+  p_quantity numeric,
+  p_delivery_details jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_remaining numeric;
+  v_order_id uuid;
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  -- Lock the listing so concurrent orders wait for this one to finish
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = v_buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  -- Reserve stock and flip to sold_out when nothing is left
+  v_remaining := v_listing.available_quantity - p_quantity;
+
+  UPDATE public.marketplace_listings
+  SET
+    available_quantity = v_remaining,
+    status = CASE WHEN v_remaining = 0 THEN 'sold_out' ELSE status END
+  WHERE id = p_listing_id;
+
+  -- Amount is priced server-side from the locked listing row
+  INSERT INTO public.orders (listing_id, buyer_id, seller_id, quantity, amount, status, delivery_details)
+  VALUES (
+    p_listing_id,
+    v_buyer_id,
+    v_listing.seller_id,
+    p_quantity,
+    p_quantity * v_listing.price_per_kg,
+    'requested',
+    p_delivery_details
+  )
+  RETURNING id INTO v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Trigger to return reserved stock to the listing when an order is cancelled
+CREATE OR REPLACE FUNCTION public.release_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled'
+    AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND NEW.listing_id IS NOT NULL THEN
+    UPDATE public.marketplace_listings
+    SET
+      available_quantity = LEAST(available_quantity + NEW.quantity, quantity),
+      status = CASE WHEN status = 'sold_out' THEN 'active' ELSE status END
+    WHERE id = NEW.listing_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_cancelled_release_stock ON public.orders;
+CREATE TRIGGER on_order_cancelled_release_stock
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_order_stock();
@@ -0,0 +1,152 @@
+-- Order status history (audit trail of every transition)
+CREATE TABLE public.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Both parties can read the timeline; only backend functions write to it
+CREATE POLICY "Order parties can view status history"
+  ON public.order_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_status_history.order_id
+        AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+-- Backfill a starting entry for existing orders
+INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'requested', buyer_id, COALESCE(created_at, now())
+FROM public.orders;
+
+INSERT INTO public.order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, 'requested', status, COALESCE(updated_at, now())
+FROM public.orders
+WHERE status IS DISTINCT FROM 'requested';
+
+-- Status may no longer be written directly by either party
+DROP POLICY IF EXISTS "Users can update their orders" ON public.orders;
+
+-- Trigger to reject any status change that skips or reverses the flow
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'requested' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('in-transit', 'cancelled')) OR
+    (OLD.status = 'in-transit' AND NEW.status = 'delivered') OR
+    (OLD.status = 'delivered' AND NEW.status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON public.orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- Trigger to record the opening "requested" entry for new orders
+CREATE OR REPLACE FUNCTION public.log_order_created()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by)
+  VALUES (NEW.id, NULL, NEW.status, NEW.buyer_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_created_log_status ON public.orders;
+CREATE TRIGGER on_order_created_log_status
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_created();
+
+-- Function to move an order along its status flow on behalf of buyer or seller
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id uuid,
+  p_new_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_role text;
+  v_allowed boolean := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_user_id = v_order.seller_id THEN
+    v_role := 'seller';
+  ELSIF v_user_id = v_order.buyer_id THEN
+    v_role := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not a party to this order';
+  END IF;
+
+  -- Seller drives fulfilment; buyer confirms receipt
+  -- Buyer may cancel only before the seller confirms, seller until shipping
+  IF v_role = 'seller' THEN
+    v_allowed :=
+      (v_order.status = 'requested' AND p_new_status IN ('confirmed', 'cancelled')) OR
+      (v_order.status = 'confirmed' AND p_new_status IN ('in-transit', 'cancelled')) OR
+      (v_order.status = 'in-transit' AND p_new_status = 'delivered');
+  ELSE
+    v_allowed :=
+      (v_order.status = 'requested' AND p_new_status = 'cancelled') OR
+      (v_order.status = 'delivered' AND p_new_status = 'completed');
+  END IF;
+
+  IF NOT v_allowed THEN
+    RAISE EXCEPTION 'A % cannot move this order from % to %', v_role, v_order.status, p_new_status;
+  END IF;
+
+  UPDATE public.orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (p_order_id, v_order.status, p_new_status, v_user_id, NULLIF(TRIM(p_note), ''));
+END;
+$$;
@@ -0,0 +1,349 @@
+-- Price negotiation: offers and counter-offers on listings
+CREATE TABLE public.offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id uuid NOT NULL, -- id of the opening offer; shared by every counter-offer
+  listing_id uuid NOT NULL REFERENCES public.marketplace_listings(id) ON DELETE CASCADE,
+  buyer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  proposed_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  price_per_kg numeric(10,2) NOT NULL CHECK (price_per_kg > 0),
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  delivery_details jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'countered', 'withdrawn')),
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_offers_thread_id ON public.offers(thread_id, created_at);
+CREATE INDEX idx_offers_listing_id ON public.offers(listing_id);
+
+-- A buyer can only have one open negotiation per listing
+CREATE UNIQUE INDEX idx_offers_one_pending_per_buyer
+  ON public.offers(listing_id, buyer_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.offers ENABLE ROW LEVEL SECURITY;
+
+-- Both parties can read; all writes go through make_offer()/respond_to_offer()
+CREATE POLICY "Users can view their offers"
+  ON public.offers FOR SELECT
+  USING (auth.uid() = buyer_id OR auth.uid() = seller_id);
+
+CREATE TRIGGER update_offers_updated_at
+  BEFORE UPDATE ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so negotiations update live inside the chat
+ALTER TABLE public.offers REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.offers;
+
+-- Link orders back to the offer they were agreed on
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES public.offers(id) ON DELETE SET NULL;
+
+-- Internal helper: lock a listing, reserve stock and insert the order
+-- Shared by place_order() (list price) and respond_to_offer() (agreed price)
+CREATE OR REPLACE FUNCTION public.create_reserved_order(
+  p_listing_id uuid,
+  p_buyer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_delivery_details jsonb,
+  p_offer_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_remaining numeric;
+  v_order_id uuid;
+BEGIN
+  -- Lock the listing so concurrent orders wait for this one to finish
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = p_buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  -- Reserve stock and flip to sold_out when nothing is left
+  v_remaining := v_listing.available_quantity - p_quantity;
+
+  UPDATE public.marketplace_listings
+  SET
+    available_quantity = v_remaining,
+    status = CASE WHEN v_remaining = 0 THEN 'sold_out' ELSE status END
+  WHERE id = p_listing_id;
+
+  INSERT INTO public.orders (listing_id, buyer_id, seller_id, quantity, amount, status, delivery_details, offer_id)
+  VALUES (
+    p_listing_id,
+    p_buyer_id,
+    v_listing.seller_id,
+    p_quantity,
+    p_quantity * COALESCE(p_price_per_kg, v_listing.price_per_kg),
+    'requested',
+    p_delivery_details,
+    p_offer_id
+  )
+  RETURNING id INTO v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_reserved_order(uuid, uuid, numeric, numeric, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- place_order now delegates to the shared helper at the listing price
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_listing_id uuid,
+  p_quantity numeric,
+  p_delivery_details jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  RETURN public.create_reserved_order(p_listing_id, v_buyer_id, p_quantity, NULL, p_delivery_details);
+END;
+$$;
+
+-- Function for a buyer to open a negotiation on a listing
+CREATE OR REPLACE FUNCTION public.make_offer(
+  p_listing_id uuid,
+  p_price_per_kg numeric,
+  p_quantity numeric,
+  p_delivery_details jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_offer_id uuid := gen_random_uuid();
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 OR p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Price and quantity must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = v_buyer_id THEN
+    RAISE EXCEPTION 'You cannot make an offer on your own listing';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.offers
+    WHERE listing_id = p_listing_id AND buyer_id = v_buyer_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open offer on this listing';
+  END IF;
+
+  INSERT INTO public.offers (
+    id, thread_id, listing_id, buyer_id, seller_id, proposed_by,
+    price_per_kg, quantity, delivery_details
+  )
+  VALUES (
+    v_offer_id, v_offer_id, p_listing_id, v_buyer_id, v_listing.seller_id, v_buyer_id,
+    p_price_per_kg, p_quantity, p_delivery_details
+  );
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    v_listing.seller_id,
+    'order',
+    '💰 New Offer',
+    format('You received an offer of KES %s/kg for %skg of %s', p_price_per_kg, p_quantity, v_listing.crop_name),
+    jsonb_build_object('offer_id', v_offer_id, 'listing_id', p_listing_id)
+  );
+
+  RETURN v_offer_id;
+END;
+$$;
+
+-- Function to accept, reject, counter or withdraw a pending offer
+-- Only the party who did not propose the offer may accept, reject or counter it;
+-- only the proposer may withdraw it. Accepting creates the order at the agreed price.
+CREATE OR REPLACE FUNCTION public.respond_to_offer(
+  p_offer_id uuid,
+  p_action text,
+  p_price_per_kg numeric DEFAULT NULL,
+  p_quantity numeric DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_offer public.offers%ROWTYPE;
+  v_crop_name text;
+  v_recipient_id uuid;
+  v_rounds int;
+  v_result_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM public.offers
+  WHERE id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id NOT IN (v_offer.buyer_id, v_offer.seller_id) THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer has already been %', v_offer.status;
+  END IF;
+
+  IF p_action = 'withdraw' THEN
+    IF v_user_id <> v_offer.proposed_by THEN
+      RAISE EXCEPTION 'Only the party who made an offer can withdraw it';
+    END IF;
+  ELSIF p_action IN ('accept', 'reject', 'counter') THEN
+    IF v_user_id = v_offer.proposed_by THEN
+      RAISE EXCEPTION 'You cannot % your own offer', p_action;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown offer action: %', p_action;
+  END IF;
+
+  SELECT crop_name INTO v_crop_name
+  FROM public.marketplace_listings
+  WHERE id = v_offer.listing_id;
+
+  v_recipient_id := CASE WHEN v_user_id = v_offer.buyer_id THEN v_offer.seller_id ELSE v_offer.buyer_id END;
+
+  IF p_action = 'accept' THEN
+    -- Reserve stock and create the order at the agreed terms
+    v_result_id := public.create_reserved_order(
+      v_offer.listing_id,
+      v_offer.buyer_id,
+      v_offer.quantity,
+      v_offer.price_per_kg,
+      v_offer.delivery_details,
+      v_offer.id
+    );
+
+    UPDATE public.offers
+    SET status = 'accepted', order_id = v_result_id
+    WHERE id = v_offer.id;
+
+    SELECT COUNT(*) INTO v_rounds
+    FROM public.offers
+    WHERE thread_id = v_offer.thread_id;
+
+    -- Carry the negotiation outcome into the order timeline
+    UPDATE public.order_status_history
+    SET note = format('Agreed at KES %s/kg after %s offer round%s', v_offer.price_per_kg, v_rounds,
+      CASE WHEN v_rounds = 1 THEN '' ELSE 's' END)
+    WHERE order_id = v_result_id AND from_status IS NULL;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_recipient_id,
+      'order',
+      '🤝 Offer Accepted',
+      format('Your offer of KES %s/kg for %skg of %s was accepted. An order has been created.',
+        v_offer.price_per_kg, v_offer.quantity, v_crop_name),
+      jsonb_build_object('offer_id', v_offer.id, 'order_id', v_result_id)
+    );
+
+  ELSIF p_action = 'counter' THEN
+    IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 THEN
+      RAISE EXCEPTION 'A counter-offer needs a price greater than zero';
+    END IF;
+
+    UPDATE public.offers
+    SET status = 'countered'
+    WHERE id = v_offer.id;
+
+    INSERT INTO public.offers (
+      thread_id, listing_id, buyer_id, seller_id, proposed_by,
+      price_per_kg, quantity, delivery_details
+    )
+    VALUES (
+      v_offer.thread_id, v_offer.listing_id, v_offer.buyer_id, v_offer.seller_id, v_user_id,
+      p_price_per_kg, COALESCE(p_quantity, v_offer.quantity), v_offer.delivery_details
+    )
+    RETURNING id INTO v_result_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_recipient_id,
+      'order',
+      '↔️ Counter-Offer',
+      format('You received a counter-offer of KES %s/kg for %skg of %s',
+        p_price_per_kg, COALESCE(p_quantity, v_offer.quantity), v_crop_name),
+      jsonb_build_object('offer_id', v_result_id, 'listing_id', v_offer.listing_id)
+    );
+
+  ELSE
+    UPDATE public.offers
+    SET status = CASE WHEN p_action = 'reject' THEN 'rejected' ELSE 'withdrawn' END
+    WHERE id = v_offer.id;
+
+    v_result_id := v_offer.id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_recipient_id,
+      'order',
+      CASE WHEN p_action = 'reject' THEN '❌ Offer Rejected' ELSE '↩️ Offer Withdrawn' END,
+      format('The offer of KES %s/kg for %s was %s', v_offer.price_per_kg, v_crop_name,
+        CASE WHEN p_action = 'reject' THEN 'rejected' ELSE 'withdrawn' END),
+      jsonb_build_object('offer_id', v_offer.id, 'listing_id', v_offer.listing_id)
+    );
+  END IF;
+
+  RETURN v_result_id;
+END;
+$$;
@@ -0,0 +1,182 @@
+-- Payments for marketplace orders (mobile money, held in escrow)
+CREATE TABLE public.payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  payer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payee_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'KES',
+  phone_number text NOT NULL,
+  provider text NOT NULL, -- 'mpesa' or 'mock'
+  provider_request_id text, -- STK push CheckoutRequestID, matched on callback
+  provider_receipt text, -- M-Pesa receipt number once paid
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'held', 'failed', 'released', 'refunded')),
+  failure_reason text,
+  raw_callback jsonb,
+  held_at timestamptz,
+  settled_at timestamptz, -- When escrow was released to the seller or refunded to the buyer
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id, created_at DESC);
+CREATE UNIQUE INDEX idx_payments_provider_request_id ON public.payments(provider_request_id);
+
+-- Only one payment in flight or in escrow per order
+CREATE UNIQUE INDEX idx_payments_one_active_per_order
+  ON public.payments(order_id)
+  WHERE status IN ('pending', 'held');
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Both parties can read; only the payment edge functions and triggers write
+CREATE POLICY "Users can view their payments"
+  ON public.payments FOR SELECT
+  USING (auth.uid() = payer_id OR auth.uid() = payee_id);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so the order card updates when the STK push completes
+ALTER TABLE public.payments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
+
+-- Trigger to settle escrow when an order finishes
+-- completed → funds released to the seller; cancelled → funds refunded to the buyer
+CREATE OR REPLACE FUNCTION public.settle_order_escrow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('completed', 'cancelled') OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- A charge still waiting on the buyer's phone can no longer be used
+  UPDATE public.payments
+  SET status = 'failed', failure_reason = 'Order ' || NEW.status || ' before payment completed'
+  WHERE order_id = NEW.id AND status = 'pending';
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE order_id = NEW.id AND status = 'held'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    UPDATE public.payments
+    SET status = 'released', settled_at = now()
+    WHERE id = v_payment.id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_payment.payee_id,
+      'order',
+      '💸 Payment Released',
+      format('The buyer confirmed receipt. KES %s has been released to you.', v_payment.amount),
+      jsonb_build_object('order_id', NEW.id, 'payment_id', v_payment.id)
+    );
+  ELSE
+    UPDATE public.payments
+    SET status = 'refunded', settled_at = now()
+    WHERE id = v_payment.id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_payment.payer_id,
+      'order',
+      '↩️ Payment Refunded',
+      format('Your order was cancelled. KES %s held in escrow will be refunded to %s.', v_payment.amount, v_payment.phone_number),
+      jsonb_build_object('order_id', NEW.id, 'payment_id', v_payment.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_settled_escrow ON public.orders;
+CREATE TRIGGER on_order_settled_escrow
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.settle_order_escrow();
+
+-- Sellers may only ship once the buyer's payment is held in escrow
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id uuid,
+  p_new_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_role text;
+  v_allowed boolean := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_user_id = v_order.seller_id THEN
+    v_role := 'seller';
+  ELSIF v_user_id = v_order.buyer_id THEN
+    v_role := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not a party to this order';
+  END IF;
+
+  -- Seller drives fulfilment; buyer confirms receipt
+  -- Buyer may cancel only before the seller confirms, seller until shipping
+  IF v_role = 'seller' THEN
+    v_allowed :=
+      (v_order.status = 'requested' AND p_new_status IN ('confirmed', 'cancelled')) OR
+      (v_order.status = 'confirmed' AND p_new_status IN ('in-transit', 'cancelled')) OR
+      (v_order.status = 'in-transit' AND p_new_status = 'delivered');
+  ELSE
+    v_allowed :=
+      (v_order.status = 'requested' AND p_new_status = 'cancelled') OR
+      (v_order.status = 'delivered' AND p_new_status = 'completed');
+  END IF;
+
+  IF NOT v_allowed THEN
+    RAISE EXCEPTION 'A % cannot move this order from % to %', v_role, v_order.status, p_new_status;
+  END IF;
+
+  IF p_new_status = 'in-transit' AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status = 'held'
+  ) THEN
+    RAISE EXCEPTION 'The buyer has not paid for this order yet';
+  END IF;
+
+  UPDATE public.orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (p_order_id, v_order.status, p_new_status, v_user_id, NULLIF(TRIM(p_note), ''));
+END;
+$$;
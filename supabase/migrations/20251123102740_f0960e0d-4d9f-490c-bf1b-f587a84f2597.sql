@@ -0,0 +1,58 @@
+-- Multiple photos per marketplace listing
+ALTER TABLE public.marketplace_listings
+ADD COLUMN IF NOT EXISTS image_urls text[] NOT NULL DEFAULT '{}';
+
+-- Carry over existing single images as the first gallery photo
+UPDATE public.marketplace_listings
+SET image_urls = ARRAY[image_url]
+WHERE image_url IS NOT NULL AND cardinality(image_urls) = 0;
+
+ALTER TABLE public.marketplace_listings
+ADD CONSTRAINT marketplace_listings_image_urls_check CHECK (cardinality(image_urls) <= 6);
+
+-- Create a public storage bucket for listing photos
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.buckets WHERE id = 'listing-photos'
+  ) THEN
+    INSERT INTO storage.buckets (id, name, public) VALUES ('listing-photos', 'listing-photos', true);
+  END IF;
+END $$;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Public read for listing-photos" ON storage.objects;
+DROP POLICY IF EXISTS "Sellers can upload to listing-photos in their own folder" ON storage.objects;
+DROP POLICY IF EXISTS "Sellers can update their own files in listing-photos" ON storage.objects;
+DROP POLICY IF EXISTS "Sellers can delete their own files in listing-photos" ON storage.objects;
+
+-- Policies for the 'listing-photos' bucket
+-- Public read access so browse cards can show photos
+CREATE POLICY "Public read for listing-photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'listing-photos');
+
+-- Only authenticated sellers can upload to their own folder: {seller_id}/filename
+CREATE POLICY "Sellers can upload to listing-photos in their own folder"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'listing-photos' AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Sellers can update their own files
+CREATE POLICY "Sellers can update their own files in listing-photos"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'listing-photos' AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Sellers can delete their own files
+CREATE POLICY "Sellers can delete their own files in listing-photos"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'listing-photos' AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,142 @@
+-- Indexes backing the marketplace search sort orders
+CREATE INDEX IF NOT EXISTS idx_marketplace_listings_active_created
+  ON public.marketplace_listings (created_at DESC, id DESC)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_listings_active_price
+  ON public.marketplace_listings (price_per_kg)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewee_id
+  ON public.reviews (reviewee_id);
+
+-- Function to search active marketplace listings with filters, sorting and cursor pagination
+-- Every sort order is reduced to (sort_key ASC, created_at DESC, id DESC):
+--   newest   -> sort_key = 0
+--   cheapest -> sort_key = price_per_kg
+--   nearest  -> sort_key = proximity (0 same place, 1 overlapping place name, 2 elsewhere)
+-- sort_cursor of the last row ("sort_key|created_at|id") is passed back as p_cursor for the next page
+CREATE OR REPLACE FUNCTION public.search_listings(
+  p_query text DEFAULT NULL,
+  p_crop text DEFAULT NULL,
+  p_region text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_quantity numeric DEFAULT NULL,
+  p_min_rating numeric DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_near text DEFAULT NULL,
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  seller_id uuid,
+  crop_name text,
+  quantity numeric,
+  available_quantity numeric,
+  price_per_kg numeric,
+  location text,
+  image_urls text[],
+  created_at timestamptz,
+  seller_name text,
+  seller_rating numeric,
+  seller_review_count bigint,
+  proximity integer,
+  sort_cursor text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(LOWER(TRIM(p_query)), '') AS q,
+      NULLIF(LOWER(TRIM(p_crop)), '') AS crop,
+      NULLIF(LOWER(TRIM(p_region)), '') AS region,
+      -- "Nearest" is measured from the given place, or the caller's profile location
+      COALESCE(
+        NULLIF(LOWER(TRIM(p_near)), ''),
+        (SELECT NULLIF(LOWER(TRIM(pr.location)), '') FROM profiles pr WHERE pr.id = auth.uid())
+      ) AS near,
+      CASE WHEN p_sort IN ('newest', 'cheapest', 'nearest') THEN p_sort ELSE 'newest' END AS sort,
+      LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50) AS page_size
+  ),
+  cursor_values AS (
+    SELECT
+      split_part(p_cursor, '|', 1)::numeric AS sort_key,
+      split_part(p_cursor, '|', 2)::timestamptz AS created_at,
+      split_part(p_cursor, '|', 3)::uuid AS id
+    WHERE p_cursor IS NOT NULL
+  ),
+  candidates AS (
+    SELECT
+      ml.*,
+      pr.full_name AS seller_name,
+      ROUND(COALESCE(rv.avg_rating, 0), 1) AS seller_rating,
+      COALESCE(rv.review_count, 0) AS seller_review_count,
+      CASE
+        WHEN params.near IS NULL THEN 2
+        WHEN LOWER(TRIM(ml.location)) = params.near THEN 0
+        WHEN LOWER(TRIM(ml.location)) LIKE '%' || params.near || '%'
+          OR params.near LIKE '%' || LOWER(TRIM(ml.location)) || '%' THEN 1
+        ELSE 2
+      END AS proximity,
+      params.sort
+    FROM marketplace_listings ml
+    CROSS JOIN params
+    LEFT JOIN profiles pr ON pr.id = ml.seller_id
+    LEFT JOIN LATERAL (
+      SELECT AVG(r.rating) AS avg_rating, COUNT(*) AS review_count
+      FROM reviews r
+      WHERE r.reviewee_id = ml.seller_id
+    ) rv ON true
+    WHERE ml.status = 'active'
+      AND (params.q IS NULL
+        OR LOWER(ml.crop_name) LIKE '%' || params.q || '%'
+        OR LOWER(ml.location) LIKE '%' || params.q || '%'
+        OR LOWER(COALESCE(pr.full_name, '')) LIKE '%' || params.q || '%')
+      AND (params.crop IS NULL OR LOWER(TRIM(ml.crop_name)) = params.crop)
+      -- Same rule as isRegionCompatible(): equal, or one place name contains the other
+      AND (params.region IS NULL
+        OR LOWER(TRIM(ml.location)) LIKE '%' || params.region || '%'
+        OR params.region LIKE '%' || LOWER(TRIM(ml.location)) || '%')
+      AND (p_min_price IS NULL OR ml.price_per_kg >= p_min_price)
+      AND (p_max_price IS NULL OR ml.price_per_kg <= p_max_price)
+      AND (p_min_quantity IS NULL OR ml.available_quantity >= p_min_quantity)
+      AND (p_min_rating IS NULL OR COALESCE(rv.avg_rating, 0) >= p_min_rating)
+  ),
+  keyed AS (
+    SELECT
+      c.*,
+      CASE c.sort
+        WHEN 'cheapest' THEN c.price_per_kg
+        WHEN 'nearest' THEN c.proximity::numeric
+        ELSE 0
+      END AS sort_key
+    FROM candidates c
+  )
+  SELECT
+    k.id,
+    k.seller_id,
+    k.crop_name,
+    k.quantity,
+    k.available_quantity,
+    k.price_per_kg,
+    k.location,
+    k.image_urls,
+    k.created_at,
+    k.seller_name,
+    k.seller_rating,
+    k.seller_review_count,
+    k.proximity,
+    k.sort_key::text || '|' || k.created_at::text || '|' || k.id::text AS sort_cursor
+  FROM keyed k
+  LEFT JOIN cursor_values cv ON true
+  WHERE p_cursor IS NULL
+    OR k.sort_key > cv.sort_key
+    OR (k.sort_key = cv.sort_key AND (k.created_at, k.id) < (cv.created_at, cv.id))
+  ORDER BY k.sort_key ASC, k.created_at DESC, k.id DESC
+  LIMIT (SELECT page_size FROM params);
+$$;
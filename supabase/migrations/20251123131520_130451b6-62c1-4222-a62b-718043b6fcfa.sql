@@ -0,0 +1,170 @@
+-- How long a listing stays up before it must be renewed, by crop perishability
+CREATE TABLE public.crop_shelf_life (
+  crop_name text PRIMARY KEY CHECK (crop_name = LOWER(TRIM(crop_name))),
+  perishability text NOT NULL CHECK (perishability IN ('high', 'medium', 'low')),
+  shelf_life_days integer NOT NULL CHECK (shelf_life_days > 0)
+);
+
+ALTER TABLE public.crop_shelf_life ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view crop shelf life"
+  ON public.crop_shelf_life FOR SELECT
+  USING (true);
+
+INSERT INTO public.crop_shelf_life (crop_name, perishability, shelf_life_days) VALUES
+  -- Leafy greens, soft fruit and dairy spoil within days
+  ('tomatoes', 'high', 7),
+  ('kale', 'high', 5),
+  ('sukuma wiki', 'high', 5),
+  ('spinach', 'high', 5),
+  ('managu', 'high', 5),
+  ('avocados', 'high', 10),
+  ('mangoes', 'high', 7),
+  ('bananas', 'high', 7),
+  ('passion fruit', 'high', 10),
+  ('french beans', 'high', 5),
+  ('milk', 'high', 3),
+  -- Roots, bulbs and hardy vegetables keep for a few weeks
+  ('potatoes', 'medium', 21),
+  ('sweet potatoes', 'medium', 21),
+  ('onions', 'medium', 30),
+  ('carrots', 'medium', 14),
+  ('cabbages', 'medium', 14),
+  ('pumpkins', 'medium', 30),
+  ('watermelons', 'medium', 14),
+  -- Dry grains, pulses and cash crops store for months
+  ('maize', 'low', 60),
+  ('beans', 'low', 60),
+  ('wheat', 'low', 60),
+  ('rice', 'low', 60),
+  ('sorghum', 'low', 60),
+  ('millet', 'low', 60),
+  ('green grams', 'low', 60),
+  ('groundnuts', 'low', 60),
+  ('coffee', 'low', 60),
+  ('tea', 'low', 60)
+ON CONFLICT (crop_name) DO NOTHING;
+
+-- Function to get a crop's listing lifetime (crops not in the table get 14 days)
+CREATE OR REPLACE FUNCTION public.listing_shelf_life_days(p_crop_name text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT shelf_life_days FROM crop_shelf_life WHERE crop_name = LOWER(TRIM(p_crop_name))),
+    14
+  );
+$$;
+
+-- Listings now expire; the expire-listings job warns sellers and then marks them 'expired'
+ALTER TABLE public.marketplace_listings
+ADD COLUMN expires_at timestamptz,
+ADD COLUMN expiry_warned_at timestamptz;
+
+ALTER TABLE public.marketplace_listings
+DROP CONSTRAINT IF EXISTS marketplace_listings_status_check;
+
+ALTER TABLE public.marketplace_listings
+ADD CONSTRAINT marketplace_listings_status_check CHECK (status IN ('active', 'sold', 'sold_out', 'inactive', 'expired'));
+
+-- Existing listings get their normal lifetime, but at least 3 days' notice before expiring
+UPDATE public.marketplace_listings
+SET expires_at = GREATEST(
+  created_at + make_interval(days => public.listing_shelf_life_days(crop_name)),
+  now() + interval '3 days'
+);
+
+ALTER TABLE public.marketplace_listings
+ALTER COLUMN expires_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_listings_active_expires
+  ON public.marketplace_listings (expires_at)
+  WHERE status = 'active';
+
+-- Function to default expires_at from the crop's shelf life on new listings
+CREATE OR REPLACE FUNCTION public.set_listing_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.expires_at IS NULL THEN
+    NEW.expires_at := now() + make_interval(days => listing_shelf_life_days(NEW.crop_name));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_listing_created_set_expiry ON public.marketplace_listings;
+CREATE TRIGGER on_listing_created_set_expiry
+  BEFORE INSERT ON public.marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_listing_expiry();
+
+-- Function to renew an expiring or expired listing for another shelf-life period
+CREATE OR REPLACE FUNCTION public.renew_listing(p_listing_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_expires_at timestamptz;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  IF v_listing.status NOT IN ('active', 'expired') THEN
+    RAISE EXCEPTION 'Only active or expired listings can be renewed';
+  END IF;
+
+  IF v_listing.available_quantity <= 0 THEN
+    RAISE EXCEPTION 'This listing has no stock left to sell';
+  END IF;
+
+  v_expires_at := now() + make_interval(days => listing_shelf_life_days(v_listing.crop_name));
+
+  UPDATE public.marketplace_listings
+  SET
+    status = 'active',
+    expires_at = v_expires_at,
+    expiry_warned_at = NULL
+  WHERE id = p_listing_id;
+
+  RETURN v_expires_at;
+END;
+$$;
+
+-- Cancelling an order must not bring an expired listing back
+CREATE OR REPLACE FUNCTION public.release_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled'
+    AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND NEW.listing_id IS NOT NULL THEN
+    UPDATE public.marketplace_listings
+    SET
+      available_quantity = LEAST(available_quantity + NEW.quantity, quantity),
+      status = CASE
+        WHEN status = 'sold_out' AND expires_at > now() THEN 'active'
+        WHEN status = 'sold_out' THEN 'expired'
+        ELSE status
+      END
+    WHERE id = NEW.listing_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
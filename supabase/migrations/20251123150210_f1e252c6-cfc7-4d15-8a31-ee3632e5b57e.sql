@@ -0,0 +1,262 @@
+-- Units of measure produce is traded in. default_kg is NULL for units whose
+-- weight depends on the crop (a crate of tomatoes vs a crate of mangoes)
+CREATE TABLE public.units (
+  code text PRIMARY KEY,
+  label text NOT NULL,
+  plural_label text NOT NULL,
+  default_kg numeric CHECK (default_kg IS NULL OR default_kg > 0),
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view units"
+  ON public.units FOR SELECT
+  USING (true);
+
+INSERT INTO public.units (code, label, plural_label, default_kg, sort_order) VALUES
+  ('kg', 'kg', 'kg', 1, 0),
+  ('bag_90kg', '90kg bag', '90kg bags', 90, 1),
+  ('bag_50kg', '50kg bag', '50kg bags', 50, 2),
+  ('tonne', 'tonne', 'tonnes', 1000, 3),
+  ('crate', 'crate', 'crates', NULL, 4),
+  ('bunch', 'bunch', 'bunches', NULL, 5)
+ON CONFLICT (code) DO NOTHING;
+
+-- Crop-specific weights; override default_kg and enable crop-only units
+CREATE TABLE public.crop_unit_conversions (
+  crop_name text NOT NULL CHECK (crop_name = LOWER(TRIM(crop_name))),
+  unit_code text NOT NULL REFERENCES public.units(code) ON DELETE CASCADE,
+  kg_per_unit numeric NOT NULL CHECK (kg_per_unit > 0),
+  PRIMARY KEY (crop_name, unit_code)
+);
+
+ALTER TABLE public.crop_unit_conversions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view crop unit conversions"
+  ON public.crop_unit_conversions FOR SELECT
+  USING (true);
+
+INSERT INTO public.crop_unit_conversions (crop_name, unit_code, kg_per_unit) VALUES
+  ('tomatoes', 'crate', 64),
+  ('mangoes', 'crate', 25),
+  ('avocados', 'crate', 25),
+  ('passion fruit', 'crate', 20),
+  ('bananas', 'bunch', 15),
+  ('kale', 'bunch', 1),
+  ('sukuma wiki', 'bunch', 1),
+  ('spinach', 'bunch', 0.5),
+  ('managu', 'bunch', 0.5)
+ON CONFLICT (crop_name, unit_code) DO NOTHING;
+
+-- Function to get how many kg one unit of a crop weighs (NULL if the crop isn't sold in that unit)
+CREATE OR REPLACE FUNCTION public.unit_kg_factor(p_crop_name text, p_unit text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT kg_per_unit FROM crop_unit_conversions
+     WHERE crop_name = LOWER(TRIM(p_crop_name)) AND unit_code = p_unit),
+    (SELECT default_kg FROM units WHERE code = p_unit)
+  );
+$$;
+
+-- Listings keep quantities and prices in kg; unit and unit_kg record how the seller
+-- sells it so the app can show "3 crates at KES 4,200/crate"
+ALTER TABLE public.marketplace_listings
+ADD COLUMN unit text NOT NULL DEFAULT 'kg' REFERENCES public.units(code),
+ADD COLUMN unit_kg numeric NOT NULL DEFAULT 1 CHECK (unit_kg > 0);
+
+-- Orders snapshot the listing's unit so history reads the same if the listing changes
+ALTER TABLE public.orders
+ADD COLUMN unit text NOT NULL DEFAULT 'kg' REFERENCES public.units(code),
+ADD COLUMN unit_kg numeric NOT NULL DEFAULT 1 CHECK (unit_kg > 0);
+
+-- Function to derive unit_kg from the crop's conversion table; clients cannot set it
+CREATE OR REPLACE FUNCTION public.set_listing_unit_kg()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.unit_kg := unit_kg_factor(NEW.crop_name, NEW.unit);
+
+  IF NEW.unit_kg IS NULL THEN
+    RAISE EXCEPTION '% is not sold by %', NEW.crop_name, NEW.unit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_listing_unit_set_kg ON public.marketplace_listings;
+CREATE TRIGGER on_listing_unit_set_kg
+  BEFORE INSERT OR UPDATE OF unit, unit_kg, crop_name ON public.marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_listing_unit_kg();
+
+-- Function to copy the listing's unit onto a new order
+CREATE OR REPLACE FUNCTION public.set_order_unit()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT unit, unit_kg INTO NEW.unit, NEW.unit_kg
+  FROM marketplace_listings
+  WHERE id = NEW.listing_id;
+
+  -- Listing gone: fall back to plain kilograms
+  NEW.unit := COALESCE(NEW.unit, 'kg');
+  NEW.unit_kg := COALESCE(NEW.unit_kg, 1);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_created_set_unit ON public.orders;
+CREATE TRIGGER on_order_created_set_unit
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_order_unit();
+
+-- search_listings gains unit columns, so its return type changes
+DROP FUNCTION IF EXISTS public.search_listings(text, text, text, numeric, numeric, numeric, numeric, text, text, text, integer);
+
+-- Function to search active marketplace listings with filters, sorting and cursor pagination
+-- Every sort order is reduced to (sort_key ASC, created_at DESC, id DESC):
+--   newest   -> sort_key = 0
+--   cheapest -> sort_key = price_per_kg
+--   nearest  -> sort_key = proximity (0 same place, 1 overlapping place name, 2 elsewhere)
+-- sort_cursor of the last row ("sort_key|created_at|id") is passed back as p_cursor for the next page
+-- Quantities and prices are per kg; unit/unit_kg say how the seller sells it
+CREATE OR REPLACE FUNCTION public.search_listings(
+  p_query text DEFAULT NULL,
+  p_crop text DEFAULT NULL,
+  p_region text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_quantity numeric DEFAULT NULL,
+  p_min_rating numeric DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_near text DEFAULT NULL,
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  seller_id uuid,
+  crop_name text,
+  quantity numeric,
+  available_quantity numeric,
+  price_per_kg numeric,
+  location text,
+  image_urls text[],
+  unit text,
+  unit_kg numeric,
+  created_at timestamptz,
+  seller_name text,
+  seller_rating numeric,
+  seller_review_count bigint,
+  proximity integer,
+  sort_cursor text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(LOWER(TRIM(p_query)), '') AS q,
+      NULLIF(LOWER(TRIM(p_crop)), '') AS crop,
+      NULLIF(LOWER(TRIM(p_region)), '') AS region,
+      -- "Nearest" is measured from the given place, or the caller's profile location
+      COALESCE(
+        NULLIF(LOWER(TRIM(p_near)), ''),
+        (SELECT NULLIF(LOWER(TRIM(pr.location)), '') FROM profiles pr WHERE pr.id = auth.uid())
+      ) AS near,
+      CASE WHEN p_sort IN ('newest', 'cheapest', 'nearest') THEN p_sort ELSE 'newest' END AS sort,
+      LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50) AS page_size
+  ),
+  cursor_values AS (
+    SELECT
+      split_part(p_cursor, '|', 1)::numeric AS sort_key,
+      split_part(p_cursor, '|', 2)::timestamptz AS created_at,
+      split_part(p_cursor, '|', 3)::uuid AS id
+    WHERE p_cursor IS NOT NULL
+  ),
+  candidates AS (
+    SELECT
+      ml.*,
+      pr.full_name AS seller_name,
+      ROUND(COALESCE(rv.avg_rating, 0), 1) AS seller_rating,
+      COALESCE(rv.review_count, 0) AS seller_review_count,
+      CASE
+        WHEN params.near IS NULL THEN 2
+        WHEN LOWER(TRIM(ml.location)) = params.near THEN 0
+        WHEN LOWER(TRIM(ml.location)) LIKE '%' || params.near || '%'
+          OR params.near LIKE '%' || LOWER(TRIM(ml.location)) || '%' THEN 1
+        ELSE 2
+      END AS proximity,
+      params.sort
+    FROM marketplace_listings ml
+    CROSS JOIN params
+    LEFT JOIN profiles pr ON pr.id = ml.seller_id
+    LEFT JOIN LATERAL (
+      SELECT AVG(r.rating) AS avg_rating, COUNT(*) AS review_count
+      FROM reviews r
+      WHERE r.reviewee_id = ml.seller_id
+    ) rv ON true
+    WHERE ml.status = 'active'
+      AND (params.q IS NULL
+        OR LOWER(ml.crop_name) LIKE '%' || params.q || '%'
+        OR LOWER(ml.location) LIKE '%' || params.q || '%'
+        OR LOWER(COALESCE(pr.full_name, '')) LIKE '%' || params.q || '%')
+      AND (params.crop IS NULL OR LOWER(TRIM(ml.crop_name)) = params.crop)
+      -- Same rule as isRegionCompatible(): equal, or one place name contains the other
+      AND (params.region IS NULL
+        OR LOWER(TRIM(ml.location)) LIKE '%' || params.region || '%'
+        OR params.region LIKE '%' || LOWER(TRIM(ml.location)) || '%')
+      AND (p_min_price IS NULL OR ml.price_per_kg >= p_min_price)
+      AND (p_max_price IS NULL OR ml.price_per_kg <= p_max_price)
+      AND (p_min_quantity IS NULL OR ml.available_quantity >= p_min_quantity)
+      AND (p_min_rating IS NULL OR COALESCE(rv.avg_rating, 0) >= p_min_rating)
+  ),
+  keyed AS (
+    SELECT
+      c.*,
+      CASE c.sort
+        WHEN 'cheapest' THEN c.price_per_kg
+        WHEN 'nearest' THEN c.proximity::numeric
+        ELSE 0
+      END AS sort_key
+    FROM candidates c
+  )
+  SELECT
+    k.id,
+    k.seller_id,
+    k.crop_name,
+    k.quantity,
+    k.available_quantity,
+    k.price_per_kg,
+    k.location,
+    k.image_urls,
+    k.unit,
+    k.unit_kg,
+    k.created_at,
+    k.seller_name,
+    k.seller_rating,
+    k.seller_review_count,
+    k.proximity,
+    k.sort_key::text || '|' || k.created_at::text || '|' || k.id::text AS sort_cursor
+  FROM keyed k
+  LEFT JOIN cursor_values cv ON true
+  WHERE p_cursor IS NULL
+    OR k.sort_key > cv.sort_key
+    OR (k.sort_key = cv.sort_key AND (k.created_at, k.id) < (cv.created_at, cv.id))
+  ORDER BY k.sort_key ASC, k.created_at DESC, k.id DESC
+  LIMIT (SELECT page_size FROM params);
+$$;
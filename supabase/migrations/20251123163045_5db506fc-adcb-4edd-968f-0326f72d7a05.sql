@@ -0,0 +1,145 @@
+-- Index backing the response time lookup (replies by a user within a conversation)
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_sender_created
+  ON public.messages (conversation_id, sender_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_created
+  ON public.messages (recipient_id, created_at);
+
+-- Function to build a user's public reputation profile
+-- profiles, orders and messages are private under RLS, so only aggregates and the
+-- public fields (name, location, member since) are exposed here.
+--   completion_rate / cancellation_rate: share of the user's finished sales (completed or cancelled)
+--   median_response_minutes: median time to the user's first reply after a buyer writes,
+--                            over the last 90 days (NULL when there is nothing to measure)
+CREATE OR REPLACE FUNCTION public.get_seller_profile(p_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  location text,
+  member_since timestamptz,
+  avg_rating numeric,
+  review_count bigint,
+  rating_counts integer[],
+  completed_orders bigint,
+  cancelled_orders bigint,
+  completion_rate numeric,
+  cancellation_rate numeric,
+  median_response_minutes numeric,
+  active_listings bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH review_stats AS (
+    SELECT
+      ROUND(COALESCE(AVG(r.rating), 0), 1) AS avg_rating,
+      COUNT(*) AS review_count,
+      -- rating_counts[1] is the number of 1-star reviews ... rating_counts[5] of 5-star
+      ARRAY[
+        COUNT(*) FILTER (WHERE r.rating = 1)::integer,
+        COUNT(*) FILTER (WHERE r.rating = 2)::integer,
+        COUNT(*) FILTER (WHERE r.rating = 3)::integer,
+        COUNT(*) FILTER (WHERE r.rating = 4)::integer,
+        COUNT(*) FILTER (WHERE r.rating = 5)::integer
+      ] AS rating_counts
+    FROM reviews r
+    WHERE r.reviewee_id = p_user_id
+  ),
+  order_stats AS (
+    SELECT
+      COUNT(*) FILTER (WHERE o.status = 'completed') AS completed_orders,
+      COUNT(*) FILTER (WHERE o.status = 'cancelled') AS cancelled_orders
+    FROM orders o
+    WHERE o.seller_id = p_user_id
+  ),
+  incoming AS (
+    SELECT
+      m.conversation_id,
+      m.created_at,
+      (
+        SELECT MIN(reply.created_at)
+        FROM messages reply
+        WHERE reply.conversation_id = m.conversation_id
+          AND reply.sender_id = p_user_id
+          AND reply.created_at > m.created_at
+      ) AS replied_at
+    FROM messages m
+    WHERE m.recipient_id = p_user_id
+      AND m.created_at > now() - interval '90 days'
+  ),
+  -- One response per reply: measured from the first message it answers
+  responses AS (
+    SELECT EXTRACT(EPOCH FROM (replied_at - MIN(created_at))) / 60 AS minutes
+    FROM incoming
+    WHERE replied_at IS NOT NULL
+    GROUP BY conversation_id, replied_at
+  )
+  SELECT
+    pr.id,
+    pr.full_name,
+    pr.location,
+    pr.created_at AS member_since,
+    rs.avg_rating,
+    rs.review_count,
+    rs.rating_counts,
+    os.completed_orders,
+    os.cancelled_orders,
+    CASE WHEN os.completed_orders + os.cancelled_orders > 0
+      THEN ROUND(100.0 * os.completed_orders / (os.completed_orders + os.cancelled_orders), 1)
+    END AS completion_rate,
+    CASE WHEN os.completed_orders + os.cancelled_orders > 0
+      THEN ROUND(100.0 * os.cancelled_orders / (os.completed_orders + os.cancelled_orders), 1)
+    END AS cancellation_rate,
+    (SELECT ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY minutes))::numeric, 0) FROM responses)
+      AS median_response_minutes,
+    (
+      SELECT COUNT(*)
+      FROM marketplace_listings ml
+      WHERE ml.seller_id = p_user_id
+        AND ml.status = 'active'
+        AND ml.expires_at > now()
+    ) AS active_listings
+  FROM profiles pr
+  CROSS JOIN review_stats rs
+  CROSS JOIN order_stats os
+  WHERE pr.id = p_user_id;
+$$;
+
+-- Function to list the reviews a user has received, newest first, with reviewer names
+-- p_before (created_at of the last review shown) loads the next page
+CREATE OR REPLACE FUNCTION public.get_seller_reviews(
+  p_user_id uuid,
+  p_before timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  rating integer,
+  comment text,
+  created_at timestamptz,
+  reviewer_name text,
+  crop_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.rating,
+    r.comment,
+    r.created_at,
+    pr.full_name AS reviewer_name,
+    ml.crop_name
+  FROM reviews r
+  LEFT JOIN profiles pr ON pr.id = r.reviewer_id
+  LEFT JOIN orders o ON o.id = r.order_id
+  LEFT JOIN marketplace_listings ml ON ml.id = o.listing_id
+  WHERE r.reviewee_id = p_user_id
+    AND (p_before IS NULL OR r.created_at < p_before)
+  ORDER BY r.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+$$;
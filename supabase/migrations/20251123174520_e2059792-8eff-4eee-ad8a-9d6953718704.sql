@@ -0,0 +1,570 @@
+-- Staff roles granted outside the app (e.g. from the SQL editor)
+-- 'resolver' may rule on order disputes
+CREATE TABLE public.user_roles (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('resolver')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles"
+  ON public.user_roles FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Function to check a role without exposing user_roles to other users
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id uuid, p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles WHERE user_id = p_user_id AND role = p_role
+  );
+$$;
+
+-- Disputes raised on an order by the buyer or seller
+CREATE TABLE public.disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  opened_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('short_delivery', 'spoiled', 'not_delivered', 'wrong_item', 'other')),
+  description text NOT NULL CHECK (char_length(description) BETWEEN 10 AND 2000),
+  evidence_paths text[] NOT NULL DEFAULT '{}' CHECK (cardinality(evidence_paths) <= 6), -- dispute-evidence bucket
+  requested_remedy text NOT NULL CHECK (requested_remedy IN ('refund', 'partial_refund', 'redelivery')),
+  requested_amount numeric(12,2) CHECK (requested_amount > 0), -- Only for partial refunds
+  order_status_before text NOT NULL, -- Restored when the dispute is withdrawn
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'withdrawn')),
+  resolution text CHECK (resolution IN ('full_refund', 'partial_refund', 'redelivery', 'rejected')),
+  refund_amount numeric(12,2),
+  resolution_note text,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_disputes_order_id ON public.disputes(order_id, created_at DESC);
+CREATE INDEX idx_disputes_open ON public.disputes(created_at) WHERE status = 'open';
+
+-- Only one open dispute per order
+CREATE UNIQUE INDEX idx_disputes_one_open_per_order
+  ON public.disputes(order_id)
+  WHERE status = 'open';
+
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+-- Order parties and resolvers can read; all writes go through the dispute functions
+CREATE POLICY "Order parties and resolvers can view disputes"
+  ON public.disputes FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'resolver') OR
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = disputes.order_id
+        AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE TRIGGER update_disputes_updated_at
+  BEFORE UPDATE ON public.disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so the order card picks up rulings
+ALTER TABLE public.disputes REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.disputes;
+
+-- Private storage bucket for dispute evidence photos
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.buckets WHERE id = 'dispute-evidence'
+  ) THEN
+    INSERT INTO storage.buckets (id, name, public) VALUES ('dispute-evidence', 'dispute-evidence', false);
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Order parties and resolvers can read dispute-evidence" ON storage.objects;
+DROP POLICY IF EXISTS "Order parties can upload to dispute-evidence in their own folder" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own files in dispute-evidence" ON storage.objects;
+
+-- Files live under {order_id}/{user_id}/filename
+CREATE POLICY "Order parties and resolvers can read dispute-evidence"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'dispute-evidence' AND (
+    public.has_role(auth.uid(), 'resolver') OR
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id::text = (storage.foldername(name))[1]
+        AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  )
+);
+
+CREATE POLICY "Order parties can upload to dispute-evidence in their own folder"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'dispute-evidence'
+  AND auth.uid()::text = (storage.foldername(name))[2]
+  AND EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id::text = (storage.foldername(name))[1]
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own files in dispute-evidence"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'dispute-evidence' AND auth.uid()::text = (storage.foldername(name))[2]
+);
+
+-- Orders gain a 'disputed' state that freezes them until a ruling
+ALTER TABLE public.orders
+DROP CONSTRAINT IF EXISTS orders_status_check;
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check CHECK (status IN ('requested', 'confirmed', 'in-transit', 'delivered', 'completed', 'cancelled', 'disputed'));
+
+-- Payments can be split by a partial-refund ruling
+ALTER TABLE public.payments
+ADD COLUMN refunded_amount numeric(12,2);
+
+ALTER TABLE public.payments
+DROP CONSTRAINT IF EXISTS payments_status_check;
+
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_status_check CHECK (status IN ('pending', 'held', 'failed', 'released', 'refunded', 'partially_refunded'));
+
+-- Trigger to reject any status change that skips or reverses the flow
+-- A dispute may freeze a confirmed, in-transit or delivered order; the ruling moves it on
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'requested' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('in-transit', 'cancelled', 'disputed')) OR
+    (OLD.status = 'in-transit' AND NEW.status IN ('delivered', 'disputed')) OR
+    (OLD.status = 'delivered' AND NEW.status IN ('completed', 'disputed')) OR
+    (OLD.status = 'disputed' AND NEW.status IN ('confirmed', 'in-transit', 'delivered', 'completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Stock from a refunded dispute was shipped (or lost), so it is not put back on sale
+CREATE OR REPLACE FUNCTION public.release_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled'
+    AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND OLD.status IS DISTINCT FROM 'disputed'
+    AND NEW.listing_id IS NOT NULL THEN
+    UPDATE public.marketplace_listings
+    SET
+      available_quantity = LEAST(available_quantity + NEW.quantity, quantity),
+      status = CASE
+        WHEN status = 'sold_out' AND expires_at > now() THEN 'active'
+        WHEN status = 'sold_out' THEN 'expired'
+        ELSE status
+      END
+    WHERE id = NEW.listing_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Function to open a dispute on an order and freeze it
+CREATE OR REPLACE FUNCTION public.open_dispute(
+  p_order_id uuid,
+  p_reason text,
+  p_description text,
+  p_requested_remedy text,
+  p_requested_amount numeric DEFAULT NULL,
+  p_evidence_paths text[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_dispute_id uuid;
+  v_other_party uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id NOT IN (v_order.buyer_id, v_order.seller_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('confirmed', 'in-transit', 'delivered') THEN
+    RAISE EXCEPTION 'Disputes can only be opened on confirmed, in-transit or delivered orders';
+  END IF;
+
+  IF p_requested_remedy = 'partial_refund' AND (p_requested_amount IS NULL OR p_requested_amount >= v_order.amount) THEN
+    RAISE EXCEPTION 'A partial refund must be less than the order total of KES %', v_order.amount;
+  END IF;
+
+  -- Evidence must have been uploaded to this order's folder by the caller
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_evidence_paths, '{}')) AS path
+    WHERE path NOT LIKE p_order_id::text || '/' || v_user_id::text || '/%'
+  ) THEN
+    RAISE EXCEPTION 'Invalid evidence file';
+  END IF;
+
+  INSERT INTO public.disputes (
+    order_id, opened_by, reason, description, evidence_paths,
+    requested_remedy, requested_amount, order_status_before
+  )
+  VALUES (
+    p_order_id, v_user_id, p_reason, TRIM(p_description), COALESCE(p_evidence_paths, '{}'),
+    p_requested_remedy,
+    CASE WHEN p_requested_remedy = 'partial_refund' THEN p_requested_amount END,
+    v_order.status
+  )
+  RETURNING id INTO v_dispute_id;
+
+  UPDATE public.orders
+  SET status = 'disputed'
+  WHERE id = p_order_id;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (p_order_id, v_order.status, 'disputed', v_user_id, 'Dispute opened: ' || replace(p_reason, '_', ' '));
+
+  -- Tell the other party and everyone who can rule on it
+  v_other_party := CASE WHEN v_user_id = v_order.buyer_id THEN v_order.seller_id ELSE v_order.buyer_id END;
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    v_other_party,
+    'order',
+    '⚠️ Order Disputed',
+    'A dispute has been opened on your order. The order and any payment in escrow are on hold until it is resolved.',
+    jsonb_build_object('order_id', p_order_id, 'dispute_id', v_dispute_id)
+  );
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  SELECT
+    ur.user_id,
+    'system',
+    '⚖️ New Dispute',
+    format('A KES %s order needs a ruling (%s).', v_order.amount, replace(p_reason, '_', ' ')),
+    jsonb_build_object('order_id', p_order_id, 'dispute_id', v_dispute_id)
+  FROM public.user_roles ur
+  WHERE ur.role = 'resolver';
+
+  RETURN v_dispute_id;
+END;
+$$;
+
+-- Function for the party who opened a dispute to withdraw it and unfreeze the order
+CREATE OR REPLACE FUNCTION public.withdraw_dispute(p_dispute_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_dispute public.disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM public.disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_dispute.opened_by IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute is already %', v_dispute.status;
+  END IF;
+
+  UPDATE public.disputes
+  SET status = 'withdrawn'
+  WHERE id = p_dispute_id;
+
+  UPDATE public.orders
+  SET status = v_dispute.order_status_before
+  WHERE id = v_dispute.order_id;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (v_dispute.order_id, 'disputed', v_dispute.order_status_before, v_user_id, 'Dispute withdrawn');
+END;
+$$;
+
+-- Function for a resolver to rule on a dispute
+-- The ruling decides where the order, the escrowed money and the completion points go:
+--   full_refund    -> order cancelled, escrow refunded, no points
+--   partial_refund -> order completed, refund_amount to the buyer and the rest to the seller,
+--                     half points for the seller
+--   redelivery     -> order back in transit with escrow still held; points on completion
+--   rejected       -> order resumes; a delivered order completes and escrow is released
+-- Reviews are allowed once the order is completed, or refunded in full by a ruling
+CREATE OR REPLACE FUNCTION public.resolve_dispute(
+  p_dispute_id uuid,
+  p_resolution text,
+  p_refund_amount numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_dispute public.disputes%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_payment public.payments%ROWTYPE;
+  v_new_status text;
+  v_summary text;
+BEGIN
+  IF NOT public.has_role(v_user_id, 'resolver') THEN
+    RAISE EXCEPTION 'Only dispute resolvers can rule on disputes';
+  END IF;
+
+  IF p_resolution NOT IN ('full_refund', 'partial_refund', 'redelivery', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown resolution %', p_resolution;
+  END IF;
+
+  SELECT * INTO v_dispute
+  FROM public.disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute is already %', v_dispute.status;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_dispute.order_id
+  FOR UPDATE;
+
+  IF v_user_id IN (v_order.buyer_id, v_order.seller_id) THEN
+    RAISE EXCEPTION 'You cannot rule on a dispute about your own order';
+  END IF;
+
+  IF p_resolution = 'partial_refund' AND (p_refund_amount IS NULL OR p_refund_amount <= 0 OR p_refund_amount >= v_order.amount) THEN
+    RAISE EXCEPTION 'A partial refund must be between 0 and the order total of KES %', v_order.amount;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE order_id = v_order.id AND status = 'held'
+  FOR UPDATE;
+
+  -- Step 1: Decide the order's next status
+  v_new_status := CASE p_resolution
+    WHEN 'full_refund' THEN 'cancelled'
+    WHEN 'partial_refund' THEN 'completed'
+    WHEN 'redelivery' THEN 'in-transit'
+    ELSE CASE WHEN v_dispute.order_status_before = 'delivered' THEN 'completed' ELSE v_dispute.order_status_before END
+  END;
+
+  IF v_new_status = 'in-transit' AND v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Redelivery needs the buyer''s payment to be held in escrow';
+  END IF;
+
+  -- Step 2: Split the escrow for a partial refund before completing the order,
+  -- so settle_order_escrow finds nothing left to release
+  IF p_resolution = 'partial_refund' AND v_payment.id IS NOT NULL THEN
+    UPDATE public.payments
+    SET status = 'partially_refunded', refunded_amount = p_refund_amount, settled_at = now()
+    WHERE id = v_payment.id;
+  END IF;
+
+  UPDATE public.disputes
+  SET
+    status = 'resolved',
+    resolution = p_resolution,
+    refund_amount = CASE
+      WHEN p_resolution = 'full_refund' THEN v_order.amount
+      WHEN p_resolution = 'partial_refund' THEN p_refund_amount
+    END,
+    resolution_note = NULLIF(TRIM(p_note), ''),
+    resolved_by = v_user_id,
+    resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  -- Step 3: Move the order on; settle_order_escrow refunds or releases held funds
+  UPDATE public.orders
+  SET status = v_new_status
+  WHERE id = v_order.id;
+
+  v_summary := CASE p_resolution
+    WHEN 'full_refund' THEN 'Dispute resolved: full refund to the buyer'
+    WHEN 'partial_refund' THEN format('Dispute resolved: KES %s refunded to the buyer', p_refund_amount)
+    WHEN 'redelivery' THEN 'Dispute resolved: seller to redeliver'
+    ELSE 'Dispute resolved in the seller''s favour'
+  END;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (v_order.id, 'disputed', v_new_status, v_user_id, v_summary);
+
+  -- Step 4: Completion points follow the ruling
+  IF v_new_status = 'completed' THEN
+    PERFORM public.award_points(
+      v_order.seller_id,
+      CASE WHEN p_resolution = 'partial_refund' THEN 25 ELSE 50 END,
+      'completing a sale'
+    );
+    PERFORM public.award_points(v_order.buyer_id, 25, 'completing a purchase');
+  END IF;
+
+  -- Step 5: Tell both parties
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  SELECT
+    party,
+    'order',
+    '⚖️ Dispute Resolved',
+    v_summary || COALESCE('. ' || NULLIF(TRIM(p_note), ''), '') || '.',
+    jsonb_build_object('order_id', v_order.id, 'dispute_id', p_dispute_id)
+  FROM unnest(ARRAY[v_order.buyer_id, v_order.seller_id]) AS party;
+END;
+$$;
+
+-- Function listing disputes for the resolver queue, with names resolvers can't read directly
+CREATE OR REPLACE FUNCTION public.get_disputes_for_review(p_status text DEFAULT 'open')
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  opened_by uuid,
+  reason text,
+  description text,
+  evidence_paths text[],
+  requested_remedy text,
+  requested_amount numeric,
+  order_status_before text,
+  status text,
+  resolution text,
+  refund_amount numeric,
+  resolution_note text,
+  resolved_at timestamptz,
+  created_at timestamptz,
+  order_amount numeric,
+  order_quantity numeric,
+  order_unit text,
+  order_unit_kg numeric,
+  crop_name text,
+  buyer_id uuid,
+  buyer_name text,
+  seller_id uuid,
+  seller_name text,
+  payment_status text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'resolver') THEN
+    RAISE EXCEPTION 'Only dispute resolvers can view the dispute queue';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.order_id,
+    d.opened_by,
+    d.reason,
+    d.description,
+    d.evidence_paths,
+    d.requested_remedy,
+    d.requested_amount,
+    d.order_status_before,
+    d.status,
+    d.resolution,
+    d.refund_amount,
+    d.resolution_note,
+    d.resolved_at,
+    d.created_at,
+    o.amount,
+    o.quantity,
+    o.unit,
+    o.unit_kg,
+    ml.crop_name,
+    o.buyer_id,
+    buyer.full_name,
+    o.seller_id,
+    seller.full_name,
+    (
+      SELECT p.status FROM payments p
+      WHERE p.order_id = o.id
+      ORDER BY p.created_at DESC
+      LIMIT 1
+    )
+  FROM disputes d
+  JOIN orders o ON o.id = d.order_id
+  LEFT JOIN marketplace_listings ml ON ml.id = o.listing_id
+  LEFT JOIN profiles buyer ON buyer.id = o.buyer_id
+  LEFT JOIN profiles seller ON seller.id = o.seller_id
+  WHERE p_status IS NULL OR d.status = p_status
+  ORDER BY d.created_at ASC;
+END;
+$$;
+
+-- Reviews: only the other party of a finished order
+-- (completed, or refunded in full by a dispute ruling)
+DROP POLICY IF EXISTS "Users can create reviews" ON public.reviews;
+
+CREATE POLICY "Order parties can review finished orders"
+  ON public.reviews FOR INSERT
+  WITH CHECK (
+    auth.uid() = reviewer_id AND
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = reviews.order_id
+        AND (
+          (o.buyer_id = auth.uid() AND o.seller_id = reviews.reviewee_id) OR
+          (o.seller_id = auth.uid() AND o.buyer_id = reviews.reviewee_id)
+        )
+        AND (
+          o.status = 'completed' OR
+          EXISTS (
+            SELECT 1 FROM public.disputes d
+            WHERE d.order_id = o.id AND d.status = 'resolved' AND d.resolution = 'full_refund'
+          )
+        )
+    )
+  );
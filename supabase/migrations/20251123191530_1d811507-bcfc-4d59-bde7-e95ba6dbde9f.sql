@@ -0,0 +1,493 @@
+-- Market pickup points buyers can collect orders from
+CREATE TABLE public.pickup_points (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  location text NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pickup_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pickup points"
+  ON public.pickup_points FOR SELECT
+  USING (true);
+
+INSERT INTO public.pickup_points (name, location) VALUES
+  ('Wakulima (Marikiti) Market', 'Nairobi'),
+  ('Kongowea Market', 'Mombasa'),
+  ('Kibuye Market', 'Kisumu'),
+  ('Wakulima Market', 'Nakuru'),
+  ('Eldoret Municipal Market', 'Eldoret');
+
+-- Delivery tariff bands by distance from the farm.
+-- fee = base_fee + fee_per_kg * quantity (kg); max_distance_km NULL means no upper limit
+CREATE TABLE public.delivery_tariffs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL,
+  max_distance_km numeric CHECK (max_distance_km IS NULL OR max_distance_km > 0),
+  base_fee numeric(10,2) NOT NULL CHECK (base_fee >= 0),
+  fee_per_kg numeric(10,2) NOT NULL DEFAULT 0 CHECK (fee_per_kg >= 0),
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.delivery_tariffs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view delivery tariffs"
+  ON public.delivery_tariffs FOR SELECT
+  USING (true);
+
+INSERT INTO public.delivery_tariffs (label, max_distance_km, base_fee, fee_per_kg, sort_order) VALUES
+  ('Within 10 km', 10, 200, 1, 0),
+  ('10 - 50 km', 50, 500, 2, 1),
+  ('50 - 150 km', 150, 1200, 3, 2),
+  ('Over 150 km', NULL, 2500, 4, 3);
+
+-- Structured delivery on orders. delivery_details keeps the free-text address and notes;
+-- amount includes delivery_fee
+ALTER TABLE public.orders
+ADD COLUMN delivery_method text NOT NULL DEFAULT 'delivery'
+  CHECK (delivery_method IN ('farm_pickup', 'market_pickup', 'delivery')),
+ADD COLUMN pickup_point_id uuid REFERENCES public.pickup_points(id) ON DELETE SET NULL,
+ADD COLUMN delivery_tariff_id uuid REFERENCES public.delivery_tariffs(id) ON DELETE SET NULL,
+ADD COLUMN delivery_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0),
+ADD COLUMN pickup_window_start timestamptz,
+ADD COLUMN pickup_window_end timestamptz,
+ADD CONSTRAINT orders_pickup_window_check
+  CHECK (pickup_window_end IS NULL OR pickup_window_end > pickup_window_start);
+
+-- Confirmation codes the buyer hands over on receipt. Kept out of orders so the
+-- seller, who can read the order, never sees the code
+CREATE TABLE public.order_delivery_codes (
+  order_id uuid PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[0-9]{6}$'),
+  failed_attempts integer NOT NULL DEFAULT 0,
+  confirmed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.order_delivery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Only the buyer reads the code; writes go through triggers and confirm_delivery()
+CREATE POLICY "Buyers can view their delivery codes"
+  ON public.order_delivery_codes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_delivery_codes.order_id
+      AND orders.buyer_id = auth.uid()
+  ));
+
+-- Function to issue a six-digit delivery code for every new order
+CREATE OR REPLACE FUNCTION public.create_delivery_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_delivery_codes (order_id, code)
+  VALUES (NEW.id, lpad(floor(random() * 1000000)::int::text, 6, '0'));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_order_delivery_code ON public.orders;
+CREATE TRIGGER create_order_delivery_code
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_delivery_code();
+
+-- Orders still waiting on delivery need a code too
+INSERT INTO public.order_delivery_codes (order_id, code)
+SELECT id, lpad(floor(random() * 1000000)::int::text, 6, '0')
+FROM public.orders
+WHERE status IN ('requested', 'confirmed', 'in-transit', 'disputed')
+ON CONFLICT (order_id) DO NOTHING;
+
+-- Function to check a buyer's delivery choice before an order or offer is created
+-- Expects {method, address, notes, pickup_point_id, tariff_id, window_start, window_end}
+CREATE OR REPLACE FUNCTION public.validate_delivery_details(p_details jsonb)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_method text := p_details->>'method';
+  v_window_start timestamptz := (p_details->>'window_start')::timestamptz;
+  v_window_end timestamptz := (p_details->>'window_end')::timestamptz;
+BEGIN
+  IF v_method IS NULL OR v_method NOT IN ('farm_pickup', 'market_pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Choose farm pickup, market pickup or delivery';
+  END IF;
+
+  IF v_method = 'delivery' THEN
+    IF NULLIF(TRIM(p_details->>'address'), '') IS NULL THEN
+      RAISE EXCEPTION 'Please provide a delivery address';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.delivery_tariffs
+      WHERE id = (p_details->>'tariff_id')::uuid AND active
+    ) THEN
+      RAISE EXCEPTION 'Choose a delivery distance';
+    END IF;
+  ELSE
+    IF v_method = 'market_pickup' AND NOT EXISTS (
+      SELECT 1 FROM public.pickup_points
+      WHERE id = (p_details->>'pickup_point_id')::uuid AND active
+    ) THEN
+      RAISE EXCEPTION 'Choose a market pickup point';
+    END IF;
+
+    IF v_window_start IS NULL OR v_window_end IS NULL OR v_window_end <= v_window_start THEN
+      RAISE EXCEPTION 'Choose a pickup window';
+    END IF;
+
+    IF v_window_start < now() THEN
+      RAISE EXCEPTION 'The pickup window must be in the future';
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Internal helper: lock a listing, reserve stock and insert the order
+-- Now also records the delivery choice and adds the tariff fee to the amount.
+-- Offers made before delivery options existed carry no method and keep fee-free delivery
+CREATE OR REPLACE FUNCTION public.create_reserved_order(
+  p_listing_id uuid,
+  p_buyer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_delivery_details jsonb,
+  p_offer_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_remaining numeric;
+  v_order_id uuid;
+  v_method text := COALESCE(p_delivery_details->>'method', 'delivery');
+  v_tariff public.delivery_tariffs%ROWTYPE;
+  v_fee numeric := 0;
+BEGIN
+  -- Lock the listing so concurrent orders wait for this one to finish
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = p_buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  IF v_method = 'delivery' AND p_delivery_details->>'tariff_id' IS NOT NULL THEN
+    SELECT * INTO v_tariff
+    FROM public.delivery_tariffs
+    WHERE id = (p_delivery_details->>'tariff_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This delivery option is no longer available';
+    END IF;
+
+    v_fee := ROUND(v_tariff.base_fee + v_tariff.fee_per_kg * p_quantity, 2);
+  END IF;
+
+  -- Reserve stock and flip to sold_out when nothing is left
+  v_remaining := v_listing.available_quantity - p_quantity;
+
+  UPDATE public.marketplace_listings
+  SET
+    available_quantity = v_remaining,
+    status = CASE WHEN v_remaining = 0 THEN 'sold_out' ELSE status END
+  WHERE id = p_listing_id;
+
+  INSERT INTO public.orders (
+    listing_id, buyer_id, seller_id, quantity, amount, status, delivery_details, offer_id,
+    delivery_method, pickup_point_id, delivery_tariff_id, delivery_fee,
+    pickup_window_start, pickup_window_end
+  )
+  VALUES (
+    p_listing_id,
+    p_buyer_id,
+    v_listing.seller_id,
+    p_quantity,
+    p_quantity * COALESCE(p_price_per_kg, v_listing.price_per_kg) + v_fee,
+    'requested',
+    jsonb_strip_nulls(jsonb_build_object(
+      'address', p_delivery_details->>'address',
+      'notes', p_delivery_details->>'notes'
+    )),
+    p_offer_id,
+    v_method,
+    CASE WHEN v_method = 'market_pickup' THEN (p_delivery_details->>'pickup_point_id')::uuid END,
+    v_tariff.id,
+    v_fee,
+    CASE WHEN v_method <> 'delivery' THEN (p_delivery_details->>'window_start')::timestamptz END,
+    CASE WHEN v_method <> 'delivery' THEN (p_delivery_details->>'window_end')::timestamptz END
+  )
+  RETURNING id INTO v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_reserved_order(uuid, uuid, numeric, numeric, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- place_order now requires a valid delivery choice
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_listing_id uuid,
+  p_quantity numeric,
+  p_delivery_details jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  PERFORM public.validate_delivery_details(p_delivery_details);
+
+  RETURN public.create_reserved_order(p_listing_id, v_buyer_id, p_quantity, NULL, p_delivery_details);
+END;
+$$;
+
+-- make_offer now requires a valid delivery choice; it is carried onto the order on acceptance
+CREATE OR REPLACE FUNCTION public.make_offer(
+  p_listing_id uuid,
+  p_price_per_kg numeric,
+  p_quantity numeric,
+  p_delivery_details jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_offer_id uuid := gen_random_uuid();
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 OR p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Price and quantity must be greater than zero';
+  END IF;
+
+  PERFORM public.validate_delivery_details(p_delivery_details);
+
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = v_buyer_id THEN
+    RAISE EXCEPTION 'You cannot make an offer on your own listing';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.offers
+    WHERE listing_id = p_listing_id AND buyer_id = v_buyer_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open offer on this listing';
+  END IF;
+
+  INSERT INTO public.offers (
+    id, thread_id, listing_id, buyer_id, seller_id, proposed_by,
+    price_per_kg, quantity, delivery_details
+  )
+  VALUES (
+    v_offer_id, v_offer_id, p_listing_id, v_buyer_id, v_listing.seller_id, v_buyer_id,
+    p_price_per_kg, p_quantity, p_delivery_details
+  );
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    v_listing.seller_id,
+    'order',
+    '💰 New Offer',
+    format('You received an offer of KES %s/kg for %skg of %s', p_price_per_kg, p_quantity, v_listing.crop_name),
+    jsonb_build_object('offer_id', v_offer_id, 'listing_id', p_listing_id)
+  );
+
+  RETURN v_offer_id;
+END;
+$$;
+
+-- Delivery now needs the buyer's code, so sellers go through confirm_delivery()
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id uuid,
+  p_new_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_role text;
+  v_allowed boolean := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_user_id = v_order.seller_id THEN
+    v_role := 'seller';
+  ELSIF v_user_id = v_order.buyer_id THEN
+    v_role := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not a party to this order';
+  END IF;
+
+  IF p_new_status = 'delivered' AND v_role = 'seller' THEN
+    RAISE EXCEPTION 'Enter the buyer''s delivery code to mark this order delivered';
+  END IF;
+
+  -- Seller drives fulfilment; buyer confirms receipt
+  -- Buyer may cancel only before the seller confirms, seller until shipping
+  IF v_role = 'seller' THEN
+    v_allowed :=
+      (v_order.status = 'requested' AND p_new_status IN ('confirmed', 'cancelled')) OR
+      (v_order.status = 'confirmed' AND p_new_status IN ('in-transit', 'cancelled'));
+  ELSE
+    v_allowed :=
+      (v_order.status = 'requested' AND p_new_status = 'cancelled') OR
+      (v_order.status = 'delivered' AND p_new_status = 'completed');
+  END IF;
+
+  IF NOT v_allowed THEN
+    RAISE EXCEPTION 'A % cannot move this order from % to %', v_role, v_order.status, p_new_status;
+  END IF;
+
+  IF p_new_status = 'in-transit' AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status = 'held'
+  ) THEN
+    RAISE EXCEPTION 'The buyer has not paid for this order yet';
+  END IF;
+
+  UPDATE public.orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (p_order_id, v_order.status, p_new_status, v_user_id, NULLIF(TRIM(p_note), ''));
+END;
+$$;
+
+-- Function for the seller to mark an in-transit order delivered with the buyer's code
+-- Returns false (and counts the attempt) when the code is wrong; five wrong codes lock it
+CREATE OR REPLACE FUNCTION public.confirm_delivery(
+  p_order_id uuid,
+  p_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_code public.order_delivery_codes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_order.seller_id <> v_user_id THEN
+    RAISE EXCEPTION 'Only the seller can confirm delivery';
+  END IF;
+
+  IF v_order.status <> 'in-transit' THEN
+    RAISE EXCEPTION 'Only in-transit orders can be marked delivered';
+  END IF;
+
+  SELECT * INTO v_code
+  FROM public.order_delivery_codes
+  WHERE order_id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no delivery code';
+  END IF;
+
+  IF v_code.failed_attempts >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Ask the buyer to check their code or report a problem';
+  END IF;
+
+  IF TRIM(p_code) IS DISTINCT FROM v_code.code THEN
+    UPDATE public.order_delivery_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = p_order_id;
+
+    RETURN false;
+  END IF;
+
+  UPDATE public.order_delivery_codes
+  SET confirmed_at = now(), failed_attempts = 0
+  WHERE order_id = p_order_id;
+
+  UPDATE public.orders
+  SET status = 'delivered'
+  WHERE id = p_order_id;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (p_order_id, v_order.status, 'delivered', v_user_id, NULLIF(TRIM(p_note), ''));
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- Numbered invoices and payment receipts for orders, rendered as PDF by the
+-- order-document edge function and kept in the order-documents bucket
+CREATE SEQUENCE IF NOT EXISTS public.invoice_number_seq;
+CREATE SEQUENCE IF NOT EXISTS public.receipt_number_seq;
+
+CREATE TABLE public.order_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('invoice', 'receipt')),
+  document_number text NOT NULL UNIQUE, -- INV-2025-000001 / RCT-2025-000001, set by trigger
+  storage_path text NOT NULL, -- {order_id}/{document_number}.pdf, set by trigger
+  amount numeric(12,2) NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (order_id, kind)
+);
+
+ALTER TABLE public.order_documents ENABLE ROW LEVEL SECURITY;
+
+-- Both parties can read; documents are only created by the edge function
+CREATE POLICY "Order parties can view order documents"
+  ON public.order_documents FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_documents.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+  ));
+
+-- Function to number a new document and derive its storage path
+CREATE OR REPLACE FUNCTION public.set_document_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.document_number := format('%s-%s-%s',
+    CASE NEW.kind WHEN 'invoice' THEN 'INV' ELSE 'RCT' END,
+    to_char(now(), 'YYYY'),
+    lpad(nextval(CASE NEW.kind WHEN 'invoice' THEN 'public.invoice_number_seq' ELSE 'public.receipt_number_seq' END::regclass)::text, 6, '0')
+  );
+  NEW.storage_path := format('%s/%s.pdf', NEW.order_id, NEW.document_number);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_order_document_number ON public.order_documents;
+CREATE TRIGGER set_order_document_number
+  BEFORE INSERT ON public.order_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_document_number();
+
+-- Private bucket for the PDFs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.buckets WHERE id = 'order-documents'
+  ) THEN
+    INSERT INTO storage.buckets (id, name, public) VALUES ('order-documents', 'order-documents', false);
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Order parties can read order-documents" ON storage.objects;
+
+-- Files live under {order_id}/filename and are uploaded with the service role
+CREATE POLICY "Order parties can read order-documents"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'order-documents' AND EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id::text = (storage.foldername(name))[1]
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+  )
+);
@@ -0,0 +1,120 @@
+-- Completed orders post themselves to both parties' ledgers: income for the
+-- seller, expense for the buyer. Orders completed before this migration are
+-- not backfilled, since many farmers already entered those sales by hand.
+ALTER TABLE public.ledger
+ADD COLUMN order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL;
+
+-- One automatic entry per party per order
+ALTER TABLE public.ledger
+ADD CONSTRAINT ledger_order_party_key UNIQUE (order_id, user_id);
+
+-- Function to bring an order's ledger entries in line with its status and refunds
+-- completed            -> entries for the amount kept after any partial refund
+-- cancelled / refunded -> entries removed so totals no longer count the sale
+CREATE OR REPLACE FUNCTION public.sync_order_ledger_entries(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_crop_name text;
+  v_refunded numeric := 0;
+  v_net numeric;
+  v_refund_note text := '';
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Step 1: Work out what the sale is worth after refunds
+  SELECT COALESCE(SUM(
+    CASE status
+      WHEN 'refunded' THEN amount
+      WHEN 'partially_refunded' THEN COALESCE(refunded_amount, 0)
+      ELSE 0
+    END
+  ), 0) INTO v_refunded
+  FROM public.payments
+  WHERE order_id = p_order_id;
+
+  v_net := v_order.amount - v_refunded;
+
+  IF v_refunded > 0 THEN
+    v_refund_note := format(' (KES %s refunded)', v_refunded);
+  END IF;
+
+  -- Step 2: Nothing to record unless the order completed with money kept
+  IF v_order.status IS DISTINCT FROM 'completed' OR v_net <= 0 THEN
+    DELETE FROM public.ledger WHERE order_id = p_order_id;
+    RETURN;
+  END IF;
+
+  SELECT crop_name INTO v_crop_name
+  FROM public.marketplace_listings
+  WHERE id = v_order.listing_id;
+
+  -- Step 3: Post (or adjust) the seller's income and the buyer's expense
+  INSERT INTO public.ledger (user_id, order_id, type, item, quantity, amount, notes)
+  VALUES
+    (
+      v_order.seller_id, v_order.id, 'income',
+      COALESCE(v_crop_name, 'Marketplace sale'), v_order.quantity, v_net,
+      format('Marketplace sale, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note
+    ),
+    (
+      v_order.buyer_id, v_order.id, 'expense',
+      COALESCE(v_crop_name, 'Marketplace purchase'), v_order.quantity, v_net,
+      format('Marketplace purchase, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note
+    )
+  ON CONFLICT (order_id, user_id) DO UPDATE
+  SET amount = EXCLUDED.amount, notes = EXCLUDED.notes;
+END;
+$$;
+
+-- Trigger function to post entries on completion and reverse them on cancellation
+CREATE OR REPLACE FUNCTION public.post_order_ledger_entries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (NEW.status IN ('completed', 'cancelled') OR OLD.status = 'completed') THEN
+    PERFORM public.sync_order_ledger_entries(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_post_ledger ON public.orders;
+CREATE TRIGGER on_order_post_ledger
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_order_ledger_entries();
+
+-- Trigger function to reverse posted entries when the payment is refunded
+CREATE OR REPLACE FUNCTION public.reverse_order_ledger_entries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('refunded', 'partially_refunded')
+    AND (NEW.status IS DISTINCT FROM OLD.status OR NEW.refunded_amount IS DISTINCT FROM OLD.refunded_amount) THEN
+    PERFORM public.sync_order_ledger_entries(NEW.order_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_payment_reverse_ledger ON public.payments;
+CREATE TRIGGER on_payment_reverse_ledger
+  AFTER UPDATE OF status, refunded_amount ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reverse_order_ledger_entries();
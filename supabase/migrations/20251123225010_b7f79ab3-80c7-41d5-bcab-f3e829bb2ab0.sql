@@ -0,0 +1,117 @@
+-- Saved Browse searches; new listings that match notify the buyer
+CREATE TABLE public.saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  crop_name text,
+  region text,
+  max_price numeric(10,2) CHECK (max_price > 0), -- KES per kg
+  min_quantity numeric CHECK (min_quantity > 0), -- kg in stock
+  push_enabled boolean NOT NULL DEFAULT true, -- Also show a browser notification
+  active boolean NOT NULL DEFAULT true,
+  last_notified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- A search with no criteria would alert on every listing
+  CHECK (num_nonnulls(NULLIF(TRIM(crop_name), ''), NULLIF(TRIM(region), ''), max_price, min_quantity) > 0)
+);
+
+CREATE INDEX idx_saved_searches_active ON public.saved_searches(user_id) WHERE active;
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+  ON public.saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved searches"
+  ON public.saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON public.saved_searches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON public.saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Function to cap how many searches one user can save
+CREATE OR REPLACE FUNCTION public.limit_saved_searches()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT COUNT(*) FROM public.saved_searches WHERE user_id = NEW.user_id) >= 10 THEN
+    RAISE EXCEPTION 'You can save up to 10 searches. Delete one to add another.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS limit_saved_searches ON public.saved_searches;
+CREATE TRIGGER limit_saved_searches
+  BEFORE INSERT ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.limit_saved_searches();
+
+-- Function to notify buyers whose saved searches match a new listing
+-- Matching follows search_listings: exact crop, region by place-name overlap,
+-- price at or below the ceiling, and enough stock for the minimum quantity
+CREATE OR REPLACE FUNCTION public.notify_saved_searches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search public.saved_searches%ROWTYPE;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_search IN
+    SELECT DISTINCT ON (ss.user_id) ss.*
+    FROM public.saved_searches ss
+    WHERE ss.active
+      AND ss.user_id <> NEW.seller_id
+      AND (NULLIF(TRIM(ss.crop_name), '') IS NULL
+        OR LOWER(TRIM(ss.crop_name)) = LOWER(TRIM(NEW.crop_name)))
+      AND (NULLIF(TRIM(ss.region), '') IS NULL
+        OR LOWER(TRIM(NEW.location)) LIKE '%' || LOWER(TRIM(ss.region)) || '%'
+        OR LOWER(TRIM(ss.region)) LIKE '%' || LOWER(TRIM(NEW.location)) || '%')
+      AND (ss.max_price IS NULL OR NEW.price_per_kg <= ss.max_price)
+      AND (ss.min_quantity IS NULL OR NEW.available_quantity >= ss.min_quantity)
+    ORDER BY ss.user_id, ss.created_at
+  LOOP
+    -- One alert per buyer, even if several of their searches match
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_search.user_id,
+      'system',
+      format('🔔 New %s listing', NEW.crop_name),
+      format('%s kg of %s in %s at KES %s/kg matches your saved search.',
+        NEW.available_quantity, NEW.crop_name, NEW.location, NEW.price_per_kg),
+      jsonb_build_object(
+        'action', 'view_listing',
+        'listing_id', NEW.id,
+        'saved_search_id', v_search.id,
+        'push', v_search.push_enabled
+      )
+    );
+
+    UPDATE public.saved_searches
+    SET last_notified_at = now()
+    WHERE id = v_search.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_listing_notify_saved_searches ON public.marketplace_listings;
+CREATE TRIGGER on_listing_notify_saved_searches
+  AFTER INSERT ON public.marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_saved_searches();
@@ -0,0 +1,116 @@
+-- Listing watchlist: buyers bookmark listings and hear about price drops,
+-- low stock and expiry; sellers see how many people watch each listing
+CREATE TABLE public.listing_watches (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  listing_id uuid NOT NULL REFERENCES public.marketplace_listings(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, listing_id)
+);
+
+CREATE INDEX idx_listing_watches_listing_id ON public.listing_watches(listing_id);
+
+ALTER TABLE public.listing_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own watches"
+  ON public.listing_watches FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Sellers can't watch their own listings
+CREATE POLICY "Users can watch other sellers' listings"
+  ON public.listing_watches FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND NOT EXISTS (
+      SELECT 1 FROM public.marketplace_listings
+      WHERE marketplace_listings.id = listing_watches.listing_id
+        AND marketplace_listings.seller_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own watches"
+  ON public.listing_watches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Watched listings stay visible in the Watching list after they sell out or expire
+CREATE POLICY "Watchers can view watched listings"
+  ON public.marketplace_listings FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listing_watches
+      WHERE listing_watches.listing_id = marketplace_listings.id
+        AND listing_watches.user_id = auth.uid()
+    )
+  );
+
+-- Function to count watchers on the caller's own listings
+-- Watcher identities stay private; other listings are skipped
+CREATE OR REPLACE FUNCTION public.get_listing_watch_counts(p_listing_ids uuid[])
+RETURNS TABLE (listing_id uuid, watchers bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lw.listing_id, COUNT(*) AS watchers
+  FROM listing_watches lw
+  JOIN marketplace_listings ml ON ml.id = lw.listing_id
+  WHERE lw.listing_id = ANY(p_listing_ids)
+    AND ml.seller_id = auth.uid()
+  GROUP BY lw.listing_id;
+$$;
+
+-- Function to notify watchers when a listing changes in a way they care about
+--   price drop  -> price_per_kg lowered on an active listing
+--   low stock   -> available_quantity falls to 20% of the listed quantity or less
+--   expired     -> listing passes its expiry date (expire-listings job)
+CREATE OR REPLACE FUNCTION public.notify_listing_watchers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text;
+  v_title text;
+  v_message text;
+BEGIN
+  IF NEW.status = 'active' AND NEW.price_per_kg < OLD.price_per_kg THEN
+    v_type := 'price';
+    v_title := format('📉 %s price drop', NEW.crop_name);
+    v_message := format('A %s listing you watch in %s dropped from KES %s to KES %s/kg.',
+      NEW.crop_name, NEW.location, OLD.price_per_kg, NEW.price_per_kg);
+  ELSIF NEW.status = 'active'
+    AND NEW.available_quantity > 0
+    AND NEW.available_quantity <= NEW.quantity * 0.2
+    AND OLD.available_quantity > OLD.quantity * 0.2 THEN
+    v_type := 'system';
+    v_title := format('⏳ %s almost sold out', NEW.crop_name);
+    v_message := format('Only %s kg left of a %s listing you watch in %s.',
+      NEW.available_quantity, NEW.crop_name, NEW.location);
+  ELSIF NEW.status = 'expired' AND OLD.status IS DISTINCT FROM 'expired' THEN
+    v_type := 'system';
+    v_title := format('⌛ Watched %s listing expired', NEW.crop_name);
+    v_message := format('The %s listing you watch in %s has expired and is no longer for sale.',
+      NEW.crop_name, NEW.location);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  SELECT
+    lw.user_id,
+    v_type,
+    v_title,
+    v_message,
+    jsonb_build_object('action', 'view_listing', 'listing_id', NEW.id)
+  FROM public.listing_watches lw
+  WHERE lw.listing_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_listing_notify_watchers ON public.marketplace_listings;
+CREATE TRIGGER on_listing_notify_watchers
+  AFTER UPDATE OF price_per_kg, available_quantity, status ON public.marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_listing_watchers();
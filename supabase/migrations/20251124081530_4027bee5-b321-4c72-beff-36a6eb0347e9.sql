@@ -0,0 +1,564 @@
+-- Sealed-bid auctions for bulk lots. An auction listing takes bids until
+-- auction_ends_at; bids stay hidden from other bidders and from the seller until
+-- it closes. The close-auctions job then sells the whole lot to the highest bid
+-- through create_reserved_order, like any other order.
+-- For auction lots price_per_kg is the reserve price: the lowest bid accepted.
+ALTER TABLE public.marketplace_listings
+ADD COLUMN sale_type text NOT NULL DEFAULT 'fixed' CHECK (sale_type IN ('fixed', 'auction')),
+ADD COLUMN auction_ends_at timestamptz,
+ADD COLUMN auction_closed_at timestamptz;
+
+ALTER TABLE public.marketplace_listings
+ADD CONSTRAINT marketplace_listings_auction_ends_check
+  CHECK ((sale_type = 'auction') = (auction_ends_at IS NOT NULL));
+
+-- Open auctions waiting for the closer
+CREATE INDEX IF NOT EXISTS idx_marketplace_listings_open_auctions
+  ON public.marketplace_listings(auction_ends_at)
+  WHERE sale_type = 'auction' AND auction_closed_at IS NULL;
+
+CREATE TABLE public.bids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid NOT NULL REFERENCES public.marketplace_listings(id) ON DELETE CASCADE,
+  bidder_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  price_per_kg numeric(10,2) NOT NULL CHECK (price_per_kg > 0),
+  delivery_details jsonb NOT NULL, -- Carried onto the order if the bid wins
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'won', 'lost')),
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (listing_id, bidder_id) -- One sealed bid per bidder, revisable until the end
+);
+
+ALTER TABLE public.bids ENABLE ROW LEVEL SECURITY;
+
+-- Bids are sealed: bidders see their own; sellers see them once the auction has closed.
+-- All writes go through place_bid() and close_auction()
+CREATE POLICY "Bidders can view their own bids"
+  ON public.bids FOR SELECT
+  USING (auth.uid() = bidder_id);
+
+CREATE POLICY "Sellers can view bids on closed auctions"
+  ON public.bids FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.marketplace_listings
+    WHERE marketplace_listings.id = bids.listing_id
+      AND marketplace_listings.seller_id = auth.uid()
+      AND marketplace_listings.auction_closed_at IS NOT NULL
+  ));
+
+CREATE TRIGGER update_bids_updated_at
+  BEFORE UPDATE ON public.bids
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link orders back to the bid that won them
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS bid_id uuid REFERENCES public.bids(id) ON DELETE SET NULL;
+
+-- Function to check an auction listing's end time and keep closed lots off sale
+-- Runs after on_listing_created_set_expiry (triggers fire in name order), so expires_at is set
+CREATE OR REPLACE FUNCTION public.enforce_auction_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.sale_type = 'auction' THEN
+      IF NEW.auction_ends_at < now() + interval '1 hour' OR NEW.auction_ends_at > now() + interval '14 days' THEN
+        RAISE EXCEPTION 'An auction must run for between 1 hour and 14 days';
+      END IF;
+
+      -- Leave a day for the closer to sell the lot before the listing expires
+      IF NEW.auction_ends_at > NEW.expires_at - interval '1 day' THEN
+        RAISE EXCEPTION '% listings expire on %, so the auction must end at least a day earlier',
+          NEW.crop_name, to_char(NEW.expires_at, 'DD Mon YYYY');
+      END IF;
+    END IF;
+
+    NEW.auction_closed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.sale_type IS DISTINCT FROM OLD.sale_type
+    OR NEW.auction_ends_at IS DISTINCT FROM OLD.auction_ends_at THEN
+    RAISE EXCEPTION 'The sale type and auction end time cannot be changed after listing';
+  END IF;
+
+  -- Stock returned to a closed auction (e.g. the winning order was cancelled) is not
+  -- sold at a fixed price; the seller lists it again
+  IF NEW.sale_type = 'auction' AND NEW.auction_closed_at IS NOT NULL AND NEW.status = 'active' THEN
+    NEW.status := 'expired';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_listing_validate_auction ON public.marketplace_listings;
+CREATE TRIGGER on_listing_validate_auction
+  BEFORE INSERT OR UPDATE ON public.marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_auction_listing();
+
+-- Function to reject price offers on auction lots
+CREATE OR REPLACE FUNCTION public.prevent_auction_offers()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.marketplace_listings
+    WHERE id = NEW.listing_id AND sale_type = 'auction'
+  ) THEN
+    RAISE EXCEPTION 'This lot is sold by auction. Place a bid instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_auction_offers ON public.offers;
+CREATE TRIGGER prevent_auction_offers
+  BEFORE INSERT ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_auction_offers();
+
+-- Function to place or revise a sealed bid on an open auction
+-- The bid is for the whole lot still in stock when the auction closes
+CREATE OR REPLACE FUNCTION public.place_bid(
+  p_listing_id uuid,
+  p_price_per_kg numeric,
+  p_delivery_details jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bidder_id uuid := auth.uid();
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_bid_id uuid;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.validate_delivery_details(p_delivery_details);
+
+  -- Share lock so the closer can't sell the lot while this bid is being recorded
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR SHARE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' OR v_listing.sale_type <> 'auction' THEN
+    RAISE EXCEPTION 'This auction is not open for bids';
+  END IF;
+
+  IF v_listing.auction_closed_at IS NOT NULL OR v_listing.auction_ends_at <= now() THEN
+    RAISE EXCEPTION 'Bidding on this lot has ended';
+  END IF;
+
+  IF v_listing.seller_id = v_bidder_id THEN
+    RAISE EXCEPTION 'You cannot bid on your own lot';
+  END IF;
+
+  IF p_price_per_kg IS NULL OR p_price_per_kg < v_listing.price_per_kg THEN
+    RAISE EXCEPTION 'Bids must be at least the reserve price of KES %/kg', v_listing.price_per_kg;
+  END IF;
+
+  -- A pickup is only booked once the lot is won
+  IF p_delivery_details->>'method' IN ('farm_pickup', 'market_pickup')
+    AND (p_delivery_details->>'window_start')::timestamptz <= v_listing.auction_ends_at THEN
+    RAISE EXCEPTION 'Choose a pickup window after the auction ends on %', to_char(v_listing.auction_ends_at, 'DD Mon HH24:MI');
+  END IF;
+
+  INSERT INTO public.bids (listing_id, bidder_id, price_per_kg, delivery_details)
+  VALUES (p_listing_id, v_bidder_id, ROUND(p_price_per_kg, 2), p_delivery_details)
+  ON CONFLICT (listing_id, bidder_id) DO UPDATE
+  SET price_per_kg = EXCLUDED.price_per_kg, delivery_details = EXCLUDED.delivery_details
+  RETURNING id INTO v_bid_id;
+
+  RETURN v_bid_id;
+END;
+$$;
+
+-- create_reserved_order gains p_bid_id, so the old signature goes
+DROP FUNCTION IF EXISTS public.create_reserved_order(uuid, uuid, numeric, numeric, jsonb, uuid);
+
+-- Internal helper: lock a listing, reserve stock and insert the order
+-- Auction lots can only be ordered for a winning bid (p_bid_id)
+CREATE OR REPLACE FUNCTION public.create_reserved_order(
+  p_listing_id uuid,
+  p_buyer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_delivery_details jsonb,
+  p_offer_id uuid DEFAULT NULL,
+  p_bid_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_remaining numeric;
+  v_order_id uuid;
+  v_method text := COALESCE(p_delivery_details->>'method', 'delivery');
+  v_tariff public.delivery_tariffs%ROWTYPE;
+  v_fee numeric := 0;
+BEGIN
+  -- Lock the listing so concurrent orders wait for this one to finish
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = p_buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  -- Auction lots are only sold to the winning bid when the auction closes
+  IF v_listing.sale_type = 'auction' AND p_bid_id IS NULL THEN
+    RAISE EXCEPTION 'This lot is sold by auction. Place a bid instead';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  IF v_method = 'delivery' AND p_delivery_details->>'tariff_id' IS NOT NULL THEN
+    SELECT * INTO v_tariff
+    FROM public.delivery_tariffs
+    WHERE id = (p_delivery_details->>'tariff_id')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This delivery option is no longer available';
+    END IF;
+
+    v_fee := ROUND(v_tariff.base_fee + v_tariff.fee_per_kg * p_quantity, 2);
+  END IF;
+
+  -- Reserve stock and flip to sold_out when nothing is left
+  v_remaining := v_listing.available_quantity - p_quantity;
+
+  UPDATE public.marketplace_listings
+  SET
+    available_quantity = v_remaining,
+    status = CASE WHEN v_remaining = 0 THEN 'sold_out' ELSE status END
+  WHERE id = p_listing_id;
+
+  INSERT INTO public.orders (
+    listing_id, buyer_id, seller_id, quantity, amount, status, delivery_details, offer_id, bid_id,
+    delivery_method, pickup_point_id, delivery_tariff_id, delivery_fee,
+    pickup_window_start, pickup_window_end
+  )
+  VALUES (
+    p_listing_id,
+    p_buyer_id,
+    v_listing.seller_id,
+    p_quantity,
+    p_quantity * COALESCE(p_price_per_kg, v_listing.price_per_kg) + v_fee,
+    'requested',
+    jsonb_strip_nulls(jsonb_build_object(
+      'address', p_delivery_details->>'address',
+      'notes', p_delivery_details->>'notes'
+    )),
+    p_offer_id,
+    p_bid_id,
+    v_method,
+    CASE WHEN v_method = 'market_pickup' THEN (p_delivery_details->>'pickup_point_id')::uuid END,
+    v_tariff.id,
+    v_fee,
+    CASE WHEN v_method <> 'delivery' THEN (p_delivery_details->>'window_start')::timestamptz END,
+    CASE WHEN v_method <> 'delivery' THEN (p_delivery_details->>'window_end')::timestamptz END
+  )
+  RETURNING id INTO v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_reserved_order(uuid, uuid, numeric, numeric, jsonb, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to close an ended auction, called by the close-auctions job
+-- Bids are tried from the highest (earliest wins a tie); the first one that can
+-- become an order buys the whole lot. With no usable bid the listing expires.
+-- Returns the outcome so the job can notify the seller, winner and losing bidders.
+CREATE OR REPLACE FUNCTION public.close_auction(p_listing_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_bid public.bids%ROWTYPE;
+  v_winning_bid public.bids%ROWTYPE;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.sale_type <> 'auction' OR v_listing.auction_closed_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_listing.auction_ends_at > now() THEN
+    RAISE EXCEPTION 'This auction has not ended yet';
+  END IF;
+
+  -- Step 1: Sell the lot to the best bid that can be ordered
+  IF v_listing.status = 'active' AND v_listing.available_quantity > 0 THEN
+    FOR v_bid IN
+      SELECT * FROM public.bids
+      WHERE listing_id = p_listing_id AND status = 'active'
+      ORDER BY price_per_kg DESC, updated_at ASC
+    LOOP
+      BEGIN
+        v_order_id := public.create_reserved_order(
+          p_listing_id, v_bid.bidder_id, v_listing.available_quantity,
+          v_bid.price_per_kg, v_bid.delivery_details, NULL, v_bid.id
+        );
+        v_winning_bid := v_bid;
+        EXIT;
+      EXCEPTION WHEN OTHERS THEN
+        -- e.g. the bid's delivery tariff was withdrawn; fall through to the next bid
+        RAISE LOG 'Auction % bid % could not be ordered: %', p_listing_id, v_bid.id, SQLERRM;
+      END;
+    END LOOP;
+  END IF;
+
+  -- Step 2: Settle the bids
+  UPDATE public.bids
+  SET
+    status = CASE WHEN id = v_winning_bid.id THEN 'won' ELSE 'lost' END,
+    order_id = CASE WHEN id = v_winning_bid.id THEN v_order_id END
+  WHERE listing_id = p_listing_id AND status = 'active';
+
+  -- Step 3: Close the auction; an unsold lot comes off sale
+  UPDATE public.marketplace_listings
+  SET
+    auction_closed_at = now(),
+    status = CASE WHEN v_order_id IS NULL AND status = 'active' THEN 'expired' ELSE status END
+  WHERE id = p_listing_id;
+
+  RETURN jsonb_build_object(
+    'listing_id', v_listing.id,
+    'seller_id', v_listing.seller_id,
+    'crop_name', v_listing.crop_name,
+    'quantity', v_listing.available_quantity,
+    'order_id', v_order_id,
+    'winner_id', v_winning_bid.bidder_id,
+    'winning_price_per_kg', v_winning_bid.price_per_kg,
+    'losing_bids', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('bidder_id', bidder_id, 'price_per_kg', price_per_kg))
+      FROM public.bids
+      WHERE listing_id = p_listing_id AND status = 'lost'
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_auction(uuid) FROM PUBLIC, anon, authenticated;
+
+-- A closed auction lot can't be renewed into a fixed-price listing
+CREATE OR REPLACE FUNCTION public.renew_listing(p_listing_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_expires_at timestamptz;
+BEGIN
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  IF v_listing.status NOT IN ('active', 'expired') THEN
+    RAISE EXCEPTION 'Only active or expired listings can be renewed';
+  END IF;
+
+  IF v_listing.auction_closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This auction has closed. List the produce again to start a new one';
+  END IF;
+
+  IF v_listing.available_quantity <= 0 THEN
+    RAISE EXCEPTION 'This listing has no stock left to sell';
+  END IF;
+
+  v_expires_at := now() + make_interval(days => listing_shelf_life_days(v_listing.crop_name));
+
+  UPDATE public.marketplace_listings
+  SET
+    status = 'active',
+    expires_at = v_expires_at,
+    expiry_warned_at = NULL
+  WHERE id = p_listing_id;
+
+  RETURN v_expires_at;
+END;
+$$;
+
+-- search_listings gains auction columns, so its return type changes
+DROP FUNCTION IF EXISTS public.search_listings(text, text, text, numeric, numeric, numeric, numeric, text, text, text, integer);
+
+-- Function to search active marketplace listings with filters, sorting and cursor pagination
+-- Every sort order is reduced to (sort_key ASC, created_at DESC, id DESC):
+--   newest   -> sort_key = 0
+--   cheapest -> sort_key = price_per_kg
+--   nearest  -> sort_key = proximity (0 same place, 1 overlapping place name, 2 elsewhere)
+-- sort_cursor of the last row ("sort_key|created_at|id") is passed back as p_cursor for the next page
+-- Quantities and prices are per kg; unit/unit_kg say how the seller sells it
+-- For auction lots price_per_kg is the reserve price and auction_ends_at the bidding deadline
+CREATE OR REPLACE FUNCTION public.search_listings(
+  p_query text DEFAULT NULL,
+  p_crop text DEFAULT NULL,
+  p_region text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_quantity numeric DEFAULT NULL,
+  p_min_rating numeric DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_near text DEFAULT NULL,
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  seller_id uuid,
+  crop_name text,
+  quantity numeric,
+  available_quantity numeric,
+  price_per_kg numeric,
+  location text,
+  image_urls text[],
+  unit text,
+  unit_kg numeric,
+  sale_type text,
+  auction_ends_at timestamptz,
+  created_at timestamptz,
+  seller_name text,
+  seller_rating numeric,
+  seller_review_count bigint,
+  proximity integer,
+  sort_cursor text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(LOWER(TRIM(p_query)), '') AS q,
+      NULLIF(LOWER(TRIM(p_crop)), '') AS crop,
+      NULLIF(LOWER(TRIM(p_region)), '') AS region,
+      -- "Nearest" is measured from the given place, or the caller's profile location
+      COALESCE(
+        NULLIF(LOWER(TRIM(p_near)), ''),
+        (SELECT NULLIF(LOWER(TRIM(pr.location)), '') FROM profiles pr WHERE pr.id = auth.uid())
+      ) AS near,
+      CASE WHEN p_sort IN ('newest', 'cheapest', 'nearest') THEN p_sort ELSE 'newest' END AS sort,
+      LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50) AS page_size
+  ),
+  cursor_values AS (
+    SELECT
+      split_part(p_cursor, '|', 1)::numeric AS sort_key,
+      split_part(p_cursor, '|', 2)::timestamptz AS created_at,
+      split_part(p_cursor, '|', 3)::uuid AS id
+    WHERE p_cursor IS NOT NULL
+  ),
+  candidates AS (
+    SELECT
+      ml.*,
+      pr.full_name AS seller_name,
+      ROUND(COALESCE(rv.avg_rating, 0), 1) AS seller_rating,
+      COALESCE(rv.review_count, 0) AS seller_review_count,
+      CASE
+        WHEN params.near IS NULL THEN 2
+        WHEN LOWER(TRIM(ml.location)) = params.near THEN 0
+        WHEN LOWER(TRIM(ml.location)) LIKE '%' || params.near || '%'
+          OR params.near LIKE '%' || LOWER(TRIM(ml.location)) || '%' THEN 1
+        ELSE 2
+      END AS proximity,
+      params.sort
+    FROM marketplace_listings ml
+    CROSS JOIN params
+    LEFT JOIN profiles pr ON pr.id = ml.seller_id
+    LEFT JOIN LATERAL (
+      SELECT AVG(r.rating) AS avg_rating, COUNT(*) AS review_count
+      FROM reviews r
+      WHERE r.reviewee_id = ml.seller_id
+    ) rv ON true
+    WHERE ml.status = 'active'
+      AND (params.q IS NULL
+        OR LOWER(ml.crop_name) LIKE '%' || params.q || '%'
+        OR LOWER(ml.location) LIKE '%' || params.q || '%'
+        OR LOWER(COALESCE(pr.full_name, '')) LIKE '%' || params.q || '%')
+      AND (params.crop IS NULL OR LOWER(TRIM(ml.crop_name)) = params.crop)
+      -- Same rule as isRegionCompatible(): equal, or one place name contains the other
+      AND (params.region IS NULL
+        OR LOWER(TRIM(ml.location)) LIKE '%' || params.region || '%'
+        OR params.region LIKE '%' || LOWER(TRIM(ml.location)) || '%')
+      AND (p_min_price IS NULL OR ml.price_per_kg >= p_min_price)
+      AND (p_max_price IS NULL OR ml.price_per_kg <= p_max_price)
+      AND (p_min_quantity IS NULL OR ml.available_quantity >= p_min_quantity)
+      AND (p_min_rating IS NULL OR COALESCE(rv.avg_rating, 0) >= p_min_rating)
+  ),
+  keyed AS (
+    SELECT
+      c.*,
+      CASE c.sort
+        WHEN 'cheapest' THEN c.price_per_kg
+        WHEN 'nearest' THEN c.proximity::numeric
+        ELSE 0
+      END AS sort_key
+    FROM candidates c
+  )
+  SELECT
+    k.id,
+    k.seller_id,
+    k.crop_name,
+    k.quantity,
+    k.available_quantity,
+    k.price_per_kg,
+    k.location,
+    k.image_urls,
+    k.unit,
+    k.unit_kg,
+    k.sale_type,
+    k.auction_ends_at,
+    k.created_at,
+    k.seller_name,
+    k.seller_rating,
+    k.seller_review_count,
+    k.proximity,
+    k.sort_key::text || '|' || k.created_at::text || '|' || k.id::text AS sort_cursor
+  FROM keyed k
+  LEFT JOIN cursor_values cv ON true
+  WHERE p_cursor IS NULL
+    OR k.sort_key > cv.sort_key
+    OR (k.sort_key = cv.sort_key AND (k.created_at, k.id) < (cv.created_at, cv.id))
+  ORDER BY k.sort_key ASC, k.created_at DESC, k.id DESC
+  LIMIT (SELECT page_size FROM params);
+$$;
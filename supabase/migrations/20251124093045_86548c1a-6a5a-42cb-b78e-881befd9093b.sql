@@ -0,0 +1,480 @@
+-- Forward contracts (contract farming): a buyer agrees before planting to take a
+-- volume of a farmer's crop at a set price or a market-linked formula, delivered
+-- on a schedule. The farmer links the contract to one of their crop records when
+-- accepting. Each scheduled delivery becomes a normal order when it falls due.
+CREATE TABLE public.contracts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  farmer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  crop_id uuid REFERENCES public.crops(id) ON DELETE SET NULL, -- Farmer's crop record, set on acceptance
+  crop_name text NOT NULL,
+  total_quantity numeric NOT NULL CHECK (total_quantity > 0), -- kg, sum of the delivery schedule
+  -- Price formula: 'fixed' pays price_per_kg; 'market' pays the average market price
+  -- plus market_premium_pct, kept between price_floor and price_ceiling
+  price_type text NOT NULL CHECK (price_type IN ('fixed', 'market')),
+  price_per_kg numeric(10,2) CHECK (price_per_kg > 0),
+  market_premium_pct numeric(5,2) NOT NULL DEFAULT 0 CHECK (market_premium_pct BETWEEN -50 AND 100),
+  price_floor numeric(10,2) CHECK (price_floor > 0),
+  price_ceiling numeric(10,2),
+  quality_specs text NOT NULL, -- e.g. grade, moisture content, size, packaging
+  delivery_method text NOT NULL CHECK (delivery_method IN ('farm_pickup', 'delivery')),
+  delivery_address text,
+  status text NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'active', 'declined', 'cancelled', 'completed')),
+  responded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (buyer_id <> farmer_id),
+  CHECK (price_type <> 'fixed' OR price_per_kg IS NOT NULL),
+  CHECK (price_type <> 'market' OR price_floor IS NOT NULL),
+  CHECK (price_ceiling IS NULL OR price_ceiling >= price_floor),
+  CHECK (delivery_method <> 'delivery' OR NULLIF(TRIM(delivery_address), '') IS NOT NULL)
+);
+
+CREATE INDEX idx_contracts_buyer_id ON public.contracts(buyer_id);
+CREATE INDEX idx_contracts_farmer_id ON public.contracts(farmer_id);
+
+-- Delivery schedule. Each row becomes an order on its due date
+CREATE TABLE public.contract_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  due_date date NOT NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0), -- kg
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'ordered', 'cancelled')),
+  price_per_kg numeric(10,2), -- Price the formula gave when the order was created
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, due_date)
+);
+
+-- Scheduled deliveries waiting for the contract-deliveries job
+CREATE INDEX idx_contract_deliveries_due ON public.contract_deliveries(due_date) WHERE status = 'scheduled';
+
+ALTER TABLE public.contracts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Both parties can read; all writes go through propose_contract() and respond_to_contract()
+CREATE POLICY "Parties can view their contracts"
+  ON public.contracts FOR SELECT
+  USING (auth.uid() IN (buyer_id, farmer_id));
+
+CREATE POLICY "Parties can view their contract deliveries"
+  ON public.contract_deliveries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.contracts
+    WHERE contracts.id = contract_deliveries.contract_id
+      AND auth.uid() IN (contracts.buyer_id, contracts.farmer_id)
+  ));
+
+-- Buyers follow the planting and expected yield behind their supply
+CREATE POLICY "Contract buyers can view linked crop records"
+  ON public.crops FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.contracts
+    WHERE contracts.crop_id = crops.id
+      AND contracts.buyer_id = auth.uid()
+      AND contracts.status IN ('active', 'completed')
+  ));
+
+CREATE TRIGGER update_contracts_updated_at
+  BEFORE UPDATE ON public.contracts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link orders back to the contract delivery they were created for
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS contract_id uuid REFERENCES public.contracts(id) ON DELETE SET NULL;
+
+-- Function to work out a contract's current price per kg
+-- Market-linked contracts use the average market price recorded for the crop over the
+-- last 7 days (or the latest one), plus the premium, clamped to the floor and ceiling
+CREATE OR REPLACE FUNCTION public.contract_price_per_kg(p_contract_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.contracts%ROWTYPE;
+  v_market_price numeric;
+  v_price numeric;
+BEGIN
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_contract.price_type = 'fixed' THEN
+    RETURN v_contract.price_per_kg;
+  END IF;
+
+  SELECT AVG(price_per_kg) INTO v_market_price
+  FROM public.market_prices
+  WHERE LOWER(crop_name) = LOWER(v_contract.crop_name)
+    AND recorded_at >= now() - interval '7 days';
+
+  IF v_market_price IS NULL THEN
+    SELECT price_per_kg INTO v_market_price
+    FROM public.market_prices
+    WHERE LOWER(crop_name) = LOWER(v_contract.crop_name)
+    ORDER BY recorded_at DESC NULLS LAST
+    LIMIT 1;
+  END IF;
+
+  -- No market data at all: the floor is the guaranteed price
+  v_price := GREATEST(
+    COALESCE(v_market_price * (1 + v_contract.market_premium_pct / 100), v_contract.price_floor),
+    v_contract.price_floor
+  );
+
+  IF v_contract.price_ceiling IS NOT NULL THEN
+    v_price := LEAST(v_price, v_contract.price_ceiling);
+  END IF;
+
+  RETURN ROUND(v_price, 2);
+END;
+$$;
+
+-- Function for a buyer to propose a forward contract to a farmer
+-- p_deliveries: [{due_date, quantity}] with quantities in kg; total_quantity is their sum
+CREATE OR REPLACE FUNCTION public.propose_contract(
+  p_farmer_id uuid,
+  p_crop_name text,
+  p_price_type text,
+  p_quality_specs text,
+  p_delivery_method text,
+  p_deliveries jsonb,
+  p_price_per_kg numeric DEFAULT NULL,
+  p_market_premium_pct numeric DEFAULT 0,
+  p_price_floor numeric DEFAULT NULL,
+  p_price_ceiling numeric DEFAULT NULL,
+  p_delivery_address text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+  v_contract_id uuid;
+  v_total numeric;
+  v_buyer_name text;
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_farmer_id = v_buyer_id THEN
+    RAISE EXCEPTION 'You cannot propose a contract to yourself';
+  END IF;
+
+  IF NULLIF(TRIM(p_crop_name), '') IS NULL OR NULLIF(TRIM(p_quality_specs), '') IS NULL THEN
+    RAISE EXCEPTION 'Choose a crop and describe the quality you need';
+  END IF;
+
+  IF p_price_type = 'fixed' AND (p_price_per_kg IS NULL OR p_price_per_kg <= 0) THEN
+    RAISE EXCEPTION 'Enter the fixed price per kg';
+  ELSIF p_price_type = 'market' AND (p_price_floor IS NULL OR p_price_floor <= 0) THEN
+    RAISE EXCEPTION 'Market-linked contracts need a floor price';
+  END IF;
+
+  IF p_deliveries IS NULL OR jsonb_typeof(p_deliveries) <> 'array' OR jsonb_array_length(p_deliveries) = 0 THEN
+    RAISE EXCEPTION 'Add at least one scheduled delivery';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_deliveries) d
+    WHERE (d->>'due_date')::date <= CURRENT_DATE OR COALESCE((d->>'quantity')::numeric, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Each delivery needs a future date and a quantity';
+  END IF;
+
+  SELECT SUM((d->>'quantity')::numeric) INTO v_total
+  FROM jsonb_array_elements(p_deliveries) d;
+
+  INSERT INTO public.contracts (
+    buyer_id, farmer_id, crop_name, total_quantity, price_type, price_per_kg,
+    market_premium_pct, price_floor, price_ceiling, quality_specs, delivery_method, delivery_address
+  )
+  VALUES (
+    v_buyer_id, p_farmer_id, TRIM(p_crop_name), v_total, p_price_type,
+    CASE WHEN p_price_type = 'fixed' THEN ROUND(p_price_per_kg, 2) END,
+    CASE WHEN p_price_type = 'market' THEN COALESCE(p_market_premium_pct, 0) ELSE 0 END,
+    CASE WHEN p_price_type = 'market' THEN ROUND(p_price_floor, 2) END,
+    CASE WHEN p_price_type = 'market' THEN ROUND(p_price_ceiling, 2) END,
+    TRIM(p_quality_specs), p_delivery_method, NULLIF(TRIM(p_delivery_address), '')
+  )
+  RETURNING id INTO v_contract_id;
+
+  -- Duplicate dates hit UNIQUE (contract_id, due_date)
+  INSERT INTO public.contract_deliveries (contract_id, due_date, quantity)
+  SELECT v_contract_id, (d->>'due_date')::date, (d->>'quantity')::numeric
+  FROM jsonb_array_elements(p_deliveries) d;
+
+  SELECT full_name INTO v_buyer_name FROM public.profiles WHERE id = v_buyer_id;
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    p_farmer_id,
+    'order',
+    '📝 Contract Proposal',
+    format('%s wants to contract %s kg of %s from you. Review the terms in Contracts.',
+      COALESCE(v_buyer_name, 'A buyer'), v_total, TRIM(p_crop_name)),
+    jsonb_build_object('contract_id', v_contract_id)
+  );
+
+  RETURN v_contract_id;
+END;
+$$;
+
+-- Function for the parties to respond to a contract
+--   accept  -> farmer, proposed contract; links p_crop_id (their record for the same crop)
+--   decline -> farmer, proposed contract
+--   cancel  -> buyer withdraws a proposal, or either party ends an active contract;
+--              deliveries not yet ordered are cancelled, orders already created stand
+CREATE OR REPLACE FUNCTION public.respond_to_contract(
+  p_contract_id uuid,
+  p_action text,
+  p_crop_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_other_id uuid;
+  v_user_name text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_contract
+  FROM public.contracts
+  WHERE id = p_contract_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id NOT IN (v_contract.buyer_id, v_contract.farmer_id) THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+
+  IF p_action IN ('accept', 'decline') THEN
+    IF v_user_id <> v_contract.farmer_id THEN
+      RAISE EXCEPTION 'Only the farmer can % this contract', p_action;
+    END IF;
+
+    IF v_contract.status <> 'proposed' THEN
+      RAISE EXCEPTION 'This contract is already %', v_contract.status;
+    END IF;
+  ELSIF p_action = 'cancel' THEN
+    IF v_contract.status = 'proposed' AND v_user_id <> v_contract.buyer_id THEN
+      RAISE EXCEPTION 'Decline the proposal instead';
+    END IF;
+
+    IF v_contract.status NOT IN ('proposed', 'active') THEN
+      RAISE EXCEPTION 'This contract is already %', v_contract.status;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown contract action: %', p_action;
+  END IF;
+
+  IF p_action = 'accept' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.crops
+      WHERE id = p_crop_id
+        AND user_id = v_user_id
+        AND LOWER(crop_name) = LOWER(v_contract.crop_name)
+    ) THEN
+      RAISE EXCEPTION 'Choose the % crop record this contract will be grown from', v_contract.crop_name;
+    END IF;
+
+    UPDATE public.contracts
+    SET status = 'active', crop_id = p_crop_id, responded_at = now()
+    WHERE id = p_contract_id;
+  ELSIF p_action = 'decline' THEN
+    UPDATE public.contracts
+    SET status = 'declined', responded_at = now()
+    WHERE id = p_contract_id;
+  ELSE
+    UPDATE public.contract_deliveries
+    SET status = 'cancelled'
+    WHERE contract_id = p_contract_id AND status = 'scheduled';
+
+    UPDATE public.contracts
+    SET status = 'cancelled', responded_at = COALESCE(responded_at, now())
+    WHERE id = p_contract_id;
+  END IF;
+
+  v_other_id := CASE WHEN v_user_id = v_contract.buyer_id THEN v_contract.farmer_id ELSE v_contract.buyer_id END;
+  SELECT full_name INTO v_user_name FROM public.profiles WHERE id = v_user_id;
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    v_other_id,
+    'order',
+    CASE p_action
+      WHEN 'accept' THEN '🤝 Contract Accepted'
+      WHEN 'decline' THEN '📝 Contract Declined'
+      ELSE '📝 Contract Cancelled'
+    END,
+    format('%s %s the %s kg %s contract.',
+      COALESCE(v_user_name, CASE WHEN v_user_id = v_contract.buyer_id THEN 'The buyer' ELSE 'The farmer' END),
+      CASE p_action WHEN 'accept' THEN 'accepted' WHEN 'decline' THEN 'declined' ELSE 'cancelled' END,
+      v_contract.total_quantity, v_contract.crop_name),
+    jsonb_build_object('contract_id', p_contract_id)
+  );
+END;
+$$;
+
+-- Function to turn a due contract delivery into an order, called by the contract-deliveries job
+-- The order has no listing: it is priced from the contract formula and goes through the
+-- usual requested -> confirmed -> ... flow, payment and delivery code
+-- Returns what the job needs to notify both parties, or NULL if there is nothing to do
+CREATE OR REPLACE FUNCTION public.create_contract_order(p_delivery_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery public.contract_deliveries%ROWTYPE;
+  v_contract public.contracts%ROWTYPE;
+  v_price numeric;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_delivery
+  FROM public.contract_deliveries
+  WHERE id = p_delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_delivery.status <> 'scheduled' OR v_delivery.due_date > CURRENT_DATE THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_contract
+  FROM public.contracts
+  WHERE id = v_delivery.contract_id;
+
+  IF v_contract.status <> 'active' THEN
+    RETURN NULL;
+  END IF;
+
+  v_price := public.contract_price_per_kg(v_contract.id);
+
+  INSERT INTO public.orders (
+    buyer_id, seller_id, quantity, amount, status, delivery_details, delivery_method, contract_id
+  )
+  VALUES (
+    v_contract.buyer_id,
+    v_contract.farmer_id,
+    v_delivery.quantity,
+    ROUND(v_delivery.quantity * v_price, 2),
+    'requested',
+    jsonb_strip_nulls(jsonb_build_object(
+      'address', v_contract.delivery_address,
+      'notes', format('Contract delivery due %s. Quality: %s',
+        to_char(v_delivery.due_date, 'DD Mon YYYY'), v_contract.quality_specs)
+    )),
+    v_contract.delivery_method,
+    v_contract.id
+  )
+  RETURNING id INTO v_order_id;
+
+  UPDATE public.contract_deliveries
+  SET status = 'ordered', order_id = v_order_id, price_per_kg = v_price
+  WHERE id = p_delivery_id;
+
+  -- Last delivery ordered: the contract has run its course
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_deliveries
+    WHERE contract_id = v_contract.id AND status = 'scheduled'
+  ) THEN
+    UPDATE public.contracts SET status = 'completed' WHERE id = v_contract.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'contract_id', v_contract.id,
+    'order_id', v_order_id,
+    'buyer_id', v_contract.buyer_id,
+    'farmer_id', v_contract.farmer_id,
+    'crop_name', v_contract.crop_name,
+    'quantity', v_delivery.quantity,
+    'price_per_kg', v_price,
+    'due_date', v_delivery.due_date
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_contract_order(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Contract orders have no listing, so the ledger takes the crop from the contract
+CREATE OR REPLACE FUNCTION public.sync_order_ledger_entries(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_crop_name text;
+  v_refunded numeric := 0;
+  v_net numeric;
+  v_refund_note text := '';
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Step 1: Work out what the sale is worth after refunds
+  SELECT COALESCE(SUM(
+    CASE status
+      WHEN 'refunded' THEN amount
+      WHEN 'partially_refunded' THEN COALESCE(refunded_amount, 0)
+      ELSE 0
+    END
+  ), 0) INTO v_refunded
+  FROM public.payments
+  WHERE order_id = p_order_id;
+
+  v_net := v_order.amount - v_refunded;
+
+  IF v_refunded > 0 THEN
+    v_refund_note := format(' (KES %s refunded)', v_refunded);
+  END IF;
+
+  -- Step 2: Nothing to record unless the order completed with money kept
+  IF v_order.status IS DISTINCT FROM 'completed' OR v_net <= 0 THEN
+    DELETE FROM public.ledger WHERE order_id = p_order_id;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT crop_name FROM public.marketplace_listings WHERE id = v_order.listing_id),
+    (SELECT crop_name FROM public.contracts WHERE id = v_order.contract_id)
+  ) INTO v_crop_name;
+
+  -- Step 3: Post (or adjust) the seller's income and the buyer's expense
+  INSERT INTO public.ledger (user_id, order_id, type, item, quantity, amount, notes)
+  VALUES
+    (
+      v_order.seller_id, v_order.id, 'income',
+      COALESCE(v_crop_name, 'Marketplace sale'), v_order.quantity, v_net,
+      format('Marketplace sale, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note
+    ),
+    (
+      v_order.buyer_id, v_order.id, 'expense',
+      COALESCE(v_crop_name, 'Marketplace purchase'), v_order.quantity, v_net,
+      format('Marketplace purchase, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note
+    )
+  ON CONFLICT (order_id, user_id) DO UPDATE
+  SET amount = EXCLUDED.amount, notes = EXCLUDED.notes;
+END;
+$$;
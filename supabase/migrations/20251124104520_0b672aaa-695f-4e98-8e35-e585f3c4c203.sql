@@ -0,0 +1,205 @@
+-- Listing analytics: buyer activity on each listing, so sellers can see where a
+-- listing loses buyers (seen in Browse, opened, chatted about, ordered).
+-- One row per viewer, listing, event and day; repeat views the same day are not counted.
+CREATE TABLE public.listing_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid NOT NULL REFERENCES public.marketplace_listings(id) ON DELETE CASCADE,
+  viewer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('impression', 'detail_view', 'chat')),
+  event_date date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (listing_id, viewer_id, event_type, event_date)
+);
+
+CREATE INDEX idx_listing_events_listing_date ON public.listing_events(listing_id, event_date);
+
+-- No policies: events are written by record_listing_events() and sellers only
+-- ever see counts through the analytics functions, never who viewed
+ALTER TABLE public.listing_events ENABLE ROW LEVEL SECURITY;
+
+-- Function to record buyer activity on listings
+--   impression  -> listing shown in Browse results
+--   detail_view -> listing opened in the details dialog
+--   chat        -> buyer messaged the seller about the listing (counted once per buyer)
+-- Sellers' activity on their own listings is ignored
+CREATE OR REPLACE FUNCTION public.record_listing_events(p_listing_ids uuid[], p_event_type text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_event_type NOT IN ('impression', 'detail_view', 'chat') THEN
+    RAISE EXCEPTION 'Unknown listing event: %', p_event_type;
+  END IF;
+
+  -- A Browse page holds at most 50 listings
+  INSERT INTO public.listing_events (listing_id, viewer_id, event_type)
+  SELECT ml.id, v_user_id, p_event_type
+  FROM public.marketplace_listings ml
+  WHERE ml.id = ANY(p_listing_ids[1:50])
+    AND ml.seller_id <> v_user_id
+    AND (p_event_type <> 'chat' OR NOT EXISTS (
+      SELECT 1 FROM public.listing_events le
+      WHERE le.listing_id = ml.id
+        AND le.viewer_id = v_user_id
+        AND le.event_type = 'chat'
+    ))
+  ON CONFLICT (listing_id, viewer_id, event_type, event_date) DO NOTHING;
+END;
+$$;
+
+-- Function to summarise the caller's listings over the last p_days days
+-- (active listings, plus any that ended within the period)
+-- market_price_per_kg: average market_prices price for the crop over the last 30 days
+-- in the listing's region (same place-name rule as search_listings), or nationally
+-- when the region has no prices; market_scope says which
+CREATE OR REPLACE FUNCTION public.get_listing_analytics(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  listing_id uuid,
+  crop_name text,
+  location text,
+  price_per_kg numeric,
+  unit text,
+  unit_kg numeric,
+  sale_type text,
+  status text,
+  created_at timestamptz,
+  impressions bigint,
+  detail_views bigint,
+  chats bigint,
+  orders bigint,
+  market_price_per_kg numeric,
+  market_scope text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT CURRENT_DATE - (LEAST(GREATEST(COALESCE(p_days, 30), 1), 365) - 1) AS since
+  )
+  SELECT
+    ml.id,
+    ml.crop_name,
+    ml.location,
+    ml.price_per_kg,
+    ml.unit,
+    ml.unit_kg,
+    ml.sale_type,
+    ml.status,
+    ml.created_at,
+    COALESCE(ev.impressions, 0),
+    COALESCE(ev.detail_views, 0),
+    COALESCE(ev.chats, 0),
+    COALESCE(od.orders, 0),
+    ROUND(COALESCE(regional.avg_price, national.avg_price), 2),
+    CASE
+      WHEN regional.avg_price IS NOT NULL THEN 'region'
+      WHEN national.avg_price IS NOT NULL THEN 'national'
+    END
+  FROM marketplace_listings ml
+  CROSS JOIN params
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE le.event_type = 'impression') AS impressions,
+      COUNT(*) FILTER (WHERE le.event_type = 'detail_view') AS detail_views,
+      COUNT(*) FILTER (WHERE le.event_type = 'chat') AS chats
+    FROM listing_events le
+    WHERE le.listing_id = ml.id
+      AND le.event_date >= params.since
+  ) ev ON true
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS orders
+    FROM orders o
+    WHERE o.listing_id = ml.id
+      AND o.created_at::date >= params.since
+  ) od ON true
+  LEFT JOIN LATERAL (
+    SELECT AVG(mp.price_per_kg) AS avg_price
+    FROM market_prices mp
+    WHERE LOWER(mp.crop_name) = LOWER(ml.crop_name)
+      AND mp.recorded_at >= now() - interval '30 days'
+      AND (LOWER(TRIM(ml.location)) LIKE '%' || LOWER(TRIM(mp.region)) || '%'
+        OR LOWER(TRIM(mp.region)) LIKE '%' || LOWER(TRIM(ml.location)) || '%')
+  ) regional ON true
+  LEFT JOIN LATERAL (
+    SELECT AVG(mp.price_per_kg) AS avg_price
+    FROM market_prices mp
+    WHERE LOWER(mp.crop_name) = LOWER(ml.crop_name)
+      AND mp.recorded_at >= now() - interval '30 days'
+  ) national ON true
+  WHERE ml.seller_id = auth.uid()
+    AND (ml.status = 'active' OR ml.updated_at::date >= params.since)
+  ORDER BY ml.created_at DESC;
+$$;
+
+-- Function to chart the caller's listing activity per day over the last p_days days,
+-- for all their listings or just p_listing_id. Days without activity return zeros.
+CREATE OR REPLACE FUNCTION public.get_listing_analytics_series(
+  p_days integer DEFAULT 30,
+  p_listing_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  day date,
+  impressions bigint,
+  detail_views bigint,
+  chats bigint,
+  orders bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT CURRENT_DATE - (LEAST(GREATEST(COALESCE(p_days, 30), 1), 365) - 1) AS since
+  ),
+  own AS (
+    SELECT ml.id
+    FROM marketplace_listings ml
+    WHERE ml.seller_id = auth.uid()
+      AND (p_listing_id IS NULL OR ml.id = p_listing_id)
+  ),
+  days AS (
+    SELECT generate_series(params.since, CURRENT_DATE, interval '1 day')::date AS day
+    FROM params
+  ),
+  events AS (
+    SELECT
+      le.event_date AS day,
+      COUNT(*) FILTER (WHERE le.event_type = 'impression') AS impressions,
+      COUNT(*) FILTER (WHERE le.event_type = 'detail_view') AS detail_views,
+      COUNT(*) FILTER (WHERE le.event_type = 'chat') AS chats
+    FROM listing_events le
+    CROSS JOIN params
+    WHERE le.listing_id IN (SELECT id FROM own)
+      AND le.event_date >= params.since
+    GROUP BY le.event_date
+  ),
+  placed AS (
+    SELECT o.created_at::date AS day, COUNT(*) AS orders
+    FROM orders o
+    CROSS JOIN params
+    WHERE o.listing_id IN (SELECT id FROM own)
+      AND o.created_at::date >= params.since
+    GROUP BY o.created_at::date
+  )
+  SELECT
+    d.day,
+    COALESCE(e.impressions, 0),
+    COALESCE(e.detail_views, 0),
+    COALESCE(e.chats, 0),
+    COALESCE(p.orders, 0)
+  FROM days d
+  LEFT JOIN events e ON e.day = d.day
+  LEFT JOIN placed p ON p.day = d.day
+  ORDER BY d.day;
+$$;
@@ -0,0 +1,95 @@
+-- Price guidance for new listings: what the crop is fetching in the seller's region
+-- from three sources, each falling back to the whole country when the region has no data:
+--   market  -> average market_prices price over the last 30 days
+--   orders  -> median price of completed marketplace orders placed in the last 60 days
+--              (goods only, delivery fees excluded)
+--   listings-> median price of other sellers' active fixed-price listings
+-- Region matching uses the same place-name rule as search_listings.
+-- Individual orders stay private; only aggregates are returned.
+CREATE OR REPLACE FUNCTION public.get_price_suggestion(p_crop_name text, p_location text DEFAULT NULL)
+RETURNS TABLE (
+  market_price numeric,
+  market_scope text,
+  order_price numeric,
+  order_count bigint,
+  order_scope text,
+  listing_price numeric,
+  listing_count bigint,
+  listing_scope text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      LOWER(TRIM(p_crop_name)) AS crop,
+      NULLIF(LOWER(TRIM(p_location)), '') AS region
+  ),
+  market AS (
+    SELECT
+      AVG(mp.price_per_kg) FILTER (WHERE params.region IS NOT NULL
+        AND (LOWER(TRIM(mp.region)) LIKE '%' || params.region || '%'
+          OR params.region LIKE '%' || LOWER(TRIM(mp.region)) || '%')) AS regional,
+      AVG(mp.price_per_kg) AS national
+    FROM market_prices mp
+    CROSS JOIN params
+    WHERE LOWER(TRIM(mp.crop_name)) = params.crop
+      AND mp.recorded_at >= now() - interval '30 days'
+  ),
+  sold AS (
+    SELECT
+      (o.amount - o.delivery_fee) / o.quantity AS price_per_kg,
+      params.region IS NOT NULL
+        AND (LOWER(TRIM(ml.location)) LIKE '%' || params.region || '%'
+          OR params.region LIKE '%' || LOWER(TRIM(ml.location)) || '%') AS in_region
+    FROM orders o
+    JOIN marketplace_listings ml ON ml.id = o.listing_id
+    CROSS JOIN params
+    WHERE o.status = 'completed'
+      AND o.quantity > 0
+      AND o.created_at >= now() - interval '60 days'
+      AND LOWER(TRIM(ml.crop_name)) = params.crop
+  ),
+  sold_stats AS (
+    SELECT
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY price_per_kg) FILTER (WHERE in_region) AS regional,
+      COUNT(*) FILTER (WHERE in_region) AS regional_count,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY price_per_kg) AS national,
+      COUNT(*) AS national_count
+    FROM sold
+  ),
+  competing AS (
+    SELECT
+      ml.price_per_kg,
+      params.region IS NOT NULL
+        AND (LOWER(TRIM(ml.location)) LIKE '%' || params.region || '%'
+          OR params.region LIKE '%' || LOWER(TRIM(ml.location)) || '%') AS in_region
+    FROM marketplace_listings ml
+    CROSS JOIN params
+    WHERE ml.status = 'active'
+      AND ml.sale_type = 'fixed'
+      AND ml.available_quantity > 0
+      AND ml.seller_id IS DISTINCT FROM auth.uid()
+      AND LOWER(TRIM(ml.crop_name)) = params.crop
+  ),
+  competing_stats AS (
+    SELECT
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY price_per_kg) FILTER (WHERE in_region) AS regional,
+      COUNT(*) FILTER (WHERE in_region) AS regional_count,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY price_per_kg) AS national,
+      COUNT(*) AS national_count
+    FROM competing
+  )
+  SELECT
+    ROUND(COALESCE(m.regional, m.national), 2),
+    CASE WHEN m.regional IS NOT NULL THEN 'region' WHEN m.national IS NOT NULL THEN 'national' END,
+    ROUND(COALESCE(s.regional, s.national)::numeric, 2),
+    CASE WHEN s.regional_count > 0 THEN s.regional_count ELSE s.national_count END,
+    CASE WHEN s.regional_count > 0 THEN 'region' WHEN s.national_count > 0 THEN 'national' END,
+    ROUND(COALESCE(c.regional, c.national)::numeric, 2),
+    CASE WHEN c.regional_count > 0 THEN c.regional_count ELSE c.national_count END,
+    CASE WHEN c.regional_count > 0 THEN 'region' WHEN c.national_count > 0 THEN 'national' END
+  FROM market m, sold_stats s, competing_stats c;
+$$;
@@ -0,0 +1,206 @@
+-- Stored ledger categories. Until now the Finances page guessed an expense's
+-- category from its item text on every render, so a wrong guess couldn't be fixed.
+-- Categories are now saved on each entry, can be edited, and users can add their
+-- own "item contains X -> category Y" rules that win over the built-in keywords.
+
+-- Function listing the categories allowed for a ledger entry type
+-- Keep in sync with EXPENSE_CATEGORIES / INCOME_CATEGORIES in src/utils/ledgerCategories.ts
+CREATE OR REPLACE FUNCTION public.ledger_categories(p_type text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_type
+    WHEN 'expense' THEN ARRAY[
+      'Seeds', 'Fertilizer', 'Labor', 'Equipment', 'Pesticides', 'Irrigation',
+      'Fuel', 'Transport', 'Land & Rent', 'Livestock', 'Other'
+    ]
+    WHEN 'income' THEN ARRAY[
+      'Crop Sales', 'Livestock Sales', 'Services & Hire', 'Grants & Subsidies', 'Other'
+    ]
+    ELSE ARRAY[]::text[]
+  END;
+$$;
+
+-- Function to guess a category from the item text with the built-in keywords
+-- Same rules as defaultCategory() in src/utils/ledgerCategories.ts; the expense
+-- keywords are the ones the Finances page used before categories were stored
+CREATE OR REPLACE FUNCTION public.default_ledger_category(p_type text, p_item text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH item AS (SELECT LOWER(COALESCE(p_item, '')) AS v)
+  SELECT CASE
+    WHEN p_type = 'expense' THEN CASE
+      WHEN v LIKE '%seed%' THEN 'Seeds'
+      WHEN v LIKE '%fertilizer%' OR v LIKE '%manure%' OR v LIKE '%compost%' THEN 'Fertilizer'
+      WHEN v LIKE '%labor%' OR v LIKE '%labour%' OR v LIKE '%worker%' OR v LIKE '%wages%' THEN 'Labor'
+      WHEN v LIKE '%equipment%' OR v LIKE '%tool%' OR v LIKE '%machinery%' OR v LIKE '%tractor%' THEN 'Equipment'
+      WHEN v LIKE '%pesticide%' OR v LIKE '%herbicide%' OR v LIKE '%insecticide%' OR v LIKE '%fungicide%' THEN 'Pesticides'
+      WHEN v LIKE '%water%' OR v LIKE '%irrigation%' OR v LIKE '%pump%' THEN 'Irrigation'
+      WHEN v LIKE '%fuel%' OR v LIKE '%diesel%' OR v LIKE '%petrol%' OR v LIKE '%gas%' THEN 'Fuel'
+      WHEN v LIKE '%transport%' OR v LIKE '%delivery%' OR v LIKE '%shipping%' THEN 'Transport'
+      WHEN v LIKE '%rent%' OR v LIKE '%lease%' OR v LIKE '%land%' THEN 'Land & Rent'
+      WHEN v LIKE '%feed%' OR v LIKE '%livestock%' OR v LIKE '%animal%' THEN 'Livestock'
+      ELSE 'Other'
+    END
+    ELSE CASE
+      WHEN v LIKE '%grant%' OR v LIKE '%subsidy%' OR v LIKE '%subsidies%' THEN 'Grants & Subsidies'
+      WHEN v LIKE '%milk%' OR v LIKE '%egg%' OR v LIKE '%cattle%' OR v LIKE '%cow%' OR v LIKE '%goat%'
+        OR v LIKE '%sheep%' OR v LIKE '%chicken%' OR v LIKE '%poultry%' OR v LIKE '%livestock%' THEN 'Livestock Sales'
+      WHEN v LIKE '%hire%' OR v LIKE '%service%' OR v LIKE '%rent%' OR v LIKE '%lease%' THEN 'Services & Hire'
+      WHEN v LIKE '%sale%' OR v LIKE '%sold%' OR v LIKE '%harvest%' OR v LIKE '%produce%' THEN 'Crop Sales'
+      ELSE 'Other'
+    END
+  END
+  FROM item;
+$$;
+
+-- Add the category column and backfill it from the built-in keywords
+ALTER TABLE public.ledger ADD COLUMN category text;
+
+UPDATE public.ledger
+SET category = CASE
+  -- Marketplace sales were always crop sales
+  WHEN order_id IS NOT NULL AND type = 'income' THEN 'Crop Sales'
+  ELSE public.default_ledger_category(type, item)
+END;
+
+ALTER TABLE public.ledger
+  ALTER COLUMN category SET NOT NULL,
+  ALTER COLUMN category SET DEFAULT 'Other',
+  ADD CONSTRAINT ledger_category_check CHECK (category = ANY(public.ledger_categories(type)));
+
+-- Per-user categorization rules
+CREATE TABLE public.ledger_category_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('expense', 'income')),
+  -- "Item contains", stored lower-cased and trimmed so matching ignores case
+  match_text text NOT NULL CHECK (match_text = LOWER(TRIM(match_text)) AND length(match_text) BETWEEN 2 AND 60),
+  category text NOT NULL CHECK (category = ANY(public.ledger_categories(type))),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, type, match_text)
+);
+
+ALTER TABLE public.ledger_category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own category rules"
+  ON public.ledger_category_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own category rules"
+  ON public.ledger_category_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own category rules"
+  ON public.ledger_category_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own category rules"
+  ON public.ledger_category_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Function to categorize an item for a user: their most specific matching rule
+-- (longest text, then newest), or the built-in keywords when no rule matches.
+-- p_fallback replaces the built-in guess, e.g. 'Crop Sales' for marketplace sales.
+-- Runs as the caller, so clients only ever see their own rules.
+CREATE OR REPLACE FUNCTION public.categorize_ledger_item(
+  p_user_id uuid,
+  p_type text,
+  p_item text,
+  p_fallback text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT r.category
+      FROM public.ledger_category_rules r
+      WHERE r.user_id = p_user_id
+        AND r.type = p_type
+        AND POSITION(r.match_text IN LOWER(COALESCE(p_item, ''))) > 0
+      ORDER BY length(r.match_text) DESC, r.created_at DESC
+      LIMIT 1
+    ),
+    p_fallback,
+    public.default_ledger_category(p_type, p_item)
+  );
+$$;
+
+-- Marketplace entries are categorized too: the seller's sale as 'Crop Sales'
+-- unless one of their rules says otherwise, the buyer's purchase by their rules
+-- and the built-in keywords. The upsert leaves categories alone, so a category
+-- the user changed survives a refund adjustment.
+CREATE OR REPLACE FUNCTION public.sync_order_ledger_entries(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_crop_name text;
+  v_refunded numeric := 0;
+  v_net numeric;
+  v_refund_note text := '';
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Step 1: Work out what the sale is worth after refunds
+  SELECT COALESCE(SUM(
+    CASE status
+      WHEN 'refunded' THEN amount
+      WHEN 'partially_refunded' THEN COALESCE(refunded_amount, 0)
+      ELSE 0
+    END
+  ), 0) INTO v_refunded
+  FROM public.payments
+  WHERE order_id = p_order_id;
+
+  v_net := v_order.amount - v_refunded;
+
+  IF v_refunded > 0 THEN
+    v_refund_note := format(' (KES %s refunded)', v_refunded);
+  END IF;
+
+  -- Step 2: Nothing to record unless the order completed with money kept
+  IF v_order.status IS DISTINCT FROM 'completed' OR v_net <= 0 THEN
+    DELETE FROM public.ledger WHERE order_id = p_order_id;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT crop_name FROM public.marketplace_listings WHERE id = v_order.listing_id),
+    (SELECT crop_name FROM public.contracts WHERE id = v_order.contract_id)
+  ) INTO v_crop_name;
+
+  -- Step 3: Post (or adjust) the seller's income and the buyer's expense
+  INSERT INTO public.ledger (user_id, order_id, type, item, quantity, amount, notes, category)
+  VALUES
+    (
+      v_order.seller_id, v_order.id, 'income',
+      COALESCE(v_crop_name, 'Marketplace sale'), v_order.quantity, v_net,
+      format('Marketplace sale, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note,
+      public.categorize_ledger_item(v_order.seller_id, 'income', v_crop_name, 'Crop Sales')
+    ),
+    (
+      v_order.buyer_id, v_order.id, 'expense',
+      COALESCE(v_crop_name, 'Marketplace purchase'), v_order.quantity, v_net,
+      format('Marketplace purchase, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note,
+      public.categorize_ledger_item(v_order.buyer_id, 'expense', v_crop_name)
+    )
+  ON CONFLICT (order_id, user_id) DO UPDATE
+  SET amount = EXCLUDED.amount, notes = EXCLUDED.notes;
+END;
+$$;
@@ -0,0 +1,256 @@
+-- Per-planting profitability: ledger entries can be linked to one of the user's
+-- crops records, or split across several plantings by acreage (shared costs such
+-- as a tractor hire or a lease covering the whole farm). Crops record what was
+-- actually harvested so cost per kg can be worked out.
+
+-- Step 1: Harvest figures on crops
+ALTER TABLE public.crops
+  ADD COLUMN harvested_quantity numeric CHECK (harvested_quantity >= 0), -- kg actually harvested
+  ADD COLUMN harvested_at date;
+
+-- Step 2: Direct link from a ledger entry to a single planting
+ALTER TABLE public.ledger
+  ADD COLUMN crop_id uuid REFERENCES public.crops(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ledger_crop_id ON public.ledger(crop_id) WHERE crop_id IS NOT NULL;
+
+-- Function to stop entries being linked to someone else's planting
+CREATE OR REPLACE FUNCTION public.validate_ledger_crop()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.crop_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.crops WHERE id = NEW.crop_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Ledger entries can only be linked to your own plantings';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_ledger_validate_crop
+  BEFORE INSERT OR UPDATE OF crop_id ON public.ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_ledger_crop();
+
+-- Step 3: Shares of an entry split across plantings. Only used while the entry
+-- has no crop_id; written by set_ledger_crops()
+CREATE TABLE public.ledger_crop_allocations (
+  ledger_id uuid NOT NULL REFERENCES public.ledger(id) ON DELETE CASCADE,
+  crop_id uuid NOT NULL REFERENCES public.crops(id) ON DELETE CASCADE,
+  share numeric NOT NULL CHECK (share > 0 AND share <= 1), -- Planting's acreage / total acreage
+  PRIMARY KEY (ledger_id, crop_id)
+);
+
+CREATE INDEX idx_ledger_crop_allocations_crop ON public.ledger_crop_allocations(crop_id);
+
+ALTER TABLE public.ledger_crop_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger allocations"
+  ON public.ledger_crop_allocations FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.ledger
+    WHERE ledger.id = ledger_crop_allocations.ledger_id
+      AND ledger.user_id = auth.uid()
+  ));
+
+-- Function to assign a ledger entry to plantings: none clears it, one links it
+-- directly, several split it by acreage
+CREATE OR REPLACE FUNCTION public.set_ledger_crops(p_ledger_id uuid, p_crop_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_crop_ids uuid[];
+  v_total_acreage numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.ledger WHERE id = p_ledger_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Ledger entry not found';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT crop_id), '{}') INTO v_crop_ids
+  FROM unnest(p_crop_ids) AS crop_id
+  WHERE crop_id IS NOT NULL;
+
+  IF (
+    SELECT COUNT(*) FROM public.crops
+    WHERE id = ANY(v_crop_ids) AND user_id = v_user_id
+  ) <> cardinality(v_crop_ids) THEN
+    RAISE EXCEPTION 'Choose plantings from your own crops';
+  END IF;
+
+  DELETE FROM public.ledger_crop_allocations WHERE ledger_id = p_ledger_id;
+
+  IF cardinality(v_crop_ids) <= 1 THEN
+    UPDATE public.ledger SET crop_id = v_crop_ids[1] WHERE id = p_ledger_id;
+    RETURN;
+  END IF;
+
+  -- Shared across plantings
+  IF EXISTS (SELECT 1 FROM public.crops WHERE id = ANY(v_crop_ids) AND acreage <= 0) THEN
+    RAISE EXCEPTION 'Set the acreage of each planting before splitting an entry across them';
+  END IF;
+
+  SELECT SUM(acreage) INTO v_total_acreage FROM public.crops WHERE id = ANY(v_crop_ids);
+
+  UPDATE public.ledger SET crop_id = NULL WHERE id = p_ledger_id;
+
+  INSERT INTO public.ledger_crop_allocations (ledger_id, crop_id, share)
+  SELECT p_ledger_id, id, acreage / v_total_acreage
+  FROM public.crops
+  WHERE id = ANY(v_crop_ids);
+END;
+$$;
+
+-- Function returning the caller's plantings with the income and costs linked to
+-- them: entries with a crop_id count in full, split entries by their share
+CREATE OR REPLACE FUNCTION public.get_crop_profitability()
+RETURNS TABLE (
+  crop_id uuid,
+  crop_name text,
+  acreage numeric,
+  planting_date date,
+  status text,
+  expected_yield numeric,
+  harvested_quantity numeric,
+  harvested_at date,
+  direct_costs numeric,
+  shared_costs numeric,
+  revenue numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT auth.uid() AS user_id
+  ),
+  linked AS (
+    SELECT l.crop_id, l.type, l.amount, false AS shared
+    FROM ledger l
+    CROSS JOIN params
+    WHERE l.user_id = params.user_id
+      AND l.crop_id IS NOT NULL
+    UNION ALL
+    SELECT a.crop_id, l.type, l.amount * a.share, true
+    FROM ledger_crop_allocations a
+    JOIN ledger l ON l.id = a.ledger_id
+    CROSS JOIN params
+    WHERE l.user_id = params.user_id
+      AND l.crop_id IS NULL
+  ),
+  totals AS (
+    SELECT
+      linked.crop_id,
+      SUM(amount) FILTER (WHERE type = 'expense' AND NOT shared) AS direct_costs,
+      SUM(amount) FILTER (WHERE type = 'expense' AND shared) AS shared_costs,
+      SUM(amount) FILTER (WHERE type = 'income') AS revenue,
+      COUNT(*) AS entry_count
+    FROM linked
+    GROUP BY linked.crop_id
+  )
+  SELECT
+    c.id,
+    c.crop_name,
+    c.acreage,
+    c.planting_date,
+    c.status,
+    c.expected_yield,
+    c.harvested_quantity,
+    c.harvested_at,
+    ROUND(COALESCE(t.direct_costs, 0), 2),
+    ROUND(COALESCE(t.shared_costs, 0), 2),
+    ROUND(COALESCE(t.revenue, 0), 2),
+    COALESCE(t.entry_count, 0)
+  FROM crops c
+  CROSS JOIN params
+  LEFT JOIN totals t ON t.crop_id = c.id
+  WHERE c.user_id = params.user_id
+  ORDER BY c.planting_date DESC;
+$$;
+
+-- Contract sales are grown from a known planting, so the seller's income is
+-- linked to the contract's crop record. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.sync_order_ledger_entries(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_crop_name text;
+  v_contract_crop_id uuid;
+  v_refunded numeric := 0;
+  v_net numeric;
+  v_refund_note text := '';
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Step 1: Work out what the sale is worth after refunds
+  SELECT COALESCE(SUM(
+    CASE status
+      WHEN 'refunded' THEN amount
+      WHEN 'partially_refunded' THEN COALESCE(refunded_amount, 0)
+      ELSE 0
+    END
+  ), 0) INTO v_refunded
+  FROM public.payments
+  WHERE order_id = p_order_id;
+
+  v_net := v_order.amount - v_refunded;
+
+  IF v_refunded > 0 THEN
+    v_refund_note := format(' (KES %s refunded)', v_refunded);
+  END IF;
+
+  -- Step 2: Nothing to record unless the order completed with money kept
+  IF v_order.status IS DISTINCT FROM 'completed' OR v_net <= 0 THEN
+    DELETE FROM public.ledger WHERE order_id = p_order_id;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT crop_name FROM public.marketplace_listings WHERE id = v_order.listing_id),
+    (SELECT crop_name FROM public.contracts WHERE id = v_order.contract_id)
+  ) INTO v_crop_name;
+
+  SELECT crop_id INTO v_contract_crop_id FROM public.contracts WHERE id = v_order.contract_id;
+
+  -- Step 3: Post (or adjust) the seller's income and the buyer's expense
+  INSERT INTO public.ledger (user_id, order_id, type, item, quantity, amount, notes, category, crop_id)
+  VALUES
+    (
+      v_order.seller_id, v_order.id, 'income',
+      COALESCE(v_crop_name, 'Marketplace sale'), v_order.quantity, v_net,
+      format('Marketplace sale, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note,
+      public.categorize_ledger_item(v_order.seller_id, 'income', v_crop_name, 'Crop Sales'),
+      v_contract_crop_id
+    ),
+    (
+      v_order.buyer_id, v_order.id, 'expense',
+      COALESCE(v_crop_name, 'Marketplace purchase'), v_order.quantity, v_net,
+      format('Marketplace purchase, order #%s', upper(left(v_order.id::text, 8))) || v_refund_note,
+      public.categorize_ledger_item(v_order.buyer_id, 'expense', v_crop_name),
+      NULL
+    )
+  ON CONFLICT (order_id, user_id) DO UPDATE
+  SET amount = EXCLUDED.amount, notes = EXCLUDED.notes;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Statement import for the ledger. Imported rows remember the reference of the
+-- transaction they came from (the M-Pesa receipt number), so importing an
+-- overlapping statement again skips transactions that are already in the ledger.
+ALTER TABLE public.ledger
+  ADD COLUMN import_ref text,
+  ADD CONSTRAINT ledger_import_ref_key UNIQUE (user_id, import_ref);
@@ -0,0 +1,316 @@
+-- Seasonal budgets: planned spend per expense category for a season, optionally
+-- for a single planting. Actual spend comes from the ledger; the owner is
+-- notified once when a budget passes 80% and again when it passes 100%.
+
+-- Function returning the season a date falls in, e.g. '2025-long'.
+-- Same rule as getSeason() in src/utils/seasons.ts: long rains March-August,
+-- short rains September-February (January and February belong to the short
+-- rains season that started the previous September)
+CREATE OR REPLACE FUNCTION public.season_of(p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_date) BETWEEN 3 AND 8 THEN EXTRACT(YEAR FROM p_date)::int || '-long'
+    WHEN EXTRACT(MONTH FROM p_date) <= 2 THEN (EXTRACT(YEAR FROM p_date)::int - 1) || '-short'
+    ELSE EXTRACT(YEAR FROM p_date)::int || '-short'
+  END;
+$$;
+
+-- Step 1: Budgets
+CREATE TABLE public.budgets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  season text NOT NULL CHECK (season ~ '^\d{4}-(long|short)$'),
+  crop_id uuid REFERENCES public.crops(id) ON DELETE CASCADE, -- NULL = whole farm
+  category text NOT NULL CHECK (category = ANY(public.ledger_categories('expense'))),
+  amount numeric NOT NULL CHECK (amount > 0),
+  -- Highest threshold already notified (0, 80 or 100), see check_budget_alerts()
+  alert_level smallint NOT NULL DEFAULT 0 CHECK (alert_level IN (0, 80, 100)),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One budget per category per season, for the whole farm or a planting
+CREATE UNIQUE INDEX budgets_scope_key ON public.budgets (
+  user_id, season, COALESCE(crop_id, '00000000-0000-0000-0000-000000000000'::uuid), category
+);
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budgets"
+  ON public.budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own budgets"
+  ON public.budgets FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (crop_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.crops WHERE crops.id = budgets.crop_id AND crops.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update their own budgets"
+  ON public.budgets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (crop_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.crops WHERE crops.id = budgets.crop_id AND crops.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can delete their own budgets"
+  ON public.budgets FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_budgets_updated_at
+  BEFORE UPDATE ON public.budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Actual spend per budget
+-- Function returning what has been spent against each of a user's budgets.
+-- Whole-farm budgets count the category's expenses dated in the season;
+-- planting budgets count the category's expenses linked to the planting
+-- (in full, or its acreage share of split entries), whenever they were dated
+CREATE OR REPLACE FUNCTION public.budget_actuals(p_user_id uuid)
+RETURNS TABLE (
+  budget_id uuid,
+  spent numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT p_user_id AS user_id
+  ),
+  expenses AS (
+    SELECT l.id, l.category, l.amount, l.crop_id, public.season_of(l.date) AS season
+    FROM ledger l
+    CROSS JOIN params
+    WHERE l.user_id = params.user_id
+      AND l.type = 'expense'
+  ),
+  crop_expenses AS (
+    SELECT e.crop_id, e.category, e.amount
+    FROM expenses e
+    WHERE e.crop_id IS NOT NULL
+    UNION ALL
+    SELECT a.crop_id, e.category, e.amount * a.share
+    FROM ledger_crop_allocations a
+    JOIN expenses e ON e.id = a.ledger_id
+    WHERE e.crop_id IS NULL
+  )
+  SELECT
+    b.id,
+    ROUND(COALESCE(
+      CASE
+        WHEN b.crop_id IS NULL THEN (
+          SELECT SUM(e.amount) FROM expenses e
+          WHERE e.season = b.season AND e.category = b.category
+        )
+        ELSE (
+          SELECT SUM(ce.amount) FROM crop_expenses ce
+          WHERE ce.crop_id = b.crop_id AND ce.category = b.category
+        )
+      END,
+    0), 2)
+  FROM budgets b
+  CROSS JOIN params
+  WHERE b.user_id = params.user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.budget_actuals(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function returning the caller's budgets with actual spend, optionally for one season
+CREATE OR REPLACE FUNCTION public.get_budget_status(p_season text DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  season text,
+  crop_id uuid,
+  crop_name text,
+  category text,
+  amount numeric,
+  spent numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT auth.uid() AS user_id
+  )
+  SELECT
+    b.id,
+    b.season,
+    b.crop_id,
+    c.crop_name,
+    b.category,
+    b.amount,
+    a.spent
+  FROM budgets b
+  CROSS JOIN params
+  JOIN public.budget_actuals(params.user_id) a ON a.budget_id = b.id
+  LEFT JOIN crops c ON c.id = b.crop_id
+  WHERE b.user_id = params.user_id
+    AND (p_season IS NULL OR b.season = p_season)
+  ORDER BY c.crop_name NULLS FIRST, b.category;
+$$;
+
+-- Step 3: Alerts
+-- Function to notify a user about budgets that passed 80% or 100% since they
+-- were last checked. A budget that drops back under a threshold (an expense
+-- removed, or the budget raised) is re-armed so crossing it again notifies again
+CREATE OR REPLACE FUNCTION public.check_budget_alerts(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget record;
+  v_season_label text;
+BEGIN
+  FOR v_budget IN
+    SELECT b.*, a.spent, c.crop_name,
+      CASE
+        WHEN a.spent >= b.amount THEN 100
+        WHEN a.spent >= b.amount * 0.8 THEN 80
+        ELSE 0
+      END AS level
+    FROM public.budgets b
+    JOIN public.budget_actuals(p_user_id) a ON a.budget_id = b.id
+    LEFT JOIN public.crops c ON c.id = b.crop_id
+    WHERE b.user_id = p_user_id
+  LOOP
+    CONTINUE WHEN v_budget.level = v_budget.alert_level;
+
+    UPDATE public.budgets SET alert_level = v_budget.level WHERE id = v_budget.id;
+
+    CONTINUE WHEN v_budget.level < v_budget.alert_level;
+
+    v_season_label := CASE
+      WHEN v_budget.season LIKE '%-long' THEN 'Long rains ' || left(v_budget.season, 4)
+      ELSE format('Short rains %s/%s', left(v_budget.season, 4), right((left(v_budget.season, 4)::int + 1)::text, 2))
+    END;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      p_user_id,
+      'system',
+      CASE v_budget.level
+        WHEN 100 THEN format('🚨 %s over budget', v_budget.category)
+        ELSE format('⚠️ %s budget 80%% used', v_budget.category)
+      END,
+      format('KES %s of your KES %s %s budget%s for %s is spent (%s%%).',
+        v_budget.spent, v_budget.amount, v_budget.category,
+        COALESCE(' for ' || v_budget.crop_name, ''), v_season_label,
+        ROUND(v_budget.spent / v_budget.amount * 100)),
+      jsonb_build_object(
+        'action', 'view_finances',
+        'budget_id', v_budget.id,
+        'season', v_budget.season
+      )
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_budget_alerts(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to check the budgets of every user whose ledger changed in a statement
+-- (statement-level, so a bulk import checks each user once)
+CREATE OR REPLACE FUNCTION public.ledger_budget_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    FOR v_user_id IN SELECT DISTINCT user_id FROM old_rows LOOP
+      PERFORM public.check_budget_alerts(v_user_id);
+    END LOOP;
+  ELSE
+    FOR v_user_id IN SELECT DISTINCT user_id FROM new_rows LOOP
+      PERFORM public.check_budget_alerts(v_user_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_ledger_insert_check_budgets
+  AFTER INSERT ON public.ledger
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.ledger_budget_alerts();
+
+CREATE TRIGGER on_ledger_update_check_budgets
+  AFTER UPDATE ON public.ledger
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.ledger_budget_alerts();
+
+CREATE TRIGGER on_ledger_delete_check_budgets
+  AFTER DELETE ON public.ledger
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.ledger_budget_alerts();
+
+-- Function to check budgets after an entry is split across plantings
+CREATE OR REPLACE FUNCTION public.allocation_budget_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  FOR v_user_id IN
+    SELECT DISTINCT l.user_id
+    FROM new_rows n
+    JOIN public.ledger l ON l.id = n.ledger_id
+  LOOP
+    PERFORM public.check_budget_alerts(v_user_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_ledger_allocations_check_budgets
+  AFTER INSERT ON public.ledger_crop_allocations
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.allocation_budget_alerts();
+
+-- Function to check a budget as soon as it is set or changed, so a budget set
+-- below what has already been spent alerts straight away
+CREATE OR REPLACE FUNCTION public.budget_changed_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.check_budget_alerts(NEW.user_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_budget_check_alerts
+  AFTER INSERT OR UPDATE OF amount, category, crop_id, season ON public.budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.budget_changed_alerts();
@@ -0,0 +1,144 @@
+-- Recurring ledger entries: templates for income and expenses that repeat
+-- weekly or monthly (wages, land lease, loan repayments). The recurring-ledger
+-- job posts each occurrence into the ledger when it falls due and notifies the
+-- owner.
+
+-- Step 1: Templates
+CREATE TABLE public.recurring_ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('expense', 'income')),
+  item text NOT NULL CHECK (length(trim(item)) BETWEEN 1 AND 200),
+  amount numeric NOT NULL CHECK (amount > 0),
+  quantity numeric,
+  category text NOT NULL CHECK (category = ANY(public.ledger_categories(type))),
+  notes text,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  start_date date NOT NULL,
+  end_date date, -- Last day an occurrence may fall on; NULL = no end
+  next_date date NOT NULL, -- Next occurrence to post, advanced by post_recurring_ledger_entries()
+  active boolean NOT NULL DEFAULT true, -- False when paused or past end_date
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date),
+  CHECK (next_date >= start_date)
+);
+
+CREATE INDEX idx_recurring_ledger_entries_due
+  ON public.recurring_ledger_entries(next_date)
+  WHERE active;
+
+ALTER TABLE public.recurring_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring entries"
+  ON public.recurring_ledger_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own recurring entries"
+  ON public.recurring_ledger_entries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring entries"
+  ON public.recurring_ledger_entries FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring entries"
+  ON public.recurring_ledger_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_ledger_entries_updated_at
+  BEFORE UPDATE ON public.recurring_ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Ledger rows remember the template they were posted from. One row per
+-- template per date, so posting the same occurrence twice does nothing
+ALTER TABLE public.ledger
+  ADD COLUMN recurring_id uuid REFERENCES public.recurring_ledger_entries(id) ON DELETE SET NULL,
+  ADD CONSTRAINT ledger_recurring_date_key UNIQUE (recurring_id, date);
+
+-- Function returning the occurrence after p_date of a schedule starting on
+-- p_start_date. Monthly schedules keep to the start day, falling back to the
+-- last day of shorter months (31 Jan, 29 Feb, 31 Mar).
+-- Same rule as getNextRecurringDate() in src/utils/recurringEntries.ts
+CREATE OR REPLACE FUNCTION public.next_recurring_date(p_start_date date, p_frequency text, p_date date)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'weekly' THEN p_date + 7
+    ELSE (p_start_date + make_interval(months => (
+      (EXTRACT(YEAR FROM p_date) - EXTRACT(YEAR FROM p_start_date)) * 12
+      + EXTRACT(MONTH FROM p_date) - EXTRACT(MONTH FROM p_start_date)
+    )::int + 1))::date
+  END;
+$$;
+
+-- Step 3: Posting
+-- Function to post every occurrence of a template that has fallen due, called
+-- by the recurring-ledger job. A missed run catches up: all due dates up to
+-- today (and the end date) are posted. Deactivates the template once past its end.
+-- Returns what the job needs to notify the owner, or NULL if nothing was posted
+CREATE OR REPLACE FUNCTION public.post_recurring_ledger_entries(p_recurring_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry public.recurring_ledger_entries%ROWTYPE;
+  v_date date;
+  v_posted date[] := '{}';
+  v_active boolean;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.recurring_ledger_entries
+  WHERE id = p_recurring_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_entry.active OR v_entry.next_date > CURRENT_DATE THEN
+    RETURN NULL;
+  END IF;
+
+  v_date := v_entry.next_date;
+
+  WHILE v_date <= CURRENT_DATE AND (v_entry.end_date IS NULL OR v_date <= v_entry.end_date) LOOP
+    INSERT INTO public.ledger (user_id, type, item, amount, quantity, date, notes, category, recurring_id)
+    VALUES (
+      v_entry.user_id, v_entry.type, v_entry.item, v_entry.amount, v_entry.quantity, v_date,
+      v_entry.notes, v_entry.category, v_entry.id
+    )
+    ON CONFLICT (recurring_id, date) DO NOTHING;
+
+    IF FOUND THEN
+      v_posted := v_posted || v_date;
+    END IF;
+
+    v_date := public.next_recurring_date(v_entry.start_date, v_entry.frequency, v_date);
+  END LOOP;
+
+  v_active := v_entry.end_date IS NULL OR v_date <= v_entry.end_date;
+
+  UPDATE public.recurring_ledger_entries
+  SET next_date = v_date, active = v_active
+  WHERE id = v_entry.id;
+
+  IF cardinality(v_posted) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'recurring_id', v_entry.id,
+    'user_id', v_entry.user_id,
+    'type', v_entry.type,
+    'item', v_entry.item,
+    'amount', v_entry.amount,
+    'dates', to_jsonb(v_posted),
+    'next_date', CASE WHEN v_active THEN v_date END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_recurring_ledger_entries(uuid) FROM PUBLIC, anon, authenticated;
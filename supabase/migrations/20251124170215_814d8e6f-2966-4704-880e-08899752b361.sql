@@ -0,0 +1,141 @@
+-- Wanted board matching moves into the database. The matched buyer or seller is
+-- another user, and clients cannot insert notifications for other users (only
+-- SELECT and UPDATE policies on notifications), so the browser-side matcher's
+-- notifications were rejected. These triggers run as the table owner instead.
+--
+-- Same rules as isMatch() in src/utils/marketplaceMatching.ts: same crop name
+-- (ignoring case and surrounding spaces), listing location and request region
+-- equal or one containing the other, price at or below max_price (NULL = any
+-- price), and never a user's own listing or request.
+
+-- Function to notify buyers whose active requests match a new listing, and the
+-- seller once with a summary
+CREATE OR REPLACE FUNCTION public.match_listing_to_requests()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.buyer_requests%ROWTYPE;
+  v_count integer := 0;
+  v_total_wanted numeric := 0;
+  v_request_ids uuid[] := '{}';
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'active' OR NULLIF(LOWER(TRIM(NEW.location)), '') IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_request IN
+    SELECT br.*
+    FROM public.buyer_requests br
+    WHERE br.status = 'active'
+      AND br.buyer_id <> NEW.seller_id
+      AND LOWER(TRIM(br.crop_name)) = LOWER(TRIM(NEW.crop_name))
+      AND NULLIF(LOWER(TRIM(br.region)), '') IS NOT NULL
+      AND (strpos(LOWER(TRIM(NEW.location)), LOWER(TRIM(br.region))) > 0
+        OR strpos(LOWER(TRIM(br.region)), LOWER(TRIM(NEW.location))) > 0)
+      AND (br.max_price IS NULL OR NEW.price_per_kg <= br.max_price)
+  LOOP
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      v_request.buyer_id,
+      'order',
+      '🎯 Match Found',
+      format('%s is now listed in %s at KES %s/kg, matching your request',
+        NEW.crop_name, NEW.location, NEW.price_per_kg),
+      jsonb_build_object('listing_id', NEW.id, 'request_id', v_request.id)
+    );
+
+    v_count := v_count + 1;
+    v_total_wanted := v_total_wanted + v_request.quantity_needed;
+    v_request_ids := v_request_ids || v_request.id;
+  END LOOP;
+
+  -- One summary for the seller rather than one per buyer
+  IF v_count > 0 THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.seller_id,
+      'order',
+      '🙋 Buyers Looking for Your Produce',
+      format('%s buyer%s want%s %skg of %s near you',
+        v_count, CASE WHEN v_count = 1 THEN '' ELSE 's' END,
+        CASE WHEN v_count = 1 THEN 's' ELSE '' END, v_total_wanted, NEW.crop_name),
+      jsonb_build_object('listing_id', NEW.id, 'request_ids', to_jsonb(v_request_ids))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_listing_match_requests ON public.marketplace_listings;
+CREATE TRIGGER on_listing_match_requests
+  AFTER INSERT ON public.marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.match_listing_to_requests();
+
+-- Function to notify sellers whose active listings match a new buyer request
+-- (once per seller), and the buyer once with a summary
+CREATE OR REPLACE FUNCTION public.match_request_to_listings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'active' OR NULLIF(LOWER(TRIM(NEW.region)), '') IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  WITH matched AS (
+    SELECT ml.id, ml.seller_id, ml.price_per_kg
+    FROM public.marketplace_listings ml
+    WHERE ml.status = 'active'
+      AND ml.seller_id <> NEW.buyer_id
+      AND LOWER(TRIM(ml.crop_name)) = LOWER(TRIM(NEW.crop_name))
+      AND NULLIF(LOWER(TRIM(ml.location)), '') IS NOT NULL
+      AND (strpos(LOWER(TRIM(ml.location)), LOWER(TRIM(NEW.region))) > 0
+        OR strpos(LOWER(TRIM(NEW.region)), LOWER(TRIM(ml.location))) > 0)
+      AND (NEW.max_price IS NULL OR ml.price_per_kg <= NEW.max_price)
+  ),
+  -- Sellers with several matching listings are notified once
+  sellers AS (
+    SELECT DISTINCT ON (seller_id) id, seller_id
+    FROM matched
+    ORDER BY seller_id, price_per_kg
+  ),
+  summary AS (
+    SELECT COUNT(*) AS listing_count, MIN(price_per_kg) AS lowest_price, array_agg(id) AS listing_ids
+    FROM matched
+    HAVING COUNT(*) > 0
+  )
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  SELECT
+    s.seller_id,
+    'order',
+    '🙋 Buyers Looking for Your Produce',
+    format('1 buyer wants %skg of %s near you', NEW.quantity_needed, NEW.crop_name),
+    jsonb_build_object('listing_id', s.id, 'request_id', NEW.id)
+  FROM sellers s
+  UNION ALL
+  SELECT
+    NEW.buyer_id,
+    'order',
+    '🛍️ Listings Match Your Request',
+    format('%s %s listing%s match%s your request, from KES %s/kg',
+      sm.listing_count, NEW.crop_name, CASE WHEN sm.listing_count = 1 THEN '' ELSE 's' END,
+      CASE WHEN sm.listing_count = 1 THEN 'es' ELSE '' END, sm.lowest_price),
+    jsonb_build_object('request_id', NEW.id, 'listing_ids', to_jsonb(sm.listing_ids))
+  FROM summary sm;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_buyer_request_match_listings ON public.buyer_requests;
+CREATE TRIGGER on_buyer_request_match_listings
+  AFTER INSERT ON public.buyer_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.match_request_to_listings();
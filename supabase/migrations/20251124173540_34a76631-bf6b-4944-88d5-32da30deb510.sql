@@ -0,0 +1,112 @@
+-- Delivery codes are the seller's proof of handover, so they must not be
+-- predictable. random() is not a cryptographic generator; draw them from
+-- pgcrypto instead.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Function to draw a uniformly random six-digit code from gen_random_bytes()
+-- Values at or above the largest multiple of a million are redrawn, so no code
+-- is more likely than another
+CREATE OR REPLACE FUNCTION public.generate_delivery_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  v_value bigint;
+BEGIN
+  LOOP
+    v_value := ('x' || encode(extensions.gen_random_bytes(4), 'hex'))::bit(32)::bigint;
+    EXIT WHEN v_value < 4294000000;
+  END LOOP;
+
+  RETURN lpad((v_value % 1000000)::text, 6, '0');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_delivery_code() FROM PUBLIC, anon, authenticated;
+
+-- Function to issue a six-digit delivery code for every new order
+CREATE OR REPLACE FUNCTION public.create_delivery_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_delivery_codes (order_id, code)
+  VALUES (NEW.id, public.generate_delivery_code());
+
+  RETURN NEW;
+END;
+$$;
+
+-- Reissue the backfilled and trigger-issued codes of orders that have not left
+-- the seller yet. In-transit and disputed orders keep theirs, since the buyer
+-- may already have passed it on
+UPDATE public.order_delivery_codes c
+SET code = public.generate_delivery_code(), failed_attempts = 0
+FROM public.orders o
+WHERE o.id = c.order_id
+  AND o.status IN ('requested', 'confirmed')
+  AND c.confirmed_at IS NULL;
+
+-- Function to check a buyer's delivery choice before an order or offer is created
+-- Expects {method, address, notes, pickup_point_id, tariff_id, window_start, window_end}
+-- Ids are checked for uuid format before casting, so a malformed one gets the
+-- same readable error as a missing one
+CREATE OR REPLACE FUNCTION public.validate_delivery_details(p_details jsonb)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_method text := p_details->>'method';
+  v_tariff_id uuid;
+  v_pickup_point_id uuid;
+  v_window_start timestamptz := (p_details->>'window_start')::timestamptz;
+  v_window_end timestamptz := (p_details->>'window_end')::timestamptz;
+BEGIN
+  IF v_method IS NULL OR v_method NOT IN ('farm_pickup', 'market_pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Choose farm pickup, market pickup or delivery';
+  END IF;
+
+  IF p_details->>'tariff_id' ~* v_uuid_pattern THEN
+    v_tariff_id := (p_details->>'tariff_id')::uuid;
+  END IF;
+
+  IF p_details->>'pickup_point_id' ~* v_uuid_pattern THEN
+    v_pickup_point_id := (p_details->>'pickup_point_id')::uuid;
+  END IF;
+
+  IF v_method = 'delivery' THEN
+    IF NULLIF(TRIM(p_details->>'address'), '') IS NULL THEN
+      RAISE EXCEPTION 'Please provide a delivery address';
+    END IF;
+
+    IF v_tariff_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM public.delivery_tariffs
+      WHERE id = v_tariff_id AND active
+    ) THEN
+      RAISE EXCEPTION 'Choose a delivery distance';
+    END IF;
+  ELSE
+    IF v_method = 'market_pickup' AND (v_pickup_point_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM public.pickup_points
+      WHERE id = v_pickup_point_id AND active
+    )) THEN
+      RAISE EXCEPTION 'Choose a market pickup point';
+    END IF;
+
+    IF v_window_start IS NULL OR v_window_end IS NULL OR v_window_end <= v_window_start THEN
+      RAISE EXCEPTION 'Choose a pickup window';
+    END IF;
+
+    IF v_window_start < now() THEN
+      RAISE EXCEPTION 'The pickup window must be in the future';
+    END IF;
+  END IF;
+END;
+$$;
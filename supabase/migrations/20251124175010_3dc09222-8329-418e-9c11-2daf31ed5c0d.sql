@@ -0,0 +1,37 @@
+-- Order-posted ledger entries are only written by sync_order_ledger_entries().
+--
+-- When an order is cancelled or refunded in full, that function deletes its
+-- entries rather than posting reversing ones. This is deliberate: the ledger
+-- is a plain record of a farmer's own income and expenses, not double-entry
+-- books, and a sale that fell through never happened as far as the farmer's
+-- totals, budgets and crop profit are concerned. A reversing pair would leave
+-- both a sale and a matching "refund" in their history for every failed order.
+-- The order itself, its payments and its disputes keep the audit trail.
+--
+-- Because those entries are trusted to mirror real orders, clients must not
+-- be able to attach order_id themselves (which would also block the real
+-- entry through the one-entry-per-party constraint) or move it to another order.
+
+-- Function to reject order links written directly by clients. Writes made
+-- inside SECURITY DEFINER functions and foreign key actions run as the table
+-- owner, not as a client role, so they pass
+CREATE OR REPLACE FUNCTION public.protect_ledger_order_link()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+    AND NEW.order_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.order_id END) THEN
+    RAISE EXCEPTION 'Marketplace order entries are posted automatically and cannot be linked by hand';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_ledger_protect_order_link ON public.ledger;
+CREATE TRIGGER on_ledger_protect_order_link
+  BEFORE INSERT OR UPDATE OF order_id ON public.ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_ledger_order_link();
@@ -0,0 +1,6 @@
+-- sync_order_ledger_entries() is SECURITY DEFINER and only meant to run from
+-- the on_order_post_ledger and on_payment_reverse_ledger triggers. Left
+-- executable, any signed-in user could call it on any order and rewrite both
+-- parties' order entries (bringing back a deleted one, or resetting an edited
+-- amount). Revoked after its last redefinition in 20251124133015.
+REVOKE EXECUTE ON FUNCTION public.sync_order_ledger_entries(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,82 @@
+-- The delivery band (and so the fee) is the buyer's own pick, and nothing
+-- knows the real distance between farm and address. The seller now checks it:
+-- while the order is still requested they can move it to another band, and
+-- confirming the order accepts the fee. initiate-payment will not take payment
+-- for a requested delivery order, so the buyer only pays a fee the seller
+-- has agreed to.
+
+-- Function for the seller to correct the delivery band of a requested order
+-- Recomputes the fee like create_reserved_order() and swaps it in the amount
+CREATE OR REPLACE FUNCTION public.set_order_delivery_tariff(
+  p_order_id uuid,
+  p_tariff_id uuid
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_tariff public.delivery_tariffs%ROWTYPE;
+  v_fee numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_order.seller_id <> v_user_id THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'requested' OR v_order.delivery_method <> 'delivery' OR v_order.delivery_tariff_id IS NULL THEN
+    RAISE EXCEPTION 'The delivery fee can only be changed on a requested delivery order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status IN ('pending', 'held')
+  ) THEN
+    RAISE EXCEPTION 'The buyer has already paid for this order';
+  END IF;
+
+  SELECT * INTO v_tariff
+  FROM public.delivery_tariffs
+  WHERE id = p_tariff_id AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Choose a delivery distance';
+  END IF;
+
+  v_fee := ROUND(v_tariff.base_fee + v_tariff.fee_per_kg * v_order.quantity, 2);
+
+  IF v_tariff.id = v_order.delivery_tariff_id AND v_fee = v_order.delivery_fee THEN
+    RETURN v_fee;
+  END IF;
+
+  UPDATE public.orders
+  SET
+    amount = amount - delivery_fee + v_fee,
+    delivery_tariff_id = v_tariff.id,
+    delivery_fee = v_fee
+  WHERE id = p_order_id;
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    v_order.buyer_id,
+    'order',
+    '🚚 Delivery Fee Updated',
+    format('The seller set your delivery to %s: KES %s, making the order total KES %s',
+      v_tariff.label, v_fee, v_order.amount - v_order.delivery_fee + v_fee),
+    jsonb_build_object('order_id', p_order_id)
+  );
+
+  RETURN v_fee;
+END;
+$$;
@@ -0,0 +1,157 @@
+-- Two auction gaps:
+-- * create_reserved_order() priced a bid's delivery from its tariff without
+--   checking the tariff was still active, so a bid placed before a band was
+--   withdrawn still won at the old fee instead of falling through to the next bid.
+-- * A seller could move the reserve (price_per_kg) while bids were open.
+
+-- Function to check an auction listing's end time, freeze its reserve once bidding
+-- starts and keep closed lots off sale
+-- Runs after on_listing_created_set_expiry (triggers fire in name order), so expires_at is set
+CREATE OR REPLACE FUNCTION public.enforce_auction_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.sale_type = 'auction' THEN
+      IF NEW.auction_ends_at < now() + interval '1 hour' OR NEW.auction_ends_at > now() + interval '14 days' THEN
+        RAISE EXCEPTION 'An auction must run for between 1 hour and 14 days';
+      END IF;
+
+      -- Leave a day for the closer to sell the lot before the listing expires
+      IF NEW.auction_ends_at > NEW.expires_at - interval '1 day' THEN
+        RAISE EXCEPTION '% listings expire on %, so the auction must end at least a day earlier',
+          NEW.crop_name, to_char(NEW.expires_at, 'DD Mon YYYY');
+      END IF;
+    END IF;
+
+    NEW.auction_closed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.sale_type IS DISTINCT FROM OLD.sale_type
+    OR NEW.auction_ends_at IS DISTINCT FROM OLD.auction_ends_at THEN
+    RAISE EXCEPTION 'The sale type and auction end time cannot be changed after listing';
+  END IF;
+
+  -- Bids were placed against the reserve, so it stays put once the first one is in.
+  -- Bids are sealed from the seller, hence SECURITY DEFINER to see them
+  IF NEW.sale_type = 'auction'
+    AND NEW.price_per_kg IS DISTINCT FROM OLD.price_per_kg
+    AND EXISTS (SELECT 1 FROM public.bids WHERE listing_id = NEW.id) THEN
+    RAISE EXCEPTION 'The reserve price cannot be changed once bidding has started';
+  END IF;
+
+  -- Stock returned to a closed auction (e.g. the winning order was cancelled) is not
+  -- sold at a fixed price; the seller lists it again
+  IF NEW.sale_type = 'auction' AND NEW.auction_closed_at IS NOT NULL AND NEW.status = 'active' THEN
+    NEW.status := 'expired';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Internal helper: lock a listing, reserve stock and insert the order
+-- Auction lots can only be ordered for a winning bid (p_bid_id)
+-- A withdrawn delivery tariff fails the order, so close_auction() moves on to the next bid
+CREATE OR REPLACE FUNCTION public.create_reserved_order(
+  p_listing_id uuid,
+  p_buyer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_delivery_details jsonb,
+  p_offer_id uuid DEFAULT NULL,
+  p_bid_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing public.marketplace_listings%ROWTYPE;
+  v_remaining numeric;
+  v_order_id uuid;
+  v_method text := COALESCE(p_delivery_details->>'method', 'delivery');
+  v_tariff public.delivery_tariffs%ROWTYPE;
+  v_fee numeric := 0;
+BEGIN
+  -- Lock the listing so concurrent orders wait for this one to finish
+  SELECT * INTO v_listing
+  FROM public.marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  IF v_listing.seller_id = p_buyer_id THEN
+    RAISE EXCEPTION 'You cannot order your own listing';
+  END IF;
+
+  -- Auction lots are only sold to the winning bid when the auction closes
+  IF v_listing.sale_type = 'auction' AND p_bid_id IS NULL THEN
+    RAISE EXCEPTION 'This lot is sold by auction. Place a bid instead';
+  END IF;
+
+  IF p_quantity > v_listing.available_quantity THEN
+    RAISE EXCEPTION 'Only %kg of % is still available', v_listing.available_quantity, v_listing.crop_name;
+  END IF;
+
+  IF v_method = 'delivery' AND p_delivery_details->>'tariff_id' IS NOT NULL THEN
+    SELECT * INTO v_tariff
+    FROM public.delivery_tariffs
+    WHERE id = (p_delivery_details->>'tariff_id')::uuid AND active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This delivery option is no longer available';
+    END IF;
+
+    v_fee := ROUND(v_tariff.base_fee + v_tariff.fee_per_kg * p_quantity, 2);
+  END IF;
+
+  -- Reserve stock and flip to sold_out when nothing is left
+  v_remaining := v_listing.available_quantity - p_quantity;
+
+  UPDATE public.marketplace_listings
+  SET
+    available_quantity = v_remaining,
+    status = CASE WHEN v_remaining = 0 THEN 'sold_out' ELSE status END
+  WHERE id = p_listing_id;
+
+  INSERT INTO public.orders (
+    listing_id, buyer_id, seller_id, quantity, amount, status, delivery_details, offer_id, bid_id,
+    delivery_method, pickup_point_id, delivery_tariff_id, delivery_fee,
+    pickup_window_start, pickup_window_end
+  )
+  VALUES (
+    p_listing_id,
+    p_buyer_id,
+    v_listing.seller_id,
+    p_quantity,
+    p_quantity * COALESCE(p_price_per_kg, v_listing.price_per_kg) + v_fee,
+    'requested',
+    jsonb_strip_nulls(jsonb_build_object(
+      'address', p_delivery_details->>'address',
+      'notes', p_delivery_details->>'notes'
+    )),
+    p_offer_id,
+    p_bid_id,
+    v_method,
+    CASE WHEN v_method = 'market_pickup' THEN (p_delivery_details->>'pickup_point_id')::uuid END,
+    v_tariff.id,
+    v_fee,
+    CASE WHEN v_method <> 'delivery' THEN (p_delivery_details->>'window_start')::timestamptz END,
+    CASE WHEN v_method <> 'delivery' THEN (p_delivery_details->>'window_end')::timestamptz END
+  )
+  RETURNING id INTO v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_reserved_order(uuid, uuid, numeric, numeric, jsonb, uuid, uuid) FROM PUBLIC, anon, authenticated;